@@ -6,14 +6,14 @@ from pydantic import BaseModel, EmailStr, ValidationError
 from email_validator import validate_email, EmailNotValidError
 from datetime import datetime, timedelta
 from .database import SessionLocal
-from .models import User, UserSession
+from .models import User, UserSession, UserCheckin
 import os
 import random
 import uuid
 import logging
 from fastapi.responses import JSONResponse
 import shutil
-from typing import Optional
+from typing import Optional, List
 
 # 配置日志
 logging.basicConfig(level=logging.INFO)
@@ -53,6 +53,7 @@ class UserResponse(BaseModel):
     username: str
     avatar_url: Optional[str] = None
     created_at: datetime
+    is_admin: bool = False
     
 class LogoutResponse(BaseModel):
     message: str
@@ -343,6 +344,25 @@ def get_current_user(token: str = Depends(oauth2_scheme), db: Session = Depends(
     return user
 
 # 权限系统（普通用户/管理员）
+def get_admin_usernames() -> set:
+    """管理员用户名列表（环境变量 SHENYU_ADMIN_USERNAMES，逗号分隔）；每次读取，.env 在导入本模块之后加载也能生效"""
+    return {name.strip() for name in os.environ.get('SHENYU_ADMIN_USERNAMES', '').split(',') if name.strip()}
+
+def is_admin(user: User) -> bool:
+    return user.username in get_admin_usernames()
+
+def get_current_admin(user: User = Depends(get_current_user)):
+    """要求当前用户为管理员"""
+    if not is_admin(user):
+        logger.warning(f"Non-admin user attempted admin action: {user.username}")
+        raise HTTPException(
+            status_code=status.HTTP_403_FORBIDDEN,
+            detail={
+                "message": "需要管理员权限",
+                "code": "ADMIN_REQUIRED"
+            }
+        )
+    return user
 
 # 密码重置（伪实现，实际应结合邮箱验证码等）
 class PasswordReset(BaseModel):
@@ -526,5 +546,67 @@ def get_me(user: User = Depends(get_current_user)):
         "id": user.id,
         "username": user.username,
         "avatar_url": user.avatar_url,
-        "created_at": user.created_at
-    } 
\ No newline at end of file
+        "created_at": user.created_at,
+        "is_admin": is_admin(user)
+    } 
+# 打卡记录同步
+class CheckinRecord(BaseModel):
+    island_id: str
+    spot_id: str
+    visited_at: datetime
+    updated_at: Optional[datetime] = None
+    deleted: bool = False  # 取消打卡的墓碑记录
+
+class CheckinSync(BaseModel):
+    records: List[CheckinRecord]
+
+def serialize_checkins(user_id: int, db: Session) -> List[dict]:
+    checkins = db.query(UserCheckin).filter(UserCheckin.user_id == user_id).all()
+    return [
+        {
+            "island_id": c.island_id,
+            "spot_id": c.spot_id,
+            "visited_at": c.visited_at,
+            "updated_at": c.updated_at or c.visited_at,
+            "deleted": bool(c.deleted)
+        }
+        for c in checkins
+    ]
+
+@router.get('/checkins', response_model=List[CheckinRecord])
+def get_checkins(user: User = Depends(get_current_user), db: Session = Depends(get_db)):
+    """获取当前用户的全部打卡记录"""
+    return serialize_checkins(user.id, db)
+
+@router.put('/checkins', response_model=List[CheckinRecord])
+def put_checkins(data: CheckinSync, user: User = Depends(get_current_user), db: Session = Depends(get_db)):
+    """以客户端合并后的结果（含取消打卡的墓碑记录）覆盖当前用户的打卡记录"""
+    try:
+        db.query(UserCheckin).filter(UserCheckin.user_id == user.id).delete()
+        seen = set()
+        for record in data.records:
+            key = (record.island_id, record.spot_id)
+            if key in seen:
+                continue
+            seen.add(key)
+            db.add(UserCheckin(
+                user_id=user.id,
+                island_id=record.island_id,
+                spot_id=record.spot_id,
+                visited_at=record.visited_at,
+                updated_at=record.updated_at or record.visited_at,
+                deleted=record.deleted
+            ))
+        db.commit()
+        logger.info(f"Checkins synced for user {user.username}: {len(seen)} records")
+        return serialize_checkins(user.id, db)
+    except Exception as e:
+        db.rollback()
+        logger.error(f"Checkin sync error for user {user.username}: {str(e)}")
+        raise HTTPException(
+            status_code=500,
+            detail={
+                "message": "打卡记录同步失败",
+                "code": "INTERNAL_ERROR"
+            }
+        )
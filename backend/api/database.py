@@ -12,4 +12,13 @@ SessionLocal = sessionmaker(autocommit=False, autoflush=False, bind=engine)
 
 def init_db():
     # 可选：自动迁移/升级表结构（开发环境）
-    Base.metadata.create_all(bind=engine) 
\ No newline at end of file
+    Base.metadata.create_all(bind=engine)
+
+    # 旧数据库的打卡记录表补充 updated_at、deleted 列
+    with engine.begin() as conn:
+        columns = [row[1] for row in conn.exec_driver_sql('PRAGMA table_info(user_checkins)')]
+        if 'updated_at' not in columns:
+            conn.exec_driver_sql('ALTER TABLE user_checkins ADD COLUMN updated_at TIMESTAMP')
+        if 'deleted' not in columns:
+            conn.exec_driver_sql('ALTER TABLE user_checkins ADD COLUMN deleted BOOLEAN DEFAULT 0')
+ 
\ No newline at end of file
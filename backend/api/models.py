@@ -1,4 +1,4 @@
-from sqlalchemy import Column, Integer, String, Boolean, Float, Text, Enum, ForeignKey, TIMESTAMP
+from sqlalchemy import Column, Integer, String, Boolean, Float, Text, Enum, ForeignKey, TIMESTAMP, UniqueConstraint
 from sqlalchemy.ext.declarative import declarative_base
 from sqlalchemy.orm import relationship
 import enum
@@ -37,6 +37,7 @@ class User(Base):
     sessions = relationship('UserSession', back_populates='user')
     game_records = relationship('GameRecord', back_populates='user')
     image_processing_tasks = relationship('ImageProcessingTask', back_populates='user')
+    checkins = relationship('UserCheckin', back_populates='user')
 
 class Butterfly(Base):
     __tablename__ = 'butterflies'
@@ -97,6 +98,19 @@ class UserSession(Base):
     created_at = Column(TIMESTAMP)
     user = relationship('User', back_populates='sessions')
 
+class UserCheckin(Base):
+    """用户打卡记录表（每个CG打卡点一条）"""
+    __tablename__ = 'user_checkins'
+    __table_args__ = (UniqueConstraint('user_id', 'island_id', 'spot_id', name='uq_user_checkin_spot'),)
+    id = Column(Integer, primary_key=True, autoincrement=True)
+    user_id = Column(Integer, ForeignKey('users.id'), nullable=False)
+    island_id = Column(String(50), nullable=False)  # 对应 data/islands/*.json 的 id
+    spot_id = Column(String(100), nullable=False)  # 对应岛屿 spots 中的 id
+    visited_at = Column(TIMESTAMP, nullable=False)  # 打卡时间
+    updated_at = Column(TIMESTAMP)  # 最后修改时间（打卡或取消打卡），同步时以较新的一方为准
+    deleted = Column(Boolean, default=False)  # 已取消打卡：保留墓碑记录，避免被其他设备的旧数据重新加回
+    user = relationship('User', back_populates='checkins')
+
 class ProcessingStatusEnum(enum.Enum):
     """图片处理任务状态枚举"""
     processing = 'processing'
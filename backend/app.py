@@ -20,7 +20,7 @@ import os
 from pathlib import Path
 sys.path.insert(0, os.path.dirname(os.path.abspath(__file__)))
 sys.path.insert(0, os.path.abspath(os.path.join(os.path.dirname(__file__), '.')))
-from fastapi import FastAPI, HTTPException, Response
+from fastapi import FastAPI, HTTPException, Response, Depends
 from fastapi.responses import FileResponse
 from fastapi.middleware.cors import CORSMiddleware
 from fastapi.staticfiles import StaticFiles
@@ -96,9 +96,17 @@ class TrafficCard(BaseModel):
     category: str
     subcategory: Optional[str] = None
     order_index: int = 0
+    legs: Optional[List[dict]] = None  # 结构化换乘信息，前端以路线时间轴展示
     created_at: Optional[str] = None
     updated_at: Optional[str] = None
 
+class TrafficCardOrder(BaseModel):
+    id: int
+    order_index: int
+
+class TrafficCardReorder(BaseModel):
+    items: List[TrafficCardOrder]
+
 class AudioFile(BaseModel):
     name: str
     path: str
@@ -133,9 +141,15 @@ def init_database():
             subcategory TEXT,
             order_index INTEGER DEFAULT 0,
             created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
-            updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+            updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+            legs TEXT
         )
     ''')
+
+    # 旧数据库补充 legs 列（JSON 字符串）
+    cursor.execute('PRAGMA table_info(traffic_cards)')
+    if 'legs' not in [row[1] for row in cursor.fetchall()]:
+        cursor.execute('ALTER TABLE traffic_cards ADD COLUMN legs TEXT')
     
     # 插入默认数据
     default_cards = [
@@ -197,8 +211,78 @@ def init_database():
 换乘指引：
 • 跟随"电车"标识前往车站
 • 购票后通过检票口
-• 确认列车方向和终点站''', 'international', 'guangzhou', 6)
+• 确认列车方向和终点站''', 'international', 'guangzhou', 6),
+
+        ('详细换乘流程', '🚉', '''第一段：关西机场 → 新大阪
+• 乘坐：HARUKA（特级专列），京都方向
+• 时间：约50分钟
+• 站台：6号站台
+第二段：新大阪 → 冈山
+• 乘坐：Nozomi新干线
+• 时间：约1.5小时
+• 换乘：跟随"冈山"标识
+第三段：冈山 → 高松
+• 乘坐：JR濑户大桥线
+• 时间：约1小时
+• 终点：高松站''', 'domestic', 'kansai-takamatsu', 2),
+
+        ('购票实操', '🎫', '''自动售票机使用：
+• 选择语言：点击右上角"简体中文"
+• 选择目的地：输入"Takamatsu"
+• 选择车票类型：普通车/指定席
+• 支付：现金/IC卡/信用卡
+人工窗口购票：
+• 出示目的地日文：高松（たかまつ）
+• 说明人数和时间
+• 确认价格后付款''', 'domestic', 'kansai-takamatsu', 3),
+
+        ('实用工具', '📱', '''推荐APP：
+• Google Maps - 路线规划
+• Yahoo!乗換案内 - 日本专业换乘
+• JR West - 官方时刻表
+实用网站：
+• [JR West官网](https://www.westjr.co.jp/global/sc/) - 时刻与票价查询
+• [关西机场官网](https://www.kansai-airport.or.jp/cn/) - 交通信息''', 'domestic', 'kansai-takamatsu', 4)
     ]
+
+    # 默认卡片的换乘信息（按标题对应），与前端内置的 traffic_cards.json 保持一致
+    default_card_legs = {
+        '详细换乘流程': [
+        {
+            "mode": "train",
+            "from": "关西机场站",
+            "to": "新大阪站",
+            "line": "特急HARUKA（京都方向）",
+            "lineColor": "#0054a6",
+            "platform": "6号站台",
+            "durationMinutes": 50,
+            "fareJPY": 3000,
+            "ticketTip": "在JR售票机选择「特急券＋乘车券」，可一次买到高松；持ICOCA & HARUKA套票更划算"
+        },
+        {
+            "mode": "train",
+            "from": "新大阪站",
+            "to": "冈山站",
+            "line": "山阳新干线 Nozomi",
+            "lineColor": "#1e50a2",
+            "note": "在新大阪站跟随「新干线」标识前往换乘口",
+            "durationMinutes": 45,
+            "fareJPY": 6000,
+            "ticketTip": "新干线需要另外的特急券，出站时把车票一起投入换乘检票口"
+        },
+        {
+            "mode": "train",
+            "from": "冈山站",
+            "to": "高松站",
+            "line": "快速Marine Liner（JR濑户大桥线）",
+            "lineColor": "#f08300",
+            "note": "在冈山站跟随「高松」方向标识换乘",
+            "durationMinutes": 55,
+            "fareJPY": 1600,
+            "ticketTip": "前几节为自由席，普通乘车券即可乘坐"
+        }
+    ]
+    }
     
     # 检查是否已有数据
     cursor.execute('SELECT COUNT(*) FROM traffic_cards')
@@ -206,9 +290,20 @@ def init_database():
     
     if count == 0:
         cursor.executemany('''
-            INSERT INTO traffic_cards (title, icon, content, category, subcategory, order_index)
-            VALUES (?, ?, ?, ?, ?, ?)
-        ''', default_cards)
+            INSERT INTO traffic_cards (title, icon, content, category, subcategory, order_index, legs)
+            VALUES (?, ?, ?, ?, ?, ?, ?)
+        ''', [
+            card + (json.dumps(default_card_legs[card[0]], ensure_ascii=False) if card[0] in default_card_legs else None,)
+            for card in default_cards
+        ])
+    else:
+        # 旧数据库中的默认卡片补充换乘信息，管理员已经填写过的不覆盖
+        for title, icon, content, category, subcategory, order_index in default_cards:
+            if title in default_card_legs:
+                cursor.execute('''
+                    UPDATE traffic_cards SET legs = ?
+                    WHERE title = ? AND category = ? AND subcategory = ? AND (legs IS NULL OR legs = '')
+                ''', (json.dumps(default_card_legs[title], ensure_ascii=False), title, category, subcategory))
     
     conn.commit()
     conn.close()
@@ -540,112 +635,112 @@ async def get_music_playlist():
                 'artist': '水月陵',
                 'album': 'Summer Pockets OST',
                 'id': 'summer-pockets',
-                'cover': 'images/covers/1-summerpockets.webp'
+                'cover': '/images/covers/1-summerpockets.webp'
             },
             '2-麻枝准 - Sea, You & Me.mp3': {
                 'name': 'Sea, You & Me',
                 'artist': '麻枝准',
                 'album': 'Summer Pockets OST',
                 'id': 'sea-you-me',
-                'cover': 'images/covers/2-sea-you-me.webp'
+                'cover': '/images/covers/2-sea-you-me.webp'
             },
             '3-鈴木このみ,VISUAL ARTS  Key - アルカテイル.mp3': {
                 'name': 'アルカテイル',
                 'artist': '鈴木このみ',
                 'album': 'Summer Pockets OST',
                 'id': 'alcatale',
-                'cover': 'images/covers/3-op.webp'
+                'cover': '/images/covers/3-op.webp'
             },
             '4-水月陵 - 夜は短く、空は遠くて….wav': {
                 'name': '夜は短く、空は遠くて…',
                 'artist': '水月陵',
                 'album': 'Summer Pockets OST',
                 'id': 'yoru-wa-mijikaku',
-                'cover': 'images/covers/4-saikai.webp'
+                'cover': '/images/covers/4-saikai.webp'
             },
             '5-高森奈津美 - 比翼の蝶たち.flac': {
                 'name': '比翼の蝶たち',
                 'artist': '高森奈津美',
                 'album': 'Summer Pockets OST',
                 'id': 'hiyoku-no-chou',
-                'cover': 'images/covers/5-空门苍.webp'
+                'cover': '/images/covers/5-空门苍.webp'
             },
             '6-嶺内ともみ - Departure!.flac': {
                 'name': 'Departure!',
                 'artist': '嶺内ともみ',
                 'album': 'Summer Pockets OST',
                 'id': 'departure',
-                'cover': 'images/covers/6-久岛鸥.webp'
+                'cover': '/images/covers/6-久岛鸥.webp'
             },
             '7-嶺内ともみ - with.flac': {
                 'name': 'with',
                 'artist': '嶺内ともみ',
                 'album': 'Summer Pockets OST',
                 'id': 'with',
-                'cover': 'images/covers/7-with.webp'
+                'cover': '/images/covers/7-with.webp'
             },
             '8-小原好美 - 夏に君を待ちながら.flac': {
                 'name': '夏に君を待ちながら',
                 'artist': '小原好美',
                 'album': 'Summer Pockets OST',
                 'id': 'natsu-ni-kimi-wo',
-                'cover': 'images/covers/8-白羽.webp'
+                'cover': '/images/covers/8-白羽.webp'
             },
             '9-岩井映美里,VISUAL ARTS  Key - 紬の夏休み.flac': {
                 'name': '紬の夏休み',
                 'artist': '岩井映美里',
                 'album': 'Summer Pockets OST',
                 'id': 'tsumugi-no-natsuyasumi',
-                'cover': 'images/covers/9-紬的暑假.webp'
+                'cover': '/images/covers/9-紬的暑假.webp'
             },
             '10-岩井映美里 - Golden Hours.flac': {
                 'name': 'Golden Hours',
                 'artist': '岩井映美里',
                 'album': 'Summer Pockets OST',
                 'id': 'golden-hours',
-                'cover': 'images/covers/10-golden-hours.webp'
+                'cover': '/images/covers/10-golden-hours.webp'
             },
             '11-鳴瀬しろは(CV.小原好美),加藤うみ(CV.田中あいみ),VISUAL ARTS  Key - 魔法の絵日記.flac': {
                 'name': '魔法の絵日記',
                 'artist': '小原好美,田中あいみ',
                 'album': 'Summer Pockets OST',
                 'id': 'mahou-no-enikki',
-                'cover': 'images/covers/11-魔法日记本.webp'
+                'cover': '/images/covers/11-魔法日记本.webp'
             },
             '12-神山識(CV.ファイルーズあい),VISUAL ARTS  Key - Don\'t Cry Red.flac': {
                 'name': 'Don\'t Cry Red',
                 'artist': 'ファイルーズあい',
                 'album': 'Summer Pockets OST',
                 'id': 'dont-cry-red',
-                'cover': 'images/covers/12-神山识.webp'
+                'cover': '/images/covers/12-神山识.webp'
             },
             '13-水織静久(CV.小山さほみ),VISUAL ARTS  Key - 柔らかい記憶.flac': {
                 'name': '柔らかい記憶',
                 'artist': '小山さほみ',
                 'album': 'Summer Pockets OST',
                 'id': 'yawarakai-kioku',
-                'cover': 'images/covers/13-水织静久.webp'
+                'cover': '/images/covers/13-水织静久.webp'
             },
             '14-小原好美,VISUAL ARTS  Key - しろはの子守歌.flac': {
                 'name': 'しろはの子守歌',
                 'artist': '小原好美',
                 'album': 'Summer Pockets OST',
                 'id': 'shiroha-no-komoriuta',
-                'cover': 'images/covers/14-白羽的摇篮曲.webp'
+                'cover': '/images/covers/14-白羽的摇篮曲.webp'
             },
             '15-野村美樹(CV.一宮朔),VISUAL ARTS  Key - Dear Familiar.flac': {
                 'name': 'Dear Familiar',
                 'artist': '野村美樹(CV.一宮朔)',
                 'album': 'Summer Pockets OST',
                 'id': 'dear-familiar',
-                'cover': 'images/covers/15-野美希.webp'
+                'cover': '/images/covers/15-野美希.webp'
             },
             '16-鈴木このみ,VISUAL ARTS  Key - フィニステラー.flac': {
                 'name': 'フィニステラー',
                 'artist': '鈴木このみ',
                 'album': 'Summer Pockets OST',
                 'id': 'finisterre',
-                'cover': 'images/covers/16-加藤羽未.webp'
+                'cover': '/images/covers/16-加藤羽未.webp'
             }
         }
         
@@ -725,6 +820,10 @@ async def log_play_stats(data: dict):
     except Exception as e:
         raise HTTPException(status_code=500, detail=f"记录播放统计失败: {str(e)}")
 
+def serialize_legs(legs: Optional[List[dict]]) -> Optional[str]:
+    """换乘信息以 JSON 字符串存入 legs 列"""
+    return json.dumps(legs, ensure_ascii=False) if legs else None
+
 @app.get("/api/traffic-cards")
 async def get_traffic_cards():
     """获取交通卡片数据"""
@@ -734,7 +833,7 @@ async def get_traffic_cards():
         
         cursor.execute('''
             SELECT id, title, icon, content, category, subcategory, order_index, 
-                   created_at, updated_at 
+                   created_at, updated_at, legs 
             FROM traffic_cards 
             ORDER BY order_index ASC, created_at ASC
         ''')
@@ -750,7 +849,8 @@ async def get_traffic_cards():
                 'subcategory': row[5],
                 'order_index': row[6],
                 'created_at': row[7],
-                'updated_at': row[8]
+                'updated_at': row[8],
+                'legs': json.loads(row[9]) if row[9] else None
             })
         
         conn.close()
@@ -759,16 +859,17 @@ async def get_traffic_cards():
         raise HTTPException(status_code=500, detail=str(e))
 
 @app.post("/api/traffic-cards")
-async def create_traffic_card(card: TrafficCard):
+async def create_traffic_card(card: TrafficCard, admin=Depends(auth.get_current_admin)):
     """创建交通卡片"""
     try:
         conn = sqlite3.connect(DATABASE_PATH)
         cursor = conn.cursor()
         
         cursor.execute('''
-            INSERT INTO traffic_cards (title, icon, content, category, subcategory, order_index)
-            VALUES (?, ?, ?, ?, ?, ?)
-        ''', (card.title, card.icon, card.content, card.category, card.subcategory, card.order_index))
+            INSERT INTO traffic_cards (title, icon, content, category, subcategory, order_index, legs)
+            VALUES (?, ?, ?, ?, ?, ?, ?)
+        ''', (card.title, card.icon, card.content, card.category, card.subcategory, card.order_index,
+              serialize_legs(card.legs)))
         
         card_id = cursor.lastrowid
         conn.commit()
@@ -778,8 +879,32 @@ async def create_traffic_card(card: TrafficCard):
     except Exception as e:
         raise HTTPException(status_code=500, detail=str(e))
 
+# 需要声明在 /api/traffic-cards/{card_id} 之前，否则 order 会被当作卡片 id
+@app.put("/api/traffic-cards/order")
+async def reorder_traffic_cards(data: TrafficCardReorder, admin=Depends(auth.get_current_admin)):
+    """批量调整卡片顺序，在同一事务中完成，避免只保存了一部分"""
+    conn = sqlite3.connect(DATABASE_PATH)
+    try:
+        cursor = conn.cursor()
+        now = datetime.now().isoformat()
+        for item in data.items:
+            cursor.execute('UPDATE traffic_cards SET order_index=?, updated_at=? WHERE id=?',
+                           (item.order_index, now, item.id))
+            if cursor.rowcount == 0:
+                raise HTTPException(status_code=404, detail=f"卡片不存在: {item.id}")
+        conn.commit()
+        return {"message": "排序更新成功"}
+    except HTTPException:
+        conn.rollback()
+        raise
+    except Exception as e:
+        conn.rollback()
+        raise HTTPException(status_code=500, detail=str(e))
+    finally:
+        conn.close()
+
 @app.put("/api/traffic-cards/{card_id}")
-async def update_traffic_card(card_id: int, card: TrafficCard):
+async def update_traffic_card(card_id: int, card: TrafficCard, admin=Depends(auth.get_current_admin)):
     """更新交通卡片"""
     try:
         conn = sqlite3.connect(DATABASE_PATH)
@@ -787,10 +912,10 @@ async def update_traffic_card(card_id: int, card: TrafficCard):
         
         cursor.execute('''
             UPDATE traffic_cards 
-            SET title=?, icon=?, content=?, category=?, subcategory=?, order_index=?, updated_at=?
+            SET title=?, icon=?, content=?, category=?, subcategory=?, order_index=?, legs=?, updated_at=?
             WHERE id=?
         ''', (card.title, card.icon, card.content, card.category, card.subcategory, card.order_index, 
-              datetime.now().isoformat(), card_id))
+              serialize_legs(card.legs), datetime.now().isoformat(), card_id))
         
         conn.commit()
         conn.close()
@@ -800,7 +925,7 @@ async def update_traffic_card(card_id: int, card: TrafficCard):
         raise HTTPException(status_code=500, detail=str(e))
 
 @app.delete("/api/traffic-cards/{card_id}")
-async def delete_traffic_card(card_id: int):
+async def delete_traffic_card(card_id: int, admin=Depends(auth.get_current_admin)):
     """删除交通卡片"""
     try:
         conn = sqlite3.connect(DATABASE_PATH)
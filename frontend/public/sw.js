@@ -0,0 +1,128 @@
+// 鸟白岛巡礼 Service Worker：预缓存应用外壳，按需缓存图片与攻略数据，离线时优雅降级
+// 岛屿离线包由页面写入 sprb-pack-<岛屿id> 缓存（见 src/utils/offline.ts），这里只负责读取
+
+const VERSION = 'v1'
+const SHELL_CACHE = `sprb-shell-${VERSION}`
+const RUNTIME_CACHE = `sprb-runtime-${VERSION}`
+const RUNTIME_MAX_ENTRIES = 200 // 浏览时顺带缓存的图片上限，手动下载的离线包不受限制
+
+const SHELL_URLS = ['/', '/manifest.webmanifest', '/icons/icon.svg', '/offline-image.svg']
+const OFFLINE_IMAGE = '/offline-image.svg'
+
+// 从首页 HTML 中找出构建产物（/assets/ 下带哈希的 js、css），一并预缓存
+const getShellAssets = async () => {
+  const response = await fetch('/', { cache: 'no-cache' })
+  const html = await response.text()
+  const assets = Array.from(html.matchAll(/(?:src|href)="(\/assets\/[^"]+)"/g), match => match[1])
+  return [...SHELL_URLS, ...assets]
+}
+
+self.addEventListener('install', event => {
+  event.waitUntil(
+    getShellAssets()
+      .then(urls => caches.open(SHELL_CACHE).then(cache => cache.addAll(urls)))
+      .then(() => self.skipWaiting())
+  )
+})
+
+// 清理旧版本的外壳与运行时缓存，保留用户下载的离线包
+self.addEventListener('activate', event => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(keys
+        .filter(key => (key.startsWith('sprb-shell-') || key.startsWith('sprb-runtime-')) && key !== SHELL_CACHE && key !== RUNTIME_CACHE)
+        .map(key => caches.delete(key))))
+      .then(() => self.clients.claim())
+  )
+})
+
+const trimCache = async (cacheName, maxEntries) => {
+  const cache = await caches.open(cacheName)
+  const keys = await cache.keys()
+  await Promise.all(keys.slice(0, Math.max(0, keys.length - maxEntries)).map(key => cache.delete(key)))
+}
+
+const offlineJson = () => new Response(
+  JSON.stringify({ detail: { message: '当前处于离线状态，无法连接服务器', code: 'OFFLINE' } }),
+  { status: 503, headers: { 'Content-Type': 'application/json; charset=utf-8' } }
+)
+
+// 优先网络，失败时使用缓存（攻略数据、页面导航）
+const networkFirst = async (request, cacheName) => {
+  try {
+    const response = await fetch(request)
+    if (response.ok) {
+      const cache = await caches.open(cacheName)
+      cache.put(request, response.clone())
+    }
+    return response
+  } catch (error) {
+    const cached = await caches.match(request)
+    if (cached) return cached
+    throw error
+  }
+}
+
+// 优先缓存（带哈希的构建产物、图片），所有缓存中（包括离线包）找不到时再请求网络
+const cacheFirst = async (request, cacheName, maxEntries) => {
+  const cached = await caches.match(request)
+  if (cached) return cached
+  const response = await fetch(request)
+  if (response.ok) {
+    const cache = await caches.open(cacheName)
+    await cache.put(request, response.clone())
+    if (maxEntries) trimCache(cacheName, maxEntries)
+  }
+  return response
+}
+
+self.addEventListener('fetch', event => {
+  const { request } = event
+  const url = new URL(request.url)
+  if (request.method !== 'GET' || url.origin !== self.location.origin) return
+
+  // 页面导航：离线时返回缓存的首页，由前端路由渲染
+  if (request.mode === 'navigate') {
+    event.respondWith(
+      networkFirst(request, RUNTIME_CACHE).catch(() => caches.match('/'))
+    )
+    return
+  }
+
+  // 交通攻略数据可离线查看上次的结果，其余接口离线时返回统一的错误
+  if (url.pathname.startsWith('/api/')) {
+    event.respondWith(
+      url.pathname.startsWith('/api/traffic-cards')
+        ? networkFirst(request, RUNTIME_CACHE).catch(offlineJson)
+        : fetch(request).catch(offlineJson)
+    )
+    return
+  }
+
+  if (url.pathname.startsWith('/trafficdata/')) {
+    event.respondWith(networkFirst(request, RUNTIME_CACHE))
+    return
+  }
+
+  // 音乐文件体积大且使用分段请求，不做缓存，离线时直接失败由播放器处理
+  if (request.destination === 'audio' || url.pathname.startsWith('/audio/')) {
+    event.respondWith(fetch(request).catch(() => new Response('', { status: 503 })))
+    return
+  }
+
+  if (url.pathname.startsWith('/assets/')) {
+    event.respondWith(cacheFirst(request, SHELL_CACHE))
+    return
+  }
+
+  // 图片：未下载的图片在离线时显示占位图
+  if (request.destination === 'image' || url.pathname.startsWith('/images/')) {
+    event.respondWith(
+      cacheFirst(request, RUNTIME_CACHE, RUNTIME_MAX_ENTRIES)
+        .catch(() => caches.match(OFFLINE_IMAGE))
+    )
+    return
+  }
+
+  event.respondWith(cacheFirst(request, RUNTIME_CACHE, RUNTIME_MAX_ENTRIES))
+})
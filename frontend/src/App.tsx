@@ -1,42 +1,68 @@
 import { BrowserRouter as Router, Routes, Route } from 'react-router-dom'
 import { MusicProvider } from './contexts/MusicContext'
+import { CheckinProvider } from './contexts/CheckinContext'
+import { AuthProvider } from './contexts/AuthContext'
+import { LocaleProvider } from './contexts/LocaleContext'
+import { ProximityProvider } from './contexts/ProximityContext'
 import HomePage from './pages/HomePage'
 import ContentsPage from './pages/ContentsPage'
 import TrafficPage from './pages/TrafficPage'
 import CheckinPage from './pages/CheckinPage'
 import DivineRealmPage from './pages/DivineRealmPage'
 import OtherPilgrimagePage from './pages/OtherPilgrimagePage'
-import MegijimaPage from './pages/MegijimaPage'
-import OgijimaPage from './pages/OgijimaPage'
-import NaoshimaPage from './pages/NaoshimaPage'
+import IslandPage from './pages/IslandPage'
+import ItineraryPage from './pages/ItineraryPage'
 import ProgressPage from './pages/ProgressPage'
+import TrafficAdminPage from './pages/TrafficAdminPage'
 import MusicPlayer from './components/MusicPlayer'
+import SearchPalette from './components/SearchPalette'
+import LanguageSwitcher from './components/LanguageSwitcher'
+import ArrivalPrompt from './components/ArrivalPrompt'
+import LocationSimulator from './components/LocationSimulator'
 import ButterflyCustomCursor from './components/ButterflyCustomCursor'
+import { islandDefinitions } from './utils/islandData'
 import './styles/global.css'
 
 function App() {
   return (
-    <MusicProvider>
-      <Router>
-        <div style={{ position: 'relative', width: '100vw', height: '100vh' }}>
-          <Routes>
-            <Route path="/" element={<HomePage />} />
-            <Route path="/contents" element={<ContentsPage />} />
-            <Route path="/traffic" element={<TrafficPage />} />
-            <Route path="/checkin" element={<CheckinPage />} />
-            <Route path="/divine-realm" element={<DivineRealmPage />} />
-            <Route path="/other-pilgrimage" element={<OtherPilgrimagePage />} />
-            <Route path="/megijima" element={<MegijimaPage />} />
-            <Route path="/ogijima" element={<OgijimaPage />} />
-            <Route path="/naoshima" element={<NaoshimaPage />} />
-            <Route path="/progress" element={<ProgressPage />} />
-          </Routes>
-          <MusicPlayer />
-          {/* 🦋 蝴蝶扇动翅膀自定义鼠标特效 */}
-          <ButterflyCustomCursor />
-        </div>
-      </Router>
-    </MusicProvider>
+    <LocaleProvider>
+      <MusicProvider>
+        <AuthProvider>
+          <CheckinProvider>
+            <ProximityProvider>
+              <Router>
+                <div style={{ position: 'relative', width: '100vw', height: '100vh' }}>
+                  <Routes>
+                    <Route path="/" element={<HomePage />} />
+                    <Route path="/contents" element={<ContentsPage />} />
+                    <Route path="/traffic/:tab?/:route?" element={<TrafficPage />} />
+                    <Route path="/checkin" element={<CheckinPage />} />
+                    <Route path="/itinerary" element={<ItineraryPage />} />
+                    <Route path="/divine-realm" element={<DivineRealmPage />} />
+                    <Route path="/other-pilgrimage" element={<OtherPilgrimagePage />} />
+                    {islandDefinitions.map(island => (
+                      <Route key={island.id} path={`/${island.id}/*`} element={<IslandPage island={island} />} />
+                    ))}
+                    <Route path="/progress" element={<ProgressPage />} />
+                    <Route path="/admin/traffic" element={<TrafficAdminPage />} />
+                  </Routes>
+                  <MusicPlayer />
+                  {/* 🔍 全站搜索（Ctrl/⌘-K） */}
+                  <SearchPalette />
+                  {/* 🌐 界面语言切换 */}
+                  <LanguageSwitcher />
+                  {/* 📍 到达打卡点提示与开发用模拟定位 */}
+                  <ArrivalPrompt />
+                  <LocationSimulator />
+                  {/* 🦋 蝴蝶扇动翅膀自定义鼠标特效 */}
+                  <ButterflyCustomCursor />
+                </div>
+              </Router>
+            </ProximityProvider>
+          </CheckinProvider>
+        </AuthProvider>
+      </MusicProvider>
+    </LocaleProvider>
   )
 }
 
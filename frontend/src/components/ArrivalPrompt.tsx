@@ -0,0 +1,161 @@
+import React, { useMemo } from 'react'
+import { useNavigate } from 'react-router-dom'
+import styled from 'styled-components'
+import { motion, AnimatePresence } from 'framer-motion'
+import { getIslandDefinition, localizeIsland } from '../utils/islandData'
+import { getIslandPath } from '../utils/islandRoutes'
+import { formatDistance } from '../utils/geo'
+import { useProximity } from '../contexts/ProximityContext'
+import { useCheckin } from '../contexts/CheckinContext'
+import { useLocale } from '../contexts/LocaleContext'
+
+const Card = styled(motion.div)`
+  position: fixed;
+  top: 20px;
+  left: 50%;
+  z-index: 2000;
+  width: min(420px, calc(100vw - 32px));
+  display: flex;
+  gap: 14px;
+  padding: 14px 16px;
+  border-radius: 18px;
+  background: rgba(255, 255, 255, 0.97);
+  box-shadow: 0 10px 30px rgba(0, 0, 0, 0.2);
+  color: #5d4037;
+`
+
+const Thumbnail = styled.img`
+  width: 84px;
+  height: 84px;
+  flex-shrink: 0;
+  border-radius: 12px;
+  object-fit: cover;
+`
+
+const Body = styled.div`
+  flex: 1;
+  min-width: 0;
+  display: flex;
+  flex-direction: column;
+  gap: 6px;
+`
+
+const Heading = styled.div`
+  font-size: 16px;
+  font-weight: 700;
+  padding-right: 20px;
+
+  strong {
+    color: #FF6B35;
+  }
+`
+
+const Meta = styled.div`
+  font-size: 12px;
+  color: #8d6e63;
+`
+
+const Actions = styled.div`
+  display: flex;
+  flex-wrap: wrap;
+  gap: 8px;
+  margin-top: 4px;
+`
+
+const ActionButton = styled(motion.button)<{ variant?: 'secondary' }>`
+  border: none;
+  border-radius: 16px;
+  padding: 7px 14px;
+  font-size: 13px;
+  font-weight: 600;
+  cursor: pointer;
+  color: ${props => props.variant === 'secondary' ? '#2E8B57' : 'white'};
+  background: ${props => props.variant === 'secondary' ? 'rgba(152, 228, 214, 0.35)' : 'linear-gradient(45deg, #FF6B35, #FFB347)'};
+
+  &:disabled {
+    opacity: 0.6;
+    cursor: default;
+  }
+`
+
+const CloseButton = styled.button`
+  position: absolute;
+  top: 8px;
+  right: 10px;
+  border: none;
+  background: none;
+  font-size: 20px;
+  line-height: 1;
+  color: #999;
+  cursor: pointer;
+`
+
+// 到达打卡点时的提示：可直接打开CG查看器或标记为已打卡
+const ArrivalPrompt: React.FC = () => {
+  const navigate = useNavigate()
+  const { locale, t } = useLocale()
+  const { arrivals, dismissArrivals } = useProximity()
+  const { isVisited, markVisited } = useCheckin()
+
+  // 最近的打卡点作为主要提示，同一处的其他打卡点一并标记
+  const primary = arrivals[0]
+  const spot = useMemo(() => {
+    const island = primary && getIslandDefinition(primary.islandId)
+    return island && localizeIsland(island, locale).spots.find(item => item.id === primary.spotId)
+  }, [primary, locale])
+
+  const allVisited = arrivals.every(arrival => isVisited(arrival.islandId, arrival.spotId))
+
+  const handleOpen = () => {
+    if (!primary) return
+    navigate(getIslandPath(primary.islandId, { spot: primary.spotId }))
+    dismissArrivals()
+  }
+
+  const handleMarkVisited = () => {
+    arrivals.forEach(arrival => markVisited(arrival.islandId, arrival.spotId))
+  }
+
+  return (
+    <AnimatePresence>
+      {primary && spot && (
+        <Card
+          key={`${primary.islandId}/${primary.spotId}`}
+          role="alert"
+          initial={{ opacity: 0, y: -30, x: '-50%' }}
+          animate={{ opacity: 1, y: 0, x: '-50%' }}
+          exit={{ opacity: 0, y: -30, x: '-50%' }}
+          transition={{ duration: 0.3 }}
+        >
+          <CloseButton type="button" onClick={dismissArrivals} aria-label={t('common.close')}>×</CloseButton>
+          {spot.images[0] && <Thumbnail src={spot.images[0].src} alt={spot.title} />}
+          <Body>
+            <Heading>
+              📍 {t('proximity.arrived')} <strong>{spot.title}</strong>
+            </Heading>
+            <Meta>
+              {t('proximity.distance', { distance: formatDistance(primary.distance, locale) })}
+              {arrivals.length > 1 && ` · ${t('proximity.moreSpots', { count: arrivals.length - 1 })}`}
+            </Meta>
+            <Actions>
+              <ActionButton type="button" onClick={handleOpen} whileTap={{ scale: 0.95 }}>
+                {t('proximity.openCg')}
+              </ActionButton>
+              <ActionButton
+                type="button"
+                variant="secondary"
+                onClick={handleMarkVisited}
+                disabled={allVisited}
+                whileTap={{ scale: 0.95 }}
+              >
+                {allVisited ? `✓ ${t('proximity.visited')}` : t('proximity.markVisited')}
+              </ActionButton>
+            </Actions>
+          </Body>
+        </Card>
+      )}
+    </AnimatePresence>
+  )
+}
+
+export default ArrivalPrompt
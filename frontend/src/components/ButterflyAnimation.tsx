@@ -37,8 +37,8 @@ const ButterflyAnimation: React.FC<ButterflyAnimationProps> = ({
   const intervalRef = useRef<number | null>(null)
 
   const butterflyImages = [
-    "images/webps/七影蝶-3.webp",  // 翅膀闪动状态1
-    "images/webps/七影蝶-4.webp"   // 翅膀闪动状态2（默认显示）
+    "/images/webps/七影蝶-3.webp",  // 翅膀闪动状态1
+    "/images/webps/七影蝶-4.webp"   // 翅膀闪动状态2（默认显示）
   ]
 
   useEffect(() => {
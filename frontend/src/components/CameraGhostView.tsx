@@ -0,0 +1,358 @@
+import React, { useEffect, useRef, useState } from 'react'
+import styled from 'styled-components'
+import { motion } from 'framer-motion'
+import { useCheckin } from '../contexts/CheckinContext'
+import { useLocale } from '../contexts/LocaleContext'
+import { saveCapturePhoto } from '../utils/captureStore'
+
+interface CameraGhostViewProps {
+  cgSrc: string
+  cgLabel: string
+  title: string
+  islandId: string
+  spotId: string
+}
+
+type CameraStatus = 'starting' | 'ready' | 'error'
+
+const EDGE_MAX_WIDTH = 960 // 轮廓提取时的最大处理宽度，兼顾清晰度与性能
+const EDGE_THRESHOLD = 60
+
+const Wrapper = styled.div`
+  display: flex;
+  flex-direction: column;
+  align-items: center;
+  gap: 12px;
+  max-width: 100%;
+`
+
+const Stage = styled.div`
+  position: relative;
+  overflow: hidden;
+  border-radius: 10px;
+  background: #111;
+  box-shadow: 0 10px 20px rgba(0, 0, 0, 0.3);
+`
+
+const CameraVideo = styled.video`
+  position: absolute;
+  inset: 0;
+  width: 100%;
+  height: 100%;
+  object-fit: cover;
+`
+
+const GhostImage = styled.img`
+  position: absolute;
+  inset: 0;
+  width: 100%;
+  height: 100%;
+  object-fit: cover;
+  pointer-events: none;
+`
+
+const StatusText = styled.div`
+  position: absolute;
+  inset: 0;
+  display: flex;
+  align-items: center;
+  justify-content: center;
+  padding: 20px;
+  color: white;
+  font-size: 16px;
+  text-align: center;
+  line-height: 1.6;
+`
+
+const FlashLayer = styled(motion.div)`
+  position: absolute;
+  inset: 0;
+  background: white;
+  pointer-events: none;
+`
+
+const ControlPanel = styled.div`
+  display: flex;
+  flex-wrap: wrap;
+  gap: 10px 20px;
+  justify-content: center;
+  align-items: center;
+`
+
+const ControlGroup = styled.label`
+  display: flex;
+  align-items: center;
+  gap: 8px;
+  font-size: 14px;
+  color: #5d4037;
+  font-weight: 600;
+
+  input[type='range'] {
+    width: 120px;
+  }
+`
+
+const ModeButton = styled(motion.button)<{ active: boolean }>`
+  border: none;
+  border-radius: 15px;
+  padding: 6px 14px;
+  font-size: 14px;
+  font-weight: 600;
+  cursor: pointer;
+  color: ${props => props.active ? 'white' : '#5d4037'};
+  background: ${props => props.active ? 'linear-gradient(45deg, #ff6b35, #ffa500)' : 'rgba(0, 0, 0, 0.06)'};
+`
+
+const ShutterButton = styled(motion.button)`
+  width: 64px;
+  height: 64px;
+  border-radius: 50%;
+  border: 5px solid #ffa500;
+  background: white;
+  cursor: pointer;
+  box-shadow: 0 4px 12px rgba(0, 0, 0, 0.25);
+
+  &:disabled {
+    opacity: 0.5;
+    cursor: not-allowed;
+  }
+`
+
+const SavedHint = styled(motion.div)`
+  font-size: 14px;
+  color: #2e8b57;
+  font-weight: 600;
+`
+
+// 用 Sobel 算子提取CG轮廓，生成透明背景的白色线稿
+const createEdgeImage = async (src: string): Promise<string> => {
+  const img = await new Promise<HTMLImageElement>((resolve, reject) => {
+    const image = new Image()
+    image.onload = () => resolve(image)
+    image.onerror = () => reject(new Error(`图片加载失败: ${src}`))
+    image.src = src
+  })
+
+  const ratio = Math.min(1, EDGE_MAX_WIDTH / img.naturalWidth)
+  const width = Math.round(img.naturalWidth * ratio)
+  const height = Math.round(img.naturalHeight * ratio)
+  const canvas = document.createElement('canvas')
+  canvas.width = width
+  canvas.height = height
+  const ctx = canvas.getContext('2d')
+  if (!ctx) throw new Error('无法创建画布')
+  ctx.drawImage(img, 0, 0, width, height)
+
+  const source = ctx.getImageData(0, 0, width, height).data
+  const gray = new Float32Array(width * height)
+  for (let i = 0; i < width * height; i++) {
+    gray[i] = source[i * 4] * 0.299 + source[i * 4 + 1] * 0.587 + source[i * 4 + 2] * 0.114
+  }
+
+  const output = ctx.createImageData(width, height)
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x
+      const gx = -gray[i - width - 1] - 2 * gray[i - 1] - gray[i + width - 1]
+        + gray[i - width + 1] + 2 * gray[i + 1] + gray[i + width + 1]
+      const gy = -gray[i - width - 1] - 2 * gray[i - width] - gray[i - width + 1]
+        + gray[i + width - 1] + 2 * gray[i + width] + gray[i + width + 1]
+      const magnitude = Math.sqrt(gx * gx + gy * gy)
+      if (magnitude > EDGE_THRESHOLD) {
+        output.data[i * 4] = 255
+        output.data[i * 4 + 1] = 255
+        output.data[i * 4 + 2] = 255
+        output.data[i * 4 + 3] = Math.min(255, magnitude)
+      }
+    }
+  }
+  ctx.putImageData(output, 0, 0)
+  return canvas.toDataURL('image/png')
+}
+
+const CameraGhostView: React.FC<CameraGhostViewProps> = ({ cgSrc, cgLabel, title, islandId, spotId }) => {
+  const { addCapture } = useCheckin()
+  const { t } = useLocale()
+  const videoRef = useRef<HTMLVideoElement>(null)
+  const [status, setStatus] = useState<CameraStatus>('starting')
+  const [errorKey, setErrorKey] = useState<'unsupported' | 'denied' | null>(null)
+  const [opacity, setOpacity] = useState(0.4)
+  const [edgeOnly, setEdgeOnly] = useState(false)
+  const [edgeImage, setEdgeImage] = useState<string | null>(null)
+  const [aspectRatio, setAspectRatio] = useState(16 / 9)
+  const [isCapturing, setIsCapturing] = useState(false)
+  const [flashKey, setFlashKey] = useState(0)
+  const [savedCount, setSavedCount] = useState(0)
+
+  // 打开后置摄像头，离开时关闭
+  useEffect(() => {
+    let stream: MediaStream | null = null
+    let cancelled = false
+
+    const startCamera = async () => {
+      if (!navigator.mediaDevices?.getUserMedia) {
+        setStatus('error')
+        setErrorKey('unsupported')
+        return
+      }
+      try {
+        stream = await navigator.mediaDevices.getUserMedia({
+          video: { facingMode: { ideal: 'environment' }, width: { ideal: 1920 }, height: { ideal: 1080 } },
+          audio: false
+        })
+        if (cancelled) {
+          stream.getTracks().forEach(track => track.stop())
+          return
+        }
+        if (videoRef.current) {
+          videoRef.current.srcObject = stream
+          await videoRef.current.play()
+        }
+        setStatus('ready')
+      } catch (error) {
+        console.error('打开摄像头失败:', error)
+        setStatus('error')
+        setErrorKey('denied')
+      }
+    }
+
+    startCamera()
+    return () => {
+      cancelled = true
+      stream?.getTracks().forEach(track => track.stop())
+    }
+  }, [])
+
+  // 切换CG时重新生成轮廓
+  useEffect(() => {
+    setEdgeImage(null)
+    if (!edgeOnly) return
+    let cancelled = false
+    createEdgeImage(cgSrc)
+      .then(url => {
+        if (!cancelled) setEdgeImage(url)
+      })
+      .catch(error => console.error('生成CG轮廓失败:', error))
+    return () => {
+      cancelled = true
+    }
+  }, [cgSrc, edgeOnly])
+
+  // 取景框与CG保持相同比例，拍下的画面即为屏幕上看到的范围
+  useEffect(() => {
+    const image = new Image()
+    image.onload = () => {
+      if (image.naturalWidth && image.naturalHeight) {
+        setAspectRatio(image.naturalWidth / image.naturalHeight)
+      }
+    }
+    image.src = cgSrc
+    return () => {
+      image.onload = null
+    }
+  }, [cgSrc])
+
+  const handleCapture = async () => {
+    const video = videoRef.current
+    if (!video || status !== 'ready' || !video.videoWidth) return
+    setIsCapturing(true)
+    try {
+      // 按 object-fit: cover 的规则裁剪视频帧
+      const videoRatio = video.videoWidth / video.videoHeight
+      let cropWidth = video.videoWidth
+      let cropHeight = video.videoHeight
+      if (videoRatio > aspectRatio) {
+        cropWidth = video.videoHeight * aspectRatio
+      } else {
+        cropHeight = video.videoWidth / aspectRatio
+      }
+      const canvas = document.createElement('canvas')
+      canvas.width = Math.round(cropWidth)
+      canvas.height = Math.round(cropHeight)
+      const ctx = canvas.getContext('2d')
+      if (!ctx) throw new Error('无法创建画布')
+      ctx.drawImage(
+        video,
+        (video.videoWidth - cropWidth) / 2,
+        (video.videoHeight - cropHeight) / 2,
+        cropWidth,
+        cropHeight,
+        0,
+        0,
+        canvas.width,
+        canvas.height
+      )
+
+      const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', 0.92))
+      if (!blob) throw new Error('照片编码失败')
+
+      const capturedAt = new Date().toISOString()
+      const id = `${islandId}-${spotId}-${Date.now()}`
+      await saveCapturePhoto(id, blob)
+      addCapture(islandId, spotId, { id, cgId: cgSrc, capturedAt })
+      setFlashKey(prev => prev + 1)
+      setSavedCount(prev => prev + 1)
+    } catch (error) {
+      console.error('保存现场照片失败:', error)
+      alert(t('camera.saveFailed'))
+    } finally {
+      setIsCapturing(false)
+    }
+  }
+
+  const ghostSrc = edgeOnly ? edgeImage : cgSrc
+
+  return (
+    <Wrapper>
+      {/* 宽度同时受高度限制，保证取景框始终与CG同比例 */}
+      <Stage style={{ aspectRatio: `${aspectRatio}`, width: `min(80vw, 900px, ${60 * aspectRatio}vh)` }}>
+        <CameraVideo ref={videoRef} playsInline muted />
+        {ghostSrc && (
+          <GhostImage
+            src={ghostSrc}
+            alt={`${title} - ${cgLabel}`}
+            style={{ opacity: edgeOnly ? Math.max(opacity, 0.6) : opacity }}
+          />
+        )}
+        {status === 'starting' && <StatusText>{t('camera.starting')}</StatusText>}
+        {status === 'error' && errorKey && <StatusText>{t(`camera.${errorKey}`)}</StatusText>}
+        {flashKey > 0 && (
+          <FlashLayer
+            key={flashKey}
+            initial={{ opacity: 0.8 }}
+            animate={{ opacity: 0 }}
+            transition={{ duration: 0.4 }}
+          />
+        )}
+      </Stage>
+
+      <ControlPanel>
+        <ModeButton active={!edgeOnly} whileTap={{ scale: 0.95 }} onClick={() => setEdgeOnly(false)}>
+          {t('camera.ghost')}
+        </ModeButton>
+        <ModeButton active={edgeOnly} whileTap={{ scale: 0.95 }} onClick={() => setEdgeOnly(true)}>
+          {t('camera.edges')}
+        </ModeButton>
+        <ControlGroup>
+          {t('camera.opacity')}
+          <input type="range" min={0} max={1} step={0.01} value={opacity}
+            onChange={e => setOpacity(Number(e.target.value))} />
+        </ControlGroup>
+        <ShutterButton
+          title={t('camera.shutter')}
+          whileTap={{ scale: 0.9 }}
+          disabled={status !== 'ready' || isCapturing}
+          onClick={handleCapture}
+        />
+      </ControlPanel>
+
+      {savedCount > 0 && (
+        <SavedHint key={savedCount} initial={{ opacity: 0, y: 5 }} animate={{ opacity: 1, y: 0 }}>
+          {t('camera.saved', { count: savedCount, title })}
+        </SavedHint>
+      )}
+    </Wrapper>
+  )
+}
+
+export default CameraGhostView
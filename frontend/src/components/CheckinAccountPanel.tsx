@@ -0,0 +1,169 @@
+import React, { useState } from 'react'
+import styled from 'styled-components'
+import { useAuth } from '../contexts/AuthContext'
+import { useCheckin } from '../contexts/CheckinContext'
+import { useLocale } from '../contexts/LocaleContext'
+import { formatDateTime } from '../utils/i18n'
+
+const SyncRow = styled.div`
+  display: flex;
+  flex-wrap: wrap;
+  align-items: center;
+  justify-content: center;
+  gap: 10px;
+  margin-top: 10px;
+  font-size: 12px;
+  color: #8d6e63;
+`
+
+const SyncButton = styled.button`
+  border: 1px solid #ffb347;
+  border-radius: 12px;
+  padding: 3px 12px;
+  background: white;
+  color: #ff6b35;
+  font-size: 12px;
+  cursor: pointer;
+
+  &:disabled {
+    opacity: 0.6;
+    cursor: default;
+  }
+`
+
+const LoginForm = styled.form`
+  display: flex;
+  flex-direction: column;
+  gap: 8px;
+  margin: 12px auto 0 auto;
+  max-width: 260px;
+  font-size: 13px;
+  color: #5d4037;
+
+  input {
+    padding: 6px 10px;
+    border: 2px solid #ffe0b2;
+    border-radius: 10px;
+    font-size: 14px;
+  }
+`
+
+const FormError = styled.div`
+  color: #c62828;
+  font-size: 12px;
+`
+
+const ModeSwitch = styled.button`
+  border: none;
+  background: none;
+  color: #8d6e63;
+  font-size: 12px;
+  text-decoration: underline;
+  cursor: pointer;
+`
+
+// 打卡篇的账号入口：未登录时可登录或注册，登录后显示同步状态
+const CheckinAccountPanel: React.FC = () => {
+  const { locale, t } = useLocale()
+  const { token, user, isLoading, error: authError, retry, login, register, logout } = useAuth()
+  const { syncWithServer, isSyncing, syncError, lastSyncedAt } = useCheckin()
+  const [isFormOpen, setIsFormOpen] = useState(false)
+  const [isRegister, setIsRegister] = useState(false)
+  const [username, setUsername] = useState('')
+  const [password, setPassword] = useState('')
+  const [formError, setFormError] = useState<string | null>(null)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsSubmitting(true)
+    setFormError(null)
+    try {
+      await (isRegister ? register : login)(username, password)
+      setIsFormOpen(false)
+      setPassword('')
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : t(isRegister ? 'checkin.account.registerFailed' : 'checkin.account.loginFailed'))
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  if (user) {
+    return (
+      <SyncRow>
+        <span>
+          {isSyncing
+            ? t('checkin.syncing')
+            : syncError
+              ? t('checkin.syncFailed')
+              : lastSyncedAt
+                ? t('checkin.syncedAt', { time: formatDateTime(lastSyncedAt, locale) })
+                : t('checkin.notSynced')}
+        </span>
+        <SyncButton type="button" onClick={syncWithServer} disabled={isSyncing}>
+          {t('checkin.syncNow')}
+        </SyncButton>
+        <SyncButton type="button" onClick={logout}>
+          {t('checkin.account.logout', { username: user.username })}
+        </SyncButton>
+      </SyncRow>
+    )
+  }
+
+  if (token) {
+    return (
+      <SyncRow>
+        {isLoading || !authError ? (
+          <span>{t('checkin.account.verifying')}</span>
+        ) : (
+          <>
+            <span>{t('checkin.account.verifyFailed')}</span>
+            <SyncButton type="button" onClick={retry}>{t('checkin.account.retry')}</SyncButton>
+            <SyncButton type="button" onClick={logout}>{t('checkin.account.signOut')}</SyncButton>
+          </>
+        )}
+      </SyncRow>
+    )
+  }
+
+  return (
+    <>
+      <SyncRow>
+        <span>{t('checkin.account.hint')}</span>
+        <SyncButton type="button" onClick={() => setIsFormOpen(prev => !prev)}>
+          {t('checkin.account.open')}
+        </SyncButton>
+      </SyncRow>
+      {isFormOpen && (
+        <LoginForm onSubmit={handleSubmit}>
+          <input
+            value={username}
+            onChange={e => setUsername(e.target.value)}
+            placeholder={t('checkin.account.username')}
+            autoComplete="username"
+          />
+          <input
+            type="password"
+            value={password}
+            onChange={e => setPassword(e.target.value)}
+            placeholder={t('checkin.account.password')}
+            autoComplete={isRegister ? 'new-password' : 'current-password'}
+          />
+          {isRegister && <span>{t('checkin.account.passwordRule')}</span>}
+          {formError && <FormError>{formError}</FormError>}
+          <SyncButton type="submit" disabled={isSubmitting || !username || !password}>
+            {isSubmitting
+              ? t('checkin.account.submitting')
+              : t(isRegister ? 'checkin.account.register' : 'checkin.account.login')}
+          </SyncButton>
+          <ModeSwitch type="button" onClick={() => { setIsRegister(prev => !prev); setFormError(null) }}>
+            {t(isRegister ? 'checkin.account.toLogin' : 'checkin.account.toRegister')}
+          </ModeSwitch>
+        </LoginForm>
+      )}
+    </>
+  )
+}
+
+export default CheckinAccountPanel
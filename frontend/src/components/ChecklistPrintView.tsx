@@ -0,0 +1,195 @@
+import React from 'react'
+import { createPortal } from 'react-dom'
+import styled, { createGlobalStyle } from 'styled-components'
+import {
+  ChecklistTrip,
+  formatDueDays,
+  getItemDue,
+  getTripProgress,
+  getTripSections,
+  localizeSections
+} from '../utils/checklist'
+import { useLocale } from '../contexts/LocaleContext'
+
+interface ChecklistPrintViewProps {
+  trip: ChecklistTrip
+}
+
+// 屏幕上不显示；打印时隐藏页面其余内容，只输出清单
+const PrintStyle = createGlobalStyle`
+  .checklist-print {
+    display: none;
+  }
+
+  @media print {
+    @page {
+      size: A4;
+      margin: 16mm 14mm;
+    }
+
+    body > *:not(.checklist-print) {
+      display: none !important;
+    }
+
+    body {
+      background: white !important;
+    }
+
+    .checklist-print {
+      display: block;
+    }
+  }
+`
+
+const PrintRoot = styled.div`
+  color: #333;
+  font-size: 12pt;
+  line-height: 1.5;
+  -webkit-print-color-adjust: exact;
+  print-color-adjust: exact;
+`
+
+const Cover = styled.section`
+  min-height: 240mm;
+  display: flex;
+  flex-direction: column;
+  justify-content: center;
+  align-items: center;
+  text-align: center;
+  page-break-after: always;
+  break-after: page;
+`
+
+const CoverTitle = styled.h1`
+  font-size: 28pt;
+  color: #FF6B35;
+  margin: 0 0 8mm 0;
+`
+
+const CoverTrip = styled.h2`
+  font-size: 20pt;
+  color: #5d4037;
+  margin: 0 0 12mm 0;
+  font-weight: 600;
+`
+
+const CoverMeta = styled.dl`
+  display: grid;
+  grid-template-columns: auto auto;
+  gap: 3mm 8mm;
+  font-size: 13pt;
+  margin: 0;
+
+  dt {
+    color: #8d6e63;
+    text-align: right;
+  }
+
+  dd {
+    margin: 0;
+    text-align: left;
+    font-weight: 600;
+  }
+`
+
+const Section = styled.section`
+  margin-bottom: 8mm;
+`
+
+const SectionTitle = styled.h3`
+  font-size: 15pt;
+  color: #FF6B35;
+  border-bottom: 1.5pt solid #FFB347;
+  padding-bottom: 2mm;
+  margin: 0 0 3mm 0;
+  page-break-after: avoid;
+  break-after: avoid;
+`
+
+const ItemRow = styled.div<{ checked: boolean }>`
+  display: grid;
+  grid-template-columns: 7mm 1fr auto;
+  align-items: baseline;
+  padding: 1.5mm 0;
+  border-bottom: 0.5pt dashed #ddd;
+  page-break-inside: avoid;
+  break-inside: avoid;
+  color: ${props => props.checked ? '#999' : '#333'};
+
+  span:nth-child(2) {
+    text-decoration: ${props => props.checked ? 'line-through' : 'none'};
+  }
+`
+
+const Box = styled.span`
+  font-size: 14pt;
+`
+
+const Due = styled.span<{ overdue: boolean }>`
+  font-size: 10pt;
+  color: ${props => props.overdue ? '#d84315' : '#8d6e63'};
+  white-space: nowrap;
+  padding-left: 4mm;
+`
+
+const Footer = styled.p`
+  font-size: 9pt;
+  color: #999;
+  text-align: center;
+  margin-top: 10mm;
+`
+
+const pad = (value: number) => String(value).padStart(2, '0')
+
+const formatFullDate = (date: Date) => `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`
+
+// 根据当前清单状态生成的打印版本，在打印对话框中选择“另存为 PDF”即可导出
+const ChecklistPrintView: React.FC<ChecklistPrintViewProps> = ({ trip }) => {
+  const { locale, t } = useLocale()
+  const today = new Date()
+  const sections = localizeSections(getTripSections(trip), locale)
+  const progress = getTripProgress(trip)
+
+  return createPortal(
+    <PrintRoot className="checklist-print">
+      <PrintStyle />
+      <Cover>
+        <CoverTitle>{t('checklist.printTitle')}</CoverTitle>
+        <CoverTrip>{trip.name}</CoverTrip>
+        <CoverMeta>
+          <dt>{t('checklist.departureDate')}</dt>
+          <dd>{trip.departureDate || t('checklist.notSet')}</dd>
+          <dt>{t('checklist.printProgress')}</dt>
+          <dd>{t('checklist.printProgressValue', { checked: progress.checked, total: progress.total, percent: progress.percent })}</dd>
+          <dt>{t('checklist.printDate')}</dt>
+          <dd>{formatFullDate(today)}</dd>
+        </CoverMeta>
+      </Cover>
+
+      {sections.filter(section => section.items.length > 0).map(section => (
+        <Section key={section.id}>
+          <SectionTitle>{section.icon} {section.title}</SectionTitle>
+          {section.items.map(item => {
+            const checked = trip.checkedIds.includes(item.id)
+            const due = getItemDue(item, trip.departureDate, checked, today)
+            return (
+              <ItemRow key={item.id} checked={checked}>
+                <Box>{checked ? '☑' : '☐'}</Box>
+                <span>{item.text}</span>
+                <Due overdue={due?.status === 'overdue'}>
+                  {item.dueDays !== undefined && formatDueDays(item.dueDays, locale)}
+                  {due && `（${formatFullDate(due.date)}）`}
+                </Due>
+              </ItemRow>
+            )
+          })}
+        </Section>
+      ))}
+
+      <Footer>{t('checklist.printFooter')}</Footer>
+    </PrintRoot>,
+    document.body
+  )
+}
+
+export default ChecklistPrintView
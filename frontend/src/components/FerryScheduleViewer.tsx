@@ -0,0 +1,152 @@
+import React, { useState } from 'react'
+import styled from 'styled-components'
+import { motion, AnimatePresence } from 'framer-motion'
+import FerryTimetable from './FerryTimetable'
+import { useLocale } from '../contexts/LocaleContext'
+
+interface FerryScheduleViewerProps {
+  isOpen: boolean
+  onClose: () => void
+  title: string
+  defaultFrom?: string
+  defaultTo?: string
+  originalImage?: string // 官方时刻表原图，可切换查看
+  children?: React.ReactNode // 时刻表下方的附加内容
+}
+
+const ModalOverlay = styled(motion.div)`
+  position: fixed;
+  top: 0;
+  left: 0;
+  right: 0;
+  bottom: 0;
+  background: rgba(0, 0, 0, 0.6);
+  display: flex;
+  justify-content: center;
+  align-items: center;
+  z-index: 1000;
+  backdrop-filter: blur(5px);
+`
+
+const ModalContent = styled(motion.div)`
+  background: white;
+  border-radius: 20px;
+  padding: 30px;
+  max-width: 560px;
+  width: 90%;
+  max-height: 85vh;
+  overflow-y: auto;
+  box-shadow: 0 20px 40px rgba(0, 0, 0, 0.3);
+  position: relative;
+`
+
+const CloseButton = styled.button`
+  position: absolute;
+  top: 15px;
+  right: 15px;
+  background: none;
+  border: none;
+  font-size: 24px;
+  cursor: pointer;
+  color: #666;
+  width: 32px;
+  height: 32px;
+  border-radius: 50%;
+  display: flex;
+  align-items: center;
+  justify-content: center;
+  transition: all 0.3s ease;
+
+  &:hover {
+    background: #f0f0f0;
+    color: #333;
+  }
+`
+
+const Title = styled.h3`
+  font-size: 24px;
+  color: #5d4037;
+  margin: 0 0 16px 0;
+  font-weight: 700;
+  font-family: 'KaiTi', 'SimKai', serif;
+  text-align: center;
+`
+
+const OriginalImage = styled.img`
+  width: 100%;
+  height: auto;
+  border-radius: 15px;
+  box-shadow: 0 8px 20px rgba(0, 0, 0, 0.1);
+`
+
+const ToggleLink = styled.button`
+  display: block;
+  margin: 16px auto 0 auto;
+  border: none;
+  background: none;
+  color: #ff6b35;
+  font-size: 14px;
+  cursor: pointer;
+  text-decoration: underline;
+`
+
+const FerryScheduleViewer: React.FC<FerryScheduleViewerProps> = ({
+  isOpen,
+  onClose,
+  title,
+  defaultFrom,
+  defaultTo,
+  originalImage,
+  children
+}) => {
+  const { t } = useLocale()
+  const [showOriginal, setShowOriginal] = useState(false)
+
+  const handleClose = () => {
+    setShowOriginal(false)
+    onClose()
+  }
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <ModalOverlay
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          onClick={handleClose}
+        >
+          <ModalContent
+            initial={{ scale: 0.8, opacity: 0 }}
+            animate={{ scale: 1, opacity: 1 }}
+            exit={{ scale: 0.8, opacity: 0 }}
+            transition={{ duration: 0.3 }}
+            onClick={(e) => e.stopPropagation()}
+          >
+            <CloseButton onClick={handleClose}>×</CloseButton>
+            <Title>{title}</Title>
+            {showOriginal && originalImage ? (
+              <OriginalImage
+                src={originalImage}
+                alt={title}
+                onError={(e) => {
+                  console.error('时刻表图片加载失败:', e)
+                }}
+              />
+            ) : (
+              <FerryTimetable defaultFrom={defaultFrom} defaultTo={defaultTo} />
+            )}
+            {originalImage && (
+              <ToggleLink onClick={() => setShowOriginal(prev => !prev)}>
+                {showOriginal ? t('ferry.backToQuery') : t('ferry.showOriginal')}
+              </ToggleLink>
+            )}
+            {children}
+          </ModalContent>
+        </ModalOverlay>
+      )}
+    </AnimatePresence>
+  )
+}
+
+export default FerryScheduleViewer
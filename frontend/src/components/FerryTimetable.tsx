@@ -0,0 +1,223 @@
+import React, { useMemo, useState } from 'react'
+import styled from 'styled-components'
+import {
+  ferryPorts,
+  getDepartures,
+  getLastDeparture,
+  getPortName as getLocalizedPortName,
+  getReachablePorts,
+  getRouteNotes,
+  getTokyoNow,
+  isHoliday,
+  parseTime
+} from '../utils/ferryTimetable'
+import { formatClock, localizeFields } from '../utils/i18n'
+import { useLocale } from '../contexts/LocaleContext'
+
+interface FerryTimetableProps {
+  defaultFrom?: string
+  defaultTo?: string
+}
+
+const Wrapper = styled.div`
+  display: flex;
+  flex-direction: column;
+  gap: 14px;
+  color: #5d4037;
+`
+
+const QueryRow = styled.div`
+  display: flex;
+  flex-wrap: wrap;
+  gap: 10px;
+  align-items: center;
+  justify-content: center;
+
+  select,
+  input {
+    padding: 6px 10px;
+    border: 2px solid #e0d6cc;
+    border-radius: 10px;
+    font-size: 14px;
+    color: #5d4037;
+    background: white;
+  }
+`
+
+const SwapButton = styled.button`
+  border: none;
+  background: rgba(135, 206, 235, 0.3);
+  border-radius: 50%;
+  width: 32px;
+  height: 32px;
+  cursor: pointer;
+  font-size: 16px;
+`
+
+const NextCard = styled.div<{ warning: boolean }>`
+  padding: 14px 18px;
+  border-radius: 15px;
+  background: ${props => props.warning
+    ? 'linear-gradient(135deg, #ffe0d6, #ffd0c0)'
+    : 'linear-gradient(135deg, #e0f7fa, #e8f5e9)'};
+  text-align: center;
+  font-size: 16px;
+  line-height: 1.6;
+
+  strong {
+    font-size: 22px;
+    color: ${props => props.warning ? '#d84315' : '#2e7d32'};
+  }
+`
+
+const DepartureList = styled.ul`
+  list-style: none;
+  margin: 0;
+  padding: 0;
+  display: flex;
+  flex-direction: column;
+  gap: 6px;
+`
+
+const DepartureItem = styled.li<{ past: boolean; next: boolean; last: boolean }>`
+  display: grid;
+  grid-template-columns: 1fr auto 1fr auto;
+  gap: 8px;
+  align-items: center;
+  padding: 8px 12px;
+  border-radius: 10px;
+  font-size: 15px;
+  opacity: ${props => props.past ? 0.45 : 1};
+  background: ${props => props.next ? 'rgba(255, 165, 0, 0.18)' : 'rgba(0, 0, 0, 0.03)'};
+  border: 2px solid ${props => props.last ? '#ff6b35' : 'transparent'};
+  font-weight: ${props => props.next ? 700 : 500};
+`
+
+const Tag = styled.span<{ color: string }>`
+  font-size: 12px;
+  padding: 2px 8px;
+  border-radius: 10px;
+  color: white;
+  background: ${props => props.color};
+  white-space: nowrap;
+`
+
+const Note = styled.p`
+  margin: 0;
+  font-size: 13px;
+  color: #8d6e63;
+  text-align: center;
+  line-height: 1.5;
+`
+
+const pad = (value: number) => String(value).padStart(2, '0')
+
+const toDateInput = (date: Date) => `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`
+
+const toTimeInput = (minutes: number) => `${pad(Math.floor(minutes / 60))}:${pad(minutes % 60)}`
+
+// 按本地时区解析 YYYY-MM-DD
+const fromDateInput = (value: string) => {
+  const [year, month, day] = value.split('-').map(Number)
+  return new Date(year, month - 1, day)
+}
+
+const FerryTimetable: React.FC<FerryTimetableProps> = ({ defaultFrom = 'takamatsu', defaultTo }) => {
+  const { locale, t } = useLocale()
+  // 默认查询日本时间的当前日期与时刻
+  const now = getTokyoNow()
+  const [from, setFrom] = useState(defaultFrom)
+  const [to, setTo] = useState(defaultTo ?? getReachablePorts(defaultFrom)[0] ?? '')
+  const [dateValue, setDateValue] = useState(toDateInput(now.date))
+  const [timeValue, setTimeValue] = useState(toTimeInput(now.minutes))
+
+  const date = dateValue ? fromDateInput(dateValue) : now.date
+  const afterMinutes = timeValue ? parseTime(timeValue) : 0
+  const reachable = useMemo(() => getReachablePorts(from), [from])
+  const departures = useMemo(() => getDepartures(from, to, date, locale), [from, to, dateValue, locale])
+  const next = departures.find(departure => departure.departure >= afterMinutes)
+  // 返程末班：从目的地回到出发港的最后一班
+  const lastBack = useMemo(() => getLastDeparture(to, from, date), [from, to, dateValue])
+  const notes = getRouteNotes(from, to, locale)
+  const variantLabels = Array.from(new Set(departures.map(departure => departure.variantLabel)))
+
+  const formatTime = (minutes: number) => formatClock(minutes, locale)
+  const getPortName = (id: string) => getLocalizedPortName(id, locale)
+
+  const handleFromChange = (value: string) => {
+    setFrom(value)
+    const targets = getReachablePorts(value)
+    if (!targets.includes(to)) setTo(targets[0] ?? '')
+  }
+
+  const handleSwap = () => {
+    if (getReachablePorts(to).includes(from)) {
+      setFrom(to)
+      setTo(from)
+    }
+  }
+
+  return (
+    <Wrapper>
+      <QueryRow>
+        <select value={from} onChange={e => handleFromChange(e.target.value)} aria-label={t('ferry.from')}>
+          {ferryPorts
+            .filter(port => getReachablePorts(port.id).length > 0)
+            .map(port => <option key={port.id} value={port.id}>{localizeFields(port, locale).name}</option>)}
+        </select>
+        <SwapButton type="button" onClick={handleSwap} title={t('ferry.swap')}>⇄</SwapButton>
+        <select value={to} onChange={e => setTo(e.target.value)} aria-label={t('ferry.to')}>
+          {reachable.map(id => <option key={id} value={id}>{getPortName(id)}</option>)}
+        </select>
+      </QueryRow>
+      <QueryRow>
+        <input type="date" value={dateValue} onChange={e => setDateValue(e.target.value)} aria-label={t('ferry.date')} />
+        <input type="time" value={timeValue} onChange={e => setTimeValue(e.target.value)} aria-label={t('ferry.time')} />
+        <Tag color={isHoliday(date) ? '#e57373' : '#64b5f6'}>{isHoliday(date) ? t('ferry.holiday') : t('ferry.weekday')}</Tag>
+      </QueryRow>
+
+      <NextCard warning={!next || next.isLast}>
+        {next ? (
+          <>
+            {t('ferry.nextAfter', { time: formatTime(afterMinutes) })}<strong>{formatTime(next.departure)}</strong>{t('ferry.departs')}
+            {t('ferry.arrives', { time: formatTime(next.arrival), port: getPortName(to), vessel: t(`ferry.vessels.${next.vessel}`) })}
+            {next.isLast && <div>⚠️ {t('ferry.isLast')}</div>}
+          </>
+        ) : (
+          <>⚠️ {t('ferry.noMore', { time: formatTime(afterMinutes), port: getPortName(from) })}</>
+        )}
+        {lastBack && (
+          <div>{t('ferry.lastBack', { port: getPortName(to), time: formatTime(lastBack.departure) })}</div>
+        )}
+      </NextCard>
+
+      {departures.length > 0 ? (
+        <DepartureList>
+          {departures.map(departure => (
+            <DepartureItem
+              key={`${departure.routeId}-${departure.departure}`}
+              past={departure.departure < afterMinutes}
+              next={departure === next}
+              last={departure.isLast}
+            >
+              <span>{formatTime(departure.departure)} {getPortName(from)}</span>
+              <span>→</span>
+              <span>{formatTime(departure.arrival)} {getPortName(to)}</span>
+              <span>
+                <Tag color={departure.vessel === 'express' ? '#26a69a' : '#7e57c2'}>{t(`ferry.vessels.${departure.vessel}`)}</Tag>
+                {departure.isLast && <Tag color="#ff6b35" style={{ marginLeft: 4 }}>{t('ferry.last')}</Tag>}
+              </span>
+            </DepartureItem>
+          ))}
+        </DepartureList>
+      ) : (
+        <Note>{t('ferry.noService')}</Note>
+      )}
+
+      {variantLabels.length > 0 && <Note>{t('ferry.variants', { labels: variantLabels.join(t('ferry.listSeparator')) })}</Note>}
+      {notes.map(note => <Note key={note}>{note}</Note>)}
+    </Wrapper>
+  )
+}
+
+export default FerryTimetable
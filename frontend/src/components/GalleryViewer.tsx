@@ -1,6 +1,11 @@
-import React, { useCallback, useEffect, useMemo, useRef } from 'react'
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react'
 import styled from 'styled-components'
 import { motion, AnimatePresence } from 'framer-motion'
+import PhotoCompareView from './PhotoCompareView'
+import CameraGhostView from './CameraGhostView'
+import { useLocale } from '../contexts/LocaleContext'
+import { getCheckinKey, useCheckin } from '../contexts/CheckinContext'
+import { useCapturePhotos } from '../hooks/useCapturePhotos'
 
 export interface GalleryImage {
   src: string
@@ -16,8 +21,13 @@ export interface GalleryViewerProps {
   onPrevious?: () => void
   onNext?: () => void
   onIndexChange?: (index: number) => void
+  enableCompare?: boolean // 是否提供"对比我的照片"模式（打卡CG使用）
+  checkinTarget?: { islandId: string; spotId: string } // 提供时可开启现场取景，拍摄的照片存入该打卡点
 }
 
+// image: 普通浏览；compare: 与已有照片对比；camera: 摄像头取景
+type ViewerMode = 'image' | 'compare' | 'camera'
+
 const ModalOverlay = styled(motion.div)`
   position: fixed;
   inset: 0;
@@ -33,6 +43,7 @@ const ModalContent = styled(motion.div)`
   position: relative;
   max-width: 90vw;
   max-height: 90vh;
+  overflow-y: auto;
   display: flex;
   flex-direction: column;
   align-items: center;
@@ -94,9 +105,89 @@ const IndicatorDot = styled(motion.button)<{ active: boolean }>`
   cursor: pointer;
 `
 
+const ModeBar = styled.div`
+  display: flex;
+  gap: 12px;
+  flex-wrap: wrap;
+  justify-content: center;
+`
+
+const CaptureStrip = styled.div`
+  display: flex;
+  gap: 8px;
+  align-items: center;
+  flex-wrap: wrap;
+  justify-content: center;
+  color: #5d4037;
+  font-size: 13px;
+`
+
+const CaptureThumb = styled.button<{ active: boolean }>`
+  width: 64px;
+  height: 48px;
+  padding: 0;
+  border-radius: 6px;
+  overflow: hidden;
+  cursor: pointer;
+  border: 2px solid ${props => (props.active ? '#ff6b35' : 'transparent')};
+  background: #222;
+
+  img {
+    width: 100%;
+    height: 100%;
+    object-fit: cover;
+    display: block;
+  }
+`
+
+const ModeToggle = styled(motion.button)<{ active: boolean }>`
+  border: none;
+  border-radius: 20px;
+  padding: 8px 18px;
+  font-size: 15px;
+  font-weight: 600;
+  cursor: pointer;
+  color: ${props => (props.active ? '#2e8b57' : 'white')};
+  background: ${props => (props.active
+    ? 'linear-gradient(45deg, #87ceeb, #98e4d6)'
+    : 'linear-gradient(45deg, #ff6b35, #ffa500)')};
+  box-shadow: 0 4px 12px rgba(0, 0, 0, 0.15);
+`
+
 export default function GalleryViewer(props: GalleryViewerProps) {
-  const { isOpen, onClose, images, currentIndex, title, onPrevious, onNext, onIndexChange } = props
+  const { isOpen, onClose, images, currentIndex, title, onPrevious, onNext, onIndexChange, enableCompare, checkinTarget } = props
+  const { t } = useLocale()
   const containerRef = useRef<HTMLDivElement>(null)
+  const [mode, setMode] = useState<ViewerMode>('image')
+  // 对比模式下使用的现场照片（不选时在对比界面中手动选择照片）
+  const [comparedCaptureId, setComparedCaptureId] = useState<string | null>(null)
+  const { records } = useCheckin()
+  // 对比/取景模式下不响应滚轮、滑动和方向键切图
+  const isToolMode = mode !== 'image'
+
+  // 关闭时回到普通浏览（同时关闭摄像头）
+  useEffect(() => {
+    if (!isOpen) setMode('image')
+  }, [isOpen])
+
+  // 当前CG的现场照片
+  const currentSrc = images[currentIndex]?.src
+  const captures = useMemo(() => {
+    if (!checkinTarget) return []
+    const record = records[getCheckinKey(checkinTarget.islandId, checkinTarget.spotId)]
+    return (record?.captures ?? []).filter(capture => capture.cgId === currentSrc)
+  }, [records, checkinTarget, currentSrc])
+  const captureUrls = useCapturePhotos(captures)
+
+  const toggleMode = (target: ViewerMode) => {
+    setComparedCaptureId(null)
+    setMode(prev => (prev === target ? 'image' : target))
+  }
+
+  const openCapture = (captureId: string) => {
+    setComparedCaptureId(captureId)
+    setMode('compare')
+  }
 
   // 统一的索引变更调用
   const changeIndexBy = useCallback(
@@ -117,11 +208,11 @@ export default function GalleryViewer(props: GalleryViewerProps) {
   // 滚轮切换
   const handleWheel = useCallback(
     (e: WheelEvent) => {
-      if (!isOpen || images.length <= 1) return
+      if (!isOpen || isToolMode || images.length <= 1) return
       e.preventDefault()
       changeIndexBy(e.deltaY > 0 ? 1 : -1)
     },
-    [isOpen, images.length, changeIndexBy]
+    [isOpen, isToolMode, images.length, changeIndexBy]
   )
 
   // 触摸滑动
@@ -131,14 +222,14 @@ export default function GalleryViewer(props: GalleryViewerProps) {
   }, [])
   const onTouchMove = useCallback(
     (e: React.TouchEvent) => {
-      if (touchStartX.current == null) return
+      if (touchStartX.current == null || isToolMode) return
       const diff = touchStartX.current - e.targetTouches[0].clientX
       if (Math.abs(diff) > 50) {
         changeIndexBy(diff > 0 ? 1 : -1)
         touchStartX.current = null
       }
     },
-    [changeIndexBy]
+    [changeIndexBy, isToolMode]
   )
   const onTouchEnd = useCallback(() => {
     touchStartX.current = null
@@ -148,6 +239,8 @@ export default function GalleryViewer(props: GalleryViewerProps) {
   useEffect(() => {
     const keyHandler = (e: KeyboardEvent) => {
       if (!isOpen) return
+      // 对比/取景模式下方向键留给滑块等控件使用
+      if (isToolMode && e.key !== 'Escape') return
       switch (e.key) {
         case 'ArrowLeft':
           e.preventDefault();
@@ -165,7 +258,7 @@ export default function GalleryViewer(props: GalleryViewerProps) {
     }
     document.addEventListener('keydown', keyHandler)
     return () => document.removeEventListener('keydown', keyHandler)
-  }, [isOpen, changeIndexBy, onClose])
+  }, [isOpen, isToolMode, changeIndexBy, onClose])
 
   // 绑定滚轮
   useEffect(() => {
@@ -190,7 +283,25 @@ export default function GalleryViewer(props: GalleryViewerProps) {
           onTouchMove={onTouchMove}
           onTouchEnd={onTouchEnd}
         >
-          <ModalImage src={images[currentIndex]?.src} alt={`${title} - ${images[currentIndex]?.label}`} />
+          {mode === 'compare' ? (
+            <PhotoCompareView
+              key={comparedCaptureId ?? 'manual'}
+              cgSrc={images[currentIndex]?.src}
+              cgLabel={images[currentIndex]?.label}
+              title={title}
+              initialPhoto={comparedCaptureId ? captureUrls[comparedCaptureId] : undefined}
+            />
+          ) : mode === 'camera' && checkinTarget ? (
+            <CameraGhostView
+              cgSrc={images[currentIndex]?.src}
+              cgLabel={images[currentIndex]?.label}
+              title={title}
+              islandId={checkinTarget.islandId}
+              spotId={checkinTarget.spotId}
+            />
+          ) : (
+            <ModalImage src={images[currentIndex]?.src} alt={`${title} - ${images[currentIndex]?.label}`} />
+          )}
           <ModalInfo>
             <ModalTitle>{title}</ModalTitle>
             <ModalLabel>{images[currentIndex]?.label}</ModalLabel>
@@ -215,6 +326,48 @@ export default function GalleryViewer(props: GalleryViewerProps) {
               ))}
             </IndicatorBar>
           )}
+
+          {captures.length > 0 && mode !== 'camera' && (
+            <CaptureStrip>
+              <span>{t('gallery.myCaptures', { count: captures.length })}</span>
+              {captures.map(capture => captureUrls[capture.id] && (
+                <CaptureThumb
+                  key={capture.id}
+                  type="button"
+                  active={mode === 'compare' && comparedCaptureId === capture.id}
+                  title={t('gallery.compareCapture')}
+                  onClick={() => openCapture(capture.id)}
+                >
+                  <img src={captureUrls[capture.id]} alt={t('gallery.captureAlt', { title })} />
+                </CaptureThumb>
+              ))}
+            </CaptureStrip>
+          )}
+
+          {(enableCompare || checkinTarget) && (
+            <ModeBar>
+              {enableCompare && (
+                <ModeToggle
+                  active={mode === 'compare'}
+                  whileHover={{ scale: 1.05 }}
+                  whileTap={{ scale: 0.95 }}
+                  onClick={() => toggleMode('compare')}
+                >
+                  {mode === 'compare' ? t('gallery.backToCg') : `🖼️ ${t('gallery.compare')}`}
+                </ModeToggle>
+              )}
+              {checkinTarget && (
+                <ModeToggle
+                  active={mode === 'camera'}
+                  whileHover={{ scale: 1.05 }}
+                  whileTap={{ scale: 0.95 }}
+                  onClick={() => toggleMode('camera')}
+                >
+                  {mode === 'camera' ? t('gallery.backToCg') : `📷 ${t('gallery.camera')}`}
+                </ModeToggle>
+              )}
+            </ModeBar>
+          )}
         </ModalContent>
       </ModalOverlay>
     </AnimatePresence>
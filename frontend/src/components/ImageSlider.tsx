@@ -1,6 +1,7 @@
 import React, { useState, useEffect } from 'react'
 import styled from 'styled-components'
 import { motion, AnimatePresence } from 'framer-motion'
+import { useLocale } from '../contexts/LocaleContext'
 
 interface ImageSliderProps {
   images: Array<{
@@ -99,6 +100,7 @@ const ImageSlider: React.FC<ImageSliderProps> = ({
   isPlaying: externalIsPlaying, // 新增：外部播放状态
   // onPlayPauseChange // 新增：播放状态变化回调 - 暂时未使用
 }) => {
+  const { t } = useLocale()
   const [currentIndex, setCurrentIndex] = useState(0)
   // const [internalIsPlaying, setInternalIsPlaying] = useState(autoPlay) // 暂时未使用
   
@@ -154,7 +156,7 @@ const ImageSlider: React.FC<ImageSliderProps> = ({
           color: '#666',
           fontSize: '14px'
         }}>
-          暂无图片
+          {t('gallery.noImages')}
         </div>
       </SliderContainer>
     )
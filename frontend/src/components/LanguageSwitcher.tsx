@@ -0,0 +1,57 @@
+import React from 'react'
+import styled from 'styled-components'
+import { localeOptions } from '../utils/i18n'
+import { useLocale } from '../contexts/LocaleContext'
+
+const Switcher = styled.div`
+  position: fixed;
+  left: 20px;
+  bottom: 30px;
+  z-index: 1000;
+  display: flex;
+  gap: 2px;
+  padding: 4px;
+  border-radius: 20px;
+  background: rgba(255, 255, 255, 0.9);
+  box-shadow: 0 4px 15px rgba(0, 0, 0, 0.12);
+
+  /* 移动端左下角是搜索按钮，切换器放在其上方 */
+  @media (max-width: 768px) {
+    bottom: 96px;
+  }
+`
+
+const Option = styled.button<{ active: boolean }>`
+  border: none;
+  border-radius: 16px;
+  padding: 6px 10px;
+  font-size: 13px;
+  cursor: pointer;
+  color: ${props => props.active ? 'white' : '#8d6e63'};
+  background: ${props => props.active ? 'linear-gradient(45deg, #FF6B35, #FFB347)' : 'transparent'};
+  font-weight: ${props => props.active ? 600 : 400};
+`
+
+// 语言切换：选择会保存在本机，下次打开时沿用
+const LanguageSwitcher: React.FC = () => {
+  const { locale, setLocale, t } = useLocale()
+
+  return (
+    <Switcher role="group" aria-label={t('common.language')}>
+      {localeOptions.map(option => (
+        <Option
+          key={option.id}
+          type="button"
+          lang={option.htmlLang}
+          active={option.id === locale}
+          aria-pressed={option.id === locale}
+          onClick={() => setLocale(option.id)}
+        >
+          {option.label}
+        </Option>
+      ))}
+    </Switcher>
+  )
+}
+
+export default LanguageSwitcher
@@ -0,0 +1,157 @@
+import React from 'react'
+import styled from 'styled-components'
+import { motion } from 'framer-motion'
+import {
+  GeoPoint,
+  MapProjection,
+  formatBearing,
+  formatDistance,
+  getBearing,
+  getDistance,
+  isInsideMap
+} from '../utils/geo'
+import { GeolocationError, UserPosition } from '../hooks/useGeolocation'
+import { useLocale } from '../contexts/LocaleContext'
+
+export interface LocationTarget {
+  id: string
+  title: string
+  location: GeoPoint
+}
+
+interface LocationPanelProps {
+  projection: MapProjection
+  position: UserPosition | null
+  heading: number | null
+  error: GeolocationError | null
+  isWatching: boolean
+  onStart: () => void
+  onStop: () => void
+  targets: LocationTarget[]
+  targetId: string | null
+  onTargetChange: (id: string | null) => void
+}
+
+const Panel = styled.div`
+  width: fit-content;
+  max-width: 95%;
+  margin: -10px auto 30px;
+  padding: 14px 18px;
+  border-radius: 20px;
+  background: rgba(255, 255, 255, 0.9);
+  box-shadow: 0 6px 20px rgba(0, 0, 0, 0.1);
+  display: flex;
+  flex-wrap: wrap;
+  align-items: center;
+  gap: 12px;
+  font-size: 14px;
+  color: #5d4037;
+
+  select {
+    padding: 6px 10px;
+    border-radius: 10px;
+    border: 1px solid #ffcc80;
+    background: white;
+    color: #5d4037;
+    font-size: 14px;
+  }
+`
+
+const LocateButton = styled(motion.button)<{ active: boolean }>`
+  border: none;
+  border-radius: 20px;
+  padding: 8px 16px;
+  font-size: 14px;
+  font-weight: 600;
+  cursor: pointer;
+  color: ${props => props.active ? '#4285f4' : 'white'};
+  background: ${props => props.active ? '#e8f0fe' : 'linear-gradient(45deg, #4285f4, #64b5f6)'};
+`
+
+const Status = styled.span<{ warning?: boolean }>`
+  color: ${props => props.warning ? '#d84315' : '#8d6e63'};
+`
+
+const Guidance = styled.span`
+  display: inline-flex;
+  align-items: center;
+  gap: 8px;
+
+  strong {
+    color: #FF6B35;
+  }
+`
+
+const Arrow = styled.span<{ angle: number }>`
+  display: inline-block;
+  font-size: 20px;
+  transform: rotate(${props => props.angle}deg);
+  transition: transform 0.3s ease;
+`
+
+// 定位开关与到目标打卡点的距离、方位；有指南针读数时箭头指向相对手机朝向的方向
+const LocationPanel: React.FC<LocationPanelProps> = ({
+  projection,
+  position,
+  heading,
+  error,
+  isWatching,
+  onStart,
+  onStop,
+  targets,
+  targetId,
+  onTargetChange
+}) => {
+  const { locale, t } = useLocale()
+  const target = targets.find(item => item.id === targetId)
+
+  const renderStatus = () => {
+    if (error) return <Status warning>{t(`geo.errors.${error}`)}</Status>
+    if (!isWatching) return <Status>{t('geo.hint')}</Status>
+    if (!position) return <Status>{t('geo.locating')}</Status>
+    if (!isInsideMap(projection.toMap(position))) return <Status warning>{t('geo.outsideMap')}</Status>
+    return <Status>{t('geo.accuracy', { value: formatDistance(position.accuracy, locale) })}</Status>
+  }
+
+  const renderGuidance = () => {
+    if (!position || !target) return null
+    const distance = getDistance(position, target.location)
+    const bearing = getBearing(position, target.location)
+    return (
+      <Guidance>
+        <Arrow angle={heading !== null ? bearing - heading : bearing}>⬆️</Arrow>
+        <span>
+          {t('geo.guidance', { name: target.title, direction: formatBearing(bearing, locale) })}
+          <strong> {formatDistance(distance, locale)}</strong>
+        </span>
+      </Guidance>
+    )
+  }
+
+  return (
+    <Panel>
+      <LocateButton
+        type="button"
+        active={isWatching}
+        onClick={isWatching ? onStop : onStart}
+        whileTap={{ scale: 0.95 }}
+      >
+        {isWatching ? t('geo.stop') : `📍 ${t('geo.start')}`}
+      </LocateButton>
+      {renderStatus()}
+      {isWatching && targets.length > 0 && (
+        <select
+          value={targetId ?? ''}
+          onChange={e => onTargetChange(e.target.value || null)}
+          aria-label={t('geo.target')}
+        >
+          <option value="">{t('geo.chooseTarget')}</option>
+          {targets.map(item => <option key={item.id} value={item.id}>{item.title}</option>)}
+        </select>
+      )}
+      {renderGuidance()}
+    </Panel>
+  )
+}
+
+export default LocationPanel
@@ -0,0 +1,161 @@
+import React, { useEffect, useState } from 'react'
+import styled from 'styled-components'
+import { GeoPoint } from '../utils/geo'
+import { islandDefinitions } from '../utils/islandData'
+import { arrivalPoints, getArrivalKey, isLocationSimulatorEnabled } from '../utils/proximity'
+import { useProximity } from '../contexts/ProximityContext'
+
+const Panel = styled.div`
+  position: fixed;
+  top: 20px;
+  right: 20px;
+  z-index: 1500;
+  width: 260px;
+  padding: 10px 12px;
+  border-radius: 12px;
+  background: rgba(33, 33, 33, 0.88);
+  color: #eee;
+  font-size: 12px;
+  font-family: monospace;
+  display: flex;
+  flex-direction: column;
+  gap: 8px;
+
+  select, input {
+    width: 100%;
+    padding: 4px 6px;
+    border-radius: 6px;
+    border: 1px solid #555;
+    background: #222;
+    color: #eee;
+    font-size: 12px;
+  }
+`
+
+const Toggle = styled.button`
+  position: fixed;
+  top: 20px;
+  right: 20px;
+  z-index: 1500;
+  border: none;
+  border-radius: 16px;
+  padding: 6px 12px;
+  font-size: 12px;
+  color: #eee;
+  background: rgba(33, 33, 33, 0.75);
+  cursor: pointer;
+`
+
+const Row = styled.div`
+  display: flex;
+  gap: 6px;
+`
+
+const SmallButton = styled.button`
+  flex: 1;
+  border: none;
+  border-radius: 6px;
+  padding: 5px 6px;
+  font-size: 12px;
+  color: #eee;
+  background: #455a64;
+  cursor: pointer;
+`
+
+const NUDGE_METERS = 20
+const METERS_PER_DEGREE_LAT = 110940
+
+// 向指定方向移动若干米，用于测试进入和离开到达范围
+const nudge = (point: GeoPoint, north: number, east: number): GeoPoint => ({
+  lat: point.lat + north / METERS_PER_DEGREE_LAT,
+  lng: point.lng + east / (METERS_PER_DEGREE_LAT * Math.cos((point.lat * Math.PI) / 180))
+})
+
+// 开发用的模拟定位面板：无需到现场即可测试到达提示（见 utils/proximity 的 isLocationSimulatorEnabled）
+const LocationSimulator: React.FC = () => {
+  const [isOpen, setIsOpen] = useState(false)
+  const [spotKey, setSpotKey] = useState('')
+  const [latInput, setLatInput] = useState('')
+  const [lngInput, setLngInput] = useState('')
+  const { enabled, setEnabled, position, samplingMode, nearest, simulatedLocation, setSimulatedLocation } = useProximity()
+
+  useEffect(() => {
+    if (!simulatedLocation) return
+    setLatInput(simulatedLocation.lat.toFixed(6))
+    setLngInput(simulatedLocation.lng.toFixed(6))
+  }, [simulatedLocation])
+
+  if (!isLocationSimulatorEnabled()) return null
+
+  if (!isOpen) {
+    return <Toggle type="button" onClick={() => setIsOpen(true)}>🧭 模拟定位{simulatedLocation ? ' ●' : ''}</Toggle>
+  }
+
+  const handleJump = () => {
+    const point = arrivalPoints.find(item => getArrivalKey(item) === spotKey)
+    if (point) setSimulatedLocation(point.location)
+  }
+
+  const handleApply = () => {
+    const lat = Number(latInput)
+    const lng = Number(lngInput)
+    if (latInput && lngInput && Number.isFinite(lat) && Number.isFinite(lng)) setSimulatedLocation({ lat, lng })
+  }
+
+  const handleNudge = (north: number, east: number) => {
+    const origin = simulatedLocation ?? position
+    if (origin) setSimulatedLocation(nudge(origin, north, east))
+  }
+
+  return (
+    <Panel>
+      <Row>
+        <strong style={{ flex: 1 }}>🧭 模拟定位</strong>
+        <SmallButton type="button" style={{ flex: 'none' }} onClick={() => setIsOpen(false)}>收起</SmallButton>
+      </Row>
+
+      {!enabled && (
+        <SmallButton type="button" onClick={() => setEnabled(true)}>到达提醒未开启，点击开启</SmallButton>
+      )}
+
+      <select value={spotKey} onChange={e => setSpotKey(e.target.value)}>
+        <option value="">选择打卡点…</option>
+        {islandDefinitions.map(island => (
+          <optgroup key={island.id} label={island.name}>
+            {island.spots.filter(spot => spot.arrival).map(spot => (
+              <option key={spot.id} value={`${island.id}/${spot.id}`}>{spot.title}</option>
+            ))}
+          </optgroup>
+        ))}
+      </select>
+      <SmallButton type="button" onClick={handleJump} disabled={!spotKey}>跳到该打卡点</SmallButton>
+
+      <Row>
+        <input value={latInput} onChange={e => setLatInput(e.target.value)} placeholder="纬度" inputMode="decimal" />
+        <input value={lngInput} onChange={e => setLngInput(e.target.value)} placeholder="经度" inputMode="decimal" />
+      </Row>
+      <SmallButton type="button" onClick={handleApply}>使用该坐标</SmallButton>
+
+      <Row>
+        <SmallButton type="button" onClick={() => handleNudge(NUDGE_METERS, 0)}>北</SmallButton>
+        <SmallButton type="button" onClick={() => handleNudge(-NUDGE_METERS, 0)}>南</SmallButton>
+        <SmallButton type="button" onClick={() => handleNudge(0, -NUDGE_METERS)}>西</SmallButton>
+        <SmallButton type="button" onClick={() => handleNudge(0, NUDGE_METERS)}>东</SmallButton>
+      </Row>
+
+      <SmallButton type="button" onClick={() => setSimulatedLocation(null)} disabled={!simulatedLocation}>
+        清除模拟，恢复真实定位
+      </SmallButton>
+
+      <div>
+        来源: {simulatedLocation ? '模拟' : '真实定位'} · 采样: {samplingMode}
+        <br />
+        位置: {position ? `${position.lat.toFixed(5)}, ${position.lng.toFixed(5)}` : '—'}
+        <br />
+        最近: {nearest ? `${nearest.spotId} ${Math.round(nearest.distance)}m / 范围 ${nearest.radius}m` : '—'}
+      </div>
+    </Panel>
+  )
+}
+
+export default LocationSimulator
@@ -0,0 +1,198 @@
+import React, { useMemo } from 'react'
+import styled from 'styled-components'
+import { CalloutVariant, MarkdownBlock, MarkdownInline, parseMarkdown } from '../utils/markdown'
+
+interface MarkdownContentProps {
+  content: string
+  className?: string
+}
+
+const calloutStyles: Record<CalloutVariant, { icon: string; color: string; background: string }> = {
+  note: { icon: 'ℹ️', color: '#1976d2', background: '#e3f2fd' },
+  tip: { icon: '💡', color: '#2e7d32', background: '#e8f5e9' },
+  warning: { icon: '⚠️', color: '#d84315', background: '#fff3e0' }
+}
+
+const Wrapper = styled.div`
+  color: #333;
+  line-height: 1.6;
+  font-size: 14px;
+
+  h1, h2, h3, h4 {
+    margin: 14px 0 8px 0;
+    color: #FF6B35;
+    line-height: 1.4;
+  }
+
+  h1 { font-size: 20px; }
+  h2 { font-size: 18px; }
+  h3 { font-size: 16px; }
+  h4 { font-size: 15px; }
+
+  p {
+    margin: 8px 0;
+  }
+
+  ul, ol {
+    margin: 10px 0;
+    padding-left: 20px;
+  }
+
+  li {
+    margin: 5px 0;
+  }
+
+  strong {
+    color: #FF6B35;
+    font-weight: 600;
+  }
+
+  a {
+    color: #FF6B35;
+    word-break: break-all;
+  }
+
+  img {
+    max-width: 100%;
+    border-radius: 8px;
+    vertical-align: middle;
+  }
+
+  > :first-child {
+    margin-top: 0;
+  }
+
+  > :last-child {
+    margin-bottom: 0;
+  }
+`
+
+const TableWrapper = styled.div`
+  overflow-x: auto;
+  margin: 10px 0;
+
+  table {
+    width: 100%;
+    border-collapse: collapse;
+    font-size: 13px;
+  }
+
+  th, td {
+    border: 1px solid #ffe0b2;
+    padding: 6px 10px;
+  }
+
+  th {
+    background: rgba(255, 179, 71, 0.15);
+    color: #795548;
+    font-weight: 600;
+  }
+`
+
+const Callout = styled.div<{ variant: CalloutVariant }>`
+  display: flex;
+  gap: 8px;
+  margin: 10px 0;
+  padding: 10px 14px;
+  border-radius: 10px;
+  border-left: 4px solid ${props => calloutStyles[props.variant].color};
+  background: ${props => calloutStyles[props.variant].background};
+
+  > div > :first-child {
+    margin-top: 0;
+  }
+
+  > div > :last-child {
+    margin-bottom: 0;
+  }
+`
+
+const renderInline = (nodes: MarkdownInline[]): React.ReactNode[] =>
+  nodes.map((node, index) => {
+    switch (node.type) {
+      case 'text':
+        return <React.Fragment key={index}>{node.text}</React.Fragment>
+      case 'strong':
+        return <strong key={index}>{renderInline(node.children)}</strong>
+      case 'link': {
+        const external = /^https?:\/\//i.test(node.href)
+        return (
+          <a
+            key={index}
+            href={node.href}
+            target={external ? '_blank' : undefined}
+            rel={external ? 'noopener noreferrer' : undefined}
+          >
+            {renderInline(node.children)}
+          </a>
+        )
+      }
+      case 'image':
+        return <img key={index} src={node.src} alt={node.alt} loading="lazy" />
+    }
+  })
+
+const renderBlocks = (blocks: MarkdownBlock[]): React.ReactNode[] =>
+  blocks.map((block, index) => {
+    switch (block.type) {
+      case 'heading': {
+        const Tag = `h${block.level}` as 'h1' | 'h2' | 'h3' | 'h4'
+        return <Tag key={index}>{renderInline(block.children)}</Tag>
+      }
+      case 'paragraph':
+        return (
+          <p key={index}>
+            {block.lines.map((line, lineIndex) => (
+              <React.Fragment key={lineIndex}>
+                {lineIndex > 0 && <br />}
+                {renderInline(line)}
+              </React.Fragment>
+            ))}
+          </p>
+        )
+      case 'list': {
+        const items = block.items.map((item, itemIndex) => <li key={itemIndex}>{renderInline(item)}</li>)
+        return block.ordered
+          ? <ol key={index} start={block.start}>{items}</ol>
+          : <ul key={index}>{items}</ul>
+      }
+      case 'table':
+        return (
+          <TableWrapper key={index}>
+            <table>
+              <thead>
+                <tr>
+                  {block.header.map((cell, col) => (
+                    <th key={col} style={{ textAlign: block.align[col] ?? 'left' }}>{renderInline(cell)}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {block.rows.map((row, rowIndex) => (
+                  <tr key={rowIndex}>
+                    {row.map((cell, col) => (
+                      <td key={col} style={{ textAlign: block.align[col] ?? 'left' }}>{renderInline(cell)}</td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </TableWrapper>
+        )
+      case 'callout':
+        return (
+          <Callout key={index} variant={block.variant}>
+            <span>{calloutStyles[block.variant].icon}</span>
+            <div>{renderBlocks(block.blocks)}</div>
+          </Callout>
+        )
+    }
+  })
+
+// 渲染卡片正文的 Markdown 子集，所有内容都以 React 元素输出
+const MarkdownContent: React.FC<MarkdownContentProps> = ({ content, className }) => {
+  const blocks = useMemo(() => parseMarkdown(content), [content])
+  return <Wrapper className={className}>{renderBlocks(blocks)}</Wrapper>
+}
+
+export default MarkdownContent
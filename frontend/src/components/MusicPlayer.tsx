@@ -1,7 +1,10 @@
 import React, { useRef, useState, useEffect } from 'react'
+import { useLocation } from 'react-router-dom'
 import styled from 'styled-components'
 import { motion, AnimatePresence } from 'framer-motion'
 import { useMusic, PlayMode } from '../contexts/MusicContext'
+import { useLocale } from '../contexts/LocaleContext'
+import { useLyrics } from '../hooks/useLyrics'
 
 // 主容器
 const PlayerContainer = styled.div`
@@ -53,6 +56,24 @@ const PlayButton = styled(motion.button)<{ isPlaying: boolean }>`
   }
 `
 
+// 收起状态下显示在播放按钮左侧的当前歌词
+const LyricTicker = styled(motion.div)`
+  position: absolute;
+  right: 95px;
+  bottom: 22px;
+  max-width: min(260px, 60vw);
+  padding: 8px 14px;
+  border-radius: 18px;
+  background: rgba(255, 255, 255, 0.92);
+  box-shadow: 0 4px 15px rgba(0, 0, 0, 0.12);
+  font-size: 13px;
+  color: #333;
+  white-space: nowrap;
+  overflow: hidden;
+  text-overflow: ellipsis;
+  pointer-events: none;
+`
+
 // 展开的播放器面板 - 参考网易云音乐布局
 const PlayerPanel = styled(motion.div)`
   position: absolute;
@@ -350,6 +371,57 @@ const PlaylistArtistName = styled.div`
   text-overflow: ellipsis;
 `
 
+// 歌词面板：当前行保持在中间，点击某一行跳转到该处
+const LyricsPane = styled.div`
+  position: relative;
+  max-height: 150px;
+  overflow-y: auto;
+  margin-bottom: 15px;
+  padding: 8px 0;
+  text-align: center;
+  border-radius: 10px;
+  background: rgba(255, 71, 87, 0.04);
+
+  &::-webkit-scrollbar {
+    width: 4px;
+  }
+
+  &::-webkit-scrollbar-thumb {
+    background: rgba(255, 71, 87, 0.3);
+    border-radius: 2px;
+  }
+`
+
+const LyricRow = styled.div<{ isActive: boolean }>`
+  padding: 4px 12px;
+  cursor: pointer;
+  transition: color 0.2s, transform 0.2s;
+  color: ${props => props.isActive ? '#ff4757' : '#666'};
+  font-size: ${props => props.isActive ? '15px' : '13px'};
+  font-weight: ${props => props.isActive ? '600' : '400'};
+
+  &:hover {
+    color: #ff4757;
+  }
+`
+
+const LyricTranslation = styled.div`
+  font-size: 12px;
+  font-weight: 400;
+  opacity: 0.75;
+  margin-top: 2px;
+`
+
+const LyricsHint = styled.div`
+  font-size: 12px;
+  color: #999;
+  text-align: center;
+  margin-bottom: 15px;
+`
+
+// 手动滚动歌词后暂停自动滚动的时长（毫秒）
+const LYRICS_MANUAL_SCROLL_PAUSE = 3000
+
 // 工具函数
 const formatTime = (time: number): string => {
   const minutes = Math.floor(time / 60)
@@ -358,6 +430,7 @@ const formatTime = (time: number): string => {
 }
 
 const MusicPlayer: React.FC = () => {
+  const { t } = useLocale()
   const {
     isPlaying,
     currentTime,
@@ -374,12 +447,29 @@ const MusicPlayer: React.FC = () => {
     setVolume,
     selectTrack,
     setPlayMode,
+    sceneMode,
+    setSceneMode,
+    updateScene,
+    crossfade,
+    setCrossfade,
     isPlayerOpen,
     setPlayerOpen
   } = useMusic()
+  const location = useLocation()
+
+  // 把当前页面告诉播放器，用于场景音乐
+  useEffect(() => {
+    updateScene(location.pathname)
+  }, [location.pathname, updateScene])
 
   // 播放列表容器的引用
   const playlistContainerRef = useRef<HTMLDivElement>(null)
+
+  // 歌词
+  const { lines: lyricLines, status: lyricsStatus, activeIndex: activeLyricIndex } = useLyrics(currentTrack, currentTime)
+  const lyricsPaneRef = useRef<HTMLDivElement>(null)
+  const lyricsScrolledAtRef = useRef(0)
+  const activeLyric = lyricLines[activeLyricIndex]
   
   // 滚动状态
   const [isScrolled, setIsScrolled] = useState(false)
@@ -398,6 +488,7 @@ const MusicPlayer: React.FC = () => {
   const getPlayModeIcon = () => {
     switch (playMode) {
       case 'single': return '🔂'
+      case 'shuffle': return '🔀'
       case 'list': return '🔁'
       default: return '🔁'
     }
@@ -405,14 +496,15 @@ const MusicPlayer: React.FC = () => {
   
   const getPlayModeText = () => {
     switch (playMode) {
-      case 'single': return '单曲循环'
-      case 'list': return '列表循环'
-      default: return '列表循环'
+      case 'single': return t('music.modes.single')
+      case 'shuffle': return t('music.modes.shuffle')
+      case 'list': return t('music.modes.list')
+      default: return t('music.modes.list')
     }
   }
   
   const togglePlayMode = () => {
-    const modes: PlayMode[] = ['list', 'single']
+    const modes: PlayMode[] = ['list', 'single', 'shuffle']
     const currentModeIndex = modes.indexOf(playMode)
     const nextModeIndex = (currentModeIndex + 1) % modes.length
     setPlayMode(modes[nextModeIndex])
@@ -448,6 +540,23 @@ const MusicPlayer: React.FC = () => {
     }
   }, [currentIndex])
 
+  // 当前歌词行滚动到歌词面板中间，用户刚手动滚动过时不打扰
+  useEffect(() => {
+    const pane = lyricsPaneRef.current
+    if (!pane || activeLyricIndex < 0) return
+    if (Date.now() - lyricsScrolledAtRef.current < LYRICS_MANUAL_SCROLL_PAUSE) return
+    const row = pane.children[activeLyricIndex] as HTMLElement | undefined
+    if (!row) return
+    pane.scrollTo({
+      top: row.offsetTop - pane.clientHeight / 2 + row.clientHeight / 2,
+      behavior: 'smooth'
+    })
+  }, [activeLyricIndex, isPlayerOpen])
+
+  const handleLyricsManualScroll = () => {
+    lyricsScrolledAtRef.current = Date.now()
+  }
+
   // 监听滚动事件
   useEffect(() => {
     const container = playlistContainerRef.current
@@ -473,6 +582,21 @@ const MusicPlayer: React.FC = () => {
         data-music-player="true"
       />
 
+      {/* 收起时的单行歌词 */}
+      <AnimatePresence>
+        {!isPlayerOpen && isPlaying && activeLyric?.text && (
+          <LyricTicker
+            key={activeLyricIndex}
+            initial={{ opacity: 0, y: 6 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -6 }}
+            transition={{ duration: 0.25 }}
+          >
+            {activeLyric.text}
+          </LyricTicker>
+        )}
+      </AnimatePresence>
+
       {/* 展开的播放器面板 */}
       <AnimatePresence>
         {isPlayerOpen && (
@@ -489,7 +613,7 @@ const MusicPlayer: React.FC = () => {
                   <>
                     <img 
                       src={currentTrack.cover} 
-                      alt={`${currentTrack.name} 封面`}
+                      alt={t('music.coverAlt', { name: currentTrack.name })}
                       onError={(e) => {
                         // 图片加载失败时显示默认图标
                         const target = e.target as HTMLImageElement;
@@ -505,8 +629,8 @@ const MusicPlayer: React.FC = () => {
                 )}
               </AlbumCover>
               <TrackInfo>
-                <TrackName>{currentTrack?.name || '暂无歌曲'}</TrackName>
-                <ArtistName>{currentTrack?.artist || '未知艺术家'}</ArtistName>
+                <TrackName>{currentTrack?.name || t('music.noTrack')}</TrackName>
+                <ArtistName>{currentTrack?.artist || t('music.unknownArtist')}</ArtistName>
               </TrackInfo>
               <CloseButton onClick={() => setPlayerOpen(false)}>
                 ✕
@@ -526,6 +650,28 @@ const MusicPlayer: React.FC = () => {
               </ProgressContainer>
             )}
 
+            {/* 歌词 */}
+            {lyricsStatus === 'ready' && (
+              <LyricsPane
+                ref={lyricsPaneRef}
+                onWheel={handleLyricsManualScroll}
+                onTouchMove={handleLyricsManualScroll}
+              >
+                {lyricLines.map((line, index) => (
+                  <LyricRow
+                    key={`${line.time}-${index}`}
+                    isActive={index === activeLyricIndex}
+                    onClick={() => seek(line.time)}
+                  >
+                    {line.text || '♪'}
+                    {line.translation && <LyricTranslation>{line.translation}</LyricTranslation>}
+                  </LyricRow>
+                ))}
+              </LyricsPane>
+            )}
+            {lyricsStatus === 'loading' && <LyricsHint>{t('music.lyricsLoading')}</LyricsHint>}
+            {lyricsStatus === 'error' && <LyricsHint>{t('music.lyricsFailed')}</LyricsHint>}
+
             {/* 控制按钮 */}
             <Controls>
               <ControlButton
@@ -565,10 +711,27 @@ const MusicPlayer: React.FC = () => {
               />
             </VolumeContainer>
 
+            {/* 交叉淡入淡出 */}
+            <VolumeContainer title={t('music.crossfadeHint')}>
+              <VolumeIcon>〰️</VolumeIcon>
+              <VolumeSlider
+                type="range"
+                min="0"
+                max="12"
+                step="1"
+                value={crossfade}
+                onChange={(e) => setCrossfade(parseFloat(e.target.value))}
+                aria-label={t('music.crossfadeHint')}
+              />
+              <span style={{ fontSize: '12px', color: '#999', minWidth: '88px', textAlign: 'right' }}>
+                {crossfade > 0 ? t('music.crossfade', { seconds: crossfade }) : t('music.noCrossfade')}
+              </span>
+            </VolumeContainer>
+
             {/* 播放列表 */}
             <PlaylistHeader>
               <span style={{ fontSize: '14px', fontWeight: '600', color: '#333' }}>
-                  播放列表 ({playlist.length})
+                  {t('music.playlist', { count: playlist.length })}
               </span>
               <motion.button
                 onClick={togglePlayMode}
@@ -590,6 +753,28 @@ const MusicPlayer: React.FC = () => {
               >
                 {getPlayModeIcon()} {getPlayModeText()}
               </motion.button>
+              <motion.button
+                onClick={() => setSceneMode(!sceneMode)}
+                title={t('music.sceneModeHint')}
+                aria-pressed={sceneMode}
+                style={{
+                  background: sceneMode ? 'rgba(255, 71, 87, 0.1)' : 'none',
+                  border: 'none',
+                  cursor: 'pointer',
+                  fontSize: '12px',
+                  color: sceneMode ? '#ff4757' : '#999',
+                  display: 'flex',
+                  alignItems: 'center',
+                  gap: '4px',
+                  padding: '4px 8px',
+                  borderRadius: '4px',
+                  transition: 'all 0.2s'
+                }}
+                whileHover={{ scale: 1.05, backgroundColor: 'rgba(255, 71, 87, 0.1)' }}
+                whileTap={{ scale: 0.95 }}
+              >
+                🏝️ {t('music.sceneMode')}
+              </motion.button>
             </PlaylistHeader>
 
             <PlaylistContainer ref={playlistContainerRef}>
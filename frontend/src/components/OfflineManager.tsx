@@ -0,0 +1,305 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react'
+import styled from 'styled-components'
+import { motion } from 'framer-motion'
+import {
+  OfflinePack,
+  OfflinePackStatus,
+  StorageEstimate,
+  clearOfflineData,
+  deletePack,
+  downloadPack,
+  formatBytes,
+  getOfflinePacks,
+  getPackStatus,
+  getStorageEstimate,
+  isOfflineSupported
+} from '../utils/offline'
+import { localizeIsland, getIslandDefinition } from '../utils/islandData'
+import { useLocale } from '../contexts/LocaleContext'
+
+const Wrapper = styled.div`
+  display: flex;
+  flex-direction: column;
+  gap: 14px;
+`
+
+const Title = styled.h3`
+  font-size: 20px;
+  color: #FF6B35;
+  margin: 0;
+  text-align: center;
+`
+
+const Hint = styled.p`
+  font-size: 13px;
+  color: #8d6e63;
+  line-height: 1.6;
+  margin: 0;
+`
+
+const StatusBar = styled.div<{ online: boolean }>`
+  display: flex;
+  justify-content: space-between;
+  align-items: center;
+  gap: 10px;
+  padding: 10px 14px;
+  border-radius: 12px;
+  font-size: 13px;
+  color: ${props => props.online ? '#2E8B57' : '#d84315'};
+  background: ${props => props.online ? 'rgba(152, 228, 214, 0.3)' : '#fff3e0'};
+`
+
+const PackRow = styled.div`
+  display: flex;
+  align-items: center;
+  gap: 12px;
+  padding: 12px 14px;
+  border-radius: 14px;
+  background: rgba(255, 179, 71, 0.1);
+  border: 1px solid #ffe0b2;
+`
+
+const PackIcon = styled.div`
+  font-size: 26px;
+  width: 36px;
+  display: flex;
+  justify-content: center;
+
+  img {
+    width: 32px;
+    height: 32px;
+    object-fit: contain;
+  }
+`
+
+const PackInfo = styled.div`
+  flex: 1;
+  min-width: 0;
+`
+
+const PackName = styled.div`
+  font-size: 15px;
+  font-weight: 600;
+  color: #5d4037;
+`
+
+const PackMeta = styled.div`
+  font-size: 12px;
+  color: #999;
+  margin-top: 2px;
+`
+
+const ProgressTrack = styled.div`
+  height: 6px;
+  margin-top: 6px;
+  background: rgba(255, 179, 71, 0.25);
+  border-radius: 3px;
+  overflow: hidden;
+`
+
+const ProgressFill = styled.div<{ percent: number }>`
+  height: 100%;
+  width: ${props => props.percent}%;
+  background: linear-gradient(90deg, #FF6B35, #FFB347);
+  transition: width 0.3s ease;
+`
+
+const PackButton = styled(motion.button)<{ variant?: 'danger' }>`
+  border: none;
+  border-radius: 20px;
+  padding: 8px 14px;
+  font-size: 13px;
+  font-weight: 600;
+  cursor: pointer;
+  white-space: nowrap;
+  color: ${props => props.variant === 'danger' ? '#d84315' : 'white'};
+  background: ${props => props.variant === 'danger' ? '#fff3e0' : 'linear-gradient(45deg, #FF6B35, #FFB347)'};
+
+  &:disabled {
+    opacity: 0.5;
+    cursor: not-allowed;
+  }
+`
+
+const Footer = styled.div`
+  display: flex;
+  justify-content: space-between;
+  align-items: center;
+  gap: 10px;
+  font-size: 13px;
+  color: #8d6e63;
+`
+
+interface DownloadProgress {
+  done: number
+  total: number
+}
+
+// 离线下载管理：按岛屿下载 CG、地图与时刻表，显示缓存大小并支持清除
+const OfflineManager: React.FC = () => {
+  const { locale, t } = useLocale()
+  const packs = useMemo(() => getOfflinePacks(), [])
+  const [statuses, setStatuses] = useState<Record<string, OfflinePackStatus>>({})
+  const [progress, setProgress] = useState<Record<string, DownloadProgress>>({})
+  const [estimate, setEstimate] = useState<StorageEstimate | null>(null)
+  const [isOnline, setIsOnline] = useState(() => navigator.onLine)
+  const [message, setMessage] = useState('')
+  const supported = isOfflineSupported()
+
+  const refreshStatus = useCallback(async () => {
+    if (!supported) return
+    try {
+      const entries = await Promise.all(packs.map(async pack => [pack.id, await getPackStatus(pack)] as const))
+      setStatuses(Object.fromEntries(entries))
+      setEstimate(await getStorageEstimate())
+    } catch (error) {
+      console.warn('读取离线缓存状态失败:', error)
+    }
+  }, [packs, supported])
+
+  useEffect(() => {
+    refreshStatus()
+  }, [refreshStatus])
+
+  useEffect(() => {
+    const updateOnline = () => setIsOnline(navigator.onLine)
+    window.addEventListener('online', updateOnline)
+    window.addEventListener('offline', updateOnline)
+    return () => {
+      window.removeEventListener('online', updateOnline)
+      window.removeEventListener('offline', updateOnline)
+    }
+  }, [])
+
+  // 公共资源包没有对应岛屿，名称来自文案
+  const getPackName = (pack: OfflinePack) => {
+    const island = getIslandDefinition(pack.id)
+    return island ? localizeIsland(island, locale).name : t(`offline.packs.${pack.id}`)
+  }
+
+  const handleDownload = async (pack: OfflinePack) => {
+    setMessage('')
+    setProgress(current => ({ ...current, [pack.id]: { done: 0, total: pack.urls.length } }))
+    try {
+      const failed = await downloadPack(pack, (done, total) => {
+        setProgress(current => ({ ...current, [pack.id]: { done, total } }))
+      })
+      setMessage(failed > 0
+        ? t('offline.downloadPartial', { name: getPackName(pack), failed })
+        : t('offline.downloadDone', { name: getPackName(pack) }))
+    } catch (error) {
+      console.warn('下载离线包失败:', error)
+      setMessage(t('offline.downloadFailed'))
+    } finally {
+      setProgress(current => {
+        const next = { ...current }
+        delete next[pack.id]
+        return next
+      })
+      refreshStatus()
+    }
+  }
+
+  const handleDelete = async (pack: OfflinePack) => {
+    await deletePack(pack.id)
+    setMessage(t('offline.deleted', { name: getPackName(pack) }))
+    refreshStatus()
+  }
+
+  const handleClearAll = async () => {
+    if (!window.confirm(t('offline.clearConfirm'))) return
+    await clearOfflineData()
+    setMessage(t('offline.cleared'))
+    refreshStatus()
+  }
+
+  const isDownloading = Object.keys(progress).length > 0
+  const totalCached = Object.values(statuses).reduce((sum, status) => sum + status.bytes, 0)
+
+  if (!supported) {
+    return (
+      <Wrapper>
+        <Title>{t('offline.title')}</Title>
+        <Hint>{t('offline.unsupported')}</Hint>
+      </Wrapper>
+    )
+  }
+
+  return (
+    <Wrapper>
+      <Title>{t('offline.title')}</Title>
+      <Hint>{t('offline.hint')}</Hint>
+
+      <StatusBar online={isOnline}>
+        <span>{isOnline ? `🟢 ${t('offline.online')}` : `🔴 ${t('offline.offline')}`}</span>
+        {estimate && estimate.quota > 0 && (
+          <span>{t('offline.storageUsage', { usage: formatBytes(estimate.usage), quota: formatBytes(estimate.quota) })}</span>
+        )}
+      </StatusBar>
+
+      {packs.map(pack => {
+        const status = statuses[pack.id]
+        const packProgress = progress[pack.id]
+        const isComplete = status && status.totalCount > 0 && status.cachedCount === status.totalCount
+        return (
+          <PackRow key={pack.id}>
+            <PackIcon>
+              {pack.icon.iconType === 'image' && pack.icon.icon
+                ? <img src={pack.icon.icon} alt={getPackName(pack)} />
+                : pack.icon.emoji}
+            </PackIcon>
+            <PackInfo>
+              <PackName>{getPackName(pack)}</PackName>
+              <PackMeta>
+                {packProgress
+                  ? t('offline.downloading', { done: packProgress.done, total: packProgress.total })
+                  : status
+                    ? `${t('offline.cachedFiles', { cached: status.cachedCount, total: status.totalCount })}${status.bytes > 0 ? ` · ${formatBytes(status.bytes)}` : ''}`
+                    : t('offline.fileCount', { total: pack.urls.length })}
+              </PackMeta>
+              {packProgress && (
+                <ProgressTrack>
+                  <ProgressFill percent={packProgress.total > 0 ? (packProgress.done / packProgress.total) * 100 : 0} />
+                </ProgressTrack>
+              )}
+            </PackInfo>
+            {status && status.cachedCount > 0 && !packProgress && (
+              <PackButton
+                variant="danger"
+                onClick={() => handleDelete(pack)}
+                whileTap={{ scale: 0.95 }}
+              >
+                {t('common.delete')}
+              </PackButton>
+            )}
+            {!isComplete && (
+              <PackButton
+                onClick={() => handleDownload(pack)}
+                disabled={isDownloading || !isOnline}
+                whileTap={{ scale: 0.95 }}
+              >
+                {status && status.cachedCount > 0 ? t('offline.resume') : t('offline.download')}
+              </PackButton>
+            )}
+          </PackRow>
+        )
+      })}
+
+      {message && <Hint>{message}</Hint>}
+
+      <Footer>
+        <span>{t('offline.total', { size: formatBytes(totalCached) })}</span>
+        <PackButton
+          variant="danger"
+          onClick={handleClearAll}
+          disabled={isDownloading}
+          whileTap={{ scale: 0.95 }}
+        >
+          {t('offline.clearAll')}
+        </PackButton>
+      </Footer>
+    </Wrapper>
+  )
+}
+
+export default OfflineManager
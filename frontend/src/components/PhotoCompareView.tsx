@@ -0,0 +1,426 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react'
+import styled from 'styled-components'
+import { motion } from 'framer-motion'
+import { useLocale } from '../contexts/LocaleContext'
+
+// 对比方式：叠加（透明度）/ 分割线 / 左右并排
+export type CompareMode = 'overlay' | 'split' | 'side'
+
+// 照片相对CG的对齐参数，偏移量为画面宽高的百分比
+export interface PhotoAlignment {
+  scale: number
+  offsetX: number
+  offsetY: number
+  rotate: number // 角度
+}
+
+interface PhotoCompareViewProps {
+  cgSrc: string
+  cgLabel: string
+  title: string
+  initialPhoto?: string // 打开时直接对比的照片（如现场拍摄的照片），URL 由调用方负责释放
+}
+
+const defaultAlignment: PhotoAlignment = { scale: 1, offsetX: 0, offsetY: 0, rotate: 0 }
+const NUDGE_STEP = 0.5
+
+const Wrapper = styled.div`
+  display: flex;
+  flex-direction: column;
+  align-items: center;
+  gap: 12px;
+  max-width: 100%;
+`
+
+const StageRow = styled.div`
+  display: flex;
+  gap: 12px;
+  justify-content: center;
+  max-width: 100%;
+`
+
+const Stage = styled.div`
+  position: relative;
+  overflow: hidden;
+  border-radius: 10px;
+  box-shadow: 0 10px 20px rgba(0, 0, 0, 0.3);
+  background: #222;
+  touch-action: none;
+  user-select: none;
+`
+
+const StageImage = styled.img<{ compact: boolean }>`
+  display: block;
+  max-width: ${props => props.compact ? '40vw' : 'min(80vw, 900px)'};
+  max-height: 55vh;
+  object-fit: contain;
+`
+
+const PhotoLayer = styled.div`
+  position: absolute;
+  inset: 0;
+  pointer-events: none;
+`
+
+const PhotoImage = styled.img`
+  position: absolute;
+  inset: 0;
+  width: 100%;
+  height: 100%;
+  object-fit: cover;
+  transform-origin: center;
+`
+
+const SplitHandle = styled.div`
+  position: absolute;
+  top: 0;
+  bottom: 0;
+  width: 24px;
+  transform: translateX(-50%);
+  cursor: ew-resize;
+  display: flex;
+  justify-content: center;
+
+  &::before {
+    content: '';
+    width: 3px;
+    height: 100%;
+    background: white;
+    box-shadow: 0 0 6px rgba(0, 0, 0, 0.6);
+  }
+
+  &::after {
+    content: '⇔';
+    position: absolute;
+    top: 50%;
+    transform: translateY(-50%);
+    width: 28px;
+    height: 28px;
+    border-radius: 50%;
+    background: white;
+    color: #5d4037;
+    font-size: 16px;
+    line-height: 28px;
+    text-align: center;
+    box-shadow: 0 2px 8px rgba(0, 0, 0, 0.4);
+  }
+`
+
+const Placeholder = styled.label`
+  display: flex;
+  align-items: center;
+  justify-content: center;
+  width: 40vw;
+  max-width: 400px;
+  min-height: 200px;
+  border: 3px dashed #ccc;
+  border-radius: 10px;
+  color: #888;
+  font-size: 16px;
+  cursor: pointer;
+`
+
+const ControlPanel = styled.div`
+  display: flex;
+  flex-wrap: wrap;
+  gap: 10px 20px;
+  justify-content: center;
+  align-items: center;
+  max-width: 900px;
+`
+
+const ControlGroup = styled.label`
+  display: flex;
+  align-items: center;
+  gap: 8px;
+  font-size: 14px;
+  color: #5d4037;
+  font-weight: 600;
+
+  input[type='range'] {
+    width: 110px;
+  }
+`
+
+const ModeButton = styled(motion.button)<{ active: boolean }>`
+  border: none;
+  border-radius: 15px;
+  padding: 6px 14px;
+  font-size: 14px;
+  font-weight: 600;
+  cursor: pointer;
+  color: ${props => props.active ? 'white' : '#5d4037'};
+  background: ${props => props.active ? 'linear-gradient(45deg, #ff6b35, #ffa500)' : 'rgba(0, 0, 0, 0.06)'};
+`
+
+const ActionButton = styled(motion.button)`
+  border: none;
+  border-radius: 15px;
+  padding: 6px 14px;
+  font-size: 14px;
+  font-weight: 600;
+  cursor: pointer;
+  color: #2e8b57;
+  background: linear-gradient(45deg, #87ceeb, #98e4d6);
+`
+
+const NudgePad = styled.div`
+  display: grid;
+  grid-template-columns: repeat(3, 28px);
+  gap: 2px;
+
+  button {
+    width: 28px;
+    height: 24px;
+    border: none;
+    border-radius: 6px;
+    background: rgba(0, 0, 0, 0.06);
+    cursor: pointer;
+    font-size: 12px;
+  }
+`
+
+const HiddenInput = styled.input`
+  display: none;
+`
+
+const loadImage = (src: string) => new Promise<HTMLImageElement>((resolve, reject) => {
+  const img = new Image()
+  img.onload = () => resolve(img)
+  img.onerror = () => reject(new Error(`图片加载失败: ${src}`))
+  img.src = src
+})
+
+// 按页面上的显示规则把照片画到画布的 (x, y, width, height) 区域：
+// 先按 object-fit: cover 铺满区域，再围绕区域中心做偏移/旋转/缩放，最后裁剪到区域内
+const drawAlignedPhoto = (
+  ctx: CanvasRenderingContext2D,
+  photo: HTMLImageElement,
+  area: { x: number; y: number; width: number; height: number },
+  alignment: PhotoAlignment
+) => {
+  const { x, y, width, height } = area
+  const cover = Math.max(width / photo.naturalWidth, height / photo.naturalHeight)
+  const drawWidth = photo.naturalWidth * cover
+  const drawHeight = photo.naturalHeight * cover
+
+  ctx.save()
+  ctx.translate(x + width / 2 + (alignment.offsetX / 100) * width, y + height / 2 + (alignment.offsetY / 100) * height)
+  ctx.rotate((alignment.rotate * Math.PI) / 180)
+  ctx.scale(alignment.scale, alignment.scale)
+  ctx.beginPath()
+  ctx.rect(-width / 2, -height / 2, width, height)
+  ctx.clip()
+  ctx.drawImage(photo, -drawWidth / 2, -drawHeight / 2, drawWidth, drawHeight)
+  ctx.restore()
+}
+
+const PhotoCompareView: React.FC<PhotoCompareViewProps> = ({ cgSrc, cgLabel, title, initialPhoto }) => {
+  const { t } = useLocale()
+  const [photoUrl, setPhotoUrl] = useState<string | null>(initialPhoto ?? null)
+  const [mode, setMode] = useState<CompareMode>('split')
+  const [opacity, setOpacity] = useState(0.5)
+  const [splitPosition, setSplitPosition] = useState(50) // 分割线位置（百分比）
+  const [alignment, setAlignment] = useState<PhotoAlignment>(defaultAlignment)
+  const [isExporting, setIsExporting] = useState(false)
+  const stageRef = useRef<HTMLDivElement>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  // 释放上一张照片的 object URL（调用方传入的照片除外）
+  useEffect(() => {
+    return () => {
+      if (photoUrl && photoUrl !== initialPhoto) URL.revokeObjectURL(photoUrl)
+    }
+  }, [photoUrl, initialPhoto])
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    if (!file) return
+    setPhotoUrl(URL.createObjectURL(file))
+    setAlignment(defaultAlignment)
+    e.target.value = ''
+  }
+
+  const updateAlignment = (patch: Partial<PhotoAlignment>) => {
+    setAlignment(prev => ({ ...prev, ...patch }))
+  }
+
+  const nudge = (dx: number, dy: number) => {
+    setAlignment(prev => ({ ...prev, offsetX: prev.offsetX + dx, offsetY: prev.offsetY + dy }))
+  }
+
+  // 拖动分割线
+  const updateSplitFromPointer = useCallback((clientX: number) => {
+    const rect = stageRef.current?.getBoundingClientRect()
+    if (!rect || rect.width === 0) return
+    const percent = ((clientX - rect.left) / rect.width) * 100
+    setSplitPosition(Math.min(100, Math.max(0, percent)))
+  }, [])
+
+  const handleSplitPointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.preventDefault()
+    e.currentTarget.setPointerCapture(e.pointerId)
+    updateSplitFromPointer(e.clientX)
+  }
+
+  const handleSplitPointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!e.currentTarget.hasPointerCapture(e.pointerId)) return
+    updateSplitFromPointer(e.clientX)
+  }
+
+  // 导出合成图：以CG原始尺寸为基准，与页面显示保持一致
+  const handleExport = async () => {
+    if (!photoUrl) return
+    setIsExporting(true)
+    try {
+      const [cg, photo] = await Promise.all([loadImage(cgSrc), loadImage(photoUrl)])
+      const width = cg.naturalWidth
+      const height = cg.naturalHeight
+      const canvas = document.createElement('canvas')
+      canvas.width = mode === 'side' ? width * 2 : width
+      canvas.height = height
+      const ctx = canvas.getContext('2d')
+      if (!ctx) throw new Error('无法创建画布')
+
+      ctx.fillStyle = '#222'
+      ctx.fillRect(0, 0, canvas.width, canvas.height)
+      ctx.drawImage(cg, 0, 0, width, height)
+
+      if (mode === 'side') {
+        drawAlignedPhoto(ctx, photo, { x: width, y: 0, width, height }, alignment)
+      } else if (mode === 'overlay') {
+        ctx.globalAlpha = opacity
+        drawAlignedPhoto(ctx, photo, { x: 0, y: 0, width, height }, alignment)
+        ctx.globalAlpha = 1
+      } else {
+        const splitX = (splitPosition / 100) * width
+        ctx.save()
+        ctx.beginPath()
+        ctx.rect(splitX, 0, width - splitX, height)
+        ctx.clip()
+        drawAlignedPhoto(ctx, photo, { x: 0, y: 0, width, height }, alignment)
+        ctx.restore()
+        ctx.fillStyle = 'white'
+        ctx.fillRect(splitX - 1, 0, 2, height)
+      }
+
+      const link = document.createElement('a')
+      link.href = canvas.toDataURL('image/jpeg', 0.92)
+      link.download = t('photoCompare.exportFileName', { title, label: cgLabel })
+      document.body.appendChild(link)
+      link.click()
+      document.body.removeChild(link)
+    } catch (error) {
+      console.error('导出对比图失败:', error)
+      alert(t('photoCompare.exportFailed'))
+    } finally {
+      setIsExporting(false)
+    }
+  }
+
+  const photoStyle: React.CSSProperties = {
+    transform: `translate(${alignment.offsetX}%, ${alignment.offsetY}%) rotate(${alignment.rotate}deg) scale(${alignment.scale})`
+  }
+
+  const renderPhoto = (style?: React.CSSProperties) => (
+    photoUrl && <PhotoImage src={photoUrl} alt={t('photoCompare.myPhotoAlt')} style={{ ...photoStyle, ...style }} />
+  )
+
+  return (
+    <Wrapper>
+      <HiddenInput ref={fileInputRef} type="file" accept="image/*" onChange={handleFileChange} />
+
+      {mode === 'side' ? (
+        <StageRow>
+          <Stage>
+            <StageImage compact src={cgSrc} alt={`${title} - ${cgLabel}`} />
+          </Stage>
+          {photoUrl ? (
+            <Stage>
+              {/* 以CG作为占位决定尺寸，使两侧画面比例一致 */}
+              <StageImage compact src={cgSrc} alt="" style={{ visibility: 'hidden' }} />
+              <PhotoLayer>{renderPhoto()}</PhotoLayer>
+            </Stage>
+          ) : (
+            <Placeholder onClick={() => fileInputRef.current?.click()}>{t('photoCompare.pickPlaceholder')}</Placeholder>
+          )}
+        </StageRow>
+      ) : (
+        <Stage ref={stageRef}>
+          <StageImage compact={false} src={cgSrc} alt={`${title} - ${cgLabel}`} />
+          {photoUrl && mode === 'overlay' && (
+            <PhotoLayer style={{ opacity }}>{renderPhoto()}</PhotoLayer>
+          )}
+          {photoUrl && mode === 'split' && (
+            <>
+              <PhotoLayer style={{ clipPath: `inset(0 0 0 ${splitPosition}%)` }}>{renderPhoto()}</PhotoLayer>
+              <SplitHandle
+                style={{ left: `${splitPosition}%` }}
+                onPointerDown={handleSplitPointerDown}
+                onPointerMove={handleSplitPointerMove}
+              />
+            </>
+          )}
+        </Stage>
+      )}
+
+      <ControlPanel>
+        <ModeButton active={mode === 'split'} whileTap={{ scale: 0.95 }} onClick={() => setMode('split')}>
+          {t('photoCompare.modes.split')}
+        </ModeButton>
+        <ModeButton active={mode === 'overlay'} whileTap={{ scale: 0.95 }} onClick={() => setMode('overlay')}>
+          {t('photoCompare.modes.overlay')}
+        </ModeButton>
+        <ModeButton active={mode === 'side'} whileTap={{ scale: 0.95 }} onClick={() => setMode('side')}>
+          {t('photoCompare.modes.side')}
+        </ModeButton>
+        <ActionButton whileTap={{ scale: 0.95 }} onClick={() => fileInputRef.current?.click()}>
+          {photoUrl ? t('photoCompare.changePhoto') : t('photoCompare.pickPhoto')}
+        </ActionButton>
+        {photoUrl && (
+          <ActionButton whileTap={{ scale: 0.95 }} onClick={handleExport} disabled={isExporting}>
+            {isExporting ? t('photoCompare.exporting') : t('photoCompare.export')}
+          </ActionButton>
+        )}
+      </ControlPanel>
+
+      {photoUrl && (
+        <ControlPanel>
+          {mode === 'overlay' && (
+            <ControlGroup>
+              {t('photoCompare.opacity')}
+              <input type="range" min={0} max={1} step={0.01} value={opacity}
+                onChange={e => setOpacity(Number(e.target.value))} />
+            </ControlGroup>
+          )}
+          <ControlGroup>
+            {t('photoCompare.scale')}
+            <input type="range" min={0.5} max={2} step={0.01} value={alignment.scale}
+              onChange={e => updateAlignment({ scale: Number(e.target.value) })} />
+          </ControlGroup>
+          <ControlGroup>
+            {t('photoCompare.rotate')}
+            <input type="range" min={-15} max={15} step={0.1} value={alignment.rotate}
+              onChange={e => updateAlignment({ rotate: Number(e.target.value) })} />
+          </ControlGroup>
+          <ControlGroup as="div">
+            {t('photoCompare.nudge')}
+            <NudgePad>
+              <span />
+              <button type="button" title={t('photoCompare.moveUp')} onClick={() => nudge(0, -NUDGE_STEP)}>▲</button>
+              <span />
+              <button type="button" title={t('photoCompare.moveLeft')} onClick={() => nudge(-NUDGE_STEP, 0)}>◀</button>
+              <button type="button" title={t('photoCompare.resetAlignment')} onClick={() => setAlignment(defaultAlignment)}>⟲</button>
+              <button type="button" title={t('photoCompare.moveRight')} onClick={() => nudge(NUDGE_STEP, 0)}>▶</button>
+              <span />
+              <button type="button" title={t('photoCompare.moveDown')} onClick={() => nudge(0, NUDGE_STEP)}>▼</button>
+              <span />
+            </NudgePad>
+          </ControlGroup>
+        </ControlPanel>
+      )}
+    </Wrapper>
+  )
+}
+
+export default PhotoCompareView
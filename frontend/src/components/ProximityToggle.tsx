@@ -0,0 +1,109 @@
+import React, { useMemo } from 'react'
+import styled from 'styled-components'
+import { motion } from 'framer-motion'
+import { formatDistance } from '../utils/geo'
+import { getIslandDefinition, localizeIsland } from '../utils/islandData'
+import { useProximity } from '../contexts/ProximityContext'
+import { useLocale } from '../contexts/LocaleContext'
+
+const Wrapper = styled(motion.div)`
+  max-width: 800px;
+  width: 90%;
+  margin: 0 auto 30px;
+  padding: 16px 24px;
+  border-radius: 15px;
+  background: rgba(255, 255, 255, 0.95);
+  box-shadow: 0 8px 25px rgba(0, 0, 0, 0.1);
+  display: flex;
+  align-items: center;
+  gap: 16px;
+  color: #5d4037;
+`
+
+const Text = styled.div`
+  flex: 1;
+  min-width: 0;
+`
+
+const Label = styled.div`
+  font-size: 16px;
+  font-weight: 600;
+`
+
+const Status = styled.div<{ warning?: boolean }>`
+  font-size: 13px;
+  margin-top: 4px;
+  line-height: 1.5;
+  color: ${props => props.warning ? '#d84315' : '#8d6e63'};
+`
+
+const Switch = styled.button<{ on: boolean }>`
+  position: relative;
+  flex-shrink: 0;
+  width: 52px;
+  height: 30px;
+  border: none;
+  border-radius: 15px;
+  cursor: pointer;
+  background: ${props => props.on ? 'linear-gradient(45deg, #FF6B35, #FFB347)' : '#d7ccc8'};
+  transition: background 0.2s ease;
+
+  &::after {
+    content: '';
+    position: absolute;
+    top: 3px;
+    left: ${props => props.on ? '25px' : '3px'};
+    width: 24px;
+    height: 24px;
+    border-radius: 50%;
+    background: white;
+    box-shadow: 0 1px 4px rgba(0, 0, 0, 0.2);
+    transition: left 0.2s ease;
+  }
+`
+
+// 到达提醒开关：开启后在打开网站期间定位，走到打卡点附近时自动提示
+const ProximityToggle: React.FC = () => {
+  const { locale, t } = useLocale()
+  const { enabled, setEnabled, position, error, nearest, simulatedLocation } = useProximity()
+
+  const nearestTitle = useMemo(() => {
+    const island = nearest && getIslandDefinition(nearest.islandId)
+    return island && localizeIsland(island, locale).spots.find(spot => spot.id === nearest.spotId)?.title
+  }, [nearest, locale])
+
+  const renderStatus = () => {
+    if (!enabled) return <Status>{t('proximity.hint')}</Status>
+    if (error) return <Status warning>{t(`geo.errors.${error}`)}</Status>
+    if (!position || !nearest) return <Status>{t('geo.locating')}</Status>
+    return (
+      <Status>
+        {simulatedLocation && `${t('proximity.simulated')} · `}
+        {t('proximity.nearest', { name: nearestTitle ?? '', distance: formatDistance(nearest.distance, locale) })}
+      </Status>
+    )
+  }
+
+  return (
+    <Wrapper
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.6, delay: 0.4 }}
+    >
+      <Text>
+        <Label>📍 {t('proximity.title')}</Label>
+        {renderStatus()}
+      </Text>
+      <Switch
+        type="button"
+        role="switch"
+        on={enabled}
+        aria-checked={enabled}
+        aria-label={t('proximity.title')}
+        onClick={() => setEnabled(!enabled)}
+      />
+    </Wrapper>
+  )
+}
+
+export default ProximityToggle
@@ -0,0 +1,248 @@
+import React from 'react'
+import styled from 'styled-components'
+import { motion } from 'framer-motion'
+import { TransferLeg, TransferMode } from '../utils/trafficCards'
+import { formatDuration, getLegsDuration, getLegsFare } from '../utils/trafficRoutes'
+import { formatCurrency } from '../utils/i18n'
+import { useLocale } from '../contexts/LocaleContext'
+import MarkdownContent from './MarkdownContent'
+
+interface RouteTimelineProps {
+  id?: string
+  legs: TransferLeg[]
+  title?: string
+  icon?: string
+  description?: string // 卡片正文，显示在时间轴上方
+}
+
+const modeIcons: Record<TransferMode, string> = {
+  flight: '✈️',
+  train: '🚆',
+  bus: '🚌',
+  ferry: '⛴️',
+  walk: '🚶'
+}
+
+const defaultLineColors: Record<TransferMode, string> = {
+  flight: '#64b5f6',
+  train: '#FF6B35',
+  bus: '#66bb6a',
+  ferry: '#26a69a',
+  walk: '#bdbdbd'
+}
+
+const Container = styled(motion.div)`
+  background: #ffffff;
+  border-radius: 20px;
+  padding: 30px;
+  margin: 20px 0;
+  box-shadow: 0 15px 35px rgba(0, 0, 0, 0.1);
+  border: 1px solid #e0e0e0;
+`
+
+const Header = styled.div`
+  display: flex;
+  align-items: center;
+  gap: 12px;
+  margin-bottom: 12px;
+`
+
+const HeaderIcon = styled.div`
+  font-size: 24px;
+  width: 40px;
+  height: 40px;
+  display: flex;
+  align-items: center;
+  justify-content: center;
+  background: linear-gradient(45deg, #FF6B35, #FFB347);
+  border-radius: 50%;
+  box-shadow: 0 4px 12px rgba(255, 107, 53, 0.3);
+`
+
+const Title = styled.h3`
+  font-size: 22px;
+  color: #333;
+  margin: 0;
+  font-weight: 600;
+`
+
+const Description = styled(MarkdownContent)`
+  color: #666;
+  margin-bottom: 16px;
+`
+
+const Summary = styled.div`
+  display: flex;
+  flex-wrap: wrap;
+  gap: 10px 24px;
+  padding: 12px 18px;
+  border-radius: 12px;
+  background: rgba(255, 179, 71, 0.12);
+  color: #666;
+  font-size: 15px;
+  margin-bottom: 24px;
+
+  strong {
+    color: #FF6B35;
+  }
+`
+
+const Timeline = styled.ol`
+  list-style: none;
+  margin: 0;
+  padding: 0;
+`
+
+const Station = styled.li`
+  display: grid;
+  grid-template-columns: 28px 1fr;
+  gap: 14px;
+  align-items: center;
+  font-size: 17px;
+  font-weight: 700;
+  color: #333;
+`
+
+const StationDot = styled.span`
+  width: 18px;
+  height: 18px;
+  margin: 0 auto;
+  border-radius: 50%;
+  border: 4px solid #FF6B35;
+  background: white;
+`
+
+const Leg = styled.li`
+  display: grid;
+  grid-template-columns: 28px 1fr;
+  gap: 14px;
+`
+
+const LegLine = styled.span<{ color: string; dashed: boolean }>`
+  width: 6px;
+  margin: 4px auto;
+  border-radius: 3px;
+  background: ${props => props.dashed
+    ? `repeating-linear-gradient(to bottom, ${props.color} 0 6px, transparent 6px 12px)`
+    : props.color};
+`
+
+const LegBody = styled.div`
+  padding: 12px 0 16px 0;
+  display: flex;
+  flex-direction: column;
+  gap: 6px;
+  font-size: 14px;
+  color: #555;
+`
+
+const LineName = styled.div<{ color: string }>`
+  display: flex;
+  flex-wrap: wrap;
+  align-items: center;
+  gap: 8px;
+  font-size: 15px;
+  font-weight: 600;
+  color: #333;
+
+  span:first-child {
+    padding: 2px 10px;
+    border-radius: 10px;
+    background: ${props => props.color};
+    color: white;
+    font-size: 13px;
+  }
+`
+
+const LegMeta = styled.div`
+  display: flex;
+  flex-wrap: wrap;
+  gap: 6px 16px;
+  color: #8d6e63;
+`
+
+const Tip = styled.div`
+  padding: 8px 12px;
+  border-radius: 10px;
+  background: #fff8e1;
+  color: #795548;
+  line-height: 1.5;
+`
+
+const Note = styled.p`
+  margin: 16px 0 0 0;
+  font-size: 12px;
+  color: #999;
+`
+
+// 换乘路线时间轴：站点与各段交通交替排列
+const RouteTimeline: React.FC<RouteTimelineProps> = ({ id, legs, title, icon, description }) => {
+  const { locale, t } = useLocale()
+  const totalMinutes = getLegsDuration(legs)
+  const totalFare = getLegsFare(legs)
+  const transfers = legs.filter(leg => leg.mode !== 'walk').length - 1
+
+  return (
+    <Container
+      id={id}
+      initial={{ opacity: 0, y: 30 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.5 }}
+    >
+      {title && (
+        <Header>
+          {icon && <HeaderIcon>{icon}</HeaderIcon>}
+          <Title>{title}</Title>
+        </Header>
+      )}
+      {description && <Description content={description} />}
+
+      <Summary>
+        <span>🗺️ {legs[0].from} → {legs[legs.length - 1].to}</span>
+        {totalMinutes > 0 && <span>⏱️ {t('route.totalDuration')} <strong>{formatDuration(totalMinutes, locale)}</strong></span>}
+        {totalFare > 0 && <span>💴 {t('route.totalFare')} <strong>{formatCurrency(totalFare, 'JPY', locale)}</strong></span>}
+        <span>🔁 {t('route.transfers', { count: Math.max(0, transfers) })}</span>
+      </Summary>
+
+      <Timeline>
+        {legs.map((leg, index) => {
+          const color = leg.lineColor ?? defaultLineColors[leg.mode]
+          return (
+            <React.Fragment key={index}>
+              {(index === 0 || legs[index - 1].to !== leg.from) && (
+                <Station>
+                  <StationDot />
+                  <span>{leg.from}</span>
+                </Station>
+              )}
+              <Leg>
+                <LegLine color={color} dashed={leg.mode === 'walk'} />
+                <LegBody>
+                  <LineName color={color}>
+                    <span>{modeIcons[leg.mode]} {t(`route.modes.${leg.mode}`)}</span>
+                    {leg.line && <span>{leg.line}</span>}
+                  </LineName>
+                  <LegMeta>
+                    {leg.platform && <span>🚏 {leg.platform}</span>}
+                    {leg.durationMinutes !== undefined && <span>⏱️ {t('traffic.about', { value: formatDuration(leg.durationMinutes, locale) })}</span>}
+                    {leg.fareJPY !== undefined && <span>💴 {formatCurrency(leg.fareJPY, 'JPY', locale)}</span>}
+                  </LegMeta>
+                  {leg.ticketTip && <Tip>🎫 {leg.ticketTip}</Tip>}
+                  {leg.note && <LegMeta>{leg.note}</LegMeta>}
+                </LegBody>
+              </Leg>
+              <Station>
+                <StationDot />
+                <span>{leg.to}</span>
+              </Station>
+            </React.Fragment>
+          )
+        })}
+      </Timeline>
+
+      <Note>{t('route.note')}</Note>
+    </Container>
+  )
+}
+
+export default RouteTimeline
@@ -0,0 +1,284 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+import styled from 'styled-components'
+import { motion, AnimatePresence } from 'framer-motion'
+import { TrafficCard, fetchTrafficCards, readCachedTrafficCards } from '../utils/trafficCards'
+import { buildSearchIndex, searchIndex } from '../utils/search'
+import { useLocale } from '../contexts/LocaleContext'
+
+const isMac = typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform)
+
+const Overlay = styled(motion.div)`
+  position: fixed;
+  inset: 0;
+  z-index: 3000;
+  background: rgba(0, 0, 0, 0.35);
+  display: flex;
+  justify-content: center;
+  align-items: flex-start;
+  padding: 12vh 16px 16px;
+`
+
+const Panel = styled(motion.div)`
+  width: 100%;
+  max-width: 640px;
+  max-height: 70vh;
+  display: flex;
+  flex-direction: column;
+  background: #ffffff;
+  border-radius: 20px;
+  box-shadow: 0 20px 60px rgba(0, 0, 0, 0.2);
+  overflow: hidden;
+`
+
+const InputRow = styled.div`
+  display: flex;
+  align-items: center;
+  gap: 10px;
+  padding: 16px 20px;
+  border-bottom: 1px solid #ffe0b2;
+
+  input {
+    flex: 1;
+    border: none;
+    outline: none;
+    font-size: 18px;
+    color: #333;
+    background: transparent;
+  }
+
+  kbd {
+    font-size: 12px;
+    color: #999;
+    border: 1px solid #ddd;
+    border-radius: 6px;
+    padding: 2px 6px;
+  }
+`
+
+const ResultList = styled.ul`
+  list-style: none;
+  margin: 0;
+  padding: 8px;
+  overflow-y: auto;
+`
+
+const ResultItem = styled.li<{ active: boolean }>`
+  display: flex;
+  gap: 12px;
+  align-items: flex-start;
+  padding: 10px 12px;
+  border-radius: 12px;
+  cursor: pointer;
+  background: ${props => props.active ? 'rgba(255, 179, 71, 0.18)' : 'transparent'};
+`
+
+const ResultIcon = styled.span`
+  font-size: 22px;
+  line-height: 1.2;
+`
+
+const ResultBody = styled.div`
+  flex: 1;
+  min-width: 0;
+`
+
+const ResultTitle = styled.div`
+  font-size: 15px;
+  font-weight: 600;
+  color: #333;
+`
+
+const ResultMeta = styled.div`
+  font-size: 12px;
+  color: #FF6B35;
+  margin-top: 2px;
+`
+
+const ResultSnippet = styled.div`
+  font-size: 12px;
+  color: #888;
+  margin-top: 4px;
+  overflow: hidden;
+  text-overflow: ellipsis;
+  white-space: nowrap;
+`
+
+const EmptyText = styled.div`
+  padding: 30px 20px;
+  text-align: center;
+  color: #999;
+  font-size: 14px;
+  line-height: 1.8;
+`
+
+// 移动端没有快捷键，显示悬浮搜索按钮（音乐播放器在右下角，这里放在左下角）
+const MobileSearchButton = styled(motion.button)`
+  display: none;
+  position: fixed;
+  left: 20px;
+  bottom: 30px;
+  z-index: 1000;
+  width: 56px;
+  height: 56px;
+  border-radius: 50%;
+  border: none;
+  background: linear-gradient(45deg, #FF6B35, #FFB347);
+  box-shadow: 0 6px 20px rgba(255, 107, 53, 0.4);
+  font-size: 24px;
+  cursor: pointer;
+
+  @media (max-width: 768px) {
+    display: flex;
+    align-items: center;
+    justify-content: center;
+  }
+`
+
+// 全站搜索面板：Ctrl/⌘-K 打开，方向键选择，回车跳转到对应卡片、岛屿页签或地图地标
+const SearchPalette: React.FC = () => {
+  const navigate = useNavigate()
+  const { locale, t } = useLocale()
+  const inputRef = useRef<HTMLInputElement>(null)
+  const [isOpen, setIsOpen] = useState(false)
+  const [query, setQuery] = useState('')
+  const [activeIndex, setActiveIndex] = useState(0)
+  const [cards, setCards] = useState<TrafficCard[]>(() => readCachedTrafficCards()?.cards ?? [])
+  const [hasFetchedCards, setHasFetchedCards] = useState(false)
+
+  // 全局快捷键
+  useEffect(() => {
+    const keyHandler = (e: KeyboardEvent) => {
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'k') {
+        e.preventDefault()
+        setIsOpen(open => !open)
+      }
+    }
+    document.addEventListener('keydown', keyHandler)
+    return () => document.removeEventListener('keydown', keyHandler)
+  }, [])
+
+  // 首次打开时加载交通卡片（接口 → 缓存 → 内置数据）
+  useEffect(() => {
+    if (!isOpen || hasFetchedCards) return
+    setHasFetchedCards(true)
+    fetchTrafficCards()
+      .then(result => setCards(result.cards))
+      .catch(error => console.warn('搜索加载交通卡片失败:', error))
+  }, [isOpen, hasFetchedCards])
+
+  useEffect(() => {
+    if (!isOpen) return
+    setQuery('')
+    setActiveIndex(0)
+    window.setTimeout(() => inputRef.current?.focus(), 50)
+  }, [isOpen])
+
+  // 每次打开时重建索引，以包含最新的自定义清单项
+  const index = useMemo(() => (isOpen ? buildSearchIndex(cards, locale) : []), [isOpen, cards, locale])
+  const results = useMemo(() => searchIndex(index, query), [index, query])
+
+  useEffect(() => {
+    setActiveIndex(0)
+  }, [query])
+
+  const close = () => setIsOpen(false)
+
+  const openResult = (path: string) => {
+    close()
+    navigate(path)
+  }
+
+  const handleInputKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    switch (e.key) {
+      case 'ArrowDown':
+        e.preventDefault()
+        setActiveIndex(current => Math.min(results.length - 1, current + 1))
+        break
+      case 'ArrowUp':
+        e.preventDefault()
+        setActiveIndex(current => Math.max(0, current - 1))
+        break
+      case 'Enter':
+        if (results[activeIndex]) openResult(results[activeIndex].entry.path)
+        break
+      case 'Escape':
+        e.preventDefault()
+        close()
+        break
+    }
+  }
+
+  return (
+    <>
+      <MobileSearchButton
+        type="button"
+        aria-label={t('search.open')}
+        onClick={() => setIsOpen(true)}
+        whileTap={{ scale: 0.9 }}
+      >
+        🔍
+      </MobileSearchButton>
+
+      <AnimatePresence>
+        {isOpen && (
+          <Overlay
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            onClick={close}
+          >
+            <Panel
+              initial={{ opacity: 0, y: -20 }}
+              animate={{ opacity: 1, y: 0 }}
+              exit={{ opacity: 0, y: -20 }}
+              onClick={e => e.stopPropagation()}
+            >
+              <InputRow>
+                <span>🔍</span>
+                <input
+                  ref={inputRef}
+                  value={query}
+                  onChange={e => setQuery(e.target.value)}
+                  onKeyDown={handleInputKeyDown}
+                  placeholder={t('search.placeholder')}
+                />
+                <kbd>Esc</kbd>
+              </InputRow>
+
+              {query.trim() === '' ? (
+                <EmptyText>
+                  {t('search.examples')}
+                  <br />
+                  {t('search.shortcut', { key: isMac ? '⌘' : 'Ctrl' })}
+                </EmptyText>
+              ) : results.length === 0 ? (
+                <EmptyText>{t('search.noResults', { query })}</EmptyText>
+              ) : (
+                <ResultList>
+                  {results.map((result, i) => (
+                    <ResultItem
+                      key={result.entry.id}
+                      active={i === activeIndex}
+                      onMouseEnter={() => setActiveIndex(i)}
+                      onClick={() => openResult(result.entry.path)}
+                    >
+                      <ResultIcon>{result.entry.icon}</ResultIcon>
+                      <ResultBody>
+                        <ResultTitle>{result.entry.title}</ResultTitle>
+                        <ResultMeta>{t(`search.kinds.${result.entry.kind}`)} · {result.entry.context}</ResultMeta>
+                        {result.snippet && <ResultSnippet>{result.snippet}</ResultSnippet>}
+                      </ResultBody>
+                    </ResultItem>
+                  ))}
+                </ResultList>
+              )}
+            </Panel>
+          </Overlay>
+        )}
+      </AnimatePresence>
+    </>
+  )
+}
+
+export default SearchPalette
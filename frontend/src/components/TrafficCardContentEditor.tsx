@@ -0,0 +1,93 @@
+import React, { useMemo } from 'react'
+import ReactQuill from 'react-quill'
+import styled from 'styled-components'
+import 'react-quill/dist/quill.snow.css'
+import { useLocale } from '../contexts/LocaleContext'
+
+interface TrafficCardContentEditorProps {
+  value: string // 卡片 content 的文本格式：按行保存，支持 MarkdownContent 的 Markdown 子集
+  onChange: (value: string) => void
+}
+
+const EditorWrapper = styled.div`
+  .ql-container {
+    min-height: 220px;
+    font-size: 14px;
+    border-radius: 0 0 10px 10px;
+  }
+
+  .ql-toolbar {
+    border-radius: 10px 10px 0 0;
+  }
+`
+
+const BULLET = '•'
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+
+// 纯文本 → 编辑器 HTML：连续的 • 行合并为一个无序列表
+const textToHtml = (text: string) => {
+  let html = ''
+  let inList = false
+  text.split('\n').forEach(line => {
+    const trimmed = line.trim()
+    if (trimmed.startsWith(BULLET)) {
+      if (!inList) {
+        html += '<ul>'
+        inList = true
+      }
+      html += `<li>${escapeHtml(trimmed.slice(BULLET.length).trim())}</li>`
+      return
+    }
+    if (inList) {
+      html += '</ul>'
+      inList = false
+    }
+    html += `<p>${line ? escapeHtml(line) : '<br>'}</p>`
+  })
+  return inList ? `${html}</ul>` : html
+}
+
+// 编辑器 HTML → 纯文本：列表项还原为 • 或序号开头的行，其余 Markdown 标记按原文保留
+const htmlToText = (html: string) => {
+  const doc = new DOMParser().parseFromString(html, 'text/html')
+  const lines: string[] = []
+  Array.from(doc.body.children).forEach(element => {
+    if (element.tagName === 'UL') {
+      Array.from(element.children).forEach(item => lines.push(`${BULLET} ${item.textContent ?? ''}`))
+    } else if (element.tagName === 'OL') {
+      Array.from(element.children).forEach((item, index) => lines.push(`${index + 1}. ${item.textContent ?? ''}`))
+    } else {
+      lines.push(element.textContent ?? '')
+    }
+  })
+  return lines.join('\n').replace(/\n+$/, '')
+}
+
+// 只保留列表格式，表格、粗体、链接和提示框直接以 Markdown 文本输入
+const modules = {
+  toolbar: [[{ list: 'bullet' }], ['clean']]
+}
+const formats = ['list']
+
+// 非受控编辑器：切换卡片时由父组件通过 key 重新挂载
+const TrafficCardContentEditor: React.FC<TrafficCardContentEditorProps> = ({ value, onChange }) => {
+  const { t } = useLocale()
+  const initialHtml = useMemo(() => textToHtml(value), [])
+
+  return (
+    <EditorWrapper>
+      <ReactQuill
+        theme="snow"
+        defaultValue={initialHtml}
+        modules={modules}
+        formats={formats}
+        onChange={html => onChange(htmlToText(html))}
+        placeholder={t('admin.contentPlaceholder')}
+      />
+    </EditorWrapper>
+  )
+}
+
+export default TrafficCardContentEditor
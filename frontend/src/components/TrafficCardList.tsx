@@ -0,0 +1,33 @@
+import React from 'react'
+import TrafficInfoGrid from './TrafficInfoGrid'
+import RouteTimeline from './RouteTimeline'
+import { TrafficCard, hasTransferLegs } from '../utils/trafficCards'
+
+interface TrafficCardListProps {
+  cards: TrafficCard[]
+  title: string
+}
+
+// 一组交通卡片：有换乘信息的以路线时间轴展示，其余放在图文卡片网格中（前台与管理后台预览共用）
+const TrafficCardList: React.FC<TrafficCardListProps> = ({ cards, title }) => {
+  const textCards = cards.filter(card => !hasTransferLegs(card))
+
+  return (
+    <>
+      {cards.filter(hasTransferLegs).map(card => (
+        <RouteTimeline
+          key={card.id}
+          id={`traffic-card-${card.id}`}
+          legs={card.legs!}
+          title={card.title}
+          icon={card.icon}
+        />
+      ))}
+      {textCards.length > 0 && (
+        <TrafficInfoGrid cards={textCards} title={title} />
+      )}
+    </>
+  )
+}
+
+export default TrafficCardList
@@ -1,16 +1,8 @@
 import React from 'react'
 import styled from 'styled-components'
 import { motion } from 'framer-motion'
-
-interface TrafficCard {
-  id: number
-  title: string
-  icon: string
-  content: string
-  category: string
-  subcategory?: string
-  order_index: number
-}
+import { TrafficCard } from '../utils/trafficCards'
+import MarkdownContent from './MarkdownContent'
 
 interface TrafficInfoGridProps {
   cards: TrafficCard[]
@@ -101,54 +93,7 @@ const CardTitle = styled.h3`
   flex: 1;
 `
 
-const CardContent = styled.div`
-  color: #333;
-  line-height: 1.6;
-  font-size: 14px;
-  white-space: pre-line;
-  
-  ul {
-    margin: 10px 0;
-    padding-left: 20px;
-  }
-  
-  li {
-    margin: 5px 0;
-    color: #333;
-  }
-  
-  strong {
-    color: #FF6B35;
-    font-weight: 600;
-  }
-`
-
 const TrafficInfoGrid: React.FC<TrafficInfoGridProps> = ({ cards, title = "交通攻略指南" }) => {
-  // 格式化卡片内容，将带有 • 的行转换为列表
-  const formatContent = (content: string) => {
-    const lines = content.split('\n')
-    let formattedContent = ''
-    let inList = false
-    
-    for (const line of lines) {
-      if (line.trim().startsWith('•')) {
-        if (!inList) {
-          formattedContent += '\n'
-          inList = true
-        }
-        formattedContent += line + '\n'
-      } else {
-        if (inList) {
-          formattedContent += '\n'
-          inList = false
-        }
-        formattedContent += line + '\n'
-      }
-    }
-    
-    return formattedContent.trim()
-  }
-
   const cardVariants = {
     hidden: { opacity: 0, y: 50 },
     visible: (i: number) => ({
@@ -169,6 +114,7 @@ const TrafficInfoGrid: React.FC<TrafficInfoGridProps> = ({ cards, title = "交
         {cards.map((card, index) => (
           <Card
             key={card.id}
+            id={`traffic-card-${card.id}`}
             custom={index}
             initial="hidden"
             animate="visible"
@@ -180,9 +126,7 @@ const TrafficInfoGrid: React.FC<TrafficInfoGridProps> = ({ cards, title = "交
               <CardIcon>{card.icon}</CardIcon>
               <CardTitle>{card.title}</CardTitle>
             </CardHeader>
-            <CardContent>
-              {formatContent(card.content)}
-            </CardContent>
+            <MarkdownContent content={card.content} />
           </Card>
         ))}
       </Grid>
@@ -0,0 +1,199 @@
+import React from 'react'
+import styled from 'styled-components'
+import { useLocale } from '../contexts/LocaleContext'
+import { TransferLeg, TransferMode } from '../utils/trafficCards'
+
+interface TransferLegsEditorProps {
+  value: TransferLeg[]
+  onChange: (legs: TransferLeg[]) => void
+}
+
+// 名称与前台路线时间轴共用 route.modes 文案
+const modeOptions: Array<{ value: TransferMode; icon: string }> = [
+  { value: 'flight', icon: '✈️' },
+  { value: 'train', icon: '🚆' },
+  { value: 'bus', icon: '🚌' },
+  { value: 'ferry', icon: '⛴️' },
+  { value: 'walk', icon: '🚶' }
+]
+
+// 可选的文本字段，留空时从换乘信息中删除
+type TextKey = 'line' | 'lineColor' | 'platform' | 'ticketTip' | 'note'
+type NumberKey = 'durationMinutes' | 'fareJPY'
+
+const LegCard = styled.div`
+  border: 2px solid #ffe0b2;
+  border-radius: 14px;
+  padding: 12px;
+  margin-bottom: 12px;
+  display: grid;
+  grid-template-columns: repeat(2, minmax(0, 1fr));
+  gap: 8px 12px;
+
+  label {
+    display: flex;
+    flex-direction: column;
+    gap: 4px;
+    font-size: 13px;
+    font-weight: 600;
+  }
+
+  input,
+  select {
+    padding: 6px 10px;
+    border: 2px solid #ffe0b2;
+    border-radius: 8px;
+    font-size: 14px;
+    color: #555;
+    background: white;
+  }
+
+  @media (max-width: 600px) {
+    grid-template-columns: 1fr;
+  }
+`
+
+const Wide = styled.label`
+  grid-column: 1 / -1;
+`
+
+const LegHeader = styled.div`
+  grid-column: 1 / -1;
+  display: flex;
+  align-items: center;
+  gap: 8px;
+  font-weight: 700;
+  color: #FF6B35;
+
+  span {
+    flex: 1;
+  }
+`
+
+const SmallButton = styled.button<{ danger?: boolean }>`
+  border: none;
+  border-radius: 12px;
+  padding: 4px 10px;
+  font-size: 13px;
+  cursor: pointer;
+  color: ${props => props.danger ? 'white' : '#FF6B35'};
+  background: ${props => props.danger ? '#e57373' : 'rgba(255, 179, 71, 0.15)'};
+
+  &:disabled {
+    opacity: 0.4;
+    cursor: not-allowed;
+  }
+`
+
+const Hint = styled.p`
+  margin: 0 0 10px 0;
+  font-size: 13px;
+  font-weight: normal;
+  color: #8d6e63;
+`
+
+// 卡片的结构化换乘信息：每一段对应前台路线时间轴上的一站
+const TransferLegsEditor: React.FC<TransferLegsEditorProps> = ({ value, onChange }) => {
+  const { t } = useLocale()
+
+  const updateLeg = (index: number, leg: TransferLeg) => {
+    onChange(value.map((item, i) => i === index ? leg : item))
+  }
+
+  const setText = (index: number, key: TextKey, text: string) => {
+    const leg = { ...value[index] }
+    if (text.trim()) {
+      leg[key] = text
+    } else {
+      delete leg[key]
+    }
+    updateLeg(index, leg)
+  }
+
+  const setNumber = (index: number, key: NumberKey, text: string) => {
+    const leg = { ...value[index] }
+    const number = Number(text)
+    if (text.trim() && Number.isFinite(number) && number >= 0) {
+      leg[key] = number
+    } else {
+      delete leg[key]
+    }
+    updateLeg(index, leg)
+  }
+
+  const moveLeg = (index: number, offset: number) => {
+    const next = [...value]
+    const [moved] = next.splice(index, 1)
+    next.splice(index + offset, 0, moved)
+    onChange(next)
+  }
+
+  // 新的一段默认从上一段的终点出发
+  const addLeg = () => {
+    const last = value[value.length - 1]
+    onChange([...value, { mode: last?.mode ?? 'train', from: last?.to ?? '', to: '' }])
+  }
+
+  return (
+    <div>
+      <Hint>{t('admin.legs.hint')}</Hint>
+      {value.map((leg, index) => (
+        <LegCard key={index}>
+          <LegHeader>
+            <span>{t('admin.legs.leg', { n: index + 1 })}</span>
+            <SmallButton type="button" onClick={() => moveLeg(index, -1)} disabled={index === 0}>↑</SmallButton>
+            <SmallButton type="button" onClick={() => moveLeg(index, 1)} disabled={index === value.length - 1}>↓</SmallButton>
+            <SmallButton type="button" danger onClick={() => onChange(value.filter((_, i) => i !== index))}>{t('common.delete')}</SmallButton>
+          </LegHeader>
+          <label>
+            {t('admin.legs.from')}
+            <input value={leg.from} onChange={e => updateLeg(index, { ...leg, from: e.target.value })} />
+          </label>
+          <label>
+            {t('admin.legs.to')}
+            <input value={leg.to} onChange={e => updateLeg(index, { ...leg, to: e.target.value })} />
+          </label>
+          <label>
+            {t('admin.legs.mode')}
+            <select value={leg.mode} onChange={e => updateLeg(index, { ...leg, mode: e.target.value as TransferMode })}>
+              {modeOptions.map(option => (
+                <option key={option.value} value={option.value}>{option.icon} {t(`route.modes.${option.value}`)}</option>
+              ))}
+            </select>
+          </label>
+          <label>
+            {t('admin.legs.line')}
+            <input value={leg.line ?? ''} onChange={e => setText(index, 'line', e.target.value)} />
+          </label>
+          <label>
+            {t('admin.legs.lineColor')}
+            <input value={leg.lineColor ?? ''} placeholder="#FF6B35" onChange={e => setText(index, 'lineColor', e.target.value)} />
+          </label>
+          <label>
+            {t('admin.legs.platform')}
+            <input value={leg.platform ?? ''} onChange={e => setText(index, 'platform', e.target.value)} />
+          </label>
+          <label>
+            {t('admin.legs.duration')}
+            <input type="number" min={0} value={leg.durationMinutes ?? ''} onChange={e => setNumber(index, 'durationMinutes', e.target.value)} />
+          </label>
+          <label>
+            {t('admin.legs.fare')}
+            <input type="number" min={0} value={leg.fareJPY ?? ''} onChange={e => setNumber(index, 'fareJPY', e.target.value)} />
+          </label>
+          <Wide>
+            {t('admin.legs.ticketTip')}
+            <input value={leg.ticketTip ?? ''} onChange={e => setText(index, 'ticketTip', e.target.value)} />
+          </Wide>
+          <Wide>
+            {t('admin.legs.note')}
+            <input value={leg.note ?? ''} onChange={e => setText(index, 'note', e.target.value)} />
+          </Wide>
+        </LegCard>
+      ))}
+      <SmallButton type="button" onClick={addLeg}>{t('admin.legs.add')}</SmallButton>
+    </div>
+  )
+}
+
+export default TransferLegsEditor
@@ -0,0 +1,601 @@
+import React, { useEffect, useState } from 'react'
+import styled from 'styled-components'
+import { motion } from 'framer-motion'
+import {
+  ChecklistItem as ChecklistItemData,
+  ChecklistSection as ChecklistSectionData,
+  ChecklistState,
+  ChecklistTrip,
+  DueStatus,
+  createChecklistId,
+  createTrip,
+  duplicateTrip,
+  formatDueDays,
+  getItemDue,
+  getTripProgress,
+  getTripSections,
+  loadChecklistState,
+  localizeSections,
+  saveChecklistState
+} from '../utils/checklist'
+import ChecklistPrintView from './ChecklistPrintView'
+import { useLocale } from '../contexts/LocaleContext'
+import { formatDate } from '../utils/i18n'
+
+const DownloadButton = styled(motion.button)`
+  background: linear-gradient(45deg, #FF6B35, #FFB347);
+  color: white;
+  border: none;
+  border-radius: 30px;
+  padding: 15px 30px;
+  font-size: 18px;
+  font-weight: 600;
+  cursor: pointer;
+  box-shadow: 0 5px 15px rgba(255, 107, 53, 0.3);
+  display: flex;
+  align-items: center;
+  gap: 10px;
+  margin: 20px auto;
+
+  &:hover {
+    transform: translateY(-2px);
+    box-shadow: 0 8px 25px rgba(255, 107, 53, 0.4);
+  }
+`
+
+const TripBar = styled.div`
+  background: rgba(255, 255, 255, 0.9);
+  border-radius: 15px;
+  padding: 16px 20px;
+  margin-bottom: 20px;
+  display: flex;
+  flex-wrap: wrap;
+  gap: 12px;
+  align-items: center;
+  justify-content: center;
+  box-shadow: 0 8px 25px rgba(255, 165, 0, 0.15);
+
+  label {
+    display: flex;
+    align-items: center;
+    gap: 6px;
+    font-size: 15px;
+    color: #666;
+  }
+
+  select,
+  input {
+    padding: 6px 10px;
+    border: 2px solid #ffe0b2;
+    border-radius: 10px;
+    font-size: 15px;
+    color: #555;
+    background: white;
+  }
+`
+
+const TripButton = styled.button<{ danger?: boolean }>`
+  border: none;
+  border-radius: 20px;
+  padding: 8px 16px;
+  font-size: 14px;
+  font-weight: 600;
+  cursor: pointer;
+  color: white;
+  background: ${props => props.danger ? '#e57373' : 'linear-gradient(45deg, #FF6B35, #FFB347)'};
+  transition: all 0.3s ease;
+
+  &:hover {
+    transform: translateY(-2px);
+  }
+
+  &:disabled {
+    opacity: 0.5;
+    cursor: not-allowed;
+    transform: none;
+  }
+`
+
+const ProgressBar = styled.div`
+  background: rgba(255, 255, 255, 0.8);
+  border-radius: 15px;
+  padding: 20px;
+  margin-bottom: 30px;
+  text-align: center;
+  backdrop-filter: blur(10px);
+  box-shadow: 0 8px 25px rgba(255, 165, 0, 0.2);
+`
+
+const ProgressText = styled.div`
+  font-size: 18px;
+  color: #FF6B35;
+  font-weight: 600;
+  margin-bottom: 10px;
+`
+
+const ProgressHint = styled.div<{ warning: boolean }>`
+  font-size: 14px;
+  color: ${props => props.warning ? '#d84315' : '#888'};
+  margin-top: 10px;
+`
+
+const ProgressTrack = styled.div`
+  background: #e0e0e0;
+  border-radius: 10px;
+  height: 20px;
+  overflow: hidden;
+  position: relative;
+`
+
+const ProgressFill = styled.div<{ percentage: number }>`
+  background: linear-gradient(45deg, #FF6B35, #FFB347);
+  height: 100%;
+  width: ${props => props.percentage}%;
+  transition: width 0.5s ease;
+  border-radius: 10px;
+`
+
+const ChecklistContainer = styled.div`
+  max-width: 1200px;
+  margin: 0 auto;
+  display: grid;
+  grid-template-columns: repeat(auto-fit, minmax(380px, 1fr));
+  gap: 30px;
+`
+
+const ChecklistSection = styled(motion.div)`
+  background: rgba(255, 255, 255, 0.95);
+  border-radius: 20px;
+  padding: 30px;
+  box-shadow: 0 10px 30px rgba(255, 165, 0, 0.2);
+  backdrop-filter: blur(10px);
+  border: 2px solid rgba(255, 165, 0, 0.1);
+`
+
+const ChecklistSectionHeader = styled.div`
+  display: flex;
+  align-items: center;
+  gap: 12px;
+  margin-bottom: 20px;
+  padding-bottom: 12px;
+  border-bottom: 2px solid #FFB347;
+`
+
+const ChecklistSectionIcon = styled.div`
+  font-size: 24px;
+`
+
+const ChecklistSectionTitle = styled.h2`
+  font-size: 22px;
+  color: #FF6B35;
+  margin: 0;
+  font-weight: 700;
+  flex: 1;
+`
+
+const ChecklistItem = styled.div<{ checked: boolean }>`
+  display: flex;
+  align-items: flex-start;
+  gap: 12px;
+  margin-bottom: 15px;
+  padding: 10px;
+  border-radius: 10px;
+  background: ${props => props.checked ? 'rgba(255, 179, 71, 0.1)' : 'transparent'};
+  transition: all 0.3s ease;
+
+  &:hover {
+    background: rgba(255, 179, 71, 0.1);
+  }
+`
+
+const CheckBox = styled.div<{ checked: boolean }>`
+  width: 20px;
+  height: 20px;
+  border: 2px solid #FFB347;
+  border-radius: 4px;
+  display: flex;
+  align-items: center;
+  justify-content: center;
+  cursor: pointer;
+  background: ${props => props.checked ? '#FFB347' : 'white'};
+  color: white;
+  font-size: 12px;
+  font-weight: bold;
+  transition: all 0.3s ease;
+  flex-shrink: 0;
+  margin-top: 2px;
+
+  &:hover {
+    background: ${props => props.checked ? '#FF6B35' : '#FFB347'};
+    transform: scale(1.1);
+  }
+`
+
+const ItemBody = styled.div`
+  flex: 1;
+  display: flex;
+  flex-direction: column;
+  gap: 4px;
+`
+
+const ItemText = styled.div<{ checked: boolean }>`
+  font-size: 16px;
+  color: ${props => props.checked ? '#999' : '#555'};
+  text-decoration: ${props => props.checked ? 'line-through' : 'none'};
+  line-height: 1.5;
+  transition: all 0.3s ease;
+`
+
+const dueColors: Record<DueStatus | 'none', string> = {
+  done: '#9e9e9e',
+  overdue: '#d84315',
+  soon: '#ef6c00',
+  upcoming: '#8d6e63',
+  none: '#8d6e63'
+}
+
+const DueTag = styled.span<{ status: DueStatus | 'none' }>`
+  font-size: 12px;
+  color: ${props => dueColors[props.status]};
+  font-weight: ${props => props.status === 'overdue' || props.status === 'soon' ? 700 : 400};
+`
+
+const RemoveButton = styled.button`
+  border: none;
+  background: none;
+  color: #bbb;
+  font-size: 18px;
+  cursor: pointer;
+  line-height: 1;
+  padding: 0 4px;
+
+  &:hover {
+    color: #e57373;
+  }
+`
+
+const AddRow = styled.form`
+  display: flex;
+  gap: 8px;
+  margin-top: 10px;
+
+  input {
+    padding: 6px 10px;
+    border: 2px dashed #ffe0b2;
+    border-radius: 10px;
+    font-size: 14px;
+    color: #555;
+    min-width: 0;
+  }
+
+  input[type='text'] {
+    flex: 1;
+  }
+
+  input[type='number'] {
+    width: 80px;
+  }
+`
+
+const AddButton = styled.button`
+  border: none;
+  border-radius: 10px;
+  padding: 6px 12px;
+  background: #FFB347;
+  color: white;
+  font-weight: 600;
+  cursor: pointer;
+  flex-shrink: 0;
+
+  &:hover {
+    background: #FF6B35;
+  }
+`
+
+const NewSectionCard = styled(ChecklistSection)`
+  border: 2px dashed #FFB347;
+  display: flex;
+  flex-direction: column;
+  justify-content: center;
+
+  ${AddRow} input[name='icon'] {
+    width: 56px;
+    flex: none;
+    text-align: center;
+  }
+`
+
+interface AddItemFormProps {
+  onAdd: (text: string, dueDays?: number) => void
+}
+
+// 分类末尾的“添加自定义项”输入行
+const AddItemForm: React.FC<AddItemFormProps> = ({ onAdd }) => {
+  const { t } = useLocale()
+  const [text, setText] = useState('')
+  const [dueDays, setDueDays] = useState('')
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!text.trim()) return
+    const days = dueDays === '' ? undefined : Math.max(0, Math.round(Number(dueDays)))
+    onAdd(text.trim(), Number.isFinite(days) ? days : undefined)
+    setText('')
+    setDueDays('')
+  }
+
+  return (
+    <AddRow onSubmit={handleSubmit}>
+      <input type="text" value={text} onChange={e => setText(e.target.value)} placeholder={t('checklist.addItem')} />
+      <input
+        type="number"
+        min={0}
+        value={dueDays}
+        onChange={e => setDueDays(e.target.value)}
+        placeholder={t('checklist.dueDaysPlaceholder')}
+        title={t('checklist.dueDaysTitle')}
+      />
+      <AddButton type="submit">＋</AddButton>
+    </AddRow>
+  )
+}
+
+const TravelChecklist: React.FC = () => {
+  const { locale, t } = useLocale()
+  const [state, setState] = useState<ChecklistState>(loadChecklistState)
+  const [newSectionIcon, setNewSectionIcon] = useState('📌')
+  const [newSectionTitle, setNewSectionTitle] = useState('')
+
+  // 自动保存
+  useEffect(() => {
+    saveChecklistState(state)
+  }, [state])
+
+  const trip = state.trips.find(item => item.id === state.activeTripId) ?? state.trips[0]
+  const sections = localizeSections(getTripSections(trip), locale)
+  const progress = getTripProgress(trip)
+  const today = new Date()
+  const overdueCount = sections
+    .flatMap(section => section.items)
+    .filter(item => getItemDue(item, trip.departureDate, trip.checkedIds.includes(item.id), today)?.status === 'overdue')
+    .length
+
+  const updateTrip = (updater: (trip: ChecklistTrip) => ChecklistTrip) => {
+    setState(prev => ({
+      ...prev,
+      trips: prev.trips.map(item => item.id === prev.activeTripId ? updater(item) : item)
+    }))
+  }
+
+  const toggleItem = (itemId: string) => {
+    updateTrip(current => ({
+      ...current,
+      checkedIds: current.checkedIds.includes(itemId)
+        ? current.checkedIds.filter(id => id !== itemId)
+        : [...current.checkedIds, itemId]
+    }))
+  }
+
+  const addItem = (section: ChecklistSectionData, text: string, dueDays?: number) => {
+    const item: ChecklistItemData = { id: createChecklistId('item'), text, dueDays, custom: true }
+    updateTrip(current => section.custom
+      ? {
+          ...current,
+          customSections: current.customSections.map(s => s.id === section.id ? { ...s, items: [...s.items, item] } : s)
+        }
+      : {
+          ...current,
+          customItems: { ...current.customItems, [section.id]: [...(current.customItems[section.id] ?? []), item] }
+        })
+  }
+
+  const removeItem = (section: ChecklistSectionData, itemId: string) => {
+    updateTrip(current => ({
+      ...current,
+      checkedIds: current.checkedIds.filter(id => id !== itemId),
+      customItems: section.custom
+        ? current.customItems
+        : { ...current.customItems, [section.id]: (current.customItems[section.id] ?? []).filter(item => item.id !== itemId) },
+      customSections: section.custom
+        ? current.customSections.map(s => s.id === section.id ? { ...s, items: s.items.filter(item => item.id !== itemId) } : s)
+        : current.customSections
+    }))
+  }
+
+  const addSection = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!newSectionTitle.trim()) return
+    const section: ChecklistSectionData = {
+      id: createChecklistId('section'),
+      title: newSectionTitle.trim(),
+      icon: newSectionIcon.trim() || '📌',
+      items: [],
+      custom: true
+    }
+    updateTrip(current => ({ ...current, customSections: [...current.customSections, section] }))
+    setNewSectionTitle('')
+  }
+
+  const removeSection = (section: ChecklistSectionData) => {
+    if (section.items.length > 0 && !window.confirm(t('checklist.deleteSectionConfirm', { title: section.title, count: section.items.length }))) {
+      return
+    }
+    const itemIds = section.items.map(item => item.id)
+    updateTrip(current => ({
+      ...current,
+      checkedIds: current.checkedIds.filter(id => !itemIds.includes(id)),
+      customSections: current.customSections.filter(s => s.id !== section.id)
+    }))
+  }
+
+  const handleReset = () => {
+    if (window.confirm(t('checklist.resetConfirm'))) {
+      updateTrip(current => ({ ...current, checkedIds: [] }))
+    }
+  }
+
+  const handleDuplicate = () => {
+    const copy = duplicateTrip(trip, t('checklist.duplicateName', { name: trip.name }))
+    setState(prev => ({ activeTripId: copy.id, trips: [...prev.trips, copy] }))
+  }
+
+  const handleNewTrip = () => {
+    const created = createTrip(t('checklist.newTripName', { index: state.trips.length + 1 }))
+    setState(prev => ({ activeTripId: created.id, trips: [...prev.trips, created] }))
+  }
+
+  // 打印时用清单名作为标题，浏览器“另存为 PDF”会以此作为默认文件名
+  const handleExportPDF = () => {
+    const originalTitle = document.title
+    document.title = `${trip.name || t('checklist.title')}-${t('checklist.title')}`
+    window.addEventListener('afterprint', () => {
+      document.title = originalTitle
+    }, { once: true })
+    window.print()
+  }
+
+  const handleDeleteTrip = () => {
+    if (state.trips.length <= 1 || !window.confirm(t('checklist.deleteTripConfirm', { name: trip.name }))) return
+    setState(prev => {
+      const trips = prev.trips.filter(item => item.id !== trip.id)
+      return { activeTripId: trips[0].id, trips }
+    })
+  }
+
+  return (
+    <>
+      <ChecklistPrintView trip={trip} />
+      <DownloadButton
+        onClick={handleExportPDF}
+        whileHover={{ scale: 1.05 }}
+        whileTap={{ scale: 0.95 }}
+      >
+        📄 {t('checklist.exportPdf')}
+      </DownloadButton>
+
+      <TripBar>
+        <label>
+          {t('checklist.trip')}
+          <select value={trip.id} onChange={e => setState(prev => ({ ...prev, activeTripId: e.target.value }))}>
+            {state.trips.map(item => <option key={item.id} value={item.id}>{item.name}</option>)}
+          </select>
+        </label>
+        <label>
+          {t('checklist.name')}
+          <input
+            type="text"
+            value={trip.name}
+            onChange={e => updateTrip(current => ({ ...current, name: e.target.value }))}
+          />
+        </label>
+        <label>
+          {t('checklist.departureDate')}
+          <input
+            type="date"
+            value={trip.departureDate}
+            onChange={e => updateTrip(current => ({ ...current, departureDate: e.target.value }))}
+          />
+        </label>
+        <TripButton type="button" onClick={handleDuplicate} title={t('checklist.duplicateTitle')}>{t('checklist.duplicate')}</TripButton>
+        <TripButton type="button" onClick={handleNewTrip}>{t('checklist.newTrip')}</TripButton>
+        <TripButton type="button" danger onClick={handleReset}>{t('checklist.reset')}</TripButton>
+        <TripButton type="button" danger onClick={handleDeleteTrip} disabled={state.trips.length <= 1}>{t('checklist.deleteTrip')}</TripButton>
+      </TripBar>
+
+      <ProgressBar>
+        <ProgressText>
+          {t('checklist.progress', { checked: progress.checked, total: progress.total, percent: progress.percent })}
+        </ProgressText>
+        <ProgressTrack>
+          <ProgressFill percentage={progress.percent} />
+        </ProgressTrack>
+        <ProgressHint warning={overdueCount > 0}>
+          {!trip.departureDate
+            ? t('checklist.hintNoDate')
+            : overdueCount > 0
+              ? `⚠️ ${t('checklist.hintOverdue', { count: overdueCount })}`
+              : t('checklist.hintOnTrack')}
+        </ProgressHint>
+      </ProgressBar>
+
+      <ChecklistContainer>
+        {sections.map((section) => (
+          <ChecklistSection
+            key={section.id}
+            initial={{ opacity: 0, y: 50 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ duration: 0.6 }}
+          >
+            <ChecklistSectionHeader>
+              <ChecklistSectionIcon>{section.icon}</ChecklistSectionIcon>
+              <ChecklistSectionTitle>{section.title}</ChecklistSectionTitle>
+              {section.custom && (
+                <RemoveButton type="button" onClick={() => removeSection(section)} title={t('checklist.deleteSection')}>×</RemoveButton>
+              )}
+            </ChecklistSectionHeader>
+
+            {section.items.map((item) => {
+              const isChecked = trip.checkedIds.includes(item.id)
+              const due = getItemDue(item, trip.departureDate, isChecked, today)
+
+              return (
+                <ChecklistItem key={item.id} id={`checklist-item-${item.id}`} checked={isChecked}>
+                  <CheckBox
+                    checked={isChecked}
+                    onClick={() => toggleItem(item.id)}
+                  >
+                    {isChecked && '✓'}
+                  </CheckBox>
+                  <ItemBody>
+                    <ItemText checked={isChecked}>
+                      {item.text}
+                    </ItemText>
+                    {item.dueDays !== undefined && (
+                      <DueTag status={due?.status ?? 'none'}>
+                        {formatDueDays(item.dueDays, locale)}
+                        {due && ` · ${formatDate(due.date, locale, { month: 'numeric', day: 'numeric' })}`}
+                        {due?.status === 'overdue' && ` · ${t('checklist.overdue', { days: -due.daysLeft })}`}
+                        {due?.status === 'soon' && ` · ${due.daysLeft === 0 ? t('checklist.dueToday') : t('checklist.daysLeft', { days: due.daysLeft })}`}
+                      </DueTag>
+                    )}
+                  </ItemBody>
+                  {item.custom && (
+                    <RemoveButton type="button" onClick={() => removeItem(section, item.id)} title={t('checklist.deleteItem')}>×</RemoveButton>
+                  )}
+                </ChecklistItem>
+              )
+            })}
+
+            <AddItemForm onAdd={(text, dueDays) => addItem(section, text, dueDays)} />
+          </ChecklistSection>
+        ))}
+
+        <NewSectionCard
+          initial={{ opacity: 0, y: 50 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.6 }}
+        >
+          <ChecklistSectionTitle>{t('checklist.addSection')}</ChecklistSectionTitle>
+          <AddRow onSubmit={addSection}>
+            <input
+              name="icon"
+              type="text"
+              value={newSectionIcon}
+              onChange={e => setNewSectionIcon(e.target.value)}
+              aria-label={t('checklist.sectionIcon')}
+            />
+            <input
+              type="text"
+              value={newSectionTitle}
+              onChange={e => setNewSectionTitle(e.target.value)}
+              placeholder={t('checklist.sectionPlaceholder')}
+            />
+            <AddButton type="submit">＋</AddButton>
+          </AddRow>
+        </NewSectionCard>
+      </ChecklistContainer>
+    </>
+  )
+}
+
+export default TravelChecklist
@@ -0,0 +1,546 @@
+import React, { useEffect, useState } from 'react'
+import styled from 'styled-components'
+import { motion } from 'framer-motion'
+import { TrafficCard } from '../utils/trafficCards'
+import {
+  BudgetCategory,
+  BudgetCurrency,
+  BudgetItem,
+  BudgetState,
+  budgetCategories,
+  budgetCategoryIcons,
+  convertAmount,
+  createBudgetItemId,
+  createBudgetItemsFromLegs,
+  exportBudgetCsv,
+  formatCNY,
+  formatJPY,
+  getBudgetTotals,
+  getImportableCards,
+  getItemAmounts,
+  loadBudgetState,
+  saveBudgetState
+} from '../utils/budget'
+import { formatDate } from '../utils/i18n'
+import { useLocale } from '../contexts/LocaleContext'
+
+interface TripBudgetProps {
+  cards: TrafficCard[] // 交通攻略卡片，带参考票价的换乘路线可直接导入
+}
+
+const SettingsBar = styled.div`
+  background: rgba(255, 255, 255, 0.9);
+  border-radius: 15px;
+  padding: 16px 20px;
+  margin-bottom: 20px;
+  display: flex;
+  flex-wrap: wrap;
+  gap: 12px 20px;
+  align-items: center;
+  justify-content: center;
+  box-shadow: 0 8px 25px rgba(255, 165, 0, 0.15);
+  color: #666;
+  font-size: 15px;
+
+  label {
+    display: flex;
+    align-items: center;
+    gap: 6px;
+  }
+
+  select,
+  input {
+    padding: 6px 10px;
+    border: 2px solid #ffe0b2;
+    border-radius: 10px;
+    font-size: 15px;
+    color: #555;
+    background: white;
+  }
+
+  input[type='number'] {
+    width: 90px;
+  }
+`
+
+const RateHint = styled.span`
+  font-size: 12px;
+  color: #999;
+`
+
+const ActionButton = styled.button<{ danger?: boolean }>`
+  border: none;
+  border-radius: 20px;
+  padding: 8px 16px;
+  font-size: 14px;
+  font-weight: 600;
+  cursor: pointer;
+  color: white;
+  background: ${props => props.danger ? '#e57373' : 'linear-gradient(45deg, #FF6B35, #FFB347)'};
+  transition: all 0.3s ease;
+
+  &:hover {
+    transform: translateY(-2px);
+  }
+
+  &:disabled {
+    opacity: 0.5;
+    cursor: not-allowed;
+    transform: none;
+  }
+`
+
+const SummaryCard = styled.div`
+  background: rgba(255, 255, 255, 0.8);
+  border-radius: 15px;
+  padding: 20px;
+  margin-bottom: 30px;
+  text-align: center;
+  box-shadow: 0 8px 25px rgba(255, 165, 0, 0.2);
+`
+
+const SummaryTotal = styled.div`
+  display: flex;
+  flex-wrap: wrap;
+  justify-content: center;
+  gap: 10px 40px;
+  margin-bottom: 16px;
+
+  div {
+    display: flex;
+    flex-direction: column;
+    gap: 4px;
+    color: #888;
+    font-size: 14px;
+  }
+
+  strong {
+    font-size: 24px;
+    color: #FF6B35;
+  }
+
+  small {
+    font-size: 14px;
+    color: #8d6e63;
+  }
+`
+
+const SummaryBreakdown = styled.div`
+  display: flex;
+  flex-wrap: wrap;
+  justify-content: center;
+  gap: 8px;
+
+  span {
+    padding: 4px 12px;
+    border-radius: 12px;
+    background: rgba(255, 179, 71, 0.15);
+    color: #795548;
+    font-size: 13px;
+  }
+`
+
+const CategoryList = styled.div`
+  display: grid;
+  grid-template-columns: repeat(auto-fit, minmax(340px, 1fr));
+  gap: 20px;
+  margin-bottom: 30px;
+`
+
+const CategoryCard = styled(motion.div)`
+  background: rgba(255, 255, 255, 0.9);
+  border-radius: 15px;
+  padding: 20px;
+  box-shadow: 0 8px 25px rgba(255, 165, 0, 0.15);
+  border: 2px solid rgba(255, 179, 71, 0.3);
+`
+
+const CategoryHeader = styled.div`
+  display: flex;
+  align-items: center;
+  justify-content: space-between;
+  margin-bottom: 12px;
+
+  h3 {
+    margin: 0;
+    font-size: 18px;
+    color: #FF6B35;
+  }
+
+  span {
+    font-size: 13px;
+    color: #8d6e63;
+  }
+`
+
+const ItemRow = styled.div`
+  display: grid;
+  grid-template-columns: 1fr 90px 70px 70px 24px;
+  gap: 6px;
+  align-items: center;
+  padding: 6px 0;
+  border-bottom: 1px dashed #ffe0b2;
+
+  input,
+  select {
+    min-width: 0;
+    padding: 4px 6px;
+    border: 1px solid #ffe0b2;
+    border-radius: 8px;
+    font-size: 13px;
+    color: #555;
+    background: white;
+  }
+`
+
+const ItemConverted = styled.div`
+  grid-column: 1 / -1;
+  font-size: 12px;
+  color: #999;
+`
+
+const RemoveButton = styled.button`
+  border: none;
+  background: none;
+  color: #bbb;
+  font-size: 18px;
+  cursor: pointer;
+  line-height: 1;
+  padding: 0;
+
+  &:hover {
+    color: #e57373;
+  }
+`
+
+const EmptyText = styled.p`
+  color: #aaa;
+  font-size: 14px;
+  margin: 8px 0;
+`
+
+const AddRow = styled.form`
+  display: flex;
+  flex-wrap: wrap;
+  gap: 8px;
+  margin-top: 12px;
+
+  input,
+  select {
+    padding: 6px 10px;
+    border: 2px dashed #ffe0b2;
+    border-radius: 10px;
+    font-size: 14px;
+    color: #555;
+    min-width: 0;
+    background: white;
+  }
+
+  input[type='text'] {
+    flex: 1;
+  }
+
+  input[type='number'] {
+    width: 90px;
+  }
+`
+
+const AddButton = styled.button`
+  border: none;
+  border-radius: 10px;
+  padding: 6px 12px;
+  background: #FFB347;
+  color: white;
+  font-weight: 600;
+  cursor: pointer;
+
+  &:hover {
+    background: #FF6B35;
+  }
+`
+
+const ExportButton = styled(motion.button)`
+  background: linear-gradient(45deg, #FF6B35, #FFB347);
+  color: white;
+  border: none;
+  border-radius: 30px;
+  padding: 15px 30px;
+  font-size: 18px;
+  font-weight: 600;
+  cursor: pointer;
+  box-shadow: 0 5px 15px rgba(255, 107, 53, 0.3);
+  display: flex;
+  align-items: center;
+  gap: 10px;
+  margin: 20px auto;
+
+  &:disabled {
+    opacity: 0.5;
+    cursor: not-allowed;
+  }
+`
+
+const parseAmount = (value: string) => {
+  const amount = Number(value)
+  return Number.isFinite(amount) && amount >= 0 ? amount : 0
+}
+
+interface AddBudgetItemFormProps {
+  category: BudgetCategory
+  onAdd: (item: BudgetItem) => void
+}
+
+// 分类末尾的“添加费用”输入行，住宿默认全员分摊，其余默认按人计
+const AddBudgetItemForm: React.FC<AddBudgetItemFormProps> = ({ category, onAdd }) => {
+  const { t } = useLocale()
+  const [name, setName] = useState('')
+  const [amount, setAmount] = useState('')
+  const [currency, setCurrency] = useState<BudgetCurrency>(category === 'flight' ? 'CNY' : 'JPY')
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!name.trim() || amount === '') return
+    onAdd({
+      id: createBudgetItemId(),
+      category,
+      name: name.trim(),
+      amount: parseAmount(amount),
+      currency,
+      perPerson: category !== 'lodging'
+    })
+    setName('')
+    setAmount('')
+  }
+
+  return (
+    <AddRow onSubmit={handleSubmit}>
+      <input type="text" value={name} onChange={e => setName(e.target.value)} placeholder={t('budget.namePlaceholder')} />
+      <input type="number" min={0} value={amount} onChange={e => setAmount(e.target.value)} placeholder={t('budget.amountPlaceholder')} />
+      <select value={currency} onChange={e => setCurrency(e.target.value as BudgetCurrency)}>
+        <option value="CNY">CNY</option>
+        <option value="JPY">JPY</option>
+      </select>
+      <AddButton type="submit">＋</AddButton>
+    </AddRow>
+  )
+}
+
+const TripBudget: React.FC<TripBudgetProps> = ({ cards }) => {
+  const { locale, t } = useLocale()
+  const [state, setState] = useState<BudgetState>(loadBudgetState)
+  const importableCards = getImportableCards(cards)
+  const [importCardId, setImportCardId] = useState<number | ''>('')
+
+  // 自动保存
+  useEffect(() => {
+    saveBudgetState(state)
+  }, [state])
+
+  const totals = getBudgetTotals(state)
+
+  const updateItem = (id: string, changes: Partial<BudgetItem>) => {
+    setState(prev => ({
+      ...prev,
+      items: prev.items.map(item => item.id === id ? { ...item, ...changes } : item)
+    }))
+  }
+
+  const addItem = (item: BudgetItem) => {
+    setState(prev => ({ ...prev, items: [...prev.items, item] }))
+  }
+
+  const removeItem = (id: string) => {
+    setState(prev => ({ ...prev, items: prev.items.filter(item => item.id !== id) }))
+  }
+
+  const handleRateChange = (value: string) => {
+    const rate = Number(value)
+    if (!Number.isFinite(rate) || rate <= 0) return
+    setState(prev => ({ ...prev, rate, rateUpdatedAt: new Date().toISOString() }))
+  }
+
+  const handlePeopleChange = (value: string) => {
+    const people = Math.round(Number(value))
+    if (!Number.isFinite(people) || people < 1) return
+    setState(prev => ({ ...prev, people }))
+  }
+
+  // 导入同一张卡片时先移除上次导入的项目，避免重复计算
+  const handleImport = () => {
+    const card = importableCards.find(item => item.id === importCardId)
+    if (!card || !card.legs) return
+    const imported = createBudgetItemsFromLegs(card.legs, card.title)
+    setState(prev => ({
+      ...prev,
+      items: [...prev.items.filter(item => item.source !== card.title), ...imported]
+    }))
+  }
+
+  const handleClear = () => {
+    if (state.items.length === 0) return
+    if (!window.confirm(t('budget.clearConfirm', { count: state.items.length }))) return
+    setState(prev => ({ ...prev, items: [] }))
+  }
+
+  const handleExportCSV = () => {
+    const blob = new Blob([exportBudgetCsv(state, locale)], { type: 'text/csv;charset=utf-8' })
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement('a')
+    link.href = url
+    link.download = `${t('budget.fileName')}-${new Date().toISOString().slice(0, 10)}.csv`
+    document.body.appendChild(link)
+    link.click()
+    document.body.removeChild(link)
+    URL.revokeObjectURL(url)
+  }
+
+  return (
+    <>
+      <SettingsBar>
+        <label>
+          {t('budget.rate')} 1 CNY =
+          <input
+            type="number"
+            min={0}
+            step={0.01}
+            defaultValue={state.rate}
+            onChange={e => handleRateChange(e.target.value)}
+          />
+          JPY
+        </label>
+        <RateHint>
+          {state.rateUpdatedAt
+            ? t('budget.rateUpdated', { date: formatDate(state.rateUpdatedAt, locale) })
+            : t('budget.rateHint')}
+        </RateHint>
+        <label>
+          {t('budget.people')}
+          <input
+            type="number"
+            min={1}
+            step={1}
+            value={state.people}
+            onChange={e => handlePeopleChange(e.target.value)}
+          />
+        </label>
+      </SettingsBar>
+
+      <SettingsBar>
+        <label>
+          {t('budget.importLabel')}
+          <select
+            value={importCardId}
+            onChange={e => setImportCardId(e.target.value === '' ? '' : Number(e.target.value))}
+            disabled={importableCards.length === 0}
+          >
+            <option value="">{importableCards.length === 0 ? t('budget.noImportable') : t('budget.selectRoute')}</option>
+            {importableCards.map(card => (
+              <option key={card.id} value={card.id}>{card.title}</option>
+            ))}
+          </select>
+        </label>
+        <ActionButton type="button" onClick={handleImport} disabled={importCardId === ''}>{t('budget.import')}</ActionButton>
+        <ActionButton type="button" danger onClick={handleClear} disabled={state.items.length === 0}>{t('budget.clear')}</ActionButton>
+      </SettingsBar>
+
+      <SummaryCard>
+        <SummaryTotal>
+          <div>
+            {t('budget.total', { people: state.people })}
+            <strong>{formatCNY(totals.total.cny, locale)}</strong>
+            <small>{formatJPY(totals.total.jpy, locale)}</small>
+          </div>
+          <div>
+            {t('budget.perPersonTotal')}
+            <strong>{formatCNY(totals.perPerson.cny, locale)}</strong>
+            <small>{formatJPY(totals.perPerson.jpy, locale)}</small>
+          </div>
+        </SummaryTotal>
+        {totals.byCategory.length > 0 && (
+          <SummaryBreakdown>
+            {totals.byCategory.map(item => (
+              <span key={item.category}>
+                {budgetCategoryIcons[item.category]} {t(`budget.categories.${item.category}`)} {formatCNY(item.total.cny, locale)}
+              </span>
+            ))}
+          </SummaryBreakdown>
+        )}
+      </SummaryCard>
+
+      <CategoryList>
+        {budgetCategories.map((category, index) => {
+          const items = state.items.filter(item => item.category === category)
+          const categoryTotal = totals.byCategory.find(item => item.category === category)
+          return (
+            <CategoryCard
+              key={category}
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: index * 0.05 }}
+            >
+              <CategoryHeader>
+                <h3>{budgetCategoryIcons[category]} {t(`budget.categories.${category}`)}</h3>
+                {categoryTotal && (
+                  <span>{formatCNY(categoryTotal.total.cny, locale)} / {formatJPY(categoryTotal.total.jpy, locale)}</span>
+                )}
+              </CategoryHeader>
+
+              {items.length === 0 && <EmptyText>{t('budget.empty')}</EmptyText>}
+              {items.map(item => {
+                const { total, perPerson } = getItemAmounts(item, state)
+                const unit = convertAmount(item.amount, item.currency, state.rate)
+                return (
+                  <ItemRow key={item.id}>
+                    <input
+                      value={item.name}
+                      onChange={e => updateItem(item.id, { name: e.target.value })}
+                      title={item.source ? t('budget.importedFrom', { source: item.source }) : undefined}
+                    />
+                    <input
+                      type="number"
+                      min={0}
+                      value={item.amount}
+                      onChange={e => updateItem(item.id, { amount: parseAmount(e.target.value) })}
+                    />
+                    <select
+                      value={item.currency}
+                      onChange={e => updateItem(item.id, { currency: e.target.value as BudgetCurrency })}
+                    >
+                      <option value="CNY">CNY</option>
+                      <option value="JPY">JPY</option>
+                    </select>
+                    <select
+                      value={item.perPerson ? 'person' : 'shared'}
+                      onChange={e => updateItem(item.id, { perPerson: e.target.value === 'person' })}
+                    >
+                      <option value="person">{t('budget.perPerson')}</option>
+                      <option value="shared">{t('budget.shared')}</option>
+                    </select>
+                    <RemoveButton type="button" onClick={() => removeItem(item.id)} title={t('common.delete')}>×</RemoveButton>
+                    <ItemConverted>
+                      ≈ {item.currency === 'CNY' ? formatJPY(unit.jpy, locale) : formatCNY(unit.cny, locale)}
+                      {state.people > 1 && ` · ${t('budget.itemTotals', { total: formatCNY(total.cny, locale), perPerson: formatCNY(perPerson.cny, locale) })}`}
+                    </ItemConverted>
+                  </ItemRow>
+                )
+              })}
+
+              <AddBudgetItemForm category={category} onAdd={addItem} />
+            </CategoryCard>
+          )
+        })}
+      </CategoryList>
+
+      <ExportButton
+        onClick={handleExportCSV}
+        disabled={state.items.length === 0}
+        whileHover={{ scale: 1.05 }}
+        whileTap={{ scale: 0.95 }}
+      >
+        📊 {t('budget.exportCsv')}
+      </ExportButton>
+    </>
+  )
+}
+
+export default TripBudget
@@ -0,0 +1,101 @@
+import React from 'react'
+import styled, { keyframes } from 'styled-components'
+import { MapProjection, isInsideMap } from '../utils/geo'
+import { UserPosition } from '../hooks/useGeolocation'
+
+const pulse = keyframes`
+  0% { transform: translate(-50%, -50%) scale(1); opacity: 0.8; }
+  100% { transform: translate(-50%, -50%) scale(2.4); opacity: 0; }
+`
+
+const Marker = styled.div<{ x: number; y: number }>`
+  position: absolute;
+  left: ${props => props.x}%;
+  top: ${props => props.y}%;
+  width: 0;
+  height: 0;
+  z-index: 50;
+  pointer-events: none;
+`
+
+const AccuracyRing = styled.div<{ diameter: number }>`
+  position: absolute;
+  left: 0;
+  top: 0;
+  width: ${props => props.diameter}px;
+  height: ${props => props.diameter}px;
+  transform: translate(-50%, -50%);
+  border-radius: 50%;
+  background: rgba(66, 133, 244, 0.15);
+  border: 1px solid rgba(66, 133, 244, 0.4);
+`
+
+const Pulse = styled.div`
+  position: absolute;
+  left: 0;
+  top: 0;
+  width: 18px;
+  height: 18px;
+  border-radius: 50%;
+  background: rgba(66, 133, 244, 0.5);
+  animation: ${pulse} 2s ease-out infinite;
+`
+
+const Dot = styled.div`
+  position: absolute;
+  left: 0;
+  top: 0;
+  width: 16px;
+  height: 16px;
+  transform: translate(-50%, -50%);
+  border-radius: 50%;
+  background: #4285f4;
+  border: 3px solid white;
+  box-shadow: 0 0 6px rgba(0, 0, 0, 0.4);
+`
+
+// 朝向扇形：以圆点为圆心旋转
+const HeadingCone = styled.div<{ angle: number }>`
+  position: absolute;
+  left: 0;
+  top: 0;
+  width: 0;
+  height: 0;
+  transform: rotate(${props => props.angle}deg);
+
+  &::before {
+    content: '';
+    position: absolute;
+    left: -14px;
+    top: -38px;
+    border-left: 14px solid transparent;
+    border-right: 14px solid transparent;
+    border-bottom: 30px solid rgba(66, 133, 244, 0.45);
+  }
+`
+
+interface UserLocationMarkerProps {
+  projection: MapProjection
+  position: UserPosition
+  heading: number | null
+  mapWidth: number // 地图当前显示宽度（像素），用于换算定位精度圈
+}
+
+// 地图上的“我的位置”：蓝点、定位精度圈与朝向；不在地图范围内时不显示
+const UserLocationMarker: React.FC<UserLocationMarkerProps> = ({ projection, position, heading, mapWidth }) => {
+  const point = projection.toMap(position)
+  if (!isInsideMap(point)) return null
+
+  const diameter = Math.min(mapWidth, 2 * position.accuracy * projection.percentPerMeter / 100 * mapWidth)
+
+  return (
+    <Marker x={point.x} y={point.y}>
+      {diameter > 24 && <AccuracyRing diameter={diameter} />}
+      {heading !== null && <HeadingCone angle={heading + projection.northAngle} />}
+      <Pulse />
+      <Dot />
+    </Marker>
+  )
+}
+
+export default UserLocationMarker
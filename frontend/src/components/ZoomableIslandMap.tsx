@@ -3,6 +3,7 @@ import styled from 'styled-components';
 import { motion, AnimatePresence } from 'framer-motion';
 import { TransformWrapper, TransformComponent } from 'react-zoom-pan-pinch';
 import { useDevice } from '../contexts/DeviceContext';
+import { useLocale } from '../contexts/LocaleContext';
 
 interface CheckInIcon {
   x: number;
@@ -194,6 +195,7 @@ const ZoomableIslandMap: React.FC<ZoomableIslandMapProps> = ({
   maxScale = 3,
   initialScale = 1
 }) => {
+  const { t } = useLocale();
   const { isMobile, isTablet } = useDevice();
   const [showHint, setShowHint] = useState(false);
   const mapRef = useRef<HTMLDivElement>(null);
@@ -300,7 +302,7 @@ const ZoomableIslandMap: React.FC<ZoomableIslandMapProps> = ({
                   exit={{ opacity: 0, y: -20 }}
                   transition={{ duration: 0.5 }}
                 >
-                  双指缩放 · 单指拖拽 · 点击图标查看详情
+                  {t('map.gestureHintIcons')}
                 </MobileHint>
               )}
             </AnimatePresence>
@@ -334,13 +336,13 @@ const ZoomableIslandMap: React.FC<ZoomableIslandMapProps> = ({
                   
                   {/* 缩放控制按钮 */}
                   <ZoomControls isMobile={isMobile || isTablet}>
-                    <ZoomButton onClick={() => zoomIn()} title="放大">
+                    <ZoomButton onClick={() => zoomIn()} title={t('map.zoomIn')}>
                       +
                     </ZoomButton>
-                    <ZoomButton onClick={() => zoomOut()} title="缩小">
+                    <ZoomButton onClick={() => zoomOut()} title={t('map.zoomOut')}>
                       −
                     </ZoomButton>
-                    <ZoomButton onClick={() => resetTransform()} title="重置">
+                    <ZoomButton onClick={() => resetTransform()} title={t('map.reset')}>
                       ⌂
                     </ZoomButton>
                   </ZoomControls>
@@ -3,6 +3,7 @@ import styled from 'styled-components';
 import { motion, AnimatePresence } from 'framer-motion';
 import { TransformWrapper, TransformComponent } from 'react-zoom-pan-pinch';
 import { useDevice } from '../contexts/DeviceContext';
+import { useLocale } from '../contexts/LocaleContext';
 
 interface MapIcon {
   x: number;
@@ -178,6 +179,7 @@ const ZoomableOverviewMap: React.FC<ZoomableOverviewMapProps> = ({
   maxScale = 3,
   initialScale = 1
 }) => {
+  const { t } = useLocale();
   const { isMobile, isTablet } = useDevice();
   const [showHint, setShowHint] = useState(false);
 
@@ -262,7 +264,7 @@ const ZoomableOverviewMap: React.FC<ZoomableOverviewMapProps> = ({
                   exit={{ opacity: 0, y: -20 }}
                   transition={{ duration: 0.5 }}
                 >
-                  双指缩放 · 单指拖拽 · 点击图标查看详情
+                  {t('map.gestureHintIcons')}
                 </MobileHint>
               )}
             </AnimatePresence>
@@ -296,13 +298,13 @@ const ZoomableOverviewMap: React.FC<ZoomableOverviewMapProps> = ({
                   
                   {/* 缩放控制按钮 */}
                   <ZoomControls isMobile={isMobile || isTablet}>
-                    <ZoomButton onClick={() => zoomIn()} title="放大">
+                    <ZoomButton onClick={() => zoomIn()} title={t('map.zoomIn')}>
                       +
                     </ZoomButton>
-                    <ZoomButton onClick={() => zoomOut()} title="缩小">
+                    <ZoomButton onClick={() => zoomOut()} title={t('map.zoomOut')}>
                       −
                     </ZoomButton>
-                    <ZoomButton onClick={() => resetTransform()} title="重置">
+                    <ZoomButton onClick={() => resetTransform()} title={t('map.reset')}>
                       ⌂
                     </ZoomButton>
                   </ZoomControls>
@@ -0,0 +1,147 @@
+import React, { createContext, useContext, useState, useEffect, ReactNode, useCallback } from 'react'
+import { getApiErrorMessage } from '../utils/apiError'
+
+export interface AuthUser {
+  id: number
+  username: string
+  avatarUrl?: string | null
+  isAdmin: boolean
+}
+
+interface AuthContextType {
+  token: string | null
+  user: AuthUser | null
+  isLoading: boolean
+  error: string | null // 获取当前用户失败（网络错误、服务器错误等，不含令牌失效）
+  retry: () => void
+  login: (username: string, password: string) => Promise<void>
+  register: (username: string, password: string) => Promise<void>
+  logout: () => Promise<void>
+}
+
+interface AuthProviderProps {
+  children: ReactNode
+}
+
+interface ServerUser {
+  id: number
+  username: string
+  avatar_url?: string | null
+  is_admin?: boolean
+}
+
+const STORAGE_KEY = 'sprb-auth-token'
+
+const AuthContext = createContext<AuthContextType | undefined>(undefined)
+
+export const useAuth = () => {
+  const context = useContext(AuthContext)
+  if (context === undefined) {
+    throw new Error('useAuth must be used within an AuthProvider')
+  }
+  return context
+}
+
+const toAuthUser = (user: ServerUser): AuthUser => ({
+  id: user.id,
+  username: user.username,
+  avatarUrl: user.avatar_url,
+  isAdmin: !!user.is_admin
+})
+
+export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
+  const [token, setToken] = useState<string | null>(() => localStorage.getItem(STORAGE_KEY))
+  const [user, setUser] = useState<AuthUser | null>(null)
+  const [isLoading, setIsLoading] = useState(!!token)
+  const [error, setError] = useState<string | null>(null)
+  const [attempt, setAttempt] = useState(0)
+
+  const clearSession = useCallback(() => {
+    localStorage.removeItem(STORAGE_KEY)
+    setToken(null)
+    setUser(null)
+  }, [])
+
+  // 有保存的令牌时获取当前用户，令牌失效则清除
+  useEffect(() => {
+    if (!token) return
+    let cancelled = false
+    setIsLoading(true)
+    setError(null)
+    fetch('/api/auth/me', { headers: { Authorization: `Bearer ${token}` } })
+      .then(async response => {
+        if (cancelled) return
+        if (response.status === 401) {
+          clearSession()
+          return
+        }
+        if (!response.ok) {
+          throw new Error(`获取用户信息失败: ${response.status}`)
+        }
+        setUser(toAuthUser(await response.json()))
+      })
+      .catch(error => {
+        console.warn('获取用户信息失败:', error)
+        if (!cancelled) setError(error instanceof Error ? error.message : '获取用户信息失败')
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [token, attempt, clearSession])
+
+  const retry = useCallback(() => {
+    setAttempt(prev => prev + 1)
+  }, [])
+
+  // 登录与注册都返回访问令牌，保存后由上面的 effect 获取用户信息
+  const requestToken = useCallback(async (url: string, username: string, password: string, fallback: string) => {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ username, password })
+    })
+    if (!response.ok) {
+      throw new Error(await getApiErrorMessage(response, fallback))
+    }
+    const data: { access_token: string } = await response.json()
+    localStorage.setItem(STORAGE_KEY, data.access_token)
+    setToken(data.access_token)
+  }, [])
+
+  const login = useCallback((username: string, password: string) =>
+    requestToken('/api/auth/login', username, password, '登录失败，请稍后再试'), [requestToken])
+
+  const register = useCallback((username: string, password: string) =>
+    requestToken('/api/auth/register', username, password, '注册失败，请稍后再试'), [requestToken])
+
+  const logout = useCallback(async () => {
+    if (token) {
+      try {
+        await fetch('/api/auth/logout', { method: 'POST', headers: { Authorization: `Bearer ${token}` } })
+      } catch (error) {
+        console.warn('登出请求失败:', error)
+      }
+    }
+    clearSession()
+  }, [token, clearSession])
+
+  const value: AuthContextType = {
+    token,
+    user,
+    isLoading,
+    error,
+    retry,
+    login,
+    register,
+    logout
+  }
+
+  return (
+    <AuthContext.Provider value={value}>
+      {children}
+    </AuthContext.Provider>
+  )
+}
@@ -0,0 +1,408 @@
+import React, { createContext, useContext, useState, useEffect, useRef, ReactNode, useCallback } from 'react'
+import { IslandDefinition, islandDefinitions } from '../utils/islandData'
+import { deleteCapturePhoto } from '../utils/captureStore'
+import { useAuth } from './AuthContext'
+
+// 现场取景拍摄的照片，图片本体存放在 IndexedDB（见 utils/captureStore）
+export interface CheckinCapture {
+  id: string
+  cgId: string // 取景时叠加的CG（图片路径作为唯一标识）
+  capturedAt: string // ISO 时间
+}
+
+// 单个CG打卡点的打卡记录
+export interface CheckinRecord {
+  islandId: string
+  spotId: string
+  visitedAt: string // ISO 时间
+  updatedAt?: string // 最后修改时间，同步时以较新的一方为准；旧数据没有时视同 visitedAt
+  captures?: CheckinCapture[] // 仅保存在本地，不参与服务器同步
+}
+
+// 取消打卡的墓碑记录：同步时用来删除服务器或其他设备上的同一打卡点
+interface CheckinDeletion {
+  islandId: string
+  spotId: string
+  deletedAt: string // ISO 时间
+}
+
+export interface CheckinProgress {
+  visited: number
+  total: number
+  percent: number // 0-100 的整数
+}
+
+interface CheckinContextType {
+  records: Record<string, CheckinRecord>
+
+  // 查询
+  isVisited: (islandId: string, spotId: string) => boolean
+  getIslandProgress: (island: IslandDefinition) => CheckinProgress
+  getOverallProgress: () => CheckinProgress
+
+  // 修改
+  markVisited: (islandId: string, spotId: string) => void
+  unmarkVisited: (islandId: string, spotId: string) => void // 同时删除该打卡点的现场照片，调用方需先让用户确认
+  toggleVisited: (islandId: string, spotId: string) => void
+  addCapture: (islandId: string, spotId: string, capture: CheckinCapture) => void
+  resetCheckins: () => void
+
+  // 与后端用户账号同步：登录后自动执行一次，也可以手动触发
+  syncWithServer: () => Promise<void>
+  isSyncing: boolean
+  syncError: boolean
+  lastSyncedAt: string | null
+}
+
+const STORAGE_KEY = 'sprb-checkins'
+const DELETIONS_STORAGE_KEY = 'sprb-checkin-deletions'
+const SYNC_STORAGE_KEY = 'sprb-checkins-synced-at'
+
+const CheckinContext = createContext<CheckinContextType | undefined>(undefined)
+
+export const useCheckin = () => {
+  const context = useContext(CheckinContext)
+  if (context === undefined) {
+    throw new Error('useCheckin must be used within a CheckinProvider')
+  }
+  return context
+}
+
+interface CheckinProviderProps {
+  children: ReactNode
+}
+
+export const getCheckinKey = (islandId: string, spotId: string) => `${islandId}/${spotId}`
+
+const toProgress = (visited: number, total: number): CheckinProgress => ({
+  visited,
+  total,
+  percent: total === 0 ? 0 : Math.round((visited / total) * 100)
+})
+
+// 读取本地记录，数据损坏时当作空记录处理
+const loadRecords = (): Record<string, CheckinRecord> => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY)
+    if (!raw) return {}
+    const list = JSON.parse(raw) as CheckinRecord[]
+    return list.reduce<Record<string, CheckinRecord>>((acc, record) => {
+      acc[getCheckinKey(record.islandId, record.spotId)] = record
+      return acc
+    }, {})
+  } catch (error) {
+    console.warn('读取本地打卡记录失败:', error)
+    return {}
+  }
+}
+
+const loadDeletions = (): Record<string, CheckinDeletion> => {
+  try {
+    const raw = localStorage.getItem(DELETIONS_STORAGE_KEY)
+    return raw ? JSON.parse(raw) : {}
+  } catch (error) {
+    console.warn('读取本地取消打卡记录失败:', error)
+    return {}
+  }
+}
+
+// 服务器返回的时间不带时区，按 UTC 解析
+const parseServerTime = (value: string) =>
+  new Date(/(Z|[+-]\d{2}:?\d{2})$/.test(value) ? value : `${value}Z`).toISOString()
+
+interface SyncEntry {
+  islandId: string
+  spotId: string
+  visitedAt: string
+  updatedAt: string
+  deleted: boolean
+}
+
+const toSyncEntry = (record: CheckinRecord): SyncEntry => ({
+  islandId: record.islandId,
+  spotId: record.spotId,
+  visitedAt: record.visitedAt,
+  updatedAt: record.updatedAt ?? record.visitedAt,
+  deleted: false
+})
+
+// 合并本地与服务器记录：同一打卡点以最后修改的一方为准（包括取消打卡），
+// 双方都已打卡时保留更早的打卡时间；本地拍摄的照片随记录保留，记录被删除时照片一并清理
+const mergeRecords = (
+  local: Record<string, CheckinRecord>,
+  deletions: Record<string, CheckinDeletion>,
+  remote: SyncEntry[]
+) => {
+  const entries = new Map<string, SyncEntry>()
+  Object.values(local).forEach(record => entries.set(getCheckinKey(record.islandId, record.spotId), toSyncEntry(record)))
+  Object.entries(deletions).forEach(([key, deletion]) => {
+    const existing = entries.get(key)
+    if (existing && new Date(existing.updatedAt) >= new Date(deletion.deletedAt)) return
+    entries.set(key, { ...deletion, visitedAt: deletion.deletedAt, updatedAt: deletion.deletedAt, deleted: true })
+  })
+  remote.forEach(entry => {
+    const key = getCheckinKey(entry.islandId, entry.spotId)
+    const existing = entries.get(key)
+    const winner = !existing || new Date(entry.updatedAt) > new Date(existing.updatedAt) ? entry : existing
+    const bothVisited = existing && !existing.deleted && !entry.deleted
+    const visitedAt = bothVisited && new Date(entry.visitedAt) < new Date(existing.visitedAt) ? entry.visitedAt : winner.visitedAt
+    entries.set(key, { ...winner, visitedAt })
+  })
+
+  const records: Record<string, CheckinRecord> = {}
+  const mergedDeletions: Record<string, CheckinDeletion> = {}
+  entries.forEach((entry, key) => {
+    if (entry.deleted) {
+      mergedDeletions[key] = { islandId: entry.islandId, spotId: entry.spotId, deletedAt: entry.updatedAt }
+    } else {
+      records[key] = {
+        islandId: entry.islandId,
+        spotId: entry.spotId,
+        visitedAt: entry.visitedAt,
+        updatedAt: entry.updatedAt,
+        captures: local[key]?.captures
+      }
+    }
+  })
+  return { records, deletions: mergedDeletions, entries: Array.from(entries.values()) }
+}
+
+// 记录被删除（取消打卡、重置或同步时被其他设备的取消打卡覆盖）后，清理 IndexedDB 中不再被引用的照片
+const getCaptureIds = (records: Record<string, CheckinRecord>) =>
+  new Set(Object.values(records).flatMap(record => (record.captures ?? []).map(capture => capture.id)))
+
+interface ServerCheckinRecord {
+  island_id: string
+  spot_id: string
+  visited_at: string
+  updated_at?: string | null
+  deleted?: boolean
+}
+
+// 打卡记录与墓碑记录放在同一个 state 中，保证合并时两者一致
+interface CheckinState {
+  records: Record<string, CheckinRecord>
+  deletions: Record<string, CheckinDeletion>
+}
+
+const MAX_SYNC_ROUNDS = 3 // 请求期间本地又有修改时重新同步的最多轮数
+
+export const CheckinProvider: React.FC<CheckinProviderProps> = ({ children }) => {
+  const [state, setState] = useState<CheckinState>(() => ({ records: loadRecords(), deletions: loadDeletions() }))
+  const { records, deletions } = state
+  const [isSyncing, setIsSyncing] = useState(false)
+  const [syncError, setSyncError] = useState(false)
+  const [lastSyncedAt, setLastSyncedAt] = useState<string | null>(() => localStorage.getItem(SYNC_STORAGE_KEY))
+
+  // 最新状态与本地修改次数，同步请求返回后据此判断期间是否有新的修改
+  const stateRef = useRef(state)
+  stateRef.current = state
+  const revisionRef = useRef(0)
+
+  // 持久化到 localStorage
+  useEffect(() => {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(Object.values(records)))
+    } catch (error) {
+      console.warn('保存打卡记录失败:', error)
+    }
+  }, [records])
+
+  useEffect(() => {
+    try {
+      localStorage.setItem(DELETIONS_STORAGE_KEY, JSON.stringify(deletions))
+    } catch (error) {
+      console.warn('保存取消打卡记录失败:', error)
+    }
+  }, [deletions])
+
+  // 照片只随记录一起删除：记录消失后删除 IndexedDB 中对应的照片
+  const captureIdsRef = useRef(getCaptureIds(records))
+  useEffect(() => {
+    const current = getCaptureIds(records)
+    captureIdsRef.current.forEach(id => {
+      if (!current.has(id)) {
+        deleteCapturePhoto(id).catch(error => console.warn('删除打卡照片失败:', error))
+      }
+    })
+    captureIdsRef.current = current
+  }, [records])
+
+  // 本地修改：记录一次修改并更新状态
+  const updateState = useCallback((updater: (prev: CheckinState) => CheckinState) => {
+    revisionRef.current += 1
+    setState(updater)
+  }, [])
+
+  const isVisited = useCallback((islandId: string, spotId: string) => {
+    return Boolean(records[getCheckinKey(islandId, spotId)])
+  }, [records])
+
+  // 打卡后移除墓碑记录
+  const markVisited = useCallback((islandId: string, spotId: string) => {
+    updateState(prev => {
+      const key = getCheckinKey(islandId, spotId)
+      if (prev.records[key]) return prev
+      const now = new Date().toISOString()
+      const nextDeletions = { ...prev.deletions }
+      delete nextDeletions[key]
+      return {
+        records: { ...prev.records, [key]: { islandId, spotId, visitedAt: now, updatedAt: now } },
+        deletions: nextDeletions
+      }
+    })
+  }, [updateState])
+
+  // 取消打卡时记录墓碑，同步时据此删除服务器上的记录
+  const removeRecords = useCallback((keys: (prev: CheckinState) => string[]) => {
+    updateState(prev => {
+      const removed = keys(prev).filter(key => prev.records[key])
+      if (removed.length === 0) return prev
+      const deletedAt = new Date().toISOString()
+      const nextRecords = { ...prev.records }
+      const nextDeletions = { ...prev.deletions }
+      removed.forEach(key => {
+        const { islandId, spotId } = prev.records[key]
+        nextDeletions[key] = { islandId, spotId, deletedAt }
+        delete nextRecords[key]
+      })
+      return { records: nextRecords, deletions: nextDeletions }
+    })
+  }, [updateState])
+
+  const unmarkVisited = useCallback((islandId: string, spotId: string) => {
+    removeRecords(() => [getCheckinKey(islandId, spotId)])
+  }, [removeRecords])
+
+  const toggleVisited = useCallback((islandId: string, spotId: string) => {
+    if (records[getCheckinKey(islandId, spotId)]) {
+      unmarkVisited(islandId, spotId)
+    } else {
+      markVisited(islandId, spotId)
+    }
+  }, [records, markVisited, unmarkVisited])
+
+  // 保存现场拍摄的照片，同时视为已打卡
+  const addCapture = useCallback((islandId: string, spotId: string, capture: CheckinCapture) => {
+    updateState(prev => {
+      const key = getCheckinKey(islandId, spotId)
+      const existing = prev.records[key] ?? { islandId, spotId, visitedAt: capture.capturedAt, updatedAt: capture.capturedAt }
+      const nextDeletions = { ...prev.deletions }
+      delete nextDeletions[key]
+      return {
+        records: { ...prev.records, [key]: { ...existing, captures: [...(existing.captures ?? []), capture] } },
+        deletions: nextDeletions
+      }
+    })
+  }, [updateState])
+
+  const resetCheckins = useCallback(() => {
+    removeRecords(prev => Object.keys(prev.records))
+  }, [removeRecords])
+
+  const getIslandProgress = useCallback((island: IslandDefinition) => {
+    const visited = island.spots.filter(spot => records[getCheckinKey(island.id, spot.id)]).length
+    return toProgress(visited, island.spots.length)
+  }, [records])
+
+  const getOverallProgress = useCallback(() => {
+    let visited = 0
+    let total = 0
+    islandDefinitions.forEach(island => {
+      const progress = getIslandProgress(island)
+      visited += progress.visited
+      total += progress.total
+    })
+    return toProgress(visited, total)
+  }, [getIslandProgress])
+
+  // 先拉取服务器记录与本地合并，再把合并结果（含墓碑记录）写回服务器；
+  // 请求返回后把结果合并进最新的本地状态，期间本地又有修改时再同步一轮
+  const { token, user } = useAuth()
+  const syncWithServer = useCallback(async () => {
+    if (!token) return
+    setIsSyncing(true)
+    setSyncError(false)
+    try {
+      const headers = {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${token}`
+      }
+      for (let round = 0; round < MAX_SYNC_ROUNDS; round++) {
+        const revision = revisionRef.current
+        const response = await fetch('/api/auth/checkins', { headers })
+        if (!response.ok) {
+          throw new Error(`获取打卡记录失败: ${response.status}`)
+        }
+        const remote: ServerCheckinRecord[] = await response.json()
+        const snapshot = stateRef.current
+        const merged = mergeRecords(snapshot.records, snapshot.deletions, remote.map(r => ({
+          islandId: r.island_id,
+          spotId: r.spot_id,
+          visitedAt: parseServerTime(r.visited_at),
+          updatedAt: parseServerTime(r.updated_at ?? r.visited_at),
+          deleted: Boolean(r.deleted)
+        })))
+
+        const saveResponse = await fetch('/api/auth/checkins', {
+          method: 'PUT',
+          headers,
+          body: JSON.stringify({
+            records: merged.entries.map(r => ({
+              island_id: r.islandId,
+              spot_id: r.spotId,
+              visited_at: r.visitedAt,
+              updated_at: r.updatedAt,
+              deleted: r.deleted
+            }))
+          })
+        })
+        if (!saveResponse.ok) {
+          throw new Error(`上传打卡记录失败: ${saveResponse.status}`)
+        }
+
+        setState(prev => {
+          const next = mergeRecords(prev.records, prev.deletions, merged.entries)
+          return { records: next.records, deletions: next.deletions }
+        })
+        if (revisionRef.current === revision) break
+      }
+      const syncedAt = new Date().toISOString()
+      setLastSyncedAt(syncedAt)
+      localStorage.setItem(SYNC_STORAGE_KEY, syncedAt)
+    } catch (error) {
+      console.error('同步打卡记录失败:', error)
+      setSyncError(true)
+    } finally {
+      setIsSyncing(false)
+    }
+  }, [token])
+
+  // 登录后（包括打开页面时恢复登录状态）自动同步一次
+  const userId = user?.id
+  useEffect(() => {
+    if (userId !== undefined) syncWithServer()
+  }, [userId])
+
+  const value: CheckinContextType = {
+    records,
+    isVisited,
+    getIslandProgress,
+    getOverallProgress,
+    markVisited,
+    unmarkVisited,
+    toggleVisited,
+    addCapture,
+    resetCheckins,
+    syncWithServer,
+    isSyncing,
+    syncError,
+    lastSyncedAt
+  }
+
+  return (
+    <CheckinContext.Provider value={value}>
+      {children}
+    </CheckinContext.Provider>
+  )
+}
@@ -0,0 +1,51 @@
+import React, { createContext, useContext, useState, useEffect, ReactNode, useCallback } from 'react'
+import { Locale, MessageParams, getHtmlLang, loadLocale, saveLocale, translate } from '../utils/i18n'
+
+interface LocaleContextType {
+  locale: Locale
+  setLocale: (locale: Locale) => void
+  t: (key: string, params?: MessageParams) => string
+}
+
+const LocaleContext = createContext<LocaleContextType | undefined>(undefined)
+
+export const useLocale = () => {
+  const context = useContext(LocaleContext)
+  if (context === undefined) {
+    throw new Error('useLocale must be used within a LocaleProvider')
+  }
+  return context
+}
+
+interface LocaleProviderProps {
+  children: ReactNode
+}
+
+export const LocaleProvider: React.FC<LocaleProviderProps> = ({ children }) => {
+  // 优先使用用户选择过的语言，否则按浏览器语言检测
+  const [locale, setLocaleState] = useState<Locale>(loadLocale)
+
+  // 同步 <html lang>，便于浏览器选择字体与朗读
+  useEffect(() => {
+    document.documentElement.lang = getHtmlLang(locale)
+  }, [locale])
+
+  const setLocale = useCallback((next: Locale) => {
+    setLocaleState(next)
+    saveLocale(next)
+  }, [])
+
+  const t = useCallback((key: string, params?: MessageParams) => translate(locale, key, params), [locale])
+
+  const value: LocaleContextType = {
+    locale,
+    setLocale,
+    t
+  }
+
+  return (
+    <LocaleContext.Provider value={value}>
+      {children}
+    </LocaleContext.Provider>
+  )
+}
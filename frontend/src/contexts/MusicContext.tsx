@@ -1,4 +1,6 @@
 import React, { createContext, useContext, useState, useRef, useEffect, ReactNode, useCallback } from 'react'
+import { useMediaSession } from '../hooks/useMediaSession'
+import { PlaybackEngine, PlaybackEngineCallbacks, createPlaybackEngine } from '../utils/playbackEngine'
 
 export interface Track {
   id: string
@@ -8,9 +10,13 @@ export interface Track {
   duration?: number
   album?: string
   cover?: string
+  scenes?: string[] // 场景音乐：进入这些页面路径（含子路径）时自动切换到这首歌
+  lyrics?: string // LRC 歌词文件路径（如 /lyrics/xxx.lrc），翻译写法见 utils/lyrics
+  replayGain?: number // ReplayGain 曲目增益（dB）；没有时首次播放会自动测量响度，见 utils/playbackEngine
+  peak?: number // 曲目采样峰值（0-1），与 replayGain 一起使用，避免增益后削波
 }
 
-export type PlayMode = 'list' | 'single'
+export type PlayMode = 'list' | 'single' | 'shuffle'
 
 interface MusicContextType {
   // 播放状态
@@ -36,9 +42,15 @@ interface MusicContextType {
   setVolume: (volume: number) => void
   selectTrack: (index: number) => void
   setPlayMode: (mode: PlayMode) => void
-  
-  // 播放器引用
-  audioRef: React.RefObject<HTMLAudioElement>
+
+  // 场景音乐：按所在页面自动切换歌曲，手动切歌后自动关闭
+  sceneMode: boolean
+  setSceneMode: (enabled: boolean) => void
+  updateScene: (pathname: string) => void
+
+  // 交叉淡入淡出：自动切到下一首时两首歌重叠的秒数，0 为不重叠直接切换
+  crossfade: number
+  setCrossfade: (seconds: number) => void
   
   // 界面状态
   isPlayerOpen: boolean
@@ -59,7 +71,84 @@ interface MusicProviderProps {
   children: ReactNode
 }
 
+// 播放器状态保存在本地，刷新页面或第二天再打开时从上次的位置继续
+interface SavedMusicState {
+  volume: number
+  playMode: PlayMode
+  trackId: string | null
+  position: number // 秒
+  sceneMode: boolean
+  crossfade: number // 秒
+}
+
+const STORAGE_KEY = 'sprb-music-state'
+const POSITION_SAVE_INTERVAL = 5 // 秒，播放中每隔这么久保存一次播放位置
+const MAX_CROSSFADE = 12 // 秒
+const MANUAL_FADE = 0.3 // 秒，手动切歌时的短暂淡入淡出，避免爆音
+const SCENE_CROSSFADE = 2 // 秒，场景切换时至少淡入淡出这么久
+const playModes: PlayMode[] = ['list', 'single', 'shuffle']
+
+// 读取本地保存的状态，数据损坏时忽略不合法的字段
+const loadMusicState = (): Partial<SavedMusicState> => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY)
+    if (!raw) return {}
+    const saved = JSON.parse(raw) as Partial<SavedMusicState>
+    return {
+      volume: typeof saved.volume === 'number' && saved.volume >= 0 && saved.volume <= 1 ? saved.volume : undefined,
+      playMode: saved.playMode && playModes.includes(saved.playMode) ? saved.playMode : undefined,
+      trackId: typeof saved.trackId === 'string' ? saved.trackId : undefined,
+      position: typeof saved.position === 'number' && saved.position > 0 ? saved.position : undefined,
+      sceneMode: typeof saved.sceneMode === 'boolean' ? saved.sceneMode : undefined,
+      crossfade: typeof saved.crossfade === 'number' && saved.crossfade >= 0 && saved.crossfade <= MAX_CROSSFADE
+        ? saved.crossfade
+        : undefined
+    }
+  } catch (error) {
+    console.warn('读取播放器状态失败:', error)
+    return {}
+  }
+}
+
+const saveMusicState = (state: SavedMusicState) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(state))
+  } catch (error) {
+    console.warn('保存播放器状态失败:', error)
+  }
+}
+
+// 随机播放队列：Fisher-Yates 洗牌，不包含当前歌曲，一轮内每首只播放一次
+const createShuffleQueue = (length: number, current: number): number[] => {
+  const queue = Array.from({ length }, (_, index) => index).filter(index => index !== current)
+  for (let i = queue.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1))
+    const swap = queue[i]
+    queue[i] = queue[j]
+    queue[j] = swap
+  }
+  return queue
+}
+
+const findTrackIndex = (tracks: Track[], trackId?: string | null) =>
+  Math.max(0, tracks.findIndex(track => track.id === trackId))
+
+// 与页面路径匹配的场景歌曲，多个匹配时取路径最长（最具体）的；'/' 只匹配首页
+const findSceneTrackIndex = (tracks: Track[], pathname: string) => {
+  let best = { index: -1, length: -1 }
+  tracks.forEach((track, index) => {
+    track.scenes?.forEach(scene => {
+      const matches = scene === '/'
+        ? pathname === '/'
+        : pathname === scene || pathname.startsWith(`${scene}/`)
+      if (matches && scene.length > best.length) best = { index, length: scene.length }
+    })
+  })
+  return best.index
+}
+
 // 默认播放列表
+// replayGain / peak 需在发布音频时用 rsgain 等工具按 ReplayGain 2.0 测得后填写（音频文件不在仓库中），未填写的歌曲由播放引擎测量兜底
 const defaultPlaylist: Track[] = [
   {
     id: 'summer-pockets', // 唯一标识，内部引用，id
@@ -67,7 +156,8 @@ const defaultPlaylist: Track[] = [
     artist: '水月陵', // 艺术家
     src: '/audio/1-水月陵 - Summer Pockets.mp3', // 音频文件路径
     album: 'Summer Pockets OST', // 专辑名称
-    cover: 'images/covers/1-summerpockets.webp'
+    cover: '/images/covers/1-summerpockets.webp', // 封面
+    scenes: ['/', '/contents'] // 进入这些页面时自动播放（场景音乐模式）
   },
   {
     id: 'sea-you-me',
@@ -75,7 +165,8 @@ const defaultPlaylist: Track[] = [
     artist: '麻枝准',
     src: '/audio/2-麻枝准 - Sea, You & Me.mp3',
     album: 'Summer Pockets OST',
-    cover: 'images/covers/2-sea-you-me.webp'
+    cover: '/images/covers/2-sea-you-me.webp',
+    scenes: ['/traffic', '/itinerary']
   },
   {
     id: 'alcatale',
@@ -83,7 +174,8 @@ const defaultPlaylist: Track[] = [
     artist: '鈴木このみ',
     src: '/audio/3-鈴木このみ,VISUAL ARTS  Key - アルカテイル.mp3',
     album: 'Summer Pockets OST',
-    cover: 'images/covers/3-op.webp'
+    cover: '/images/covers/3-op.webp',
+    scenes: ['/checkin']
   },
   {
     id: 'yoru-wa-mijikaku',
@@ -91,7 +183,7 @@ const defaultPlaylist: Track[] = [
     artist: '水月陵',
     src: '/audio/4-水月陵 - 夜は短く、空は遠くて….wav',
     album: 'Summer Pockets OST',
-    cover: 'images/covers/4-saikai.webp'
+    cover: '/images/covers/4-saikai.webp'
   },
   {
     id: 'hiyoku-no-chou',
@@ -99,7 +191,7 @@ const defaultPlaylist: Track[] = [
     artist: '高森奈津美',
     src: '/audio/5-高森奈津美 - 比翼の蝶たち.flac',
     album: 'Summer Pockets OST',
-    cover: 'images/covers/5-空门苍.webp'
+    cover: '/images/covers/5-空门苍.webp'
   },
   {
     id: 'departure',
@@ -107,7 +199,8 @@ const defaultPlaylist: Track[] = [
     artist: '嶺内ともみ',
     src: '/audio/6-嶺内ともみ - Departure!.flac',
     album: 'Summer Pockets OST',
-    cover: 'images/covers/6-久岛鸥.webp'
+    cover: '/images/covers/6-久岛鸥.webp',
+    scenes: ['/megijima']
   },
   {
     id: 'with',
@@ -115,7 +208,8 @@ const defaultPlaylist: Track[] = [
     artist: '嶺内ともみ',
     src: '/audio/7-嶺内ともみ - with.flac',
     album: 'Summer Pockets OST',
-    cover: 'images/covers/7-with.webp'
+    cover: '/images/covers/7-with.webp',
+    scenes: ['/other-pilgrimage']
   },
   {
     id: 'natsu-ni-kimi-wo',
@@ -123,7 +217,8 @@ const defaultPlaylist: Track[] = [
     artist: '小原好美',
     src: '/audio/8-小原好美 - 夏に君を待ちながら.flac',
     album: 'Summer Pockets OST',
-    cover: 'images/covers/8-白羽.webp'
+    cover: '/images/covers/8-白羽.webp',
+    scenes: ['/naoshima']
   },
   {
     id: 'tsumugi-no-natsuyasumi',
@@ -131,7 +226,8 @@ const defaultPlaylist: Track[] = [
     artist: '岩井映美里',
     src: '/audio/9-岩井映美里,VISUAL ARTS  Key - 紬の夏休み.flac',
     album: 'Summer Pockets OST',
-    cover: 'images/covers/9-紬的暑假.webp'
+    cover: '/images/covers/9-紬的暑假.webp',
+    scenes: ['/ogijima']
   },
   {
     id: 'golden-hours',
@@ -139,7 +235,7 @@ const defaultPlaylist: Track[] = [
     artist: '岩井映美里',
     src: '/audio/10-岩井映美里 - Golden Hours.flac',
     album: 'Summer Pockets OST',
-    cover: 'images/covers/10-golden-hours.webp'
+    cover: '/images/covers/10-golden-hours.webp'
   },
   {
     id: 'mahou-no-enikki',
@@ -147,7 +243,8 @@ const defaultPlaylist: Track[] = [
     artist: '小原好美,田中あいみ',
     src: '/audio/11-鳴瀬しろは(CV.小原好美),加藤うみ(CV.田中あいみ),VISUAL ARTS  Key - 魔法の絵日記.flac',
     album: 'Summer Pockets OST',
-    cover: 'images/covers/11-魔法日记本.webp'
+    cover: '/images/covers/11-魔法日记本.webp',
+    scenes: ['/progress']
   },
   {
     id: 'dont-cry-red',
@@ -155,7 +252,7 @@ const defaultPlaylist: Track[] = [
     artist: 'ファイルーズあい',
     src: '/audio/12-神山識(CV.ファイルーズあい),VISUAL ARTS  Key - Don\'t Cry Red.flac',
     album: 'Summer Pockets OST',
-    cover: 'images/covers/12-神山识.webp'
+    cover: '/images/covers/12-神山识.webp'
   },
   {
     id: 'yawarakai-kioku',
@@ -163,7 +260,7 @@ const defaultPlaylist: Track[] = [
     artist: '小山さほみ',
     src: '/audio/13-水織静久(CV.小山さほみ),VISUAL ARTS  Key - 柔らかい記憶.flac',
     album: 'Summer Pockets OST',
-    cover: 'images/covers/13-水织静久.webp'
+    cover: '/images/covers/13-水织静久.webp'
   },
   {
     id: 'shiroha-no-komoriuta',
@@ -171,7 +268,8 @@ const defaultPlaylist: Track[] = [
     artist: '小原好美',
     src: '/audio/14-小原好美,VISUAL ARTS  Key - しろはの子守歌.flac',
     album: 'Summer Pockets OST',
-    cover: 'images/covers/14-白羽的摇篮曲.webp'
+    cover: '/images/covers/14-白羽的摇篮曲.webp',
+    scenes: ['/divine-realm']
   },
   {
     id: 'dear-familiar',
@@ -179,7 +277,7 @@ const defaultPlaylist: Track[] = [
     artist: '一宮朔',
     src: '/audio/15-野村美樹(CV.一宮朔),VISUAL ARTS  Key - Dear Familiar.flac',
     album: 'Summer Pockets OST',
-    cover: 'images/covers/15-野美希.webp'
+    cover: '/images/covers/15-野美希.webp'
   },
   {
     id: 'finisterre',
@@ -187,33 +285,52 @@ const defaultPlaylist: Track[] = [
     artist: '鈴木このみ',
     src: '/audio/16-鈴木このみ,VISUAL ARTS  Key - フィニステラー.flac',
     album: 'Summer Pockets OST',
-    cover: 'images/covers/16-加藤羽未.webp'
+    cover: '/images/covers/16-加藤羽未.webp'
   }
 ]
 
 export const MusicProvider: React.FC<MusicProviderProps> = ({ children }) => {
-  const audioRef = useRef<HTMLAudioElement>(null)
-  const playModeRef = useRef<PlayMode>('list')
-  const isInitializedRef = useRef(false)
-  const shouldAutoPlayRef = useRef(false) // 添加自动播放标志
-  
+  const [savedState] = useState(loadMusicState)
+  const engineRef = useRef<PlaybackEngine | null>(null)
+  const playModeRef = useRef<PlayMode>(savedState.playMode ?? 'list')
+  const persistedRef = useRef<SavedMusicState>({
+    volume: savedState.volume ?? 0.7,
+    playMode: savedState.playMode ?? 'list',
+    trackId: savedState.trackId ?? null,
+    position: savedState.position ?? 0,
+    sceneMode: savedState.sceneMode ?? false,
+    crossfade: savedState.crossfade ?? 0
+  })
+  // 随机播放：待播放的队列与已播放的历史（用于上一首）
+  const shuffleQueueRef = useRef<number[]>([])
+  const shuffleHistoryRef = useRef<number[]>([])
+
   // 基本状态
   const [isPlaying, setIsPlaying] = useState(false)
   const [isPaused, setIsPaused] = useState(false)
   const [currentTime, setCurrentTime] = useState(0)
   const [duration, setDuration] = useState(0)
-  const [volume, setVolumeState] = useState(0.7)
-  
+  const [volume, setVolumeState] = useState(persistedRef.current.volume)
+  const [crossfade, setCrossfadeState] = useState(persistedRef.current.crossfade)
+
   // 播放列表状态
   const [playlist, setPlaylist] = useState<Track[]>(defaultPlaylist)
-  const [currentIndex, setCurrentIndex] = useState(0)
-  const [playMode, setPlayMode] = useState<PlayMode>('list')
-  
+  const [currentIndex, setCurrentIndex] = useState(() => findTrackIndex(defaultPlaylist, savedState.trackId))
+  const [playMode, setPlayModeState] = useState<PlayMode>(persistedRef.current.playMode)
+  const [sceneMode, setSceneModeState] = useState(persistedRef.current.sceneMode)
+  const [scenePath, setScenePath] = useState<string | null>(null)
+
   // 界面状态
   const [isPlayerOpen, setPlayerOpen] = useState(false)
-  
+
   const currentTrack = playlist[currentIndex] || null
 
+  // 播放引擎的回调中读取最新的播放列表与当前歌曲
+  const playlistRef = useRef(playlist)
+  const currentIndexRef = useRef(currentIndex)
+  playlistRef.current = playlist
+  currentIndexRef.current = currentIndex
+
   // 从后端加载播放列表
   const loadPlaylistFromAPI = useCallback(async () => {
     try {
@@ -221,7 +338,11 @@ export const MusicProvider: React.FC<MusicProviderProps> = ({ children }) => {
       if (response.ok) {
         const data = await response.json()
         if (data.tracks && data.tracks.length > 0) {
+          const index = findTrackIndex(data.tracks, persistedRef.current.trackId)
           setPlaylist(data.tracks)
+          setCurrentIndex(index)
+          // 同一首歌不会重新加载
+          engineRef.current?.load(data.tracks[index]).catch(error => console.error('加载音频失败:', error))
           console.log('从API加载播放列表成功:', data.tracks)
         } else {
           console.log('API返回空播放列表，使用默认播放列表')
@@ -240,257 +361,297 @@ export const MusicProvider: React.FC<MusicProviderProps> = ({ children }) => {
     playModeRef.current = playMode
   }, [playMode])
 
-  // 初始化音频
+  const persist = useCallback((patch: Partial<SavedMusicState>) => {
+    persistedRef.current = { ...persistedRef.current, ...patch }
+    saveMusicState(persistedRef.current)
+  }, [])
+
+  useEffect(() => {
+    persist({ volume, playMode, sceneMode, crossfade })
+  }, [volume, playMode, sceneMode, crossfade, persist])
+
+  // 切换歌曲时从头开始记录位置；刷新后恢复的仍是同一首，保留已保存的位置
+  useEffect(() => {
+    if (!currentTrack || currentTrack.id === persistedRef.current.trackId) return
+    persist({ trackId: currentTrack.id, position: 0 })
+  }, [currentTrack, persist])
+
+  // 播放列表变化后重新洗牌
   useEffect(() => {
-    const audio = audioRef.current
-    if (!audio || !currentTrack) return
-
-    // 只有在音频源不同或未初始化时才重新加载
-    if (!isInitializedRef.current || audio.src !== location.origin + currentTrack.src) {
-      audio.src = currentTrack.src
-      audio.volume = volume
-      audio.load()
-      isInitializedRef.current = true
-      console.log('音频初始化完成:', currentTrack.name)
+    shuffleQueueRef.current = []
+    shuffleHistoryRef.current = []
+  }, [playlist])
+
+  // 播放引擎事件
+  const engineCallbacksRef = useRef<PlaybackEngineCallbacks | null>(null)
+  engineCallbacksRef.current = {
+    onPlay: () => {
+      setIsPlaying(true)
+      setIsPaused(false)
+    },
+    onPause: () => {
+      setIsPlaying(false)
+      setIsPaused(true)
+    },
+    onTimeUpdate: time => {
+      setCurrentTime(time)
+      if (Math.abs(time - persistedRef.current.position) >= POSITION_SAVE_INTERVAL) {
+        persist({ position: time })
+      }
+    },
+    onDurationChange: setDuration,
+    // 引擎已经自动衔接到下一首，同步当前歌曲
+    onAdvance: track => {
+      const index = playlistRef.current.findIndex(item => item.id === track.id)
+      if (index < 0) return
+      if (playModeRef.current === 'shuffle') {
+        shuffleHistoryRef.current.push(currentIndexRef.current)
+        shuffleQueueRef.current = shuffleQueueRef.current.filter(item => item !== index)
+      }
+      setCurrentIndex(index)
+      setCurrentTime(0)
+    },
+    onEnded: () => {
+      setIsPlaying(false)
+      setIsPaused(false)
+    },
+    onError: error => {
+      console.error('音频加载错误:', error)
+      setIsPlaying(false)
+      setIsPaused(true)
     }
-  }, [currentTrack])  // 移除play依赖
+  }
 
-  // 单独处理音量设置
+  // 创建播放引擎，并加载上次播放的歌曲（恢复播放位置）
   useEffect(() => {
-    const audio = audioRef.current
-    if (audio) {
-      audio.volume = volume
+    const engine = createPlaybackEngine(() => engineCallbacksRef.current)
+    engineRef.current = engine
+    const track = playlistRef.current[currentIndexRef.current]
+    if (track) {
+      const { trackId, position } = persistedRef.current
+      engine.load(track, { startAt: track.id === trackId ? position : 0 })
+        .catch(error => console.error('加载音频失败:', error))
     }
+    return () => {
+      engine.destroy()
+      engineRef.current = null
+    }
+  }, [])
+
+  // 音量与交叉淡入淡出设置
+  useEffect(() => {
+    engineRef.current?.setVolume(volume)
   }, [volume])
 
+  useEffect(() => {
+    engineRef.current?.setCrossfade(crossfade)
+  }, [crossfade])
+
+  // 告诉播放引擎下一首，用于提前缓冲与自动衔接；单曲循环和场景音乐循环当前歌曲
+  useEffect(() => {
+    const engine = engineRef.current
+    if (!engine || !currentTrack) return
+    if (playMode === 'single' || sceneMode) {
+      engine.setNext(currentTrack)
+    } else if (playMode === 'shuffle') {
+      if (shuffleQueueRef.current.length === 0) {
+        shuffleQueueRef.current = createShuffleQueue(playlist.length, currentIndex)
+      }
+      engine.setNext(playlist[shuffleQueueRef.current[0]] ?? null)
+    } else {
+      engine.setNext(playlist[(currentIndex + 1) % playlist.length] ?? null)
+    }
+  }, [currentTrack, currentIndex, playlist, playMode, sceneMode])
+
+  // 离开页面前保存播放位置
+  useEffect(() => {
+    const handlePageHide = () => {
+      const position = engineRef.current?.getCurrentTime() ?? 0
+      if (position > 0) persist({ position })
+    }
+    window.addEventListener('pagehide', handlePageHide)
+    return () => window.removeEventListener('pagehide', handlePageHide)
+  }, [persist])
+
+  // error 可能是 play() 抛出的 DOMException，也可能是 <audio> 的 MediaError
+  const handlePlayError = useCallback((error: unknown) => {
+    const name = error instanceof Error ? error.name : undefined
+    // 切歌或暂停打断了尚未开始的播放，不是错误
+    if (name === 'AbortError') return
+    console.error('播放失败:', error)
+    // 浏览器阻止自动播放，需要用户交互；不设置错误状态，保持当前状态
+    if (name === 'NotAllowedError') return
+    setIsPlaying(false)
+    setIsPaused(true)
+  }, [])
+
+  // 切换到指定歌曲并播放（从头开始），正在播放时短暂淡入淡出
+  const changeTrack = useCallback((index: number, fade = MANUAL_FADE) => {
+    const track = playlist[index]
+    const engine = engineRef.current
+    if (!track || !engine) return
+    setCurrentIndex(index)
+    setCurrentTime(0)
+    engine.load(track, { autoplay: true, startAt: 0, fade }).catch(handlePlayError)
+  }, [playlist, handlePlayError])
+
   // 播放控制函数
   const play = useCallback(async () => {
-    const audio = audioRef.current
-    if (!audio || !currentTrack) return
+    const engine = engineRef.current
+    if (!engine || !currentTrack) return
 
     try {
-      // 仅在真正切换歌曲时才重新加载，避免因 URL 编码差异导致每次播放都重新加载
-      const normalizedAudioSrc = decodeURI(audio.src)
-      const expectedSrc = location.origin + currentTrack.src
-
-      if (!normalizedAudioSrc.endsWith(currentTrack.src)) {
-        // 实际源与期望源不一致，说明切换了歌曲
-        audio.src = currentTrack.src
-        audio.load()
-        console.log('加载新音频:', currentTrack.name)
-        
-        // 等待音频加载完成
-        await new Promise((resolve) => {
-          const handleCanPlay = () => {
-            audio.removeEventListener('canplay', handleCanPlay)
-            resolve(undefined)
-          }
-          audio.addEventListener('canplay', handleCanPlay)
-        })
-      }
-      
-      await audio.play()
-      setIsPlaying(true)
-      setIsPaused(false)
-      console.log('开始播放:', currentTrack.name, '从位置:', audio.currentTime)
-    } catch (error: any) {
-      console.error('播放失败:', error.message)
-      if (error.name === 'NotAllowedError') {
-        console.log('浏览器阻止自动播放，需要用户交互')
-        // 不设置错误状态，保持当前状态
-      } else {
-        console.error('其他播放错误:', error)
-        setIsPlaying(false)
-        setIsPaused(true)
-      }
+      await engine.play()
+    } catch (error) {
+      handlePlayError(error)
     }
-  }, [currentTrack])
+  }, [currentTrack, handlePlayError])
 
   const pause = useCallback(() => {
-    const audio = audioRef.current
-    if (!audio) return
+    const engine = engineRef.current
+    if (!engine) return
 
-    audio.pause()
+    engine.pause()
     setIsPlaying(false)
     setIsPaused(true)
-    console.log('暂停播放')
-  }, [])
+    persist({ position: engine.getCurrentTime() })
+  }, [persist])
 
   const togglePlay = useCallback(() => {
-    console.log('togglePlay 被调用，当前状态:', { isPlaying, isPaused })
-
-    const audio = audioRef.current
-    if (!audio) return
-
     if (isPlaying) {
-      // 正在播放 -> 暂停
       pause()
     } else {
-      // 未播放
-      if (isPaused && decodeURI(audio.src).endsWith(currentTrack?.src ?? '')) {
-        // 处于暂停状态并且歌曲未切换，直接继续播放
-        audio.play().then(() => {
-          setIsPlaying(true)
-          setIsPaused(false)
-          console.log('从暂停位置继续播放:', audio.currentTime)
-        }).catch(err => {
-          console.error('继续播放失败:', err.message)
-          if (err.name === 'NotAllowedError') {
-            console.log('浏览器阻止自动播放，需要用户交互')
-            // 不尝试重新播放，等待用户再次点击
-          } else {
-            // 其他错误，尝试重新加载
-            play()
-          }
-        })
-      } else {
-        // 其他情况（首次播放或已切换歌曲）
-        play()
-      }
+      play()
+    }
+  }, [isPlaying, pause, play])
+
+  // 随机播放的下一首：当前队列播完后重新洗牌
+  const takeShuffleNext = useCallback(() => {
+    if (shuffleQueueRef.current.length === 0) {
+      shuffleQueueRef.current = createShuffleQueue(playlist.length, currentIndex)
     }
-  }, [isPlaying, isPaused, pause, play, currentTrack])
+    const nextIndex = shuffleQueueRef.current.shift() ?? currentIndex
+    shuffleHistoryRef.current.push(currentIndex)
+    return nextIndex
+  }, [currentIndex, playlist.length])
 
   // 切换到下一首
   const next = useCallback(() => {
     let nextIndex: number
-    
+
     if (playMode === 'single') {
       nextIndex = currentIndex // 单曲循环
+    } else if (playMode === 'shuffle') {
+      nextIndex = takeShuffleNext()
     } else {
       // 列表循环
       nextIndex = (currentIndex + 1) % playlist.length
     }
-    
-    console.log('切换到下一首:', nextIndex, playlist[nextIndex]?.name)
-    setCurrentIndex(nextIndex)
-    isInitializedRef.current = false // 重置初始化标志
-    shouldAutoPlayRef.current = true // 设置自动播放标志
-  }, [currentIndex, playlist.length, playMode])
+
+    setSceneModeState(false) // 手动切歌后不再按页面自动切换
+    changeTrack(nextIndex)
+  }, [currentIndex, playlist, playMode, takeShuffleNext, changeTrack])
 
   // 切换到上一首
   const prev = useCallback(() => {
     let prevIndex: number
-    
+
     if (playMode === 'single') {
       prevIndex = currentIndex // 单曲循环
+    } else if (playMode === 'shuffle') {
+      // 随机播放时回到上一首播放过的歌曲，当前歌曲放回队列最前
+      const previous = shuffleHistoryRef.current.pop()
+      if (previous !== undefined) shuffleQueueRef.current.unshift(currentIndex)
+      prevIndex = previous ?? currentIndex
     } else {
       // 列表循环
       prevIndex = currentIndex === 0 ? playlist.length - 1 : currentIndex - 1
     }
-    
-    console.log('切换到上一首:', prevIndex, playlist[prevIndex]?.name)
-    setCurrentIndex(prevIndex)
-    isInitializedRef.current = false // 重置初始化标志
-    shouldAutoPlayRef.current = true // 设置自动播放标志
-  }, [currentIndex, playlist.length, playMode])
+
+    setSceneModeState(false)
+    changeTrack(prevIndex)
+  }, [currentIndex, playlist, playMode, changeTrack])
 
   // 进度跳转
   const seek = useCallback((time: number) => {
-    const audio = audioRef.current
-    if (!audio) return
-
-    audio.currentTime = time
+    engineRef.current?.seek(time)
     setCurrentTime(time)
-  }, [])
+    persist({ position: time })
+  }, [persist])
 
   // 音量控制
   const setVolume = useCallback((newVolume: number) => {
     setVolumeState(newVolume)
-    const audio = audioRef.current
-    if (audio) {
-      audio.volume = newVolume
-    }
+  }, [])
+
+  const setCrossfade = useCallback((seconds: number) => {
+    setCrossfadeState(Math.min(Math.max(seconds, 0), MAX_CROSSFADE))
   }, [])
 
   // 选择歌曲
   const selectTrack = useCallback((index: number) => {
     if (index >= 0 && index < playlist.length && index !== currentIndex) {
-      console.log('选择歌曲:', index, playlist[index]?.name)
-      setCurrentIndex(index)
-      isInitializedRef.current = false // 重置初始化标志
-      shouldAutoPlayRef.current = true // 设置自动播放标志
-    }
-  }, [playlist.length, currentIndex])
-
-  // 处理自动播放逻辑
-  useEffect(() => {
-    if (shouldAutoPlayRef.current && currentTrack && isInitializedRef.current) {
-      shouldAutoPlayRef.current = false
-      // 延迟播放确保音频完全加载
-      setTimeout(() => {
-        play()
-      }, 100)
-    }
-  }, [currentTrack, play])
-
-  // 音频事件处理
-  useEffect(() => {
-    const audio = audioRef.current
-    if (!audio) return
-
-    const handleLoadedMetadata = () => {
-      setDuration(audio.duration || 0)
+      // 手动选择的歌曲不会在本轮随机播放中再次出现
+      shuffleQueueRef.current = shuffleQueueRef.current.filter(item => item !== index)
+      shuffleHistoryRef.current.push(currentIndex)
+      setSceneModeState(false)
+      changeTrack(index)
     }
+  }, [playlist, currentIndex, changeTrack])
 
-    const handleTimeUpdate = () => {
-      setCurrentTime(audio.currentTime || 0)
-    }
-
-    const handleEnded = () => {
-      setIsPlaying(false)
-      setIsPaused(false)
-      
-      // 根据播放模式决定下一步操作
-      const currentPlayMode = playModeRef.current
-      if (currentPlayMode === 'single') {
-        // 单曲循环 - 重新播放当前歌曲
-        audio.currentTime = 0
-        play()
-      } else {
-        // 列表循环 - 播放下一首
-        next()
-      }
-    }
-
-    const handlePlay = () => {
-      setIsPlaying(true)
-      setIsPaused(false)
-    }
-
-    const handlePause = () => {
-      setIsPlaying(false)
-      setIsPaused(true)
+  // 切换到随机播放时以当前歌曲为起点重新洗牌
+  const setPlayMode = useCallback((mode: PlayMode) => {
+    if (mode === 'shuffle') {
+      shuffleQueueRef.current = createShuffleQueue(playlist.length, currentIndex)
+      shuffleHistoryRef.current = []
     }
+    setPlayModeState(mode)
+  }, [playlist.length, currentIndex])
 
-    const handleError = (e: any) => {
-      console.error('音频加载错误:', e)
-      setIsPlaying(false)
-      setIsPaused(true)
-    }
+  const setSceneMode = useCallback((enabled: boolean) => {
+    setSceneModeState(enabled)
+  }, [])
 
-    // 添加事件监听
-    audio.addEventListener('loadedmetadata', handleLoadedMetadata)
-    audio.addEventListener('timeupdate', handleTimeUpdate)
-    audio.addEventListener('ended', handleEnded)
-    audio.addEventListener('play', handlePlay)
-    audio.addEventListener('pause', handlePause)
-    audio.addEventListener('error', handleError)
+  // 由播放器组件在路由变化时调用（MusicProvider 位于 Router 之外，无法直接读取路由）
+  const updateScene = useCallback((pathname: string) => {
+    setScenePath(pathname)
+  }, [])
 
-    return () => {
-      audio.removeEventListener('loadedmetadata', handleLoadedMetadata)
-      audio.removeEventListener('timeupdate', handleTimeUpdate)
-      audio.removeEventListener('ended', handleEnded)
-      audio.removeEventListener('play', handlePlay)
-      audio.removeEventListener('pause', handlePause)
-      audio.removeEventListener('error', handleError)
-    }
-  }, [play, next])
+  // 场景音乐：进入配置了歌曲的页面时切换过去，正在播放时与当前歌曲交叉淡入淡出
+  useEffect(() => {
+    if (!sceneMode || scenePath === null) return
+    const sceneIndex = findSceneTrackIndex(playlist, scenePath)
+    // 没有配置场景歌曲的页面保持当前播放
+    if (sceneIndex < 0 || sceneIndex === currentIndex) return
+
+    const track = playlist[sceneIndex]
+    setCurrentIndex(sceneIndex)
+    setCurrentTime(0)
+    engineRef.current?.load(track, {
+      autoplay: isPlaying,
+      startAt: 0,
+      fade: Math.max(crossfade, SCENE_CROSSFADE)
+    }).catch(handlePlayError)
+  }, [sceneMode, scenePath, playlist, currentIndex, isPlaying, crossfade, handlePlayError])
 
   // 组件初始化时加载播放列表
   useEffect(() => {
     loadPlaylistFromAPI()
   }, [loadPlaylistFromAPI])
 
+  // 锁屏、耳机与键盘媒体键控制
+  useMediaSession({
+    track: currentTrack,
+    isPlaying,
+    currentTime,
+    duration,
+    play,
+    pause,
+    next,
+    prev,
+    seek
+  })
+
   // 移除自动播放，改为等待用户交互
   // 现代浏览器阻止自动播放，需要用户交互才能播放音频
 
@@ -504,13 +665,13 @@ export const MusicProvider: React.FC<MusicProviderProps> = ({ children }) => {
     currentTime,
     duration,
     volume,
-    
+
     // 播放列表和当前歌曲
     playlist,
     currentTrack,
     currentIndex,
     playMode,
-    
+
     // 控制方法
     play,
     pause,
@@ -521,10 +682,12 @@ export const MusicProvider: React.FC<MusicProviderProps> = ({ children }) => {
     setVolume,
     selectTrack,
     setPlayMode,
-    
-    // 播放器引用
-    audioRef,
-    
+    sceneMode,
+    setSceneMode,
+    updateScene,
+    crossfade,
+    setCrossfade,
+
     // 界面状态
     isPlayerOpen,
     setPlayerOpen
@@ -533,11 +696,6 @@ export const MusicProvider: React.FC<MusicProviderProps> = ({ children }) => {
   return (
     <MusicContext.Provider value={value}>
       {children}
-      <audio
-        ref={audioRef}
-        style={{ display: 'none' }}
-        preload="metadata"
-      />
     </MusicContext.Provider>
   )
-} 
\ No newline at end of file
+}
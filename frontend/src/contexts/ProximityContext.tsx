@@ -0,0 +1,161 @@
+import React, { createContext, useContext, useState, useRef, useEffect, useMemo, ReactNode, useCallback } from 'react'
+import { GeoPoint } from '../utils/geo'
+import { GeolocationError, UserPosition, toGeolocationError } from '../hooks/useGeolocation'
+import {
+  MAX_ARRIVAL_ACCURACY,
+  NearbySpot,
+  REARM_FACTOR,
+  SamplingMode,
+  getArrivalKey,
+  getNearbySpots,
+  getSamplingMode,
+  loadProximityEnabled,
+  loadSimulatedLocation,
+  samplingProfiles,
+  saveProximityEnabled,
+  saveSimulatedLocation
+} from '../utils/proximity'
+
+interface ProximityContextType {
+  // 用户开关：开启后在后台持续定位，进入打卡点范围时弹出提示
+  enabled: boolean
+  setEnabled: (enabled: boolean) => void
+
+  // 定位状态（模拟定位时 accuracy 为 0）
+  position: UserPosition | null
+  error: GeolocationError | null
+  samplingMode: SamplingMode
+  nearest: NearbySpot | null
+
+  // 当前的到达提示，按距离从近到远排列；同一位置可能对应多个打卡点
+  arrivals: NearbySpot[]
+  dismissArrivals: () => void
+
+  // 开发用模拟定位，设置后代替真实定位
+  simulatedLocation: GeoPoint | null
+  setSimulatedLocation: (location: GeoPoint | null) => void
+}
+
+const ProximityContext = createContext<ProximityContextType | undefined>(undefined)
+
+export const useProximity = () => {
+  const context = useContext(ProximityContext)
+  if (context === undefined) {
+    throw new Error('useProximity must be used within a ProximityProvider')
+  }
+  return context
+}
+
+interface ProximityProviderProps {
+  children: ReactNode
+}
+
+const isPageVisible = () => typeof document === 'undefined' || document.visibilityState === 'visible'
+
+export const ProximityProvider: React.FC<ProximityProviderProps> = ({ children }) => {
+  const [enabled, setEnabledState] = useState(loadProximityEnabled)
+  const [simulatedLocation, setSimulatedLocationState] = useState<GeoPoint | null>(loadSimulatedLocation)
+  const [gpsPosition, setGpsPosition] = useState<UserPosition | null>(null)
+  const [error, setError] = useState<GeolocationError | null>(null)
+  const [arrivals, setArrivals] = useState<NearbySpot[]>([])
+  const [isVisible, setIsVisible] = useState(isPageVisible)
+  const lastSampleRef = useRef(0)
+  // 已经提示过、且用户尚未走出范围的打卡点
+  const promptedRef = useRef<Set<string>>(new Set())
+
+  const position = useMemo<UserPosition | null>(
+    () => simulatedLocation ? { ...simulatedLocation, accuracy: 0 } : gpsPosition,
+    [simulatedLocation, gpsPosition]
+  )
+  const nearest = useMemo(() => position ? getNearbySpots(position)[0] ?? null : null, [position])
+  const samplingMode = getSamplingMode(nearest)
+
+  // 页面切到后台时暂停定位
+  useEffect(() => {
+    const handleVisibility = () => setIsVisible(isPageVisible())
+    document.addEventListener('visibilitychange', handleVisibility)
+    return () => document.removeEventListener('visibilitychange', handleVisibility)
+  }, [])
+
+  // 按采样档位监听位置，档位变化时以新的参数重新监听
+  useEffect(() => {
+    if (!enabled || simulatedLocation || !isVisible) return
+    if (typeof navigator === 'undefined' || !navigator.geolocation) {
+      setError('unsupported')
+      return
+    }
+
+    const profile = samplingProfiles[samplingMode]
+    const watchId = navigator.geolocation.watchPosition(
+      ({ coords, timestamp }) => {
+        if (timestamp - lastSampleRef.current < profile.interval) return
+        lastSampleRef.current = timestamp
+        setGpsPosition({ lat: coords.latitude, lng: coords.longitude, accuracy: coords.accuracy })
+        setError(null)
+      },
+      error => {
+        console.warn('到达提醒获取位置失败:', error)
+        setError(toGeolocationError(error))
+      },
+      profile.options
+    )
+    return () => navigator.geolocation.clearWatch(watchId)
+  }, [enabled, simulatedLocation, isVisible, samplingMode])
+
+  // 进入范围时提示一次，走出 REARM_FACTOR 倍范围后才会再次提示
+  useEffect(() => {
+    if (!enabled || !position) return
+    const spots = getNearbySpots(position)
+    const prompted = promptedRef.current
+    spots.forEach(spot => {
+      if (spot.distance > spot.radius * REARM_FACTOR) prompted.delete(getArrivalKey(spot))
+    })
+    if (position.accuracy > MAX_ARRIVAL_ACCURACY) return
+
+    const arrived = spots.filter(spot => spot.distance <= spot.radius && !prompted.has(getArrivalKey(spot)))
+    if (arrived.length === 0) return
+    arrived.forEach(spot => prompted.add(getArrivalKey(spot)))
+    setArrivals(arrived)
+  }, [enabled, position])
+
+  const setEnabled = useCallback((next: boolean) => {
+    setEnabledState(next)
+    saveProximityEnabled(next)
+    if (!next) {
+      setGpsPosition(null)
+      setError(null)
+      setArrivals([])
+      promptedRef.current.clear()
+    }
+    lastSampleRef.current = 0
+  }, [])
+
+  const setSimulatedLocation = useCallback((location: GeoPoint | null) => {
+    setSimulatedLocationState(location)
+    saveSimulatedLocation(location)
+    lastSampleRef.current = 0
+  }, [])
+
+  const dismissArrivals = useCallback(() => {
+    setArrivals([])
+  }, [])
+
+  const value: ProximityContextType = {
+    enabled,
+    setEnabled,
+    position,
+    error,
+    samplingMode,
+    nearest,
+    arrivals,
+    dismissArrivals,
+    simulatedLocation,
+    setSimulatedLocation
+  }
+
+  return (
+    <ProximityContext.Provider value={value}>
+      {children}
+    </ProximityContext.Provider>
+  )
+}
@@ -0,0 +1,45 @@
+import { useEffect, useState } from 'react'
+import { CheckinCapture } from '../contexts/CheckinContext'
+import { getCapturePhoto } from '../utils/captureStore'
+
+// 从 IndexedDB 读取现场拍摄的照片，返回照片 id 到 object URL 的映射；照片列表变化或卸载时释放 URL
+export const useCapturePhotos = (captures: CheckinCapture[]) => {
+  const [urls, setUrls] = useState<Record<string, string>>({})
+  const ids = captures.map(capture => capture.id).join(',')
+
+  useEffect(() => {
+    if (!ids) {
+      setUrls({})
+      return
+    }
+
+    let cancelled = false
+    const created: string[] = []
+    Promise.all(ids.split(',').map(async id => {
+      try {
+        const blob = await getCapturePhoto(id)
+        return blob ? [id, blob] as const : null
+      } catch (error) {
+        console.warn('读取打卡照片失败:', error)
+        return null
+      }
+    })).then(results => {
+      if (cancelled) return
+      const next: Record<string, string> = {}
+      results.forEach(result => {
+        if (!result) return
+        const url = URL.createObjectURL(result[1])
+        created.push(url)
+        next[result[0]] = url
+      })
+      setUrls(next)
+    })
+
+    return () => {
+      cancelled = true
+      created.forEach(url => URL.revokeObjectURL(url))
+    }
+  }, [ids])
+
+  return urls
+}
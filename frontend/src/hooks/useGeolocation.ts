@@ -0,0 +1,111 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { GeoPoint } from '../utils/geo'
+
+export type GeolocationError = 'unsupported' | 'denied' | 'unavailable' | 'timeout'
+
+export interface UserPosition extends GeoPoint {
+  accuracy: number // 米
+}
+
+interface GeolocationState {
+  position: UserPosition | null
+  heading: number | null // 正北为 0，顺时针；设备不支持时为 null
+  error: GeolocationError | null
+  isWatching: boolean
+}
+
+// iOS Safari 的指南针读数与授权接口不在标准类型中
+type CompassOrientationEvent = DeviceOrientationEvent & { webkitCompassHeading?: number }
+type OrientationPermission = { requestPermission?: () => Promise<'granted' | 'denied'> }
+
+const MOVING_SPEED = 0.5 // 米/秒，移动时优先使用 GPS 给出的行进方向
+
+export const toGeolocationError = (error: GeolocationPositionError): GeolocationError => {
+  switch (error.code) {
+    case error.PERMISSION_DENIED: return 'denied'
+    case error.TIMEOUT: return 'timeout'
+    default: return 'unavailable'
+  }
+}
+
+const getScreenAngle = () => (typeof screen !== 'undefined' && screen.orientation?.angle) || 0
+
+// 持续获取用户位置与朝向；需要由用户操作调用 start（iOS 的指南针授权必须在点击事件中申请）
+export const useGeolocation = () => {
+  const [state, setState] = useState<GeolocationState>({
+    position: null,
+    heading: null,
+    error: null,
+    isWatching: false
+  })
+  const watchIdRef = useRef<number | null>(null)
+  const movingRef = useRef(false)
+
+  const handleOrientation = useCallback((event: Event) => {
+    if (movingRef.current) return
+    const { webkitCompassHeading, alpha, absolute } = event as CompassOrientationEvent
+    let heading: number | null = null
+    if (typeof webkitCompassHeading === 'number') {
+      heading = webkitCompassHeading
+    } else if (alpha !== null && (absolute || event.type === 'deviceorientationabsolute')) {
+      heading = (360 - alpha + getScreenAngle()) % 360
+    }
+    if (heading !== null) setState(prev => ({ ...prev, heading }))
+  }, [])
+
+  const stop = useCallback(() => {
+    if (watchIdRef.current !== null) {
+      navigator.geolocation.clearWatch(watchIdRef.current)
+      watchIdRef.current = null
+    }
+    window.removeEventListener('deviceorientationabsolute', handleOrientation)
+    window.removeEventListener('deviceorientation', handleOrientation)
+    movingRef.current = false
+    setState({ position: null, heading: null, error: null, isWatching: false })
+  }, [handleOrientation])
+
+  const start = useCallback(async () => {
+    if (typeof navigator === 'undefined' || !navigator.geolocation) {
+      setState(prev => ({ ...prev, error: 'unsupported' }))
+      return
+    }
+    if (watchIdRef.current !== null) return
+
+    setState(prev => ({ ...prev, error: null, isWatching: true }))
+    watchIdRef.current = navigator.geolocation.watchPosition(
+      ({ coords }) => {
+        movingRef.current = coords.heading !== null && !Number.isNaN(coords.heading) && (coords.speed ?? 0) > MOVING_SPEED
+        setState(prev => ({
+          ...prev,
+          position: { lat: coords.latitude, lng: coords.longitude, accuracy: coords.accuracy },
+          heading: movingRef.current ? coords.heading : prev.heading,
+          error: null
+        }))
+      },
+      error => {
+        console.warn('获取位置失败:', error)
+        setState(prev => ({ ...prev, error: toGeolocationError(error) }))
+      },
+      { enableHighAccuracy: true, maximumAge: 5000, timeout: 20000 }
+    )
+
+    // 朝向读数获取失败不影响定位，只是不显示朝向
+    if (typeof DeviceOrientationEvent === 'undefined') return
+    try {
+      const permission = (DeviceOrientationEvent as unknown as OrientationPermission).requestPermission
+      if (permission && (await permission()) !== 'granted') return
+    } catch (error) {
+      console.warn('获取指南针权限失败:', error)
+      return
+    }
+    if (watchIdRef.current === null) return // 等待授权期间已停止定位
+    // Android Chrome 的 deviceorientation 读数相对于初始朝向，优先使用以正北为基准的 absolute 事件
+    const eventName = 'ondeviceorientationabsolute' in window ? 'deviceorientationabsolute' : 'deviceorientation'
+    window.addEventListener(eventName, handleOrientation)
+  }, [handleOrientation])
+
+  // 离开页面时停止定位，避免持续耗电
+  useEffect(() => stop, [stop])
+
+  return { ...state, start, stop }
+}
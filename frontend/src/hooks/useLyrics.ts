@@ -0,0 +1,41 @@
+import { useEffect, useMemo, useState } from 'react'
+import { Track } from '../contexts/MusicContext'
+import { LyricLine, findLyricIndex, loadLyrics } from '../utils/lyrics'
+
+type LyricsStatus = 'none' | 'loading' | 'ready' | 'error'
+
+// 加载当前歌曲的歌词，并返回播放时间对应的行
+export const useLyrics = (track: Track | null, currentTime: number) => {
+  const [lines, setLines] = useState<LyricLine[]>([])
+  const [status, setStatus] = useState<LyricsStatus>('none')
+  const url = track?.lyrics
+
+  useEffect(() => {
+    setLines([])
+    if (!url) {
+      setStatus('none')
+      return
+    }
+
+    let cancelled = false
+    setStatus('loading')
+    loadLyrics(url)
+      .then(result => {
+        if (cancelled) return
+        setLines(result)
+        setStatus(result.length > 0 ? 'ready' : 'none')
+      })
+      .catch(error => {
+        if (cancelled) return
+        console.warn('加载歌词失败:', error)
+        setStatus('error')
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [url])
+
+  const activeIndex = useMemo(() => findLyricIndex(lines, currentTime), [lines, currentTime])
+
+  return { lines, status, activeIndex }
+}
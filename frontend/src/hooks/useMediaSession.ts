@@ -0,0 +1,113 @@
+import { useEffect, useRef } from 'react'
+import { Track } from '../contexts/MusicContext'
+
+interface MediaSessionOptions {
+  track: Track | null
+  isPlaying: boolean
+  currentTime: number
+  duration: number
+  play: () => void
+  pause: () => void
+  next: () => void
+  prev: () => void
+  seek: (time: number) => void
+}
+
+const SEEK_OFFSET = 10 // 秒，耳机或键盘快进/快退的默认步长
+
+const isSupported = () => typeof navigator !== 'undefined' && 'mediaSession' in navigator
+
+// 封面路径是相对路径，系统播放控件需要完整的 URL
+const toArtwork = (cover?: string): MediaImage[] => {
+  if (!cover) return []
+  const src = new URL(cover, document.baseURI).href
+  const type = cover.endsWith('.webp') ? 'image/webp' : cover.endsWith('.png') ? 'image/png' : 'image/jpeg'
+  return [{ src, sizes: '512x512', type }]
+}
+
+// 把播放器注册到系统媒体会话：锁屏、蓝牙耳机与键盘媒体键可以控制播放，并显示歌曲信息和封面
+export const useMediaSession = ({
+  track,
+  isPlaying,
+  currentTime,
+  duration,
+  play,
+  pause,
+  next,
+  prev,
+  seek
+}: MediaSessionOptions) => {
+  // 操作回调只注册一次，通过 ref 调用最新的控制函数
+  const controlsRef = useRef({ play, pause, next, prev, seek, currentTime, duration })
+  controlsRef.current = { play, pause, next, prev, seek, currentTime, duration }
+
+  useEffect(() => {
+    if (!isSupported()) return
+    navigator.mediaSession.metadata = track
+      ? new MediaMetadata({
+          title: track.name,
+          artist: track.artist,
+          album: track.album ?? '',
+          artwork: toArtwork(track.cover)
+        })
+      : null
+  }, [track])
+
+  useEffect(() => {
+    if (!isSupported()) return
+    navigator.mediaSession.playbackState = track ? (isPlaying ? 'playing' : 'paused') : 'none'
+  }, [track, isPlaying])
+
+  useEffect(() => {
+    if (!isSupported()) return
+    const seekBy = (offset: number) => {
+      const { seek, currentTime, duration } = controlsRef.current
+      seek(Math.min(Math.max(currentTime + offset, 0), duration || Infinity))
+    }
+    const handlers: Array<[MediaSessionAction, MediaSessionActionHandler]> = [
+      ['play', () => controlsRef.current.play()],
+      ['pause', () => controlsRef.current.pause()],
+      ['stop', () => controlsRef.current.pause()],
+      ['nexttrack', () => controlsRef.current.next()],
+      ['previoustrack', () => controlsRef.current.prev()],
+      ['seekto', details => {
+        if (details.seekTime !== undefined) controlsRef.current.seek(details.seekTime)
+      }],
+      ['seekbackward', details => seekBy(-(details.seekOffset ?? SEEK_OFFSET))],
+      ['seekforward', details => seekBy(details.seekOffset ?? SEEK_OFFSET)]
+    ]
+
+    // 旧版浏览器不支持部分操作，注册时会抛出异常
+    handlers.forEach(([action, handler]) => {
+      try {
+        navigator.mediaSession.setActionHandler(action, handler)
+      } catch (error) {
+        console.warn('注册媒体控制失败:', action, error)
+      }
+    })
+    return () => {
+      handlers.forEach(([action]) => {
+        try {
+          navigator.mediaSession.setActionHandler(action, null)
+        } catch {
+          // 注册时已经失败的操作无需清理
+        }
+      })
+    }
+  }, [])
+
+  // 同步进度，锁屏界面的进度条据此显示与拖动
+  useEffect(() => {
+    if (!isSupported() || !navigator.mediaSession.setPositionState) return
+    if (!track || !Number.isFinite(duration) || duration <= 0) return
+    try {
+      navigator.mediaSession.setPositionState({
+        duration,
+        playbackRate: 1,
+        position: Math.min(Math.max(currentTime, 0), duration)
+      })
+    } catch (error) {
+      console.warn('更新媒体进度失败:', error)
+    }
+  }, [track, currentTime, duration])
+}
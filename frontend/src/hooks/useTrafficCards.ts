@@ -0,0 +1,50 @@
+import { useCallback, useEffect, useState } from 'react'
+import {
+  TrafficCard,
+  TrafficCardSource,
+  fetchTrafficCards,
+  readCachedTrafficCards
+} from '../utils/trafficCards'
+
+interface TrafficCardsState {
+  cards: TrafficCard[]
+  source: TrafficCardSource | null
+  fetchedAt: string | null
+  isLoading: boolean
+  error: boolean // 最近一次请求失败
+}
+
+// 先用缓存渲染，再向后端请求最新数据；source 不是 api 时说明数据可能已过时
+export const useTrafficCards = () => {
+  const [state, setState] = useState<TrafficCardsState>(() => {
+    const cached = readCachedTrafficCards()
+    return {
+      cards: cached?.cards ?? [],
+      source: cached?.source ?? null,
+      fetchedAt: cached?.fetchedAt ?? null,
+      isLoading: true,
+      error: false
+    }
+  })
+
+  const refresh = useCallback(async () => {
+    setState(prev => ({ ...prev, isLoading: true, error: false }))
+    try {
+      const result = await fetchTrafficCards()
+      setState({ ...result, isLoading: false, error: false })
+    } catch (error) {
+      console.error('加载交通卡片失败:', error)
+      setState(prev => ({ ...prev, isLoading: false, error: true }))
+    }
+  }, [])
+
+  useEffect(() => {
+    refresh()
+  }, [refresh])
+
+  return {
+    ...state,
+    isStale: state.source !== null && state.source !== 'api',
+    refresh
+  }
+}
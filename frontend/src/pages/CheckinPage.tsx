@@ -1,7 +1,14 @@
-import React, { useState } from 'react'
+import React, { useMemo, useState } from 'react'
 import { useNavigate } from 'react-router-dom'
 import styled from 'styled-components'
 import { motion, AnimatePresence } from 'framer-motion'
+import { IslandDefinition, islandDefinitions, getIslandDefinition, localizeIsland } from '../utils/islandData'
+import { useCheckin } from '../contexts/CheckinContext'
+import { useLocale } from '../contexts/LocaleContext'
+import FerryScheduleViewer from '../components/FerryScheduleViewer'
+import OfflineManager from '../components/OfflineManager'
+import ProximityToggle from '../components/ProximityToggle'
+import CheckinAccountPanel from '../components/CheckinAccountPanel'
 
 const Container = styled.div`
   min-height: 100vh;
@@ -227,6 +234,48 @@ const ComingSoonBadge = styled.div`
   display: inline-block;
 `
 
+// 打卡进度条
+const ProgressTrack = styled.div`
+  width: 100%;
+  height: 8px;
+  background: rgba(0, 0, 0, 0.08);
+  border-radius: 4px;
+  overflow: hidden;
+  margin-bottom: 6px;
+`
+
+const ProgressFill = styled.div<{ percent: number }>`
+  width: ${props => props.percent}%;
+  height: 100%;
+  background: linear-gradient(90deg, #4caf50, #81c784);
+  border-radius: 4px;
+  transition: width 0.6s ease;
+`
+
+const ProgressLabel = styled.div`
+  font-size: 13px;
+  color: #5d4037;
+  margin-bottom: 15px;
+`
+
+const OverallProgress = styled(motion.div)`
+  width: 95%;
+  max-width: 500px;
+  margin: 0 auto 25px auto;
+  padding: 15px 25px;
+  background: rgba(255, 255, 255, 0.9);
+  border-radius: 20px;
+  box-shadow: 0 8px 25px rgba(0, 0, 0, 0.1);
+  text-align: center;
+`
+
+const OverallProgressTitle = styled.div`
+  font-size: 18px;
+  font-weight: 700;
+  color: #5d4037;
+  margin-bottom: 10px;
+`
+
 const MapFrame = styled.div`
   width: 95%;
   max-width: 1200px;
@@ -375,6 +424,7 @@ const ButtonContainer = styled.div`
   justify-content: center;
   align-items: center;
   margin-top: 20px;
+  flex-wrap: wrap;
 `
 
 const BackButton = styled(motion.button)`
@@ -498,38 +548,28 @@ interface Island {
   id: string
 }
 
-const islands: Island[] = [
-  {
-    id: 'megijima',
-    name: '女木岛',
-    icon: '👹',
-    description: '以鬼岛传说而闻名的小岛，欧线的重要巡礼点',
-    position: { x: 76, y: 70 }
-  },
-  {
-    id: 'ogijima',
-    name: '男木岛',
-    icon: "images/webps/男木岛/男木岛-灯塔图标.webp",
-    iconType: 'image',
-    iconSize: 80, // 设置灯塔图标大小为80px
-    description: '宁静的渔村小岛，与主角团相遇的主要地点。',
-    position: { x: 75, y: 45 }
-  },
-  {
-    id: 'naoshima',
-    name: '直岛',
-    icon: '🎨',
-    description: '现代艺术的圣地，汇集了众多知名艺术家的作品和美术馆。',
-    position: { x: 12, y: 20 }
-  }
-]
+// 岛屿卡片与总览地图上的图标均来自统一的岛屿数据
+const toIsland = (island: IslandDefinition): Island => ({
+  id: island.id,
+  name: island.name,
+  icon: (island.overview.iconType === 'image' ? island.overview.icon : island.overview.emoji) ?? '',
+  iconType: island.overview.iconType,
+  iconSize: island.overview.iconSize,
+  description: island.overview.description,
+  position: island.overview.position
+})
 
 const CheckinPage: React.FC = () => {
   const navigate = useNavigate()
+  const { locale, t } = useLocale()
+  const { getIslandProgress, getOverallProgress } = useCheckin()
+  const islands = useMemo(() => islandDefinitions.map(island => toIsland(localizeIsland(island, locale))), [locale])
+  const overallProgress = getOverallProgress()
   const [selectedIsland, setSelectedIsland] = useState<string | null>(null)
   const [isModalOpen, setIsModalOpen] = useState(false)
   const [isQRModalOpen, setIsQRModalOpen] = useState(false)
   const [isScheduleModalOpen, setIsScheduleModalOpen] = useState(false)
+  const [isOfflineModalOpen, setIsOfflineModalOpen] = useState(false)
   // tooltip悬停状态
   const [hoveredIcon, setHoveredIcon] = useState<null | {
     x: number;
@@ -584,8 +624,8 @@ const CheckinPage: React.FC = () => {
           animate={{ opacity: 1, y: 0 }}
           transition={{ duration: 0.8 }}
         >
-          <Title>打卡篇</Title>
-          <Subtitle>唯有那片炫目，始终无法忘却</Subtitle>
+          <Title>{t('chapters.checkin')}</Title>
+          <Subtitle>{t('checkin.subtitle')}</Subtitle>
         </motion.div>
       </HeaderSection>
 
@@ -596,42 +636,78 @@ const CheckinPage: React.FC = () => {
       >
         <NoticeText>
           <strong style={{ fontSize: '18px', color: '#ff6b35', display: 'block', marginBottom: '8px' }}>
-            小建议
+            {t('checkin.tipsTitle')}
           </strong>
-          正式打卡前，建议先把打卡点的游戏CG照片洗出来，到地点后一一比对拍照即可。
+          {t('checkin.tips.print')}
+          <span style={{ display: 'block', marginTop: '8px' }}>
+            {t('checkin.tips.focus')}
+          </span>
           <span style={{ display: 'block', marginTop: '8px' }}>
-            避免手机频繁切换页面影响体验，让手机专注于拍照。
+            {t('checkin.tips.download')}
           </span>
           <span style={{ display: 'block', marginTop: '8px' }}>
-            各岛屿页面可右键下载需要的游戏CG。
+            {t('checkin.tips.compare')}
           </span>
         </NoticeText>
       </NoticeBox>
 
+      <OverallProgress
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.6, delay: 0.35 }}
+      >
+        <OverallProgressTitle>
+          {t('checkin.overallProgress', { percent: overallProgress.percent })}
+        </OverallProgressTitle>
+        <ProgressTrack>
+          <ProgressFill percent={overallProgress.percent} />
+        </ProgressTrack>
+        <ProgressLabel style={{ marginBottom: 0 }}>
+          {t('checkin.overallVisited', { visited: overallProgress.visited, total: overallProgress.total })}
+        </ProgressLabel>
+        <CheckinAccountPanel />
+      </OverallProgress>
+
+      <ProximityToggle />
+
       <IslandsContainer>
-        {islands.map((island, index) => (
-          <IslandCard
-            key={island.name}
-            selected={selectedIsland === island.id}
-            initial={{ opacity: 0, y: 50 }}
-            animate={{ opacity: 1, y: 0 }}
-            transition={{ duration: 0.6, delay: index * 0.15 }}
-            whileHover={{ scale: 1.05, y: -5 }}
-            whileTap={{ scale: 0.95 }}
-            onClick={() => handleIslandClick(island)}
-          >
-            <IslandIcon iconSize={island.iconSize}>
-              {island.iconType === 'image' ? (
-                <img src={island.icon} alt={island.name} />
-              ) : (
-                island.icon
+        {islands.map((island, index) => {
+          const definition = getIslandDefinition(island.id)
+          const progress = definition ? getIslandProgress(definition) : null
+          return (
+            <IslandCard
+              key={island.name}
+              selected={selectedIsland === island.id}
+              initial={{ opacity: 0, y: 50 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ duration: 0.6, delay: index * 0.15 }}
+              whileHover={{ scale: 1.05, y: -5 }}
+              whileTap={{ scale: 0.95 }}
+              onClick={() => handleIslandClick(island)}
+            >
+              <IslandIcon iconSize={island.iconSize}>
+                {island.iconType === 'image' ? (
+                  <img src={island.icon} alt={island.name} />
+                ) : (
+                  island.icon
+                )}
+              </IslandIcon>
+              <IslandName>{island.name}</IslandName>
+              <IslandDescription>{island.description}</IslandDescription>
+              {progress && (
+                <>
+                  <ProgressTrack>
+                    <ProgressFill percent={progress.percent} />
+                  </ProgressTrack>
+                  <ProgressLabel>
+                    {t('checkin.islandVisited', { visited: progress.visited, total: progress.total, percent: progress.percent })}
+                  </ProgressLabel>
+                </>
               )}
-            </IslandIcon>
-            <IslandName>{island.name}</IslandName>
-            <IslandDescription>{island.description}</IslandDescription>
-            <ComingSoonBadge>点击前往</ComingSoonBadge>
-          </IslandCard>
-        ))}
+              <ComingSoonBadge>{t('checkin.goToIsland')}</ComingSoonBadge>
+            </IslandCard>
+          )
+        })}
       </IslandsContainer>
 
       <QRCodeSection
@@ -644,7 +720,7 @@ const CheckinPage: React.FC = () => {
           whileHover={{ scale: 1.05 }}
           whileTap={{ scale: 0.95 }}
         >
-          📱 打卡地点合集
+          📱 {t('checkin.collection')}
         </QRCodeButton>
       </QRCodeSection>
 
@@ -655,7 +731,7 @@ const CheckinPage: React.FC = () => {
       >
         <MapFrame>
           <MapContainer>
-            <MapImage src="images/webps/打卡篇地图-航线版.webp" alt="瀬戸内海地图" />
+            <MapImage src="/images/webps/打卡篇地图-航线版.webp" alt={t('checkin.mapAlt')} />
             <MapOverlay>
               {/* 高松港起点 */}
               <LocationIcon
@@ -670,15 +746,15 @@ const CheckinPage: React.FC = () => {
                   setHoveredIcon({
                     x: 76,
                     y: 90,
-                    title: '高松港',
-                    desc: '前往各岛屿的起点港口，点击查看时刻表',
+                    title: t('checkin.takamatsu'),
+                    desc: t('checkin.takamatsuDesc'),
                   });
                 }}
                 onMouseLeave={() => setHoveredIcon(null)}
               >
                 🚢
                                   {/* Tooltip渲染 */}
-                  {hoveredIcon && hoveredIcon.title === '高松港' && (
+                  {hoveredIcon && hoveredIcon.title === t('checkin.takamatsu') && (
                     <MapTooltip>
                       <TooltipTitle>{hoveredIcon.title}</TooltipTitle>
                       <TooltipDesc>{hoveredIcon.desc}</TooltipDesc>
@@ -695,20 +771,20 @@ const CheckinPage: React.FC = () => {
                 transition={{ delay: 1.5, duration: 0.5 }}
                 whileHover={{ scale: 1.2 }}
                 onClick={handleTorishimaClick}
-                title="鸟白岛"
+                title={t('checkin.torishima')}
                 onMouseEnter={() => {
                   setHoveredIcon({
                     x: 91,
                     y: 60,
-                    title: '鸟白岛',
-                    desc: '只能在航行过程中拍摄的神秘岛屿',
+                    title: t('checkin.torishima'),
+                    desc: t('checkin.torishimaDesc'),
                   });
                 }}
                 onMouseLeave={() => setHoveredIcon(null)}
               >
                 ❗❗❗
                                   {/* Tooltip渲染 */}
-                  {hoveredIcon && hoveredIcon.title === '鸟白岛' && (
+                  {hoveredIcon && hoveredIcon.title === t('checkin.torishima') && (
                     <TorishimaTooltip>
                       <TooltipTitle>{hoveredIcon.title}</TooltipTitle>
                     </TorishimaTooltip>
@@ -764,7 +840,7 @@ const CheckinPage: React.FC = () => {
           animate={{ opacity: 1, x: 0 }}
           transition={{ delay: 1 }}
         >
-          返回目录
+          {t('common.backToContents')}
         </BackButton>
         
         <OtherPilgrimageButton
@@ -775,7 +851,29 @@ const CheckinPage: React.FC = () => {
           animate={{ opacity: 1, x: 0 }}
           transition={{ delay: 1.2 }}
         >
-          其他巡礼
+          {t('checkin.otherPilgrimage')}
+        </OtherPilgrimageButton>
+
+        <OtherPilgrimageButton
+          onClick={() => navigate('/itinerary')}
+          whileHover={{ scale: 1.05 }}
+          whileTap={{ scale: 0.95 }}
+          initial={{ opacity: 0, x: 30 }}
+          animate={{ opacity: 1, x: 0 }}
+          transition={{ delay: 1.4 }}
+        >
+          {t('checkin.itinerary')}
+        </OtherPilgrimageButton>
+
+        <OtherPilgrimageButton
+          onClick={() => setIsOfflineModalOpen(true)}
+          whileHover={{ scale: 1.05 }}
+          whileTap={{ scale: 0.95 }}
+          initial={{ opacity: 0, x: 30 }}
+          animate={{ opacity: 1, x: 0 }}
+          transition={{ delay: 1.6 }}
+        >
+          {t('offline.title')}
         </OtherPilgrimageButton>
       </ButtonContainer>
 
@@ -796,13 +894,13 @@ const CheckinPage: React.FC = () => {
               onClick={(e) => e.stopPropagation()}
             >
               <ModalImage 
-                src="images/webps/鸟白岛总览.webp" 
-                alt="鸟白岛总览"
+                src="/images/webps/鸟白岛总览.webp" 
+                alt={t('checkin.torishimaOverview')}
                 onError={(e) => {
                   console.error('图片加载失败:', e)
                 }}
               />
-              <ModalText>只能在航行过程中拍摄</ModalText>
+              <ModalText>{t('checkin.torishimaModal')}</ModalText>
             </ModalContent>
           </ModalOverlay>
         )}
@@ -825,36 +923,36 @@ const CheckinPage: React.FC = () => {
               onClick={(e) => e.stopPropagation()}
             >
               <QRCodeImage 
-                src="images/webps/打卡地点合集.webp" 
-                alt="打卡地点合集二维码"
+                src="/images/webps/打卡地点合集.webp" 
+                alt={t('checkin.collectionQrAlt')}
                 onError={(e) => {
                   console.error('二维码图片加载失败:', e)
                 }}
               />
-              <QRCodeTitle>打卡地点合集</QRCodeTitle>
+              <QRCodeTitle>{t('checkin.collection')}</QRCodeTitle>
               <QRCodeDescription>
-                扫描二维码获取完整的打卡地点图片合集
+                {t('checkin.collectionDesc')}
               </QRCodeDescription>
               <QRCodeLink 
                 href="https://pan.baidu.com/s/1BdmKigMJMb4y1q6RNLO2oA?pwd=sprb" 
                 target="_blank" 
                 rel="noopener noreferrer"
               >
-                📥 直接下载打卡地点合集
+                📥 {t('checkin.collectionDownload')}
               </QRCodeLink>
             </QRCodeContent>
           </QRCodeModal>
         )}
       </AnimatePresence>
 
-      {/* 时刻表模态框 */}
+      {/* 离线下载模态框 */}
       <AnimatePresence>
-        {isScheduleModalOpen && (
+        {isOfflineModalOpen && (
           <ModalOverlay
             initial={{ opacity: 0 }}
             animate={{ opacity: 1 }}
             exit={{ opacity: 0 }}
-            onClick={closeScheduleModal}
+            onClick={() => setIsOfflineModalOpen(false)}
           >
             <ModalContent
               initial={{ scale: 0.8, opacity: 0 }}
@@ -863,19 +961,21 @@ const CheckinPage: React.FC = () => {
               transition={{ duration: 0.3 }}
               onClick={(e) => e.stopPropagation()}
             >
-              <CloseButton onClick={closeScheduleModal}>×</CloseButton>
-              <ModalImage 
-                src="images/webps/高松发船时刻表.webp" 
-                alt="高松发船时刻表"
-                onError={(e) => {
-                  console.error('时刻表图片加载失败:', e)
-                }}
-              />
-              <ModalText>高松港发船时刻表</ModalText>
+              <CloseButton onClick={() => setIsOfflineModalOpen(false)}>×</CloseButton>
+              <OfflineManager />
             </ModalContent>
           </ModalOverlay>
         )}
       </AnimatePresence>
+
+      {/* 时刻表模态框 */}
+      <FerryScheduleViewer
+        isOpen={isScheduleModalOpen}
+        onClose={closeScheduleModal}
+        title={t('checkin.scheduleTitle')}
+        defaultFrom="takamatsu"
+        originalImage="/images/webps/高松发船时刻表.webp"
+      />
     </Container>
   )
 }
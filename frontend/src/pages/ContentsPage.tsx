@@ -4,6 +4,7 @@ import styled from 'styled-components'
 import { motion, AnimatePresence } from 'framer-motion'
 import ButterflyAnimation from '../components/ButterflyAnimation'
 import StarryBackground from '../components/StarryBackground'
+import { useLocale } from '../contexts/LocaleContext'
 
 
 const Container = styled.div`
@@ -340,26 +341,27 @@ type ChapterType = 'traffic' | 'checkin' | 'other' | null
 
 interface SummaryData {
   image: string
-  text: string
+  textKey: string
 }
 
 const summaryData: Record<Exclude<ChapterType, null>, SummaryData> = {
   traffic: {
     image: '/images/webps/交通篇摘要图.webp',
-    text: '🚌 国内各地到高松的完整交通攻略'
+    textKey: 'contents.summary.traffic'
   },
   checkin: {
     image: '/images/webps/打卡篇摘要图.webp',
-    text: '📍 女木岛、男木岛、直岛圣地巡礼'
+    textKey: 'contents.summary.checkin'
   },
   other: {
     image: '/images/webps/神域摘要图.webp',
-    text: '记得来神域寄存和领取自己的七影碟哦！🦋'
+    textKey: 'contents.summary.other'
   }
 }
 
 const ContentsPage: React.FC = () => {
   const navigate = useNavigate()
+  const { t } = useLocale()
   const [activeChapter, setActiveChapter] = useState<ChapterType>(null)
   const [hoveredChapter, setHoveredChapter] = useState<ChapterType>(null)
 
@@ -385,8 +387,8 @@ const ContentsPage: React.FC = () => {
         transition={{ duration: 1, ease: "easeOut" }}
       >
         <LeftPage>
-          <DiaryTitle>目录</DiaryTitle>
-          <DiarySubtitle>Summer Pockets 圣地巡礼日记</DiarySubtitle>
+          <DiaryTitle>{t('contents.title')}</DiaryTitle>
+          <DiarySubtitle>{t('contents.subtitle')}</DiarySubtitle>
           
           <ChapterList>
             <ChapterItem
@@ -407,7 +409,7 @@ const ContentsPage: React.FC = () => {
               <StarryBackground isVisible={activeChapter === 'traffic'} />
               <ChapterIcon>🚌</ChapterIcon>
               <ChapterTitle isActive={activeChapter === 'traffic'}>
-                交通篇
+                {t('chapters.traffic')}
                 {/* 🦋 蝴蝶图片尺寸调整：修改size参数来调整蝴蝶图片大小（当前为40px） */}
                 <ButterflyAnimation isHovered={hoveredChapter === 'traffic'} size={40} />
               </ChapterTitle>
@@ -431,7 +433,7 @@ const ContentsPage: React.FC = () => {
               <StarryBackground isVisible={activeChapter === 'checkin'} />
               <ChapterIcon>📍</ChapterIcon>
               <ChapterTitle isActive={activeChapter === 'checkin'}>
-                打卡篇
+                {t('chapters.checkin')}
                 {/* 🦋 蝴蝶图片尺寸调整：修改size参数来调整蝴蝶图片大小（当前为40px） */}
                 <ButterflyAnimation isHovered={hoveredChapter === 'checkin'} size={40} />
               </ChapterTitle>
@@ -455,7 +457,7 @@ const ContentsPage: React.FC = () => {
               <StarryBackground isVisible={activeChapter === 'other'} />
               <ChapterIcon>🦋</ChapterIcon>
               <ChapterTitle isActive={activeChapter === 'other'}>
-                神域
+                {t('chapters.divineRealm')}
                 {/* 🦋 蝴蝶图片尺寸调整：修改size参数来调整蝴蝶图片大小（当前为40px） */}
                 <ButterflyAnimation isHovered={hoveredChapter === 'other'} size={40} />
               </ChapterTitle>
@@ -470,7 +472,7 @@ const ContentsPage: React.FC = () => {
             animate={{ opacity: 1, y: 0 }}
             transition={{ duration: 0.5, delay: 0.8 }}
           >
-            🏠 返回首页
+            🏠 {t('common.backHome')}
           </BackButton>
         </LeftPage>
 
@@ -491,13 +493,13 @@ const ContentsPage: React.FC = () => {
                 >
                   <SummaryImage 
                     src={summaryData[activeChapter].image}
-                    alt={`${activeChapter} 摘要图`}
+                    alt={t('contents.summaryAlt', { chapter: activeChapter })}
                     onError={(e) => {
                       (e.target as HTMLImageElement).style.display = 'none'
                     }}
                   />
                   <SummaryText>
-                    {summaryData[activeChapter].text}
+                    {t(summaryData[activeChapter].textKey)}
                   </SummaryText>
                 </SummaryCard>
               </SummaryArea>
@@ -513,10 +515,10 @@ const ContentsPage: React.FC = () => {
                   animate={{ opacity: 1, y: 0 }}
                   transition={{ duration: 0.6 }}
                 >
-                  悬停章节标题查看摘要信息
+                  {t('contents.hint')}
                   <br />
                   <span style={{ color: '#FF6B35', fontWeight: 'bold' }}>
-                    让我们一起重回那个夏天吧！
+                    {t('contents.slogan')}
                   </span>
                 </HintText>
               </SummaryArea>
@@ -2,6 +2,7 @@ import React from 'react'
 import { useNavigate } from 'react-router-dom'
 import styled from 'styled-components'
 import { motion } from 'framer-motion'
+import { useLocale } from '../contexts/LocaleContext'
 
 const Container = styled.div`
   min-height: 100vh;
@@ -86,6 +87,7 @@ const ComingSoonBadge = styled.div`
 `
 
 const DivineRealmPage: React.FC = () => {
+  const { t } = useLocale()
   const navigate = useNavigate()
 
   // 返回按钮处理
@@ -95,17 +97,17 @@ const DivineRealmPage: React.FC = () => {
 
   return (
     <Container>
-      <Title>神域</Title>
+      <Title>{t('chapters.divineRealm')}</Title>
 
       <PlaceholderContent>
         <PlaceholderText>
-          🌙 神域功能正在开发中...
+          🌙 {t('divineRealm.comingSoon')}
         </PlaceholderText>
         <PlaceholderText>
-          这里将是一个神秘的夜晚世界，充满了七影蝶的魔法与奇迹。
+          {t('divineRealm.description')}
         </PlaceholderText>
         <PlaceholderText>
-          敬请期待即将到来的神域体验！
+          {t('divineRealm.stayTuned')}
         </PlaceholderText>
         <ComingSoonBadge>
           ✨ Coming Soon ✨
@@ -117,7 +119,7 @@ const DivineRealmPage: React.FC = () => {
         whileHover={{ scale: 1.05 }}
         whileTap={{ scale: 0.95 }}
       >
-        🏠 返回目录
+        🏠 {t('common.backToContents')}
       </BackButton>
     </Container>
   )
@@ -2,6 +2,7 @@ import React, { useState, useEffect } from 'react'
 import { useNavigate } from 'react-router-dom'
 import styled, { keyframes } from 'styled-components'
 import { motion, AnimatePresence } from 'framer-motion'
+import { useLocale } from '../contexts/LocaleContext'
 
 const sparkle = keyframes`
   0%, 100% { opacity: 0.3; }
@@ -280,6 +281,7 @@ const FadeOverlay = styled(motion.div)`
 
 
 const HomePage: React.FC = () => {
+  const { t } = useLocale()
   const navigate = useNavigate()
   const [isOpening, setIsOpening] = useState(false)
   const [isLockHovered, setIsLockHovered] = useState(false) // 🔧 添加悬停状态管理
@@ -355,11 +357,11 @@ const HomePage: React.FC = () => {
             onAnimationComplete={handleAnimationComplete}
           >
             <DiaryFront>
-              <Title>Summer Pockets巡礼日记</Title>
+              <Title>{t('home.title')}</Title>
               <CoverImageContainer>
                 <CoverImage 
-                  src="images/webps/sprb封面图.webp" 
-                  alt="Summer Pockets 封面"
+                  src="/images/webps/sprb封面图.webp" 
+                  alt={t('home.coverAlt')}
                   onClick={() => setIsModalOpen(true)} // 新增：点击弹出大图
                 />
               </CoverImageContainer>
@@ -387,7 +389,7 @@ const HomePage: React.FC = () => {
             {/* 🔧 根据悬停状态切换图片 */}
             <LockImage
               src={isLockHovered ? "/images/webps/七影蝶-3.webp" : "/images/webps/七影蝶-4.webp"}
-              alt="蝴蝶锁图标"
+              alt={t('home.lockAlt')}
             />
           </Lock>
         </DiaryBook>
@@ -402,10 +404,10 @@ const HomePage: React.FC = () => {
             exit={{ opacity: 0 }}
             onClick={() => setIsModalOpen(false)}
           >
-            <CloseButton onClick={e => { e.stopPropagation(); setIsModalOpen(false); }} title="关闭">×</CloseButton>
+            <CloseButton onClick={e => { e.stopPropagation(); setIsModalOpen(false); }} title={t('common.close')}>×</CloseButton>
             <ModalImage 
-              src="images/webps/sprb封面图.webp" 
-              alt="Summer Pockets 封面大图"
+              src="/images/webps/sprb封面图.webp" 
+              alt={t('home.coverLargeAlt')}
               onClick={e => e.stopPropagation()} // 阻止冒泡，点击图片不关闭
             />
           </ModalOverlay>
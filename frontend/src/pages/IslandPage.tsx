@@ -0,0 +1,1122 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react'
+import { useLocation, useNavigate, useParams, useSearchParams } from 'react-router-dom'
+import styled from 'styled-components'
+import { motion, AnimatePresence } from 'framer-motion'
+import ImageSlider from '../components/ImageSlider'
+import GalleryViewer from '../components/GalleryViewer'
+import MapDetailViewer from '../components/MapDetailViewer'
+import FerryScheduleViewer from '../components/FerryScheduleViewer'
+import UserLocationMarker from '../components/UserLocationMarker'
+import LocationPanel, { LocationTarget } from '../components/LocationPanel'
+import { useCheckin, getCheckinKey } from '../contexts/CheckinContext'
+import { useLocale } from '../contexts/LocaleContext'
+import { IslandDefinition, IslandIcon, IslandLandmark, IslandParagraph, getSpotLocation, localizeIsland } from '../utils/islandData'
+import { getNextDeparture, getTokyoNow } from '../utils/ferryTimetable'
+import { formatClock } from '../utils/i18n'
+import { focusSearchTarget } from '../utils/search'
+import { createMapProjection } from '../utils/geo'
+import { useGeolocation } from '../hooks/useGeolocation'
+import { IslandPathOptions, IslandTab, getIslandPath, getIslandTab, parseIslandView } from '../utils/islandRoutes'
+
+interface IslandPageProps {
+  island: IslandDefinition
+}
+
+const Container = styled.div`
+  min-height: 100vh;
+  display: flex;
+  flex-direction: column;
+  align-items: center;
+  background: linear-gradient(
+    135deg, 
+    #87CEEB 0%,    /* 天蓝色 */
+    #98E4D6 20%,   /* 薄荷绿 */
+    #F4E285 40%,   /* 浅黄色 */
+    #FFB347 60%,   /* 金橙色 */
+    #FF8C69 80%,   /* 珊瑚色 */
+    #FFA07A 100%   /* 浅橙色 */
+  );
+  position: relative;
+  overflow-y: auto;
+  overflow-x: hidden;
+  padding: 20px;
+  padding-top: 30px;
+  padding-bottom: 40px;
+`
+
+const HeaderSection = styled.div`
+  text-align: center;
+  margin-bottom: 40px;
+`
+
+const Title = styled.h1`
+  font-size: 48px;
+  color: #5d4037;
+  margin-bottom: 10px;
+  font-weight: 700;
+  font-family: 'KaiTi', 'SimKai', serif;
+  text-align: center;
+  display: flex;
+  align-items: center;
+  justify-content: center;
+  gap: 20px;
+`
+
+const Icon = styled.span`
+  font-size: 60px;
+  display: inline-flex;
+  align-items: center;
+  
+  img {
+    width: 60px;
+    height: 60px;
+    object-fit: contain;
+  }
+`
+
+const Subtitle = styled.h2`
+  font-size: 24px;
+  color: #ff6b35;
+  margin-bottom: 20px;
+  font-weight: 600;
+  text-align: center;
+`
+
+const ContentContainer = styled.div`
+  max-width: 1200px;
+  width: 100%;
+  margin: 0 auto;
+  display: flex;
+  flex-direction: column;
+  gap: 30px;
+`
+
+const InfoCard = styled(motion.div)`
+  background: rgba(255, 255, 255, 0.95);
+  border-radius: 20px;
+  padding: 40px;
+  box-shadow: 0 10px 30px rgba(0, 0, 0, 0.15);
+  backdrop-filter: blur(20px);
+  border: 3px solid rgba(255, 255, 255, 0.3);
+  position: relative;
+  overflow: hidden;
+  
+  &::before {
+    content: '';
+    position: absolute;
+    top: 0;
+    left: 0;
+    right: 0;
+    bottom: 0;
+    background: linear-gradient(135deg, 
+      rgba(255, 107, 53, 0.05) 0%,
+      rgba(135, 206, 235, 0.05) 50%,
+      rgba(152, 228, 214, 0.05) 100%
+    );
+    z-index: -1;
+    opacity: 0;
+    transition: opacity 0.6s ease;
+  }
+  
+  &:hover::before {
+    opacity: 1;
+  }
+`
+
+const SectionTitle = styled.h3`
+  font-size: 28px;
+  color: #5d4037;
+  margin-bottom: 20px;
+  font-weight: 700;
+  font-family: 'KaiTi', 'SimKai', serif;
+  text-align: center;
+`
+
+const Description = styled.p`
+  font-size: 18px;
+  color: #444;
+  line-height: 1.8;
+  margin-bottom: 20px;
+  text-align: left;
+  text-indent: 2em;
+  position: relative;
+  
+  &::before {
+    content: '';
+    position: absolute;
+    left: 0;
+    top: 0;
+    width: 3px;
+    height: 100%;
+    background: linear-gradient(180deg, #ff6b35, #ffa500);
+    border-radius: 2px;
+    opacity: 0;
+    transition: opacity 0.4s ease;
+  }
+  
+  &:hover::before {
+    opacity: 1;
+  }
+`
+
+const MapFrame = styled.div`
+  width: fit-content;
+  max-width: 95%;
+  padding: 20px;
+  background: rgba(255, 255, 255, 0.1);
+  border: 3px solid rgba(255, 255, 255, 0.3);
+  border-radius: 30px;
+  box-shadow: 0 20px 40px rgba(0, 0, 0, 0.15);
+  backdrop-filter: blur(10px);
+  margin: 30px auto;
+  display: flex;
+  justify-content: center;
+  align-items: center;
+`
+
+const MapContainer = styled.div`
+  width: fit-content;
+  background: #f0f8ff;
+  border-radius: 20px;
+  position: relative;
+  overflow: hidden;
+  box-shadow: 0 10px 25px rgba(0, 0, 0, 0.2);
+  display: flex;
+  align-items: center;
+  justify-content: center;
+`
+
+const MapImage = styled.img<{ scale: number }>`
+  width: ${props => props.scale * 800}px;
+  max-width: 100vw;
+  height: auto;
+  border-radius: 20px;
+  display: block;
+`
+
+const MapOverlay = styled.div`
+  position: absolute;
+  top: 0;
+  left: 0;
+  width: 100%;
+  height: 100%;
+  border-radius: 20px;
+  pointer-events: none;
+`
+
+const LocationIcon = styled(motion.div)<{ x: number; y: number; iconSize: number }>`
+  position: absolute;
+  font-size: ${props => props.iconSize}px;
+  cursor: pointer;
+  left: ${props => props.x}%;
+  top: ${props => props.y}%;
+  transform: translate(-50%, -50%);
+  z-index: 10;
+  pointer-events: auto;
+  filter: drop-shadow(2px 2px 4px rgba(0, 0, 0, 0.5));
+  display: flex;
+  align-items: center;
+  justify-content: center;
+`
+
+// Tooltip 组件 - 智能定位版本
+const MapTooltip = styled.div<{ position: 'top' | 'bottom' | 'left' | 'right' }>`
+  position: absolute;
+  background: #fff;
+  color: #333;
+  border-radius: 14px;
+  box-shadow: 0 4px 24px rgba(0,0,0,0.18);
+  padding: 16px 10px 12px 10px;
+  min-width: 220px;
+  max-width: 320px;
+  z-index: 999;
+  display: flex;
+  flex-direction: column;
+  align-items: center;
+  pointer-events: none;
+  opacity: 0.98;
+  
+  ${props => {
+    switch (props.position) {
+      case 'top':
+        return `
+          left: 50%;
+          top: -10px;
+          transform: translate(-50%, -100%);
+  &::after {
+    content: '';
+    position: absolute;
+            left: 50%;
+            bottom: -14px;
+    transform: translateX(-50%);
+    width: 0;
+    height: 0;
+            border-left: 14px solid transparent;
+            border-right: 14px solid transparent;
+            border-top: 14px solid #fff;
+          }
+        `;
+      case 'bottom':
+        return `
+          left: 50%;
+          bottom: -10px;
+          transform: translate(-50%, 100%);
+          &::after {
+            content: '';
+            position: absolute;
+            left: 50%;
+            top: -14px;
+            transform: translateX(-50%);
+            width: 0;
+            height: 0;
+            border-left: 14px solid transparent;
+            border-right: 14px solid transparent;
+            border-bottom: 14px solid #fff;
+          }
+        `;
+      case 'left':
+        return `
+          right: 10px;
+          top: 50%;
+          transform: translateY(-50%);
+          &::after {
+            content: '';
+            position: absolute;
+            right: -14px;
+            top: 50%;
+            transform: translateY(-50%);
+            width: 0;
+            height: 0;
+            border-top: 14px solid transparent;
+            border-bottom: 14px solid transparent;
+            border-left: 14px solid #fff;
+          }
+        `;
+      case 'right':
+        return `
+          left: 10px;
+          top: 50%;
+          transform: translateY(-50%);
+          &::after {
+            content: '';
+            position: absolute;
+            left: -14px;
+            top: 50%;
+            transform: translateY(-50%);
+            width: 0;
+            height: 0;
+            border-top: 14px solid transparent;
+            border-bottom: 14px solid transparent;
+            border-right: 14px solid #fff;
+          }
+        `;
+      default:
+        return '';
+    }
+  }}
+`;
+
+const TooltipImage = styled.img`
+  width: 100%;
+  height: auto;
+  object-fit: cover;
+  border-radius: 8px;
+  margin-bottom: 10px;
+  box-shadow: 0 2px 8px rgba(0,0,0,0.10);
+`;
+
+const TooltipTitle = styled.div`
+  font-size: 16px;
+  font-weight: 700;
+  color: #5d4037;
+  margin-bottom: 4px;
+  text-align: center;
+`;
+
+const TooltipDesc = styled.div`
+  font-size: 14px;
+  color: #666;
+  text-align: center;
+`;
+
+const TooltipFerry = styled.div`
+  margin-top: 6px;
+  font-size: 13px;
+  font-weight: 600;
+  color: #ff6b35;
+  text-align: center;
+`;
+
+const GalleryLink = styled.button`
+  display: block;
+  margin: 12px auto 0 auto;
+  border: none;
+  border-radius: 20px;
+  padding: 8px 18px;
+  background: linear-gradient(45deg, #87CEEB, #98E4D6);
+  color: #2E8B57;
+  font-size: 14px;
+  font-weight: 600;
+  cursor: pointer;
+`;
+
+
+const ImageGallery = styled.div`
+  display: grid;
+  grid-template-columns: repeat(3, 1fr);
+  gap: 20px;
+  margin-top: 20px;
+  max-height: 280px;
+  overflow-y: auto;
+  overflow-x: hidden;
+  padding-right: 10px;
+  
+  /* 自定义滚动条样式 */
+  &::-webkit-scrollbar {
+    width: 8px;
+  }
+  
+  &::-webkit-scrollbar-track {
+    background: rgba(255, 255, 255, 0.1);
+    border-radius: 4px;
+  }
+  
+  &::-webkit-scrollbar-thumb {
+    background: rgba(255, 255, 255, 0.3);
+    border-radius: 4px;
+    
+    &:hover {
+      background: rgba(255, 255, 255, 0.5);
+    }
+  }
+
+  /* 响应式设计 */
+  @media (max-width: 768px) {
+    grid-template-columns: 1fr;
+    max-height: 600px;
+  }
+  
+  @media (max-width: 1024px) and (min-width: 769px) {
+    grid-template-columns: repeat(2, 1fr);
+    max-height: 400px;
+  }
+`
+
+const ImageCard = styled(motion.div)<{ visited: boolean }>`
+  position: relative;
+  background: rgba(255, 255, 255, 0.9);
+  border-radius: 15px;
+  overflow: hidden;
+  box-shadow: 0 8px 20px rgba(0, 0, 0, 0.1);
+  transition: all 0.3s ease;
+  border: 3px solid ${props => props.visited ? '#4caf50' : 'transparent'};
+  
+  &:hover {
+    transform: translateY(-5px);
+    box-shadow: 0 15px 30px rgba(0, 0, 0, 0.2);
+  }
+`
+
+// 打卡状态切换按钮（CG卡片右上角）
+const CheckinToggle = styled(motion.button)<{ visited: boolean }>`
+  position: absolute;
+  top: 10px;
+  right: 10px;
+  z-index: 5;
+  border: none;
+  border-radius: 20px;
+  padding: 6px 12px;
+  font-size: 14px;
+  font-weight: 600;
+  cursor: pointer;
+  color: ${props => props.visited ? 'white' : '#5d4037'};
+  background: ${props => props.visited
+    ? 'linear-gradient(45deg, #4caf50, #81c784)'
+    : 'rgba(255, 255, 255, 0.85)'};
+  box-shadow: 0 3px 10px rgba(0, 0, 0, 0.2);
+`
+
+// 地图地标上的打卡进度角标
+const MarkerBadge = styled.span<{ complete: boolean }>`
+  position: absolute;
+  top: -6px;
+  right: -10px;
+  min-width: 22px;
+  padding: 2px 6px;
+  border-radius: 11px;
+  font-size: 12px;
+  font-weight: 700;
+  line-height: 18px;
+  text-align: center;
+  color: white;
+  background: ${props => props.complete ? '#4caf50' : 'rgba(93, 64, 55, 0.8)'};
+  border: 2px solid white;
+  pointer-events: none;
+`
+
+const ProgressText = styled.span`
+  font-size: 18px;
+  color: #8d6e63;
+  margin-left: 10px;
+`
+
+const LocationTitle = styled.h4`
+  padding: 15px 15px 5px 15px;
+  font-size: 18px;
+  color: #5d4037;
+  text-align: center;
+  margin: 0;
+  font-weight: 700;
+  font-family: 'KaiTi', 'SimKai', serif;
+`
+
+const ImageCaption = styled.p`
+  padding: 5px 15px 15px 15px;
+  font-size: 14px;
+  color: #666;
+  text-align: center;
+  margin: 0;
+  line-height: 1.4;
+`
+
+const ButtonContainer = styled.div`
+  display: flex;
+  gap: 20px;
+  justify-content: center;
+  align-items: center;
+  margin-top: 40px;
+`
+
+const BackButton = styled(motion.button)`
+  background: linear-gradient(45deg, #87CEEB, #98E4D6);
+  border: none;
+  border-radius: 50px;
+  padding: 15px 25px;
+  font-size: 18px;
+  color: #2E8B57;
+  cursor: pointer;
+  box-shadow: 0 6px 20px rgba(135, 206, 235, 0.4);
+  display: flex;
+  align-items: center;
+  gap: 10px;
+  font-weight: 600;
+  z-index: 100;
+  
+  &:hover {
+    background: linear-gradient(45deg, #98E4D6, #87CEEB);
+    transform: translateY(-3px);
+    box-shadow: 0 8px 25px rgba(135, 206, 235, 0.5);
+  }
+`
+
+const PlayPauseButton = styled(motion.button)`
+  background: linear-gradient(45deg, #87CEEB, #98E4D6);
+  border: none;
+  border-radius: 50px;
+  padding: 12px 20px;
+  font-size: 16px;
+  color: #2E8B57;
+  cursor: pointer;
+  box-shadow: 0 6px 20px rgba(135, 206, 235, 0.4);
+  display: flex;
+  align-items: center;
+  gap: 8px;
+  font-weight: 600;
+  z-index: 100;
+  
+  &:hover {
+    background: linear-gradient(45deg, #98E4D6, #87CEEB);
+    transform: translateY(-2px);
+    box-shadow: 0 8px 25px rgba(135, 206, 235, 0.5);
+  }
+`
+
+// 标签切换组件样式
+const TabContainer = styled.div`
+  display: flex;
+  margin-bottom: 30px;
+  border-radius: 15px;
+  background: rgba(255, 255, 255, 0.2);
+  padding: 5px;
+  backdrop-filter: blur(10px);
+`
+
+const TabButton = styled(motion.button)<{ active: boolean; tabType: 'intro' | 'guide' }>`
+  flex: 1;
+  padding: 15px 20px;
+  border: none;
+  border-radius: 10px;
+  background: ${props => {
+    if (props.active) {
+      return props.tabType === 'intro' 
+        ? 'linear-gradient(135deg, #ff6b35, #ffa500)'
+        : 'linear-gradient(135deg, #87ceeb, #98e4d6)';
+    }
+    return 'transparent';
+  }};
+  color: ${props => {
+    if (props.active) {
+      return props.tabType === 'intro' ? 'white' : '#2e8b57';
+    }
+    return '#8d6e63';
+  }};
+  font-size: 18px;
+  font-weight: 600;
+  font-family: 'KaiTi', 'SimKai', serif;
+  cursor: pointer;
+  transition: all 0.4s cubic-bezier(0.4, 0, 0.2, 1);
+  position: relative;
+  overflow: hidden;
+  box-shadow: ${props => props.active 
+    ? (props.tabType === 'intro' 
+      ? '0 6px 20px rgba(255, 107, 53, 0.3)' 
+      : '0 6px 20px rgba(135, 206, 235, 0.3)')
+    : 'none'};
+  
+  &::before {
+    content: '';
+    position: absolute;
+    top: 0;
+    left: -100%;
+    width: 100%;
+    height: 100%;
+    background: linear-gradient(90deg, 
+      transparent, 
+      rgba(255, 255, 255, 0.3), 
+      transparent
+    );
+    transition: left 0.8s ease;
+    z-index: 1;
+  }
+  
+  &::after {
+    content: '';
+    position: absolute;
+    top: 0;
+    left: 0;
+    right: 0;
+    bottom: 0;
+    background: ${props => 
+      props.tabType === 'intro' 
+        ? 'linear-gradient(135deg, #ff8a50, #ffb347)'
+        : 'linear-gradient(135deg, #98d8eb, #a8e6d2)'};
+    opacity: 0;
+    transition: opacity 0.4s cubic-bezier(0.4, 0, 0.2, 1);
+    border-radius: 10px;
+    z-index: -1;
+  }
+  
+  &:hover {
+    transform: translateY(-2px);
+    box-shadow: ${props => 
+      props.tabType === 'intro' 
+        ? '0 8px 25px rgba(255, 107, 53, 0.4)'
+        : '0 8px 25px rgba(135, 206, 235, 0.4)'};
+    
+    &::before {
+      left: 100%;
+    }
+    
+    &::after {
+      opacity: ${props => props.active ? 0 : 0.6};
+    }
+  }
+  
+  &:active {
+    transform: translateY(0);
+    transition: transform 0.1s ease;
+  }
+`
+
+const ContentSection = styled(motion.div)`
+  width: 100%;
+`
+
+// 渲染标题两侧的岛屿图标
+const renderHeaderIcon = (icon: IslandIcon) => (
+  <Icon>
+    {icon.iconType === 'image' ? <img src={icon.icon} alt={icon.alt} /> : icon.emoji}
+  </Icon>
+)
+
+// 渲染介绍/巡礼说明段落，lines 为段落内的缩进子行
+const renderParagraph = (paragraph: IslandParagraph, index: number) => (
+  <Description key={index}>
+    {paragraph.text}
+    {paragraph.lines?.map((line, lineIndex) => (
+      <div key={lineIndex} style={{ textIndent: `${line.indent ?? 2}em` }}>
+        {line.text}
+      </div>
+    ))}
+  </Description>
+)
+
+// 计算tooltip最佳显示位置
+const getTooltipPosition = (x: number, y: number): 'top' | 'bottom' | 'left' | 'right' => {
+  // 根据地图边缘位置智能选择显示方向
+  if (y < 20) {
+    // 靠近顶部，显示在下方
+    return 'bottom';
+  } else if (y > 80) {
+    // 靠近底部，显示在上方
+    return 'top';
+  } else if (x < 20) {
+    // 靠近左侧，显示在右侧
+    return 'right';
+  } else if (x > 80) {
+    // 靠近右侧，显示在左侧
+    return 'left';
+  } else {
+    // 默认显示在上方
+    return 'top';
+  }
+};
+
+const IslandPage: React.FC<IslandPageProps> = ({ island: sourceIsland }) => {
+  const navigate = useNavigate()
+  const { locale, t } = useLocale()
+  const island = useMemo(() => localizeIsland(sourceIsland, locale), [sourceIsland, locale])
+  const { records, isVisited, toggleVisited, getIslandProgress } = useCheckin()
+  const progress = getIslandProgress(island)
+  
+  // 页签、图片查看器、地图详情与渡轮时刻表都由 URL 决定（见 utils/islandRoutes.ts）
+  const location = useLocation()
+  const [searchParams] = useSearchParams()
+  const splat = useParams()['*'] ?? ''
+  const activeTab = getIslandTab(searchParams)
+  const view = parseIslandView(island, sourceIsland, splat, searchParams)
+
+  // 图片查看器状态
+  const imageViewer = view?.type === 'spot'
+    ? {
+        isOpen: true,
+        images: view.spot.images as Array<{ src: string; label: string }>,
+        currentIndex: view.imageIndex,
+        title: view.spot.title,
+        spotId: view.spot.id as string | null // 打卡CG所属的打卡点，地标图片为 null
+      }
+    : view?.type === 'landmarkGallery'
+      ? {
+          isOpen: true,
+          images: view.landmark.gallery!.images,
+          currentIndex: view.imageIndex,
+          title: view.landmark.gallery!.title,
+          spotId: null
+        }
+      : { isOpen: false, images: [], currentIndex: 0, title: '', spotId: null }
+
+  // tooltip悬停状态
+  const [hoveredIcon, setHoveredIcon] = useState<string | null>(null);
+
+  // 地图详情查看器状态
+  const detailLandmark = view?.type === 'landmark' && !view.landmark.ferryPort ? view.landmark : null
+  const mapDetailViewer = {
+    isOpen: !!detailLandmark?.detail,
+    mapImage: detailLandmark?.detail?.mapImage ?? '',
+    title: detailLandmark?.title ?? '',
+    description: detailLandmark?.detail?.description ?? '',
+    iconPositions: detailLandmark?.detail?.iconPositions ?? []
+  }
+
+  // 渡轮站时刻表（点击带 ferryPort 的地标时打开）
+  const ferryLandmark = view?.type === 'landmark' && view.landmark.ferryPort ? view.landmark : null
+
+  // 统一的轮播播放状态
+  const [isPlaying, setIsPlaying] = useState(true);
+
+  // 我的位置：地图有校准数据时显示，并给出到所选打卡点的距离与方位
+  const projection = useMemo(
+    () => island.map.calibration ? createMapProjection(island.map.calibration, island.map.aspectRatio) : null,
+    [island.map.calibration, island.map.aspectRatio]
+  )
+  const geolocation = useGeolocation()
+  // 定位精度圈按地图图片的实际显示宽度换算（不受入场动画的缩放影响）
+  const mapImageRef = useRef<HTMLImageElement>(null)
+  const [mapWidth, setMapWidth] = useState(0)
+  useEffect(() => {
+    const image = mapImageRef.current
+    if (!image) return
+    const update = () => setMapWidth(image.offsetWidth)
+    update()
+    const ro = new ResizeObserver(update)
+    ro.observe(image)
+    return () => ro.disconnect()
+  }, [island.map.image])
+  const [targetSpotId, setTargetSpotId] = useState<string | null>(null)
+  const locationTargets = useMemo<LocationTarget[]>(
+    () => island.spots.flatMap(spot => {
+      const spotLocation = getSpotLocation(island, spot.id)
+      return spotLocation ? [{ id: spot.id, title: spot.title, location: spotLocation }] : []
+    }),
+    [island]
+  )
+
+  // 打开打卡点的CG时，把它设为导航目标
+  const viewSpotId = view?.type === 'spot' ? view.spot.id : null
+  useEffect(() => {
+    if (viewSpotId && locationTargets.some(target => target.id === viewSpotId)) setTargetSpotId(viewSpotId)
+  }, [viewSpotId, locationTargets])
+
+  // 从页面内打开的视图记录在 history state 中，关闭时后退即可；从分享链接直接进入时替换为岛屿页
+  const openView = (options: IslandPathOptions) => {
+    navigate(getIslandPath(island.id, { tab: activeTab, ...options }), { state: { fromIsland: true } })
+  }
+
+  const closeView = () => {
+    if ((location.state as { fromIsland?: boolean } | null)?.fromIsland) {
+      navigate(-1)
+    } else {
+      navigate(getIslandPath(island.id, { tab: activeTab }), { replace: true })
+    }
+  }
+
+  const setActiveTab = (tab: IslandTab) => {
+    if (tab !== activeTab) navigate(getIslandPath(island.id, { tab }))
+  }
+
+  // 搜索结果深链接：?focus=地标id 定位到地图地标，?tab= 定位到介绍卡片
+  useEffect(() => {
+    if (view) return
+    const focusId = searchParams.get('focus')
+    const targetId = focusId ? `landmark-${focusId}` : searchParams.get('tab') ? 'island-info' : null
+    if (!targetId) return
+    if (focusId) setHoveredIcon(focusId)
+    // 等待地标入场动画后再定位
+    return focusSearchTarget(targetId, 600)
+  }, [location.key])
+
+  const handleBack = () => {
+    navigate('/checkin')
+  }
+
+  // 打开打卡点CG查看器（开启照片对比与现场取景）
+  const openSpotViewer = (spotId: string, imageIndex = 0) => {
+    openView({ spot: spotId, image: imageIndex })
+  }
+
+  // 切换图片只替换当前记录，后退时直接关闭查看器
+  const changeImage = (index: number) => {
+    const options: IslandPathOptions = view?.type === 'spot'
+      ? { spot: view.spot.id }
+      : view?.type === 'landmarkGallery'
+        ? { landmark: view.landmark.id, gallery: true }
+        : {}
+    navigate(getIslandPath(island.id, { tab: activeTab, ...options, image: index }), { replace: true, state: location.state })
+  }
+
+  // 切换到上一张图片
+  const goToPreviousImage = () => {
+    changeImage((imageViewer.currentIndex - 1 + imageViewer.images.length) % imageViewer.images.length)
+  };
+
+  // 切换到下一张图片
+  const goToNextImage = () => {
+    changeImage((imageViewer.currentIndex + 1) % imageViewer.images.length)
+  };
+
+  // 渡轮站悬停时显示的下一班回高松的船
+  const renderFerryHint = (port: string) => {
+    const now = getTokyoNow()
+    const next = getNextDeparture(port, 'takamatsu', now.date, now.minutes)
+    return (
+      <TooltipFerry>
+        {next
+          ? t(next.isLast ? 'island.nextFerryLast' : 'island.nextFerry', { time: formatClock(next.departure, locale) })
+          : t('island.noFerry')}
+      </TooltipFerry>
+    )
+  }
+
+  // 处理地标点击事件：渡轮站打开时刻表，有详情地图时打开详情，否则打开图片
+  const handleLandmarkClick = (landmark: IslandLandmark) => {
+    if (landmark.ferryPort || landmark.detail || (landmark.gallery && landmark.gallery.images.length > 0)) {
+      openView({ landmark: landmark.id })
+    }
+  }
+
+  return (
+    <Container>
+      <HeaderSection>
+        <motion.div
+          initial={{ opacity: 0, y: -30 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.8 }}
+        >
+          <Title>
+            {renderHeaderIcon(island.headerIcon)}
+            {island.name}
+            {renderHeaderIcon(island.headerIcon)}
+          </Title>
+          <Subtitle>{island.subtitle}</Subtitle>
+        </motion.div>
+      </HeaderSection>
+
+      <ContentContainer>
+        <InfoCard
+          id="island-info"
+          initial={{ opacity: 0, y: 50 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.8, delay: 0.2 }}
+        >
+          <TabContainer>
+            <TabButton
+              active={activeTab === 'intro'}
+              tabType="intro"
+              onClick={() => setActiveTab('intro')}
+              whileHover={{ scale: 1.02 }}
+              whileTap={{ scale: 0.98 }}
+            >
+              🏝️ {t('island.introTab')}
+            </TabButton>
+            <TabButton
+              active={activeTab === 'guide'}
+              tabType="guide"
+              onClick={() => setActiveTab('guide')}
+              whileHover={{ scale: 1.02 }}
+              whileTap={{ scale: 0.98 }}
+            >
+              🗺️ {t('island.guideTab')}
+            </TabButton>
+          </TabContainer>
+
+          <AnimatePresence mode="wait">
+            <ContentSection
+              key={activeTab}
+              initial={{ opacity: 0, x: -20 }}
+              animate={{ opacity: 1, x: 0 }}
+              exit={{ opacity: 0, x: 20 }}
+              transition={{ duration: 0.3 }}
+            >
+              <motion.div
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ duration: 0.6, delay: 0.1 }}
+              >
+                {(activeTab === 'intro' ? island.intro : island.guide).map(renderParagraph)}
+              </motion.div>
+            </ContentSection>
+          </AnimatePresence>
+        </InfoCard>
+
+        <motion.div
+          initial={{ opacity: 0, scale: 0.9 }}
+          animate={{ opacity: 1, scale: 1 }}
+          transition={{ duration: 0.8, delay: 0.4 }}
+        >
+          <MapFrame>
+            <MapContainer>
+              <MapImage ref={mapImageRef} scale={island.map.scale} src={island.map.image} alt={t('island.mapAlt', { name: island.name })} />
+              <MapOverlay>
+                {island.landmarks.map((landmark, index) => (
+                  <LocationIcon
+                    key={landmark.id}
+                    id={`landmark-${landmark.id}`}
+                    x={landmark.x}
+                    y={landmark.y}
+                    iconSize={landmark.size}
+                    initial={{ scale: 0 }}
+                    animate={{ scale: 1 }}
+                    transition={{ delay: 1 + index * 0.1, duration: 0.5 }}
+                    whileHover={{ scale: 1.2 }}
+                    title={landmark.title}
+                    style={landmark.zIndex ? { zIndex: landmark.zIndex } : undefined}
+                    onClick={() => handleLandmarkClick(landmark)}
+                    onMouseEnter={() => {
+                      if (landmark.tooltip) {
+                        setHoveredIcon(landmark.id);
+                      }
+                    }}
+                    onMouseLeave={() => setHoveredIcon(null)}
+                  >
+                    {landmark.iconType === 'emoji' ? (
+                      <span style={{ fontSize: `${landmark.size}px` }}>{landmark.emoji}</span>
+                    ) : (
+                      <img 
+                        src={landmark.icon} 
+                        alt={landmark.title}
+                        style={{ 
+                          width: `${landmark.size}px`, 
+                          height: `${landmark.size}px`,
+                          borderRadius: '50%',
+                          objectFit: 'cover'
+                        }} 
+                      />
+                    )}
+                    {/* 打卡进度角标 */}
+                    {landmark.spotIds && landmark.spotIds.length > 0 && (() => {
+                      const visitedCount = landmark.spotIds.filter(spotId => isVisited(island.id, spotId)).length
+                      const complete = visitedCount === landmark.spotIds.length
+                      return (
+                        <MarkerBadge complete={complete}>
+                          {complete ? '✓' : `${visitedCount}/${landmark.spotIds.length}`}
+                        </MarkerBadge>
+                      )
+                    })()}
+                    {/* Tooltip渲染 */}
+                    {hoveredIcon === landmark.id && landmark.tooltip && (
+                      <MapTooltip position={getTooltipPosition(landmark.x, landmark.y)}>
+                        <TooltipImage src={landmark.tooltip.image} alt={landmark.title} />
+                        <TooltipTitle>{landmark.title}</TooltipTitle>
+                        <TooltipDesc>{landmark.tooltip.desc}</TooltipDesc>
+                        {landmark.ferryPort && renderFerryHint(landmark.ferryPort)}
+                      </MapTooltip>
+                    )}
+                  </LocationIcon>
+                ))}
+                {projection && geolocation.position && mapWidth > 0 && (
+                  <UserLocationMarker
+                    projection={projection}
+                    position={geolocation.position}
+                    heading={geolocation.heading}
+                    mapWidth={mapWidth}
+                  />
+                )}
+              </MapOverlay>
+            </MapContainer>
+          </MapFrame>
+          {projection && (
+            <LocationPanel
+              projection={projection}
+              position={geolocation.position}
+              heading={geolocation.heading}
+              error={geolocation.error}
+              isWatching={geolocation.isWatching}
+              onStart={geolocation.start}
+              onStop={geolocation.stop}
+              targets={locationTargets}
+              targetId={targetSpotId}
+              onTargetChange={setTargetSpotId}
+            />
+          )}
+        </motion.div>
+
+        <InfoCard
+          initial={{ opacity: 0, y: 50 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.8, delay: 0.6 }}
+        >
+          <SectionTitle>
+            {t('island.spots')}
+            <ProgressText>{t('island.spotsProgress', { visited: progress.visited, total: progress.total, percent: progress.percent })}</ProgressText>
+          </SectionTitle>
+          <ImageGallery>
+            {island.spots.map((spot) => {
+              const visited = isVisited(island.id, spot.id)
+              const captureCount = records[getCheckinKey(island.id, spot.id)]?.captures?.length ?? 0
+              return (
+                <ImageCard
+                  key={spot.id}
+                  id={`spot-${spot.id}`}
+                  visited={visited}
+                  whileHover={{ scale: 1.02 }}
+                  transition={{ duration: 0.3 }}
+                  initial={{ opacity: 0, y: 30 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  onClick={() => openSpotViewer(spot.id)}
+                  style={{ cursor: 'pointer' }}
+                >
+                  <CheckinToggle
+                    visited={visited}
+                    whileTap={{ scale: 0.9 }}
+                    title={visited ? t('island.unmark') : t('island.mark')}
+                    onClick={(e) => {
+                      e.stopPropagation()
+                      if (visited && captureCount > 0 && !window.confirm(t('island.unmarkConfirm', { count: captureCount }))) {
+                        return
+                      }
+                      toggleVisited(island.id, spot.id)
+                    }}
+                  >
+                    {visited ? `✅ ${t('island.visited')}${captureCount > 0 ? ` · 📷${captureCount}` : ''}` : `📍 ${t('island.checkIn')}`}
+                  </CheckinToggle>
+                  <ImageSlider
+                    images={spot.images}
+                    title={spot.title}
+                    autoPlay={true}
+                    interval={4000}
+                    isPlaying={isPlaying}
+                    onImageClick={(imageIndex) => openSpotViewer(spot.id, imageIndex)}
+                  />
+                  <LocationTitle>{spot.title}</LocationTitle>
+                  <ImageCaption>{spot.description}</ImageCaption>
+                </ImageCard>
+              )
+            })}
+          </ImageGallery>
+        </InfoCard>
+      </ContentContainer>
+
+      <ButtonContainer>
+        <PlayPauseButton
+          onClick={() => setIsPlaying(!isPlaying)}
+          whileHover={{ scale: 1.05 }}
+          whileTap={{ scale: 0.95 }}
+          initial={{ opacity: 0, y: 30 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.6 }}
+        >
+          {isPlaying ? `⏸ ${t('island.stopSlideshow')}` : `▶ ${t('island.startSlideshow')}`}
+        </PlayPauseButton>
+        
+        <BackButton
+          onClick={handleBack}
+          whileHover={{ scale: 1.05 }}
+          whileTap={{ scale: 0.95 }}
+          initial={{ opacity: 0, y: 30 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.8 }}
+        >
+          {t('island.backToCheckin')}
+        </BackButton>
+      </ButtonContainer>
+
+      {/* 统一样式的图片查看器 */}
+      <GalleryViewer
+        isOpen={imageViewer.isOpen}
+        onClose={closeView}
+        images={imageViewer.images}
+        currentIndex={imageViewer.currentIndex}
+        title={imageViewer.title}
+        onPrevious={goToPreviousImage}
+        onNext={goToNextImage}
+        onIndexChange={changeImage}
+        enableCompare={imageViewer.spotId !== null}
+        checkinTarget={imageViewer.spotId ? { islandId: island.id, spotId: imageViewer.spotId } : undefined}
+      />
+      
+      {/* 地图详情查看器模态框 */}
+      <MapDetailViewer
+        isOpen={mapDetailViewer.isOpen}
+        onClose={closeView}
+        mapImage={mapDetailViewer.mapImage}
+        title={mapDetailViewer.title}
+        description={mapDetailViewer.description}
+        iconPositions={mapDetailViewer.iconPositions}
+        mode="full"
+      />
+
+      {/* 渡轮站时刻表 */}
+      <FerryScheduleViewer
+        isOpen={ferryLandmark !== null}
+        onClose={closeView}
+        title={`${island.name} · ${ferryLandmark?.title ?? ''}`}
+        defaultFrom={ferryLandmark?.ferryPort}
+        defaultTo="takamatsu"
+      >
+        {ferryLandmark?.gallery && ferryLandmark.gallery.images.length > 0 && (
+          <GalleryLink
+            onClick={() => navigate(
+              getIslandPath(island.id, { tab: activeTab, landmark: ferryLandmark.id, gallery: true }),
+              { replace: true, state: location.state }
+            )}
+          >
+            {t('island.stationImages')}
+          </GalleryLink>
+        )}
+      </FerryScheduleViewer>
+
+    </Container>
+  )
+}
+
+export default IslandPage
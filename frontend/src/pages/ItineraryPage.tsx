@@ -0,0 +1,515 @@
+import React, { useEffect, useMemo, useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+import styled, { createGlobalStyle } from 'styled-components'
+import { motion } from 'framer-motion'
+import { islandDefinitions, getIslandDefinition, localizeIsland } from '../utils/islandData'
+import { formatTime } from '../utils/ferryTimetable'
+import { buildItinerary, getIslandPort, ItineraryPlan, ItineraryStepType, orderSpots } from '../utils/itinerary'
+import { useCheckin } from '../contexts/CheckinContext'
+import { useLocale } from '../contexts/LocaleContext'
+
+const STORAGE_KEY = 'sprb-itinerary'
+
+// 打印时只输出行程单
+const PrintStyle = createGlobalStyle`
+  @media print {
+    body * {
+      visibility: hidden;
+    }
+
+    .itinerary-print,
+    .itinerary-print * {
+      visibility: visible;
+    }
+
+    .itinerary-print {
+      position: absolute;
+      left: 0;
+      top: 0;
+      width: 100%;
+      box-shadow: none !important;
+      background: white !important;
+    }
+  }
+`
+
+const Container = styled.div`
+  min-height: 100vh;
+  display: flex;
+  flex-direction: column;
+  align-items: center;
+  background: linear-gradient(
+    135deg,
+    #87CEEB 0%,    /* 天蓝色 */
+    #98E4D6 20%,   /* 薄荷绿 */
+    #F4E285 40%,   /* 浅黄色 */
+    #FFB347 60%,   /* 金橙色 */
+    #FF8C69 80%,   /* 珊瑚色 */
+    #FFA07A 100%   /* 浅橙色 */
+  );
+  position: relative;
+  overflow-y: auto;
+  overflow-x: hidden;
+  padding: 20px;
+  padding-top: 30px;
+  padding-bottom: 40px;
+`
+
+const HeaderSection = styled.div`
+  text-align: center;
+  margin-bottom: 30px;
+`
+
+const Title = styled.h1`
+  font-size: 48px;
+  color: #5d4037;
+  margin-bottom: 10px;
+  font-weight: 700;
+  font-family: 'KaiTi', 'SimKai', serif;
+  text-align: center;
+`
+
+const Subtitle = styled.h2`
+  font-size: 24px;
+  color: #ff6b35;
+  margin-bottom: 20px;
+  font-weight: 600;
+  text-align: center;
+`
+
+const Layout = styled.div`
+  display: grid;
+  grid-template-columns: minmax(0, 1fr) minmax(0, 1fr);
+  gap: 30px;
+  max-width: 1200px;
+  width: 100%;
+
+  @media (max-width: 900px) {
+    grid-template-columns: 1fr;
+  }
+`
+
+const Card = styled(motion.div)`
+  background: rgba(255, 255, 255, 0.95);
+  border-radius: 20px;
+  padding: 30px;
+  box-shadow: 0 10px 30px rgba(0, 0, 0, 0.15);
+  color: #5d4037;
+`
+
+const SectionTitle = styled.h3`
+  font-size: 24px;
+  color: #5d4037;
+  margin: 0 0 16px 0;
+  font-weight: 700;
+  font-family: 'KaiTi', 'SimKai', serif;
+`
+
+const FieldRow = styled.div`
+  display: flex;
+  flex-wrap: wrap;
+  gap: 12px;
+  margin-bottom: 16px;
+
+  label {
+    display: flex;
+    flex-direction: column;
+    gap: 4px;
+    font-size: 14px;
+    font-weight: 600;
+  }
+
+  input {
+    padding: 6px 10px;
+    border: 2px solid #e0d6cc;
+    border-radius: 10px;
+    font-size: 14px;
+    color: #5d4037;
+  }
+`
+
+const IslandBlock = styled.div<{ active: boolean }>`
+  border: 2px solid ${props => props.active ? '#ffa500' : '#eee'};
+  border-radius: 15px;
+  padding: 12px 16px;
+  margin-bottom: 12px;
+  background: ${props => props.active ? 'rgba(255, 165, 0, 0.06)' : 'transparent'};
+`
+
+const IslandHeader = styled.div`
+  display: flex;
+  align-items: center;
+  gap: 8px;
+  font-weight: 700;
+  font-size: 17px;
+
+  span {
+    flex: 1;
+  }
+`
+
+const SmallButton = styled.button`
+  border: none;
+  border-radius: 10px;
+  padding: 4px 10px;
+  font-size: 13px;
+  cursor: pointer;
+  background: rgba(0, 0, 0, 0.06);
+  color: #5d4037;
+
+  &:disabled {
+    opacity: 0.4;
+    cursor: not-allowed;
+  }
+`
+
+const SpotGrid = styled.div`
+  display: grid;
+  grid-template-columns: repeat(auto-fill, minmax(150px, 1fr));
+  gap: 4px 12px;
+  margin-top: 10px;
+
+  label {
+    display: flex;
+    align-items: center;
+    gap: 6px;
+    font-size: 14px;
+    cursor: pointer;
+  }
+`
+
+const Warning = styled.div`
+  background: linear-gradient(135deg, #ffe0d6, #ffd0c0);
+  color: #d84315;
+  border-radius: 12px;
+  padding: 10px 14px;
+  margin-bottom: 10px;
+  font-size: 14px;
+  font-weight: 600;
+`
+
+const Summary = styled.div`
+  background: linear-gradient(135deg, #e0f7fa, #e8f5e9);
+  color: #2e7d32;
+  border-radius: 12px;
+  padding: 10px 14px;
+  margin-bottom: 10px;
+  font-size: 15px;
+  font-weight: 600;
+`
+
+const Timeline = styled.ol`
+  list-style: none;
+  margin: 0;
+  padding: 0;
+  border-left: 3px solid #ffcc80;
+`
+
+const stepColors: Record<ItineraryStepType, string> = {
+  ferry: '#7e57c2',
+  walk: '#8d6e63',
+  visit: '#ff6b35',
+  wait: '#90a4ae'
+}
+
+const stepIcons: Record<ItineraryStepType, string> = {
+  ferry: '⛴️',
+  walk: '🚶',
+  visit: '📸',
+  wait: '⏳'
+}
+
+const TimelineItem = styled.li<{ stepType: ItineraryStepType }>`
+  position: relative;
+  padding: 6px 0 6px 18px;
+  font-size: 14px;
+  color: ${props => props.stepType === 'wait' ? '#90a4ae' : '#5d4037'};
+  font-weight: ${props => props.stepType === 'visit' || props.stepType === 'ferry' ? 700 : 400};
+
+  &::before {
+    content: '';
+    position: absolute;
+    left: -8px;
+    top: 11px;
+    width: 13px;
+    height: 13px;
+    border-radius: 50%;
+    background: ${props => stepColors[props.stepType]};
+  }
+
+  small {
+    font-weight: 400;
+    color: #8d6e63;
+    margin-left: 6px;
+  }
+`
+
+const ButtonContainer = styled.div`
+  display: flex;
+  gap: 20px;
+  justify-content: center;
+  align-items: center;
+  margin-top: 40px;
+  flex-wrap: wrap;
+`
+
+const ActionButton = styled(motion.button)`
+  background: linear-gradient(45deg, #87CEEB, #98E4D6);
+  border: none;
+  border-radius: 50px;
+  padding: 15px 25px;
+  font-size: 18px;
+  color: #2E8B57;
+  cursor: pointer;
+  box-shadow: 0 6px 20px rgba(135, 206, 235, 0.4);
+  display: flex;
+  align-items: center;
+  gap: 10px;
+  font-weight: 600;
+  z-index: 100;
+
+  &:hover {
+    background: linear-gradient(45deg, #98E4D6, #87CEEB);
+    transform: translateY(-3px);
+    box-shadow: 0 8px 25px rgba(135, 206, 235, 0.5);
+  }
+`
+
+const pad = (value: number) => String(value).padStart(2, '0')
+
+const createDefaultPlan = (name: string): ItineraryPlan => {
+  const today = new Date()
+  return {
+    name,
+    date: `${today.getFullYear()}-${pad(today.getMonth() + 1)}-${pad(today.getDate())}`,
+    startTime: '08:00',
+    dwellMinutes: 10,
+    // 只列出有渡轮码头的岛屿
+    islands: islandDefinitions
+      .filter(island => getIslandPort(island.id))
+      .map(island => ({ islandId: island.id, spotIds: [] }))
+  }
+}
+
+// 读取已保存的行程，并补上之后新增的岛屿
+const loadPlan = (defaultName: string): ItineraryPlan => {
+  const fallback = createDefaultPlan(defaultName)
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY)
+    if (!raw) return fallback
+    const saved = JSON.parse(raw) as ItineraryPlan
+    const known = saved.islands.filter(item => getIslandDefinition(item.islandId))
+    const missing = fallback.islands.filter(item => !known.some(k => k.islandId === item.islandId))
+    return { ...fallback, ...saved, islands: [...known, ...missing] }
+  } catch (error) {
+    console.warn('读取行程失败:', error)
+    return fallback
+  }
+}
+
+const ItineraryPage: React.FC = () => {
+  const navigate = useNavigate()
+  const { isVisited } = useCheckin()
+  const { locale, t } = useLocale()
+  const [plan, setPlan] = useState<ItineraryPlan>(() => loadPlan(t('itinerary.defaultName')))
+
+  // 自动保存
+  useEffect(() => {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(plan))
+    } catch (error) {
+      console.warn('保存行程失败:', error)
+    }
+  }, [plan])
+
+  const result = useMemo(() => buildItinerary(plan, locale), [plan, locale])
+  const hasSpots = plan.islands.some(item => item.spotIds.length > 0)
+
+  const updateIsland = (islandId: string, spotIds: string[]) => {
+    setPlan(prev => ({
+      ...prev,
+      islands: prev.islands.map(item => item.islandId === islandId ? { ...item, spotIds } : item)
+    }))
+  }
+
+  const toggleSpot = (islandId: string, spotId: string) => {
+    const current = plan.islands.find(item => item.islandId === islandId)?.spotIds ?? []
+    updateIsland(islandId, current.includes(spotId)
+      ? current.filter(id => id !== spotId)
+      : [...current, spotId])
+  }
+
+  // 调整岛屿游览顺序
+  const moveIsland = (index: number, delta: number) => {
+    setPlan(prev => {
+      const islands = [...prev.islands]
+      const target = index + delta
+      if (target < 0 || target >= islands.length) return prev
+      ;[islands[index], islands[target]] = [islands[target], islands[index]]
+      return { ...prev, islands }
+    })
+  }
+
+  const handleReset = () => {
+    if (window.confirm(t('itinerary.resetConfirm'))) {
+      setPlan(createDefaultPlan(t('itinerary.defaultName')))
+    }
+  }
+
+  return (
+    <Container>
+      <PrintStyle />
+      <HeaderSection>
+        <motion.div
+          initial={{ opacity: 0, y: -30 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.8 }}
+        >
+          <Title>{t('itinerary.title')}</Title>
+          <Subtitle>{t('itinerary.subtitle')}</Subtitle>
+        </motion.div>
+      </HeaderSection>
+
+      <Layout>
+        <Card initial={{ opacity: 0, y: 30 }} animate={{ opacity: 1, y: 0 }} transition={{ delay: 0.2 }}>
+          <SectionTitle>{t('itinerary.settings')}</SectionTitle>
+          <FieldRow>
+            <label>
+              {t('itinerary.name')}
+              <input value={plan.name} onChange={e => setPlan(prev => ({ ...prev, name: e.target.value }))} />
+            </label>
+            <label>
+              {t('itinerary.date')}
+              <input type="date" value={plan.date} onChange={e => setPlan(prev => ({ ...prev, date: e.target.value || prev.date }))} />
+            </label>
+            <label>
+              {t('itinerary.startTime')}
+              <input type="time" value={plan.startTime} onChange={e => setPlan(prev => ({ ...prev, startTime: e.target.value || prev.startTime }))} />
+            </label>
+            <label>
+              {t('itinerary.dwellMinutes')}
+              <input
+                type="number"
+                min={0}
+                max={120}
+                value={plan.dwellMinutes}
+                onChange={e => setPlan(prev => ({ ...prev, dwellMinutes: Math.max(0, Number(e.target.value) || 0) }))}
+              />
+            </label>
+          </FieldRow>
+
+          {plan.islands.map((item, index) => {
+            const source = getIslandDefinition(item.islandId)
+            if (!source) return null
+            const island = localizeIsland(source, locale)
+            return (
+              <IslandBlock key={item.islandId} active={item.spotIds.length > 0}>
+                <IslandHeader>
+                  <span>{t('itinerary.islandProgress', { index: index + 1, name: island.name, selected: item.spotIds.length, total: island.spots.length })}</span>
+                  <SmallButton disabled={index === 0} onClick={() => moveIsland(index, -1)} title={t('itinerary.moveEarlier')}>↑</SmallButton>
+                  <SmallButton disabled={index === plan.islands.length - 1} onClick={() => moveIsland(index, 1)} title={t('itinerary.moveLater')}>↓</SmallButton>
+                  <SmallButton
+                    onClick={() => updateIsland(item.islandId, island.spots
+                      .filter(spot => !isVisited(island.id, spot.id))
+                      .map(spot => spot.id))}
+                    title={t('itinerary.selectUnvisitedHint')}
+                  >
+                    {t('itinerary.selectUnvisited')}
+                  </SmallButton>
+                  <SmallButton onClick={() => updateIsland(item.islandId, [])}>{t('itinerary.clearIsland')}</SmallButton>
+                </IslandHeader>
+                <SpotGrid>
+                  {island.spots.map(spot => (
+                    <label key={spot.id}>
+                      <input
+                        type="checkbox"
+                        checked={item.spotIds.includes(spot.id)}
+                        onChange={() => toggleSpot(item.islandId, spot.id)}
+                      />
+                      {spot.title}{isVisited(island.id, spot.id) ? ' ✅' : ''}
+                    </label>
+                  ))}
+                </SpotGrid>
+              </IslandBlock>
+            )
+          })}
+          <p style={{ fontSize: 12, color: '#8d6e63', margin: 0 }}>{t('itinerary.autoSaved')}</p>
+        </Card>
+
+        <Card
+          className="itinerary-print"
+          initial={{ opacity: 0, y: 30 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.4 }}
+        >
+          <SectionTitle>{t('itinerary.heading', { name: plan.name, date: plan.date })}</SectionTitle>
+          {!hasSpots ? (
+            <Summary>{t('itinerary.empty')}</Summary>
+          ) : (
+            <>
+              {result.warnings.map(warning => <Warning key={warning}>⚠️ {warning}</Warning>)}
+              {result.endTime !== null && (
+                <Summary>{t('itinerary.returnTime', { time: formatTime(result.endTime) })}</Summary>
+              )}
+              <Timeline>
+                {result.steps.map((step, index) => (
+                  <TimelineItem key={index} stepType={step.type}>
+                    {formatTime(step.start)}–{formatTime(step.end)} {stepIcons[step.type]} {step.title}
+                    {step.detail && <small>{step.detail}</small>}
+                    {step.ferry?.isLast && <small>{t('itinerary.lastFerry')}</small>}
+                    {step.estimated && <small>{t('itinerary.estimated')}</small>}
+                  </TimelineItem>
+                ))}
+              </Timeline>
+              {plan.islands.map(item => {
+                const source = getIslandDefinition(item.islandId)
+                if (!source || item.spotIds.length === 0) return null
+                const island = localizeIsland(source, locale)
+                return (
+                  <p key={item.islandId} style={{ fontSize: 13, color: '#8d6e63', marginTop: 12 }}>
+                    {t('itinerary.spotOrder', {
+                      name: island.name,
+                      spots: orderSpots(island, item.spotIds)
+                        .map(id => island.spots.find(spot => spot.id === id)?.title)
+                        .join(' → ')
+                    })}
+                  </p>
+                )
+              })}
+              <p style={{ fontSize: 12, color: '#8d6e63', marginTop: 12 }}>
+                {t('itinerary.disclaimer')}
+              </p>
+            </>
+          )}
+        </Card>
+      </Layout>
+
+      <ButtonContainer>
+        <ActionButton
+          onClick={() => navigate('/checkin')}
+          whileHover={{ scale: 1.05 }}
+          whileTap={{ scale: 0.95 }}
+        >
+          {t('itinerary.back')}
+        </ActionButton>
+        <ActionButton
+          onClick={() => window.print()}
+          whileHover={{ scale: 1.05 }}
+          whileTap={{ scale: 0.95 }}
+          disabled={!hasSpots}
+        >
+          🖨️ {t('itinerary.print')}
+        </ActionButton>
+        <ActionButton
+          onClick={handleReset}
+          whileHover={{ scale: 1.05 }}
+          whileTap={{ scale: 0.95 }}
+        >
+          {t('itinerary.reset')}
+        </ActionButton>
+      </ButtonContainer>
+    </Container>
+  )
+}
+
+export default ItineraryPage
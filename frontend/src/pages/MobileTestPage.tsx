@@ -93,7 +93,7 @@ const MobileTestPage: React.FC = () => {
       </motion.div>
 
       <ZoomableIslandMap
-        mapImage="images/webps/男木岛/男木岛地图-线路版.webp"
+        mapImage="/images/webps/男木岛/男木岛地图-线路版.webp"
         mapAlt="测试地图"
         mapScale={0.8}
         checkInIcons={testIcons}
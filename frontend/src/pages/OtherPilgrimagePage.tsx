@@ -2,6 +2,7 @@ import React from 'react'
 import { useNavigate } from 'react-router-dom'
 import styled from 'styled-components'
 import { motion } from 'framer-motion'
+import { useLocale } from '../contexts/LocaleContext'
 
 const Container = styled.div`
   min-height: 100vh;
@@ -136,6 +137,7 @@ const FloatingElement = styled(motion.div)`
 `
 
 const OtherPilgrimagePage: React.FC = () => {
+  const { t } = useLocale()
   const navigate = useNavigate()
 
   const handleBack = () => {
@@ -184,11 +186,11 @@ const OtherPilgrimagePage: React.FC = () => {
         whileHover={{ scale: 1.05 }}
         whileTap={{ scale: 0.95 }}
       >
-        🏠 返回打卡篇
+        🏠 {t('island.backToCheckin')}
       </BackButton>
 
       <Header>
-        <Title>其他巡礼</Title>
+        <Title>{t('checkin.otherPilgrimage')}</Title>
       </Header>
 
       <ContentCard
@@ -198,34 +200,34 @@ const OtherPilgrimagePage: React.FC = () => {
       >
         <ComingSoonIcon>🚧</ComingSoonIcon>
         
-        <ComingSoonText>页面开发中...</ComingSoonText>
+        <ComingSoonText>{t('otherPilgrimage.comingSoon')}</ComingSoonText>
         
         <Description>
-          正在为您精心准备更多精彩的圣地巡礼内容！
+          {t('otherPilgrimage.description')}
           <br />
-          敬请期待即将到来的全新体验。
+          {t('otherPilgrimage.stayTuned')}
         </Description>
 
         <FeatureList>
           <FeatureItem>
             <FeatureIcon>🏛️</FeatureIcon>
-            <span>特色建筑巡礼</span>
+            <span>{t('otherPilgrimage.features.architecture')}</span>
           </FeatureItem>
           <FeatureItem>
             <FeatureIcon>🍜</FeatureIcon>
-            <span>美食探索地图</span>
+            <span>{t('otherPilgrimage.features.food')}</span>
           </FeatureItem>
           <FeatureItem>
             <FeatureIcon>🎨</FeatureIcon>
-            <span>文化体验活动</span>
+            <span>{t('otherPilgrimage.features.culture')}</span>
           </FeatureItem>
           <FeatureItem>
             <FeatureIcon>📸</FeatureIcon>
-            <span>摄影打卡指南</span>
+            <span>{t('otherPilgrimage.features.photography')}</span>
           </FeatureItem>
           <FeatureItem>
             <FeatureIcon>🛍️</FeatureIcon>
-            <span>购物推荐清单</span>
+            <span>{t('otherPilgrimage.features.shopping')}</span>
           </FeatureItem>
         </FeatureList>
       </ContentCard>
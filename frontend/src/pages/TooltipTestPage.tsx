@@ -92,7 +92,7 @@ const TooltipTestPage: React.FC = () => {
           <TouchOptimizedTooltip 
             content={
               <TooltipContent
-                image="images/webps/直岛/直岛-小卖部.webp"
+                image="/images/webps/直岛/直岛-小卖部.webp"
                 title="直岛小卖部"
                 description="这里是直岛的小卖部，可以购买各种纪念品和日用品。"
               />
@@ -142,7 +142,7 @@ const TooltipTestPage: React.FC = () => {
           <TouchOptimizedTooltip 
             content={
               <TooltipContent
-                image="images/webps/男木岛/男木岛-灯塔.webp"
+                image="/images/webps/男木岛/男木岛-灯塔.webp"
                 title="男木岛灯塔"
                 description="这是男木岛的标志性灯塔，是岛上最重要的地标之一。"
               />
@@ -0,0 +1,521 @@
+import React, { useEffect, useMemo, useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+import styled from 'styled-components'
+import { motion } from 'framer-motion'
+import TrafficCardList from '../components/TrafficCardList'
+import TrafficCardContentEditor from '../components/TrafficCardContentEditor'
+import TransferLegsEditor from '../components/TransferLegsEditor'
+import { useAuth } from '../contexts/AuthContext'
+import { useLocale } from '../contexts/LocaleContext'
+import { useTrafficCards } from '../hooks/useTrafficCards'
+import {
+  TrafficCard,
+  TrafficCardInput,
+  createTrafficCard,
+  deleteTrafficCard,
+  reorderTrafficCards,
+  sortTrafficCards,
+  toTrafficCardInput,
+  updateTrafficCard
+} from '../utils/trafficCards'
+import { getTrafficRoute, trafficRoutes } from '../utils/trafficRoutes'
+
+const Container = styled.div`
+  min-height: 100vh;
+  background: linear-gradient(135deg, #fff8f0 0%, #ffe8d6 100%);
+  overflow-y: auto;
+  padding: 30px 20px 60px 20px;
+  color: #5d4037;
+`
+
+const Header = styled.div`
+  max-width: 1400px;
+  margin: 0 auto 24px auto;
+  display: flex;
+  flex-wrap: wrap;
+  align-items: center;
+  justify-content: space-between;
+  gap: 12px;
+`
+
+const Title = styled.h1`
+  font-size: 32px;
+  color: #FF6B35;
+  margin: 0;
+  font-weight: 700;
+`
+
+const Layout = styled.div`
+  max-width: 1400px;
+  margin: 0 auto;
+  display: grid;
+  grid-template-columns: 320px minmax(0, 1fr);
+  gap: 24px;
+
+  @media (max-width: 900px) {
+    grid-template-columns: 1fr;
+  }
+`
+
+const Panel = styled(motion.div)`
+  background: rgba(255, 255, 255, 0.95);
+  border-radius: 20px;
+  padding: 24px;
+  box-shadow: 0 10px 30px rgba(255, 165, 0, 0.15);
+`
+
+const PanelTitle = styled.h2`
+  font-size: 20px;
+  color: #FF6B35;
+  margin: 0 0 16px 0;
+`
+
+const Button = styled.button<{ variant?: 'primary' | 'danger' | 'plain' }>`
+  border: none;
+  border-radius: 20px;
+  padding: 8px 18px;
+  font-size: 14px;
+  font-weight: 600;
+  cursor: pointer;
+  color: ${props => props.variant === 'plain' ? '#FF6B35' : 'white'};
+  background: ${props => props.variant === 'danger'
+    ? '#e57373'
+    : props.variant === 'plain' ? 'rgba(255, 179, 71, 0.15)' : 'linear-gradient(45deg, #FF6B35, #FFB347)'};
+
+  &:disabled {
+    opacity: 0.5;
+    cursor: not-allowed;
+  }
+`
+
+const Field = styled.label`
+  display: flex;
+  flex-direction: column;
+  gap: 6px;
+  font-size: 14px;
+  font-weight: 600;
+  margin-bottom: 14px;
+
+  input,
+  select {
+    padding: 8px 12px;
+    border: 2px solid #ffe0b2;
+    border-radius: 10px;
+    font-size: 15px;
+    color: #555;
+    background: white;
+  }
+`
+
+const FieldRow = styled.div`
+  display: grid;
+  grid-template-columns: 90px minmax(0, 1fr);
+  gap: 12px;
+`
+
+const CardList = styled.ul`
+  list-style: none;
+  margin: 0 0 16px 0;
+  padding: 0;
+  display: flex;
+  flex-direction: column;
+  gap: 8px;
+`
+
+const CardListItem = styled.li<{ active: boolean; dragging: boolean }>`
+  display: flex;
+  align-items: center;
+  gap: 10px;
+  padding: 10px 12px;
+  border-radius: 12px;
+  cursor: pointer;
+  border: 2px solid ${props => props.active ? '#FFB347' : 'transparent'};
+  background: ${props => props.active ? 'rgba(255, 179, 71, 0.15)' : 'rgba(0, 0, 0, 0.03)'};
+  opacity: ${props => props.dragging ? 0.4 : 1};
+
+  span:last-child {
+    flex: 1;
+    overflow: hidden;
+    text-overflow: ellipsis;
+    white-space: nowrap;
+  }
+`
+
+const DragHandle = styled.span`
+  cursor: grab;
+  color: #bbb;
+  user-select: none;
+`
+
+const Message = styled.p<{ error?: boolean }>`
+  margin: 0 0 14px 0;
+  font-size: 14px;
+  color: ${props => props.error ? '#c62828' : '#8d6e63'};
+`
+
+const Actions = styled.div`
+  display: flex;
+  flex-wrap: wrap;
+  gap: 10px;
+  margin-top: 16px;
+`
+
+const LoginCard = styled(Panel)`
+  max-width: 380px;
+  margin: 80px auto 0 auto;
+`
+
+// 卡片分组：category 与 subcategory 的组合
+interface CardGroup {
+  key: string
+  category: string
+  subcategory: string | null
+}
+
+const getGroupKey = (category: string, subcategory?: string | null) => `${category}/${subcategory ?? ''}`
+
+// 路线目录中的分组，即使还没有卡片也显示
+const knownGroups: CardGroup[] = trafficRoutes.map(route => ({
+  key: getGroupKey(route.category, route.id),
+  category: route.category,
+  subcategory: route.id
+}))
+
+const emptyDraft = (group: CardGroup, orderIndex: number): TrafficCardInput => ({
+  title: '',
+  icon: '📌',
+  content: '',
+  category: group.category,
+  subcategory: group.subcategory,
+  order_index: orderIndex
+})
+
+const LoginForm: React.FC = () => {
+  const { t } = useLocale()
+  const { login } = useAuth()
+  const [username, setUsername] = useState('')
+  const [password, setPassword] = useState('')
+  const [error, setError] = useState<string | null>(null)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsSubmitting(true)
+    setError(null)
+    try {
+      await login(username, password)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('admin.login.failed'))
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <LoginCard initial={{ opacity: 0, y: 30 }} animate={{ opacity: 1, y: 0 }}>
+      <PanelTitle>{t('admin.login.title')}</PanelTitle>
+      <form onSubmit={handleSubmit}>
+        <Field>
+          {t('admin.login.username')}
+          <input value={username} onChange={e => setUsername(e.target.value)} autoComplete="username" />
+        </Field>
+        <Field>
+          {t('admin.login.password')}
+          <input type="password" value={password} onChange={e => setPassword(e.target.value)} autoComplete="current-password" />
+        </Field>
+        {error && <Message error>{error}</Message>}
+        <Button type="submit" disabled={isSubmitting || !username || !password}>
+          {isSubmitting ? t('admin.login.submitting') : t('admin.login.submit')}
+        </Button>
+      </form>
+    </LoginCard>
+  )
+}
+
+const TrafficAdminPage: React.FC = () => {
+  const navigate = useNavigate()
+  const { t } = useLocale()
+  const { token, user, isLoading: isAuthLoading, error: authError, retry: retryAuth, logout } = useAuth()
+  const { cards, isStale, isLoading, error: loadError, refresh } = useTrafficCards()
+  const [groupKey, setGroupKey] = useState(knownGroups[0].key)
+  const [orderedCards, setOrderedCards] = useState<TrafficCard[]>([])
+  const [selectedId, setSelectedId] = useState<number | 'new' | null>(null)
+  const [draft, setDraft] = useState<TrafficCardInput | null>(null)
+  const [dragIndex, setDragIndex] = useState<number | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+  const [message, setMessage] = useState<{ text: string; error: boolean } | null>(null)
+
+  const groups = useMemo(() => {
+    const list = [...knownGroups]
+    cards.forEach(card => {
+      const key = getGroupKey(card.category, card.subcategory)
+      if (!list.some(group => group.key === key)) {
+        list.push({ key, category: card.category, subcategory: card.subcategory ?? null })
+      }
+    })
+    return list
+  }, [cards])
+  const group = groups.find(item => item.key === groupKey) ?? groups[0]
+
+  useEffect(() => {
+    setOrderedCards(sortTrafficCards(cards.filter(card => getGroupKey(card.category, card.subcategory) === group.key)))
+  }, [cards, group.key])
+
+  // 只有从后端取得的数据才能编辑，避免用缓存覆盖线上内容
+  const canEdit = !!token && !!user?.isAdmin && !isStale && !isLoading
+
+  const selectCard = (card: TrafficCard) => {
+    setSelectedId(card.id)
+    setDraft(toTrafficCardInput(card))
+    setMessage(null)
+  }
+
+  const startNewCard = () => {
+    const maxIndex = orderedCards.reduce((max, card) => Math.max(max, card.order_index), 0)
+    setSelectedId('new')
+    setDraft(emptyDraft(group, maxIndex + 1))
+    setMessage(null)
+  }
+
+  const handleGroupChange = (key: string) => {
+    setGroupKey(key)
+    setSelectedId(null)
+    setDraft(null)
+  }
+
+  const runSave = async (action: () => Promise<void>, successText: string) => {
+    setIsSaving(true)
+    setMessage(null)
+    try {
+      await action()
+      setMessage({ text: successText, error: false })
+      await refresh()
+    } catch (err) {
+      setMessage({ text: err instanceof Error ? err.message : t('admin.messages.saveFailed'), error: true })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleSave = () => {
+    if (!draft || !token) return
+    if (!draft.title.trim() || !draft.content.trim()) {
+      setMessage({ text: t('admin.messages.required'), error: true })
+      return
+    }
+    if (draft.legs?.some(leg => !leg.from.trim() || !leg.to.trim())) {
+      setMessage({ text: t('admin.messages.legsRequired'), error: true })
+      return
+    }
+    runSave(async () => {
+      if (selectedId === 'new') {
+        const id = await createTrafficCard(draft, token)
+        setSelectedId(id)
+      } else if (selectedId !== null) {
+        await updateTrafficCard(selectedId, draft, token)
+      }
+    }, t('admin.messages.saved'))
+  }
+
+  const handleDelete = () => {
+    if (!token || typeof selectedId !== 'number' || !draft) return
+    if (!window.confirm(t('admin.confirmDelete', { title: draft.title }))) return
+    runSave(async () => {
+      await deleteTrafficCard(selectedId, token)
+      setSelectedId(null)
+      setDraft(null)
+    }, t('admin.messages.deleted'))
+  }
+
+  // 拖动过程中只调整本地顺序，松手后再写回 order_index
+  const handleDragOver = (e: React.DragEvent, index: number) => {
+    e.preventDefault()
+    if (dragIndex === null || dragIndex === index) return
+    setOrderedCards(prev => {
+      const next = [...prev]
+      const [moved] = next.splice(dragIndex, 1)
+      next.splice(index, 0, moved)
+      return next
+    })
+    setDragIndex(index)
+  }
+
+  const handleDragEnd = () => {
+    setDragIndex(null)
+    if (!token) return
+    const changed = orderedCards
+      .map((card, index) => ({ card, orderIndex: index + 1 }))
+      .filter(({ card, orderIndex }) => card.order_index !== orderIndex)
+    if (changed.length === 0) return
+    runSave(async () => {
+      await reorderTrafficCards(changed.map(({ card, orderIndex }) => ({ id: card.id, order_index: orderIndex })), token)
+      if (draft && typeof selectedId === 'number') {
+        const moved = changed.find(({ card }) => card.id === selectedId)
+        if (moved) setDraft({ ...draft, order_index: moved.orderIndex })
+      }
+    }, t('admin.messages.reordered'))
+  }
+
+  // 预览整个分组，正在编辑的卡片替换为草稿内容
+  const previewCards: TrafficCard[] = useMemo(() => {
+    if (!draft) return orderedCards
+    const draftCard: TrafficCard = { ...draft, id: typeof selectedId === 'number' ? selectedId : -1 }
+    const list = selectedId === 'new'
+      ? [...orderedCards, draftCard]
+      : orderedCards.map(card => card.id === selectedId ? draftCard : card)
+    return list
+  }, [orderedCards, draft, selectedId])
+
+  if (!token) {
+    return (
+      <Container>
+        <LoginForm />
+      </Container>
+    )
+  }
+
+  if (!isAuthLoading && !user && authError) {
+    return (
+      <Container>
+        <LoginCard initial={{ opacity: 0, y: 30 }} animate={{ opacity: 1, y: 0 }}>
+          <PanelTitle>{t('admin.auth.verifyFailed')}</PanelTitle>
+          <Message error>{authError}</Message>
+          <Actions>
+            <Button type="button" onClick={retryAuth}>{t('admin.auth.retry')}</Button>
+            <Button type="button" variant="plain" onClick={logout}>{t('admin.auth.relogin')}</Button>
+          </Actions>
+        </LoginCard>
+      </Container>
+    )
+  }
+
+  if (isAuthLoading || !user) {
+    return (
+      <Container>
+        <LoginCard>
+          <Message>{t('admin.auth.verifying')}</Message>
+        </LoginCard>
+      </Container>
+    )
+  }
+
+  if (!user.isAdmin) {
+    return (
+      <Container>
+        <LoginCard initial={{ opacity: 0, y: 30 }} animate={{ opacity: 1, y: 0 }}>
+          <PanelTitle>{t('admin.auth.forbidden')}</PanelTitle>
+          <Message>{t('admin.auth.notAdmin', { username: user.username })}</Message>
+          <Actions>
+            <Button type="button" variant="plain" onClick={() => navigate('/traffic')}>{t('admin.auth.backToTraffic')}</Button>
+            <Button type="button" onClick={logout}>{t('admin.auth.switchAccount')}</Button>
+          </Actions>
+        </LoginCard>
+      </Container>
+    )
+  }
+
+  return (
+    <Container>
+      <Header>
+        <Title>{t('admin.title')}</Title>
+        <Actions style={{ marginTop: 0 }}>
+          <Button type="button" variant="plain" onClick={() => navigate('/traffic')}>{t('admin.viewSite')}</Button>
+          <Button type="button" variant="plain" onClick={refresh} disabled={isLoading}>{t('admin.refresh')}</Button>
+          <Button type="button" onClick={logout}>{t('admin.logout', { username: user.username })}</Button>
+        </Actions>
+      </Header>
+
+      <Layout>
+        <Panel initial={{ opacity: 0, x: -20 }} animate={{ opacity: 1, x: 0 }}>
+          <Field>
+            {t('admin.group')}
+            <select value={group.key} onChange={e => handleGroupChange(e.target.value)}>
+              {groups.map(item => (
+                <option key={item.key} value={item.key}>
+                  {(item.subcategory && getTrafficRoute(item.category, item.subcategory)?.label)
+                    || `${item.category} / ${item.subcategory ?? t('admin.noSubcategory')}`}
+                </option>
+              ))}
+            </select>
+          </Field>
+          {(isStale || loadError) && (
+            <Message error>{t('admin.readOnly')}</Message>
+          )}
+          <Message>{t('admin.dragHint')}</Message>
+          <CardList>
+            {orderedCards.map((card, index) => (
+              <CardListItem
+                key={card.id}
+                active={card.id === selectedId}
+                dragging={index === dragIndex}
+                draggable={canEdit && !isSaving}
+                onDragStart={() => setDragIndex(index)}
+                onDragOver={e => handleDragOver(e, index)}
+                onDragEnd={handleDragEnd}
+                onClick={() => selectCard(card)}
+              >
+                <DragHandle>⋮⋮</DragHandle>
+                <span>{card.icon}</span>
+                <span>{card.title}</span>
+              </CardListItem>
+            ))}
+          </CardList>
+          <Button type="button" onClick={startNewCard} disabled={!canEdit}>{t('admin.newCard')}</Button>
+        </Panel>
+
+        <Panel initial={{ opacity: 0, x: 20 }} animate={{ opacity: 1, x: 0 }}>
+          {draft ? (
+            <>
+              <PanelTitle>{selectedId === 'new' ? t('admin.newCardTitle') : t('admin.editCardTitle')}</PanelTitle>
+              <FieldRow>
+                <Field>
+                  {t('admin.fields.icon')}
+                  <input value={draft.icon} onChange={e => setDraft({ ...draft, icon: e.target.value })} />
+                </Field>
+                <Field>
+                  {t('admin.fields.title')}
+                  <input value={draft.title} onChange={e => setDraft({ ...draft, title: e.target.value })} />
+                </Field>
+              </FieldRow>
+              <Field as="div">
+                {t('admin.fields.content')}
+                <TrafficCardContentEditor
+                  key={selectedId ?? 'none'}
+                  value={draft.content}
+                  onChange={content => setDraft(prev => prev && { ...prev, content })}
+                />
+              </Field>
+              <Field as="div">
+                {t('admin.fields.legs')}
+                <TransferLegsEditor
+                  value={draft.legs ?? []}
+                  onChange={legs => setDraft(prev => prev && { ...prev, legs: legs.length > 0 ? legs : null })}
+                />
+              </Field>
+              {message && <Message error={message.error}>{message.text}</Message>}
+              <Actions>
+                <Button type="button" onClick={handleSave} disabled={!canEdit || isSaving}>
+                  {isSaving ? t('admin.saving') : t('admin.save')}
+                </Button>
+                {selectedId !== 'new' && (
+                  <Button type="button" variant="danger" onClick={handleDelete} disabled={!canEdit || isSaving}>{t('common.delete')}</Button>
+                )}
+              </Actions>
+            </>
+          ) : (
+            <>
+              {message && <Message error={message.error}>{message.text}</Message>}
+              <Message>{t('admin.selectHint')}</Message>
+            </>
+          )}
+        </Panel>
+      </Layout>
+
+      <div style={{ maxWidth: 1400, margin: '24px auto 0 auto' }}>
+        <TrafficCardList cards={previewCards} title={t('admin.preview')} />
+      </div>
+    </Container>
+  )
+}
+
+export default TrafficAdminPage
@@ -1,9 +1,23 @@
-import React, { useState, useEffect } from 'react'
-import { useNavigate } from 'react-router-dom'
+import React, { useEffect, useState } from 'react'
+import { useLocation, useNavigate, useParams, useSearchParams } from 'react-router-dom'
 import styled from 'styled-components'
 import { motion, AnimatePresence } from 'framer-motion'
-import TrafficInfoGrid from '../components/TrafficInfoGrid'
-import axios from 'axios'
+import TrafficCardList from '../components/TrafficCardList'
+import TravelChecklist from '../components/TravelChecklist'
+import TripBudget from '../components/TripBudget'
+import { useTrafficCards } from '../hooks/useTrafficCards'
+import { focusSearchTarget } from '../utils/search'
+import { formatDateTime } from '../utils/i18n'
+import { useLocale } from '../contexts/LocaleContext'
+import {
+  TrafficCategory,
+  formatDuration,
+  getLegsDuration,
+  getRouteTabs,
+  getTrafficCategories,
+  getTrafficPath,
+  trafficCategories
+} from '../utils/trafficRoutes'
 
 const Container = styled.div`
   min-height: 100vh;
@@ -109,6 +123,8 @@ const MainNavItem = styled(motion.button)<{ active: boolean }>`
 
 const SubNavigation = styled.div`
   display: flex;
+  flex-wrap: wrap;
+  gap: 8px 0;
   justify-content: center;
   background: #f8f9fa;
   padding: 10px 0;
@@ -154,62 +170,6 @@ const SectionTitle = styled.h2`
   display: inline-block;
 `
 
-const ContentGrid = styled.div`
-  display: grid;
-  grid-template-columns: repeat(auto-fit, minmax(300px, 1fr));
-  gap: 30px;
-  margin-top: 30px;
-`
-
-const ContentCard = styled(motion.div)`
-  background: #f8f9fa;
-  border-radius: 15px;
-  padding: 25px;
-  border-left: 5px solid #FFB347;
-  box-shadow: 0 5px 15px rgba(0, 0, 0, 0.1);
-  
-  &:hover {
-    transform: translateY(-5px);
-    box-shadow: 0 10px 25px rgba(0, 0, 0, 0.15);
-  }
-`
-
-const CardTitle = styled.h3`
-  color: #FF6B35;
-  font-size: 22px;
-  margin-bottom: 15px;
-  display: flex;
-  align-items: center;
-  gap: 10px;
-`
-
-const CardContent = styled.div`
-  color: #666;
-  line-height: 1.6;
-  font-size: 16px;
-`
-
-const DownloadButton = styled(motion.button)`
-  background: linear-gradient(45deg, #FF6B35, #FFB347);
-  color: white;
-  border: none;
-  border-radius: 30px;
-  padding: 15px 30px;
-  font-size: 18px;
-  font-weight: 600;
-  cursor: pointer;
-  box-shadow: 0 5px 15px rgba(255, 107, 53, 0.3);
-  display: flex;
-  align-items: center;
-  gap: 10px;
-  margin: 20px auto;
-  
-  &:hover {
-    transform: translateY(-2px);
-    box-shadow: 0 8px 25px rgba(255, 107, 53, 0.4);
-  }
-`
-
 const ComingSoonBadge = styled.div`
   background: #FFB347;
   color: white;
@@ -221,351 +181,157 @@ const ComingSoonBadge = styled.div`
   margin-left: 10px;
 `
 
-const ChecklistContainer = styled.div`
-  max-width: 1200px;
-  margin: 0 auto;
-  display: grid;
-  grid-template-columns: repeat(auto-fit, minmax(380px, 1fr));
-  gap: 30px;
-`
-
-const ChecklistSection = styled(motion.div)`
-  background: rgba(255, 255, 255, 0.95);
-  border-radius: 20px;
-  padding: 30px;
-  box-shadow: 0 10px 30px rgba(255, 165, 0, 0.2);
-  backdrop-filter: blur(10px);
-  border: 2px solid rgba(255, 165, 0, 0.1);
-`
-
-const ChecklistSectionHeader = styled.div`
+const RouteSummary = styled.div`
   display: flex;
-  align-items: center;
-  gap: 12px;
-  margin-bottom: 20px;
-  padding-bottom: 12px;
-  border-bottom: 2px solid #FFB347;
-`
-
-const ChecklistSectionIcon = styled.div`
-  font-size: 24px;
-`
-
-const ChecklistSectionTitle = styled.h2`
-  font-size: 22px;
-  color: #FF6B35;
-  margin: 0;
-  font-weight: 700;
-`
+  flex-wrap: wrap;
+  justify-content: center;
+  gap: 10px 24px;
+  margin-bottom: 24px;
+  padding: 14px 20px;
+  border-radius: 15px;
+  background: rgba(255, 179, 71, 0.12);
+  color: #666;
+  font-size: 15px;
 
-const ChecklistItem = styled.div<{ checked: boolean }>`
-  display: flex;
-  align-items: flex-start;
-  gap: 12px;
-  margin-bottom: 15px;
-  padding: 10px;
-  border-radius: 10px;
-  background: ${props => props.checked ? 'rgba(255, 179, 71, 0.1)' : 'transparent'};
-  transition: all 0.3s ease;
-  
-  &:hover {
-    background: rgba(255, 179, 71, 0.1);
+  strong {
+    color: #FF6B35;
   }
 `
 
-const CheckBox = styled.div<{ checked: boolean }>`
-  width: 20px;
-  height: 20px;
-  border: 2px solid #FFB347;
-  border-radius: 4px;
+const StaleNotice = styled.div<{ error: boolean }>`
+  max-width: 1200px;
+  margin: 0 auto 20px auto;
+  padding: 12px 20px;
+  border-radius: 15px;
+  background: ${props => props.error ? 'rgba(229, 115, 115, 0.15)' : 'rgba(255, 179, 71, 0.18)'};
+  color: ${props => props.error ? '#c62828' : '#a0522d'};
+  font-size: 15px;
   display: flex;
+  flex-wrap: wrap;
   align-items: center;
   justify-content: center;
-  cursor: pointer;
-  background: ${props => props.checked ? '#FFB347' : 'white'};
-  color: white;
-  font-size: 12px;
-  font-weight: bold;
-  transition: all 0.3s ease;
-  flex-shrink: 0;
-  margin-top: 2px;
-  
-  &:hover {
-    background: ${props => props.checked ? '#FF6B35' : '#FFB347'};
-    transform: scale(1.1);
-  }
-`
-
-const ItemText = styled.div<{ checked: boolean }>`
-  font-size: 16px;
-  color: ${props => props.checked ? '#999' : '#555'};
-  text-decoration: ${props => props.checked ? 'line-through' : 'none'};
-  line-height: 1.5;
-  transition: all 0.3s ease;
-`
-
-const ProgressBar = styled.div`
-  background: rgba(255, 255, 255, 0.8);
-  border-radius: 15px;
-  padding: 20px;
-  margin-bottom: 30px;
-  text-align: center;
-  backdrop-filter: blur(10px);
-  box-shadow: 0 8px 25px rgba(255, 165, 0, 0.2);
-`
-
-const ProgressText = styled.div`
-  font-size: 18px;
-  color: #FF6B35;
-  font-weight: 600;
-  margin-bottom: 10px;
-`
-
-const ProgressTrack = styled.div`
-  background: #e0e0e0;
-  border-radius: 10px;
-  height: 20px;
-  overflow: hidden;
-  position: relative;
-`
-
-const ProgressFill = styled.div<{ percentage: number }>`
-  background: linear-gradient(45deg, #FF6B35, #FFB347);
-  height: 100%;
-  width: ${props => props.percentage}%;
-  transition: width 0.5s ease;
-  border-radius: 10px;
-`
+  gap: 12px;
 
-interface TrafficCard {
-  id: number
-  title: string
-  icon: string
-  content: string
-  category: string
-  subcategory?: string
-  order_index: number
-  created_at: string
-  updated_at: string
-}
+  button {
+    border: none;
+    border-radius: 15px;
+    padding: 6px 14px;
+    background: #FFB347;
+    color: white;
+    font-weight: 600;
+    cursor: pointer;
+  }
 
-// 巡礼清单数据
-const checklistData = [
-  {
-    id: 'pre-departure',
-    title: '出行前准备',
-    icon: '✈️',
-    items: [
-      '护照/签证办理',
-      '机票预订',
-      '住宿预订',
-      '旅行保险购买',
-      '日元兑换/银行卡准备',
-      '手机卡/随身WiFi准备',
-      '行李打包（衣物、药品、充电器等）',
-      '重要文件复印/电子备份'
-    ]
-  },
-  {
-    id: 'flight-transport',
-    title: '机票与交通',
-    icon: '🚌',
-    items: [
-      '选择出发城市及航班',
-      '机票购买平台比价',
-      '了解行李托运规定',
-      '熟悉值机与登机流程',
-      '了解日本入境流程',
-      '准备交通卡购买',
-      '查询机场换乘信息'
-    ]
-  },
-  {
-    id: 'japan-itinerary',
-    title: '日本国内行程',
-    icon: '🎌',
-    items: [
-      '确定机场到高松的交通方式',
-      '查询详细换乘流程',
-      '学习购票机使用方法',
-      '规划景点交通路线',
-      '准备各种路线方案',
-      '下载相关交通APP',
-      '收藏实用网站链接'
-    ]
-  },
-  {
-    id: 'schedule-budget',
-    title: '行程安排与预算',
-    icon: '📅',
-    items: [
-      '制定每日行程计划',
-      '预算分配（交通、住宿、餐饮等）',
-      '预订热门景点门票',
-      '安排购物时间和地点',
-      '制定应急预案',
-      '准备离境相关安排'
-    ]
-  },
-  {
-    id: 'useful-tools',
-    title: '实用工具推荐',
-    icon: '🛠️',
-    items: [
-      'Google Maps （路线规划）',
-      'Yahoo!乘换案内 （换乘查询）',
-      'Google Translate （语言翻译）',
-      '日本旅游APP下载',
-      '天气预报查询',
-      '汇率查询工具',
-      '紧急联系方式记录'
-    ]
-  },
-  {
-    id: 'pilgrimage-specific',
-    title: '圣地巡礼专项',
-    icon: '🌟',
-    items: [
-      '女木岛交通及景点信息',
-      '男木岛交通及景点信息',
-      '直岛交通及景点信息',
-      '拍照地点标记',
-      '开放时间确认',
-      '门票或预约信息',
-      '特殊交通工具安排'
-    ]
+  button:disabled {
+    opacity: 0.6;
+    cursor: wait;
   }
-]
+`
 
 const TrafficPage: React.FC = () => {
   const navigate = useNavigate()
-  const [activeMainTab, setActiveMainTab] = useState<'international' | 'domestic' | 'checklist'>('international')
-  const [activeSubTab, setActiveSubTab] = useState<'guangzhou' | 'other'>('guangzhou')
-  const [activeDomesticTab, setActiveDomesticTab] = useState<'kansai-takamatsu' | 'other'>('kansai-takamatsu')
-  const [checkedItems, setCheckedItems] = useState<Set<string>>(new Set())
-  const [isDownloading, setIsDownloading] = useState(false)
+  const { locale, t } = useLocale()
+  // 主标签与路线与 URL 同步：/traffic/大类/路线、/traffic/budget、/traffic/checklist
+  const params = useParams<{ tab?: string; route?: string }>()
+  const activeMainTab = params.tab ?? trafficCategories[0].id
+  // 记住每个大类上次选中的路线，切回该大类时恢复；未选择时默认第一条有攻略的路线
+  const [activeRouteTabs, setActiveRouteTabs] = useState<Record<string, string>>({})
   // 交通卡片数据
-  const [trafficCardsData, setTrafficCardsData] = useState<TrafficCard[]>([])
-  useEffect(() => {
-    fetch('/trafficdata/InDeparture/traffic_cards.json')
-      .then(res => res.json())
-      .then(data => setTrafficCardsData(data))
-      .catch(() => setTrafficCardsData([]))
-  }, [])
+  const {
+    cards: trafficCardsData,
+    source: trafficCardsSource,
+    fetchedAt: trafficCardsFetchedAt,
+    isStale: isTrafficCardsStale,
+    isLoading: isTrafficCardsLoading,
+    error: trafficCardsError,
+    refresh: refreshTrafficCards
+  } = useTrafficCards()
 
-  const handleBack = () => {
-    navigate('/contents')
-  }
-
-  const handleItemCheck = (sectionId: string, itemIndex: number) => {
-    const itemId = `${sectionId}-${itemIndex}`
-    setCheckedItems(prev => {
-      const newSet = new Set(prev)
-      if (newSet.has(itemId)) {
-        newSet.delete(itemId)
-      } else {
-        newSet.add(itemId)
-      }
-      return newSet
-    })
-  }
-
-  const handleDownloadPDF = async () => {
-    setIsDownloading(true)
-    try {
-      // 直接下载public/files目录下的PDF文件
-      const response = await fetch('/files/鸟白岛巡礼list.pdf')
-      
-      if (!response.ok) {
-        throw new Error('下载失败')
-      }
-
-      const blob = await response.blob()
-      const url = window.URL.createObjectURL(blob)
-      const a = document.createElement('a')
-      a.style.display = 'none'
-      a.href = url
-      a.download = '鸟白岛巡礼list.pdf'
-      document.body.appendChild(a)
-      a.click()
-      window.URL.revokeObjectURL(url)
-      document.body.removeChild(a)
-    } catch (error) {
-      console.error('下载失败:', error)
-      alert('下载失败，请稍后再试')
-    } finally {
-      setIsDownloading(false)
-    }
-  }
+  useEffect(() => {
+    if (params.tab && params.route) setActiveRouteTabs(prev => ({ ...prev, [params.tab!]: params.route! }))
+  }, [params.tab, params.route])
 
-  const getTotalItems = () => {
-    return checklistData.reduce((total, section) => total + section.items.length, 0)
+  // 搜索结果深链接：?card=卡片id 或 ?item=清单项id 定位到具体内容
+  const location = useLocation()
+  const [searchParams] = useSearchParams()
+  useEffect(() => {
+    const cardId = searchParams.get('card')
+    const itemId = searchParams.get('item')
+    const targetId = cardId ? `traffic-card-${cardId}` : itemId ? `checklist-item-${itemId}` : null
+    if (targetId) return focusSearchTarget(targetId)
+  }, [location.key])
+
+  const setActiveMainTab = (tab: string) => {
+    if (tab !== activeMainTab) navigate(getTrafficPath(tab, activeRouteTabs[tab]))
   }
 
-  const getCheckedCount = () => {
-    return checkedItems.size
-  }
+  const categories = getTrafficCategories(trafficCardsData, locale)
+  const activeCategory = categories.find(category => category.id === activeMainTab)
 
-  const getProgress = () => {
-    const total = getTotalItems()
-    const checked = getCheckedCount()
-    return total > 0 ? (checked / total) * 100 : 0
+  const handleBack = () => {
+    navigate('/contents')
   }
 
-
-
-  const renderInternationalContent = () => {
-    const internationalCards = activeSubTab === 'guangzhou'
-      ? trafficCardsData.filter(card => card.category === 'international' && card.subcategory === 'guangzhou')
-      : []
+  const renderRouteContent = (category: TrafficCategory) => {
+    const tabs = getRouteTabs(category.id, trafficCardsData, locale)
+    const activeTab = tabs.find(tab => tab.id === (params.route ?? activeRouteTabs[category.id]))
+      ?? tabs.find(tab => tab.cards.length > 0)
+      ?? tabs[0]
+    const route = activeTab?.route
 
     return (
       <AnimatePresence mode="wait">
         <motion.div
-          key="international"
+          key={category.id}
           initial={{ opacity: 0, y: 20 }}
           animate={{ opacity: 1, y: 0 }}
           exit={{ opacity: 0, y: -20 }}
           transition={{ duration: 0.3 }}
         >
           <SubNavigation>
-            <SubNavItem 
-              active={activeSubTab === 'guangzhou'} 
-              onClick={() => setActiveSubTab('guangzhou')}
-            >
-              广州-春秋航空
-            </SubNavItem>
-            <SubNavItem 
-              active={activeSubTab === 'other'} 
-              onClick={() => setActiveSubTab('other')}
-            >
-              其他城市
-              <ComingSoonBadge>即将开放</ComingSoonBadge>
-            </SubNavItem>
+            {tabs.map(tab => (
+              <SubNavItem
+                key={tab.id}
+                active={tab.id === activeTab?.id}
+                onClick={() => navigate(getTrafficPath(category.id, tab.id), { replace: tab.id === activeTab?.id })}
+              >
+                {tab.label}
+                {tab.cards.length === 0 && !isTrafficCardsLoading && <ComingSoonBadge>{t('traffic.comingSoon')}</ComingSoonBadge>}
+              </SubNavItem>
+            ))}
           </SubNavigation>
-          
+
           <Content>
-            {activeSubTab === 'guangzhou' && internationalCards.length > 0 ? (
-              <TrafficInfoGrid 
-                cards={internationalCards} 
-                title="国际出行攻略 - 广州春秋航空"
+            {route && (
+              <RouteSummary>
+                <span>🛫 {t('traffic.origin')}<strong>{route.origin}</strong></span>
+                <span>📍 {t('traffic.departure')}<strong>{route.airport}</strong></span>
+                <span>🚆 {t('traffic.carrier')}<strong>{route.carrier}</strong></span>
+                {getLegsDuration(route.legs) > 0 && (
+                  <span>⏱️ {t('traffic.duration')}<strong>{t('traffic.about', { value: formatDuration(getLegsDuration(route.legs), locale) })}</strong></span>
+                )}
+              </RouteSummary>
+            )}
+
+            {activeTab && activeTab.cards.length > 0 ? (
+              <TrafficCardList
+                cards={activeTab.cards}
+                title={`${category.title ?? category.label} - ${activeTab.label}`}
               />
-            ) : activeSubTab === 'guangzhou' && (
+            ) : isTrafficCardsLoading ? (
               <div style={{ textAlign: 'center', padding: '40px', color: '#666' }}>
-                暂无攻略数据
+                {t('traffic.loading')}
               </div>
-            )}
-            
-            {activeSubTab === 'other' && (
+            ) : (
               <ContentSection>
-                <SectionTitle>其他城市攻略</SectionTitle>
+                <SectionTitle>{t('traffic.guideTitle', { name: activeTab?.label ?? category.label })}</SectionTitle>
                 <div style={{ textAlign: 'center', padding: '60px 0' }}>
                   <div style={{ fontSize: '48px', marginBottom: '20px' }}>🚧</div>
-                  <h3 style={{ color: '#FF6B35', marginBottom: '15px' }}>内容准备中</h3>
+                  <h3 style={{ color: '#FF6B35', marginBottom: '15px' }}>{t('traffic.preparing')}</h3>
                   <p style={{ color: '#666', fontSize: '18px' }}>
-                    我们正在整理更多城市的交通攻略，包括：
+                    {t('traffic.preparingLine1')}
                     <br />
-                    北京、上海、深圳、成都、杭州等主要城市
+                    {t('traffic.preparingLine2')}
                   </p>
                 </div>
               </ContentSection>
@@ -576,66 +342,29 @@ const TrafficPage: React.FC = () => {
     )
   }
 
-  const renderDomesticContent = () => {
-    const domesticCards = trafficCardsData.filter(card => card.category === 'domestic' && card.subcategory === 'kansai-takamatsu')
+  const renderBudgetContent = () => {
     return (
       <AnimatePresence mode="wait">
         <motion.div
-          key="domestic"
+          key="budget"
           initial={{ opacity: 0, y: 20 }}
           animate={{ opacity: 1, y: 0 }}
           exit={{ opacity: 0, y: -20 }}
           transition={{ duration: 0.3 }}
         >
-          <SubNavigation>
-            <SubNavItem 
-              active={activeDomesticTab === 'kansai-takamatsu'} 
-              onClick={() => setActiveDomesticTab('kansai-takamatsu')}
-            >
-              关西机场→高松（电车）
-            </SubNavItem>
-            <SubNavItem 
-              active={activeDomesticTab === 'other'} 
-              onClick={() => setActiveDomesticTab('other')}
-            >
-              其他路线
-              <ComingSoonBadge>即将开放</ComingSoonBadge>
-            </SubNavItem>
-          </SubNavigation>
           <Content>
-            {activeDomesticTab === 'kansai-takamatsu' && (
-              <ContentGrid>
-                {domesticCards.sort((a, b) => a.order_index - b.order_index).map(card => (
-                  <ContentCard
-                    key={card.id}
-                    initial={{ opacity: 0, y: 20 }}
-                    animate={{ opacity: 1, y: 0 }}
-                    transition={{ delay: 0.1 * card.order_index }}
-                  >
-                    <CardTitle>
-                      <span>{card.icon}</span>
-                      {card.title}
-                    </CardTitle>
-                    <CardContent>
-                      {card.content.split('\n').map((line, idx) => <div key={idx}>{line}</div>)}
-                    </CardContent>
-                  </ContentCard>
-                ))}
-              </ContentGrid>
-            )}
-            {activeDomesticTab === 'other' && (
-              <ContentSection>
-                <SectionTitle>其他路线攻略</SectionTitle>
-                <div style={{ textAlign: 'center', padding: '60px 0' }}>
-                  <div style={{ fontSize: '48px', marginBottom: '20px' }}>🚧</div>
-                  <h3 style={{ color: '#FF6B35', marginBottom: '15px' }}>内容准备中</h3>
-                  <p style={{ color: '#666', fontSize: '18px' }}>
-                    我们正在整理更多交通方式，包括：<br />
-                    大巴路线、轮船路线、租车自驾等
-                  </p>
-                </div>
-              </ContentSection>
-            )}
+            <ContentSection>
+              <SectionTitle>{t('traffic.budget')}</SectionTitle>
+              <div style={{ textAlign: 'center', marginBottom: '30px' }}>
+                <p style={{ fontSize: '18px', color: '#666' }}>
+                  {t('traffic.budgetDesc1')}
+                  <br />
+                  {t('traffic.budgetDesc2')}
+                </p>
+              </div>
+
+              <TripBudget cards={trafficCardsData} />
+            </ContentSection>
           </Content>
         </motion.div>
       </AnimatePresence>
@@ -654,66 +383,18 @@ const TrafficPage: React.FC = () => {
         >
           <Content>
             <ContentSection>
-              <SectionTitle>巡礼任务清单</SectionTitle>
+              <SectionTitle>{t('traffic.checklist')}</SectionTitle>
               <div style={{ textAlign: 'center', marginBottom: '40px' }}>
                 <p style={{ fontSize: '18px', color: '#666', marginBottom: '30px' }}>
-                  为帮助零经验网友顺利完成圣地巡礼计划，我们特别制作了详细的任务清单。
+                  {t('traffic.checklistDesc1')}
                   <br />
-                  建议下载PDF版本并打印，逐项打勾确保每一步都不遗漏。
+                  {t('traffic.checklistDesc2')}
+                  <br />
+                  {t('traffic.checklistDesc3')}
                 </p>
-                <DownloadButton
-                  onClick={handleDownloadPDF}
-                  disabled={isDownloading}
-                  whileHover={{ scale: 1.05 }}
-                  whileTap={{ scale: 0.95 }}
-                >
-                  {isDownloading ? '📄 下载中...' : '📄 下载巡礼清单'}
-                </DownloadButton>
               </div>
 
-              <ProgressBar>
-                <ProgressText>
-                  完成进度：{getCheckedCount()} / {getTotalItems()} 项 ({Math.round(getProgress())}%)
-                </ProgressText>
-                <ProgressTrack>
-                  <ProgressFill percentage={getProgress()} />
-                </ProgressTrack>
-              </ProgressBar>
-
-              <ChecklistContainer>
-                {checklistData.map((section) => (
-                  <ChecklistSection
-                    key={section.id}
-                    initial={{ opacity: 0, y: 50 }}
-                    animate={{ opacity: 1, y: 0 }}
-                    transition={{ duration: 0.6 }}
-                  >
-                    <ChecklistSectionHeader>
-                      <ChecklistSectionIcon>{section.icon}</ChecklistSectionIcon>
-                      <ChecklistSectionTitle>{section.title}</ChecklistSectionTitle>
-                    </ChecklistSectionHeader>
-                    
-                    {section.items.map((item, index) => {
-                      const itemId = `${section.id}-${index}`
-                      const isChecked = checkedItems.has(itemId)
-                      
-                      return (
-                        <ChecklistItem key={index} checked={isChecked}>
-                          <CheckBox 
-                            checked={isChecked}
-                            onClick={() => handleItemCheck(section.id, index)}
-                          >
-                            {isChecked && '✓'}
-                          </CheckBox>
-                          <ItemText checked={isChecked}>
-                            {item}
-                          </ItemText>
-                        </ChecklistItem>
-                      )
-                    })}
-                  </ChecklistSection>
-                ))}
-              </ChecklistContainer>
+              <TravelChecklist />
             </ContentSection>
           </Content>
         </motion.div>
@@ -730,34 +411,52 @@ const TrafficPage: React.FC = () => {
             whileHover={{ scale: 1.05 }}
             whileTap={{ scale: 0.95 }}
           >
-            🏠 返回目录
+            🏠 {t('common.backToContents')}
           </BackButton>
-          <Title>Summer Pockets 交通攻略</Title>
+          <Title>{t('traffic.title')}</Title>
         </div>
         <MainNavigation>
-          <MainNavItem 
-            active={activeMainTab === 'international'} 
-            onClick={() => setActiveMainTab('international')}
-          >
-            国际出发
-          </MainNavItem>
-          <MainNavItem 
-            active={activeMainTab === 'domestic'} 
-            onClick={() => setActiveMainTab('domestic')}
+          {categories.map(category => (
+            <MainNavItem
+              key={category.id}
+              active={activeMainTab === category.id}
+              onClick={() => setActiveMainTab(category.id)}
+            >
+              {category.label}
+            </MainNavItem>
+          ))}
+          <MainNavItem
+            active={activeMainTab === 'budget'}
+            onClick={() => setActiveMainTab('budget')}
           >
-            日本国内出发
+            {t('traffic.budget')}
           </MainNavItem>
           <MainNavItem 
             active={activeMainTab === 'checklist'} 
             onClick={() => setActiveMainTab('checklist')}
           >
-            巡礼任务清单
+            {t('traffic.checklist')}
           </MainNavItem>
         </MainNavigation>
       </Header>
 
-      {activeMainTab === 'international' && renderInternationalContent()}
-      {activeMainTab === 'domestic' && renderDomesticContent()}
+      {activeMainTab !== 'checklist' && (trafficCardsError || isTrafficCardsStale) && (
+        <StaleNotice error={trafficCardsError}>
+          <span>
+            {trafficCardsError
+              ? `⚠️ ${t('traffic.loadFailed')}`
+              : trafficCardsSource === 'cache' && trafficCardsFetchedAt
+                ? `📡 ${t('traffic.staleCache', { time: formatDateTime(trafficCardsFetchedAt, locale) })}`
+                : `📡 ${t('traffic.staleBuiltin')}`}
+          </span>
+          <button type="button" onClick={refreshTrafficCards} disabled={isTrafficCardsLoading}>
+            {isTrafficCardsLoading ? t('traffic.refreshing') : t('traffic.reload')}
+          </button>
+        </StaleNotice>
+      )}
+
+      {activeCategory && renderRouteContent(activeCategory)}
+      {activeMainTab === 'budget' && renderBudgetContent()}
       {activeMainTab === 'checklist' && renderChecklistContent()}
 
     </Container>
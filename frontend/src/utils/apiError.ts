@@ -0,0 +1,12 @@
+// 后端错误格式为 { detail: { message, code } }，旧接口的 detail 可能是字符串
+export const getApiErrorMessage = async (response: Response, fallback: string) => {
+  try {
+    const data = await response.json()
+    const detail = data?.detail
+    if (typeof detail === 'string') return detail
+    if (detail?.message) return detail.message as string
+  } catch {
+    // 响应不是 JSON
+  }
+  return fallback
+}
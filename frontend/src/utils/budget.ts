@@ -0,0 +1,196 @@
+// 旅行预算：费用项、汇率与出行人数保存在本地，汇率由用户手动填写，离线时也能使用
+import { TrafficCard, TransferLeg, TransferMode, hasTransferLegs } from './trafficCards'
+import { DEFAULT_LOCALE, Locale, formatCurrency, translate } from './i18n'
+
+const STORAGE_KEY = 'sprb-budget'
+const DEFAULT_RATE = 20 // 1 人民币可兑换的日元，仅作初始值
+
+export type BudgetCategory = 'flight' | 'rail' | 'ferry' | 'bus' | 'lodging' | 'meals' | 'other'
+export type BudgetCurrency = 'CNY' | 'JPY'
+
+export interface BudgetItem {
+  id: string
+  category: BudgetCategory
+  name: string
+  amount: number
+  currency: BudgetCurrency
+  perPerson: boolean // true：每人一份（车票等）；false：全员分摊（住宿房费等）
+  source?: string // 从交通攻略导入时记录来源卡片标题
+}
+
+export interface BudgetState {
+  rate: number // 1 CNY = rate JPY
+  rateUpdatedAt: string | null
+  people: number
+  items: BudgetItem[]
+}
+
+export interface BudgetAmount {
+  cny: number
+  jpy: number
+}
+
+export interface BudgetCategoryTotal {
+  category: BudgetCategory
+  total: BudgetAmount // 全员合计
+  perPerson: BudgetAmount
+}
+
+export const budgetCategoryIcons: Record<BudgetCategory, string> = {
+  flight: '✈️',
+  rail: '🚆',
+  ferry: '⛴️',
+  bus: '🚌',
+  lodging: '🏨',
+  meals: '🍱',
+  other: '🧾'
+}
+
+export const budgetCategories: BudgetCategory[] = ['flight', 'rail', 'ferry', 'bus', 'lodging', 'meals', 'other']
+
+const legCategories: Record<TransferMode, BudgetCategory | null> = {
+  flight: 'flight',
+  train: 'rail',
+  bus: 'bus',
+  ferry: 'ferry',
+  walk: null
+}
+
+export const createBudgetItemId = () =>
+  `budget-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`
+
+const createDefaultState = (): BudgetState => ({
+  rate: DEFAULT_RATE,
+  rateUpdatedAt: null,
+  people: 1,
+  items: []
+})
+
+// 统一换算为人民币和日元两种金额
+export const convertAmount = (amount: number, currency: BudgetCurrency, rate: number): BudgetAmount =>
+  currency === 'CNY'
+    ? { cny: amount, jpy: amount * rate }
+    : { cny: rate > 0 ? amount / rate : 0, jpy: amount }
+
+const addAmount = (a: BudgetAmount, b: BudgetAmount): BudgetAmount => ({ cny: a.cny + b.cny, jpy: a.jpy + b.jpy })
+
+const scaleAmount = (value: BudgetAmount, factor: number): BudgetAmount => ({ cny: value.cny * factor, jpy: value.jpy * factor })
+
+const emptyAmount: BudgetAmount = { cny: 0, jpy: 0 }
+
+// 单项费用的全员合计与人均
+export const getItemAmounts = (item: BudgetItem, state: BudgetState) => {
+  const people = Math.max(1, state.people)
+  const unit = convertAmount(item.amount, item.currency, state.rate)
+  return item.perPerson
+    ? { total: scaleAmount(unit, people), perPerson: unit }
+    : { total: unit, perPerson: scaleAmount(unit, 1 / people) }
+}
+
+export const getBudgetTotals = (state: BudgetState) => {
+  const byCategory: BudgetCategoryTotal[] = budgetCategories
+    .map(category => state.items
+      .filter(item => item.category === category)
+      .reduce<BudgetCategoryTotal>((sum, item) => {
+        const amounts = getItemAmounts(item, state)
+        return {
+          category,
+          total: addAmount(sum.total, amounts.total),
+          perPerson: addAmount(sum.perPerson, amounts.perPerson)
+        }
+      }, { category, total: emptyAmount, perPerson: emptyAmount }))
+    .filter(total => total.total.cny > 0 || total.total.jpy > 0)
+
+  return {
+    byCategory,
+    total: byCategory.reduce((sum, item) => addAmount(sum, item.total), emptyAmount),
+    perPerson: byCategory.reduce((sum, item) => addAmount(sum, item.perPerson), emptyAmount)
+  }
+}
+
+// 把换乘路线中带参考票价的各段转换为预算项（票价按每人计）
+export const createBudgetItemsFromLegs = (legs: TransferLeg[], source: string): BudgetItem[] =>
+  legs.flatMap(leg => {
+    const category = legCategories[leg.mode]
+    if (!category || !leg.fareJPY) return []
+    return [{
+      id: createBudgetItemId(),
+      category,
+      name: `${leg.line ?? leg.from} ${leg.from}→${leg.to}`,
+      amount: leg.fareJPY,
+      currency: 'JPY' as const,
+      perPerson: true,
+      source
+    }]
+  })
+
+// 可导入预算的攻略卡片：至少有一段带参考票价
+export const getImportableCards = (cards: TrafficCard[]) =>
+  cards.filter(card => hasTransferLegs(card) && card.legs!.some(leg => !!leg.fareJPY && legCategories[leg.mode]))
+
+export const formatCNY = (value: number, locale: Locale = DEFAULT_LOCALE) => formatCurrency(value, 'CNY', locale)
+export const formatJPY = (value: number, locale: Locale = DEFAULT_LOCALE) => formatCurrency(value, 'JPY', locale)
+
+// 用户填写的文本以 = + - @ 开头时加上单引号，避免在 Excel 中被当作公式执行；数字列保持原样
+const escapeCsv = (value: string | number) => {
+  const text = typeof value === 'string' && /^[=+\-@\t\r]/.test(value) ? `'${value}` : String(value)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+// 导出 CSV，开头加 BOM 以便 Excel 正确识别中文
+export const exportBudgetCsv = (state: BudgetState, locale: Locale = DEFAULT_LOCALE) => {
+  const t = (key: string) => translate(locale, `budget.csv.${key}`)
+  const rows: (string | number)[][] = [
+    ['category', 'name', 'amount', 'currency', 'billing', 'totalCNY', 'totalJPY', 'perPersonCNY', 'perPersonJPY', 'source'].map(t)
+  ]
+  state.items.forEach(item => {
+    const { total, perPerson } = getItemAmounts(item, state)
+    rows.push([
+      translate(locale, `budget.categories.${item.category}`),
+      item.name,
+      item.amount,
+      item.currency,
+      translate(locale, item.perPerson ? 'budget.perPerson' : 'budget.shared'),
+      total.cny.toFixed(2),
+      Math.round(total.jpy),
+      perPerson.cny.toFixed(2),
+      Math.round(perPerson.jpy),
+      item.source ?? ''
+    ])
+  })
+  const totals = getBudgetTotals(state)
+  rows.push([])
+  rows.push([t('total'), '', '', '', '', totals.total.cny.toFixed(2), Math.round(totals.total.jpy), totals.perPerson.cny.toFixed(2), Math.round(totals.perPerson.jpy), ''])
+  rows.push([t('rate'), `1 CNY = ${state.rate} JPY`, '', '', '', '', '', '', '', ''])
+  rows.push([t('people'), state.people, '', '', '', '', '', '', '', ''])
+  return '\uFEFF' + rows.map(row => row.map(escapeCsv).join(',')).join('\r\n')
+}
+
+export const loadBudgetState = (): BudgetState => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY)
+    if (!raw) return createDefaultState()
+    const saved = JSON.parse(raw) as Partial<BudgetState>
+    const defaults = createDefaultState()
+    // 汇率为 0 或人数小于 1 会让换算与人均出现 Infinity/NaN，这类旧数据改用默认值
+    const isPositive = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value) && value > 0
+    return {
+      ...defaults,
+      ...saved,
+      rate: isPositive(saved.rate) ? saved.rate : defaults.rate,
+      people: isPositive(saved.people) && saved.people >= 1 ? saved.people : defaults.people,
+      items: Array.isArray(saved.items) ? saved.items : []
+    }
+  } catch (error) {
+    console.warn('读取旅行预算失败:', error)
+    return createDefaultState()
+  }
+}
+
+export const saveBudgetState = (state: BudgetState) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(state))
+  } catch (error) {
+    console.warn('保存旅行预算失败:', error)
+  }
+}
@@ -0,0 +1,49 @@
+// 现场拍摄的照片较大，不适合放进 localStorage，统一存放在 IndexedDB 中
+// 打卡记录里只保存照片 id，需要显示时再按 id 读取
+
+const DB_NAME = 'sprb-captures'
+const STORE_NAME = 'photos'
+const DB_VERSION = 1
+
+const openDatabase = (): Promise<IDBDatabase> => new Promise((resolve, reject) => {
+  const request = indexedDB.open(DB_NAME, DB_VERSION)
+  request.onupgradeneeded = () => {
+    const db = request.result
+    if (!db.objectStoreNames.contains(STORE_NAME)) {
+      db.createObjectStore(STORE_NAME)
+    }
+  }
+  request.onsuccess = () => resolve(request.result)
+  request.onerror = () => reject(request.error)
+})
+
+// 在单个事务中执行操作，完成后关闭连接
+const withStore = async <T>(
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase()
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(STORE_NAME, mode)
+      const request = action(transaction.objectStore(STORE_NAME))
+      transaction.oncomplete = () => resolve(request.result)
+      transaction.onerror = () => reject(transaction.error)
+      transaction.onabort = () => reject(transaction.error)
+    })
+  } finally {
+    db.close()
+  }
+}
+
+export const saveCapturePhoto = async (id: string, blob: Blob): Promise<void> => {
+  await withStore('readwrite', store => store.put(blob, id))
+}
+
+export const getCapturePhoto = async (id: string): Promise<Blob | undefined> => {
+  return withStore<Blob | undefined>('readonly', store => store.get(id))
+}
+
+export const deleteCapturePhoto = async (id: string): Promise<void> => {
+  await withStore('readwrite', store => store.delete(id))
+}
@@ -0,0 +1,157 @@
+// 巡礼任务清单：默认清单来自 data/checklist/default.json，用户的勾选、自定义项与多次行程保存在本地
+import defaultChecklist from '../data/checklist/default.json'
+import { DEFAULT_LOCALE, Locale, Translations, localizeFields, translate } from './i18n'
+
+const STORAGE_KEY = 'sprb-checklists'
+const DAY_MS = 24 * 60 * 60 * 1000
+const DUE_SOON_DAYS = 3 // 距截止日少于该天数时提醒
+
+export interface ChecklistItem {
+  id: string // 稳定 id，调整清单顺序不会影响勾选记录
+  text: string
+  dueDays?: number // 建议在出发前多少天完成
+  custom?: boolean
+  translations?: Translations<Pick<ChecklistItem, 'text'>> // 仅默认清单提供，自定义项按用户输入显示
+}
+
+export interface ChecklistSection {
+  id: string
+  title: string
+  icon: string
+  items: ChecklistItem[]
+  custom?: boolean
+  translations?: Translations<Pick<ChecklistSection, 'title'>>
+}
+
+// 一次出行对应一份清单
+export interface ChecklistTrip {
+  id: string
+  name: string
+  departureDate: string // YYYY-MM-DD，未设置时为空字符串
+  checkedIds: string[]
+  customItems: Record<string, ChecklistItem[]> // 按分类 id 追加到默认分类中
+  customSections: ChecklistSection[]
+  createdAt: string
+}
+
+export interface ChecklistState {
+  activeTripId: string
+  trips: ChecklistTrip[]
+}
+
+export type DueStatus = 'done' | 'overdue' | 'soon' | 'upcoming'
+
+export interface ChecklistDue {
+  date: Date
+  daysLeft: number // 距截止日的天数，负数表示已逾期
+  status: DueStatus
+}
+
+export const defaultChecklistSections = defaultChecklist.sections as ChecklistSection[]
+
+export const createChecklistId = (prefix: string) =>
+  `${prefix}-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`
+
+export const createTrip = (name: string): ChecklistTrip => ({
+  id: createChecklistId('trip'),
+  name,
+  departureDate: '',
+  checkedIds: [],
+  customItems: {},
+  customSections: [],
+  createdAt: new Date().toISOString()
+})
+
+// 复制为新的行程：保留自定义项，清空勾选与出发日期
+export const duplicateTrip = (trip: ChecklistTrip, name: string): ChecklistTrip => ({
+  ...createTrip(name),
+  customItems: Object.fromEntries(
+    Object.entries(trip.customItems).map(([sectionId, items]) => [sectionId, items.map(item => ({ ...item }))])
+  ),
+  customSections: trip.customSections.map(section => ({
+    ...section,
+    items: section.items.map(item => ({ ...item }))
+  }))
+})
+
+// 默认分类 + 自定义项 + 自定义分类
+export const getTripSections = (trip: ChecklistTrip): ChecklistSection[] => [
+  ...defaultChecklistSections.map(section => ({
+    ...section,
+    items: [...section.items, ...(trip.customItems[section.id] ?? [])]
+  })),
+  ...trip.customSections
+]
+
+export const localizeSections = (sections: ChecklistSection[], locale: Locale): ChecklistSection[] =>
+  locale === DEFAULT_LOCALE ? sections : sections.map(section => ({
+    ...localizeFields(section, locale),
+    items: section.items.map(item => localizeFields(item, locale))
+  }))
+
+export const getTripProgress = (trip: ChecklistTrip) => {
+  const itemIds = getTripSections(trip).flatMap(section => section.items.map(item => item.id))
+  const checked = itemIds.filter(id => trip.checkedIds.includes(id)).length
+  return {
+    checked,
+    total: itemIds.length,
+    percent: itemIds.length === 0 ? 0 : Math.round((checked / itemIds.length) * 100)
+  }
+}
+
+// 按本地时区解析 YYYY-MM-DD
+const fromDateString = (value: string) => {
+  const [year, month, day] = value.split('-').map(Number)
+  return new Date(year, month - 1, day)
+}
+
+const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate())
+
+// 根据出发日期计算某项的截止日；未设置出发日期或该项没有建议天数时返回 undefined
+export const getItemDue = (
+  item: ChecklistItem,
+  departureDate: string,
+  checked: boolean,
+  today: Date = new Date()
+): ChecklistDue | undefined => {
+  if (!departureDate || item.dueDays === undefined) return undefined
+  const departure = fromDateString(departureDate)
+  const date = new Date(departure.getFullYear(), departure.getMonth(), departure.getDate() - item.dueDays)
+  const daysLeft = Math.round((date.getTime() - startOfDay(today).getTime()) / DAY_MS)
+  const status: DueStatus = checked
+    ? 'done'
+    : daysLeft < 0 ? 'overdue' : daysLeft <= DUE_SOON_DAYS ? 'soon' : 'upcoming'
+  return { date, daysLeft, status }
+}
+
+export const formatDueDays = (dueDays: number, locale: Locale = DEFAULT_LOCALE) =>
+  dueDays === 0 ? translate(locale, 'checklist.dueOnDeparture') : translate(locale, 'checklist.dueBefore', { days: dueDays })
+
+const createDefaultState = (): ChecklistState => {
+  const trip = createTrip('我的巡礼')
+  return { activeTripId: trip.id, trips: [trip] }
+}
+
+// 读取本地清单，数据损坏时重新创建
+export const loadChecklistState = (): ChecklistState => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY)
+    if (!raw) return createDefaultState()
+    const saved = JSON.parse(raw) as ChecklistState
+    if (!Array.isArray(saved.trips) || saved.trips.length === 0) return createDefaultState()
+    const trips = saved.trips.map(trip => ({ ...createTrip(trip.name), ...trip }))
+    const activeTripId = trips.some(trip => trip.id === saved.activeTripId) ? saved.activeTripId : trips[0].id
+    return { activeTripId, trips }
+  } catch (error) {
+    console.warn('读取巡礼清单失败:', error)
+    return createDefaultState()
+  }
+}
+
+export const saveChecklistState = (state: ChecklistState) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(state))
+  } catch (error) {
+    console.warn('保存巡礼清单失败:', error)
+  }
+}
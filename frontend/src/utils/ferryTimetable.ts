@@ -0,0 +1,200 @@
+// 渡轮时刻表：数据来自 data/ferry/timetable.json，提供按日期/时间的班次查询
+import timetableData from '../data/ferry/timetable.json'
+import { DEFAULT_LOCALE, Locale, Translations, localizeFields } from './i18n'
+
+export type FerryVessel = 'ferry' | 'express' // フェリー / 高速船
+// 平日与节假日时刻相同的航线用 daily，不同的航线分别给出 weekday/holiday 两套班次（见各航线 note）
+export type ServiceDays = 'daily' | 'weekday' | 'holiday' // holiday 包含周末与日本法定节假日
+
+export interface FerryPort {
+  id: string
+  name: string
+  islandId?: string // 对应 data/islands 中的岛屿
+  translations?: Translations<Pick<FerryPort, 'name'>>
+}
+
+export interface FerryTrip {
+  vessel: FerryVessel
+  times: string[] // 与 stops 一一对应的 HH:MM，终点为到达时间，其余为出发时间
+}
+
+export interface FerryTimetableVariant {
+  id: string
+  label: string
+  translations?: Translations<Pick<FerryTimetableVariant, 'label'>>
+  days: ServiceDays
+  period?: { from: string; to: string } // MM-DD，含首尾；有 period 的季节班次优先于通常班次
+  trips: FerryTrip[]
+}
+
+export interface FerryDirection {
+  id: string
+  stops: string[]
+  variants: FerryTimetableVariant[]
+}
+
+export interface FerryRoute {
+  id: string
+  name: string
+  operator: string
+  note?: string
+  translations?: Translations<Pick<FerryRoute, 'name' | 'note'>>
+  directions: FerryDirection[]
+}
+
+// 单个班次在某一出发港与到达港之间的查询结果
+export interface FerryDeparture {
+  routeId: string
+  routeName: string
+  variantLabel: string
+  vessel: FerryVessel
+  from: string
+  to: string
+  departure: number // 当天分钟数
+  arrival: number
+  isLast: boolean // 当天该方向的末班船
+}
+
+export const ferryPorts = timetableData.ports as FerryPort[]
+export const ferryRoutes = timetableData.routes as FerryRoute[]
+
+export const getFerryPort = (id: string): FerryPort | undefined =>
+  ferryPorts.find(port => port.id === id)
+
+export const getPortName = (id: string, locale: Locale = DEFAULT_LOCALE) => {
+  const port = getFerryPort(id)
+  return port ? localizeFields(port, locale).name : id
+}
+
+// 日本固定日期的法定节假日（MM-DD），移动节假日按周末处理即可满足巡礼需求
+const fixedHolidays = ['01-01', '02-11', '02-23', '04-29', '05-03', '05-04', '05-05', '08-11', '11-03', '11-23']
+
+const toMonthDay = (date: Date) =>
+  `${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`
+
+// 渡轮按日本时间运行，与设备所在时区无关
+const tokyoFormat = new Intl.DateTimeFormat('en-US', {
+  timeZone: 'Asia/Tokyo',
+  year: 'numeric',
+  month: 'numeric',
+  day: 'numeric',
+  hour: 'numeric',
+  minute: 'numeric',
+  hourCycle: 'h23'
+})
+
+// 日本时间的当前日期（以本地零点表示，供 isHoliday/getDepartures 使用）与当天分钟数
+export const getTokyoNow = (now: Date = new Date()) => {
+  const parts: Record<string, number> = {}
+  tokyoFormat.formatToParts(now).forEach(part => {
+    if (part.type !== 'literal') parts[part.type] = Number(part.value)
+  })
+  return {
+    date: new Date(parts.year, parts.month - 1, parts.day),
+    minutes: (parts.hour % 24) * 60 + parts.minute
+  }
+}
+
+export const isHoliday = (date: Date) => {
+  const day = date.getDay()
+  return day === 0 || day === 6 || fixedHolidays.includes(toMonthDay(date))
+}
+
+export const parseTime = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number)
+  return hours * 60 + minutes
+}
+
+export const formatTime = (minutes: number): string => {
+  const hours = Math.floor(minutes / 60)
+  return `${hours}:${String(minutes % 60).padStart(2, '0')}`
+}
+
+const isInPeriod = (monthDay: string, period: { from: string; to: string }) => {
+  // 支持跨年区间，如 12-20 ~ 01-05
+  if (period.from <= period.to) {
+    return monthDay >= period.from && monthDay <= period.to
+  }
+  return monthDay >= period.from || monthDay <= period.to
+}
+
+// 找出某方向在指定日期生效的班次表
+export const resolveVariant = (direction: FerryDirection, date: Date): FerryTimetableVariant | undefined => {
+  const monthDay = toMonthDay(date)
+  const holiday = isHoliday(date)
+  const candidates = direction.variants.filter(variant => {
+    if (variant.period && !isInPeriod(monthDay, variant.period)) return false
+    if (variant.days === 'weekday') return !holiday
+    if (variant.days === 'holiday') return holiday
+    return true
+  })
+  // 季节班次优先，其次是区分平日/休日的班次
+  return candidates.sort((a, b) => {
+    const score = (v: FerryTimetableVariant) => (v.period ? 2 : 0) + (v.days !== 'daily' ? 1 : 0)
+    return score(b) - score(a)
+  })[0]
+}
+
+// 查询某天从 from 到 to 的全部班次（按出发时间排序）
+export const getDepartures = (from: string, to: string, date: Date, locale: Locale = DEFAULT_LOCALE): FerryDeparture[] => {
+  const departures: FerryDeparture[] = []
+
+  ferryRoutes.forEach(route => {
+    route.directions.forEach(direction => {
+      const fromIndex = direction.stops.indexOf(from)
+      const toIndex = direction.stops.indexOf(to)
+      if (fromIndex === -1 || toIndex === -1 || fromIndex >= toIndex) return
+
+      const variant = resolveVariant(direction, date)
+      if (!variant) return
+
+      variant.trips.forEach(trip => {
+        departures.push({
+          routeId: route.id,
+          routeName: localizeFields(route, locale).name,
+          variantLabel: localizeFields(variant, locale).label,
+          vessel: trip.vessel,
+          from,
+          to,
+          departure: parseTime(trip.times[fromIndex]),
+          arrival: parseTime(trip.times[toIndex]),
+          isLast: false
+        })
+      })
+    })
+  })
+
+  departures.sort((a, b) => a.departure - b.departure)
+  if (departures.length > 0) {
+    departures[departures.length - 1].isLast = true
+  }
+  return departures
+}
+
+// "HH:MM 之后从这里出发的下一班船"
+export const getNextDeparture = (from: string, to: string, date: Date, afterMinutes: number, locale: Locale = DEFAULT_LOCALE) =>
+  getDepartures(from, to, date, locale).find(departure => departure.departure >= afterMinutes)
+
+export const getLastDeparture = (from: string, to: string, date: Date) => {
+  const departures = getDepartures(from, to, date)
+  return departures[departures.length - 1]
+}
+
+// 从某港口出发可直达的港口
+export const getReachablePorts = (from: string): string[] => {
+  const reachable = new Set<string>()
+  ferryRoutes.forEach(route => {
+    route.directions.forEach(direction => {
+      const fromIndex = direction.stops.indexOf(from)
+      if (fromIndex === -1) return
+      direction.stops.slice(fromIndex + 1).forEach(stop => reachable.add(stop))
+    })
+  })
+  return ferryPorts.map(port => port.id).filter(id => reachable.has(id))
+}
+
+// 连接两个港口的航线备注
+export const getRouteNotes = (from: string, to: string, locale: Locale = DEFAULT_LOCALE): string[] =>
+  ferryRoutes
+    .filter(route => route.note && route.directions.some(d => d.stops.includes(from) && d.stops.includes(to)))
+    .map(route => localizeFields(route, locale).note as string)
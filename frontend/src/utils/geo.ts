@@ -0,0 +1,135 @@
+// 地理坐标：把插画地图上的百分比坐标与经纬度互相换算，并计算距离与方位
+// 每张地图用若干控制点（地图百分比坐标 ↔ 经纬度）拟合一个仿射变换，可同时处理缩放、旋转与拉伸
+import { Locale, translate } from './i18n'
+
+export interface GeoPoint {
+  lat: number
+  lng: number
+}
+
+export interface MapPoint {
+  x: number // 百分比坐标 (0-100)
+  y: number
+}
+
+export type CalibrationPoint = MapPoint & GeoPoint
+
+export interface MapCalibration {
+  points: CalibrationPoint[] // 至少 3 个且不共线
+}
+
+export interface MapProjection {
+  toMap: (point: GeoPoint) => MapPoint
+  toGeo: (point: MapPoint) => GeoPoint
+  // 地图上正北方向相对竖直向上的角度（顺时针，度），用于旋转朝向箭头
+  northAngle: number
+  // 1 米对应的地图宽度百分比，用于绘制定位精度圈
+  percentPerMeter: number
+}
+
+const METERS_PER_DEGREE_LAT = 110940
+const EARTH_RADIUS = 6371000
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180
+const toDegrees = (radians: number) => (radians * 180) / Math.PI
+
+// 3x3 线性方程组（克莱姆法则），奇异时返回 null
+const solve3 = (m: number[][], v: number[]): number[] | null => {
+  const det = (a: number[][]) =>
+    a[0][0] * (a[1][1] * a[2][2] - a[1][2] * a[2][1]) -
+    a[0][1] * (a[1][0] * a[2][2] - a[1][2] * a[2][0]) +
+    a[0][2] * (a[1][0] * a[2][1] - a[1][1] * a[2][0])
+  const d = det(m)
+  if (Math.abs(d) < 1e-9) return null
+  return [0, 1, 2].map(column => det(m.map((row, i) => row.map((value, j) => (j === column ? v[i] : value)))) / d)
+}
+
+// 最小二乘拟合 target = a·e + b·n + c，e/n 为以控制点中心为原点的东向、北向米数
+const fitAxis = (samples: Array<{ e: number; n: number; target: number }>) => {
+  const sums = samples.reduce((acc, { e, n, target }) => ({
+    ee: acc.ee + e * e, en: acc.en + e * n, nn: acc.nn + n * n,
+    e: acc.e + e, n: acc.n + n, et: acc.et + e * target, nt: acc.nt + n * target, t: acc.t + target
+  }), { ee: 0, en: 0, nn: 0, e: 0, n: 0, et: 0, nt: 0, t: 0 })
+  return solve3(
+    [[sums.ee, sums.en, sums.e], [sums.en, sums.nn, sums.n], [sums.e, sums.n, samples.length]],
+    [sums.et, sums.nt, sums.t]
+  )
+}
+
+// aspectRatio 为地图图片宽高比，用于把百分比坐标还原为实际的横竖比例
+export const createMapProjection = (calibration: MapCalibration, aspectRatio = 1): MapProjection | null => {
+  const { points } = calibration
+  if (points.length < 3) return null
+
+  const origin = {
+    lat: points.reduce((sum, point) => sum + point.lat, 0) / points.length,
+    lng: points.reduce((sum, point) => sum + point.lng, 0) / points.length
+  }
+  const metersPerDegreeLng = METERS_PER_DEGREE_LAT * Math.cos(toRadians(origin.lat))
+  const toLocal = (point: GeoPoint) => ({
+    e: (point.lng - origin.lng) * metersPerDegreeLng,
+    n: (point.lat - origin.lat) * METERS_PER_DEGREE_LAT
+  })
+
+  const local = points.map(point => ({ ...toLocal(point), x: point.x, y: point.y }))
+  const xAxis = fitAxis(local.map(({ e, n, x }) => ({ e, n, target: x })))
+  const yAxis = fitAxis(local.map(({ e, n, y }) => ({ e, n, target: y })))
+  if (!xAxis || !yAxis) return null
+
+  const [a, b, c] = xAxis
+  const [d, e, f] = yAxis
+  const determinant = a * e - b * d
+  if (Math.abs(determinant) < 1e-12) return null
+
+  return {
+    toMap: point => {
+      const { e: east, n: north } = toLocal(point)
+      return { x: a * east + b * north + c, y: d * east + e * north + f }
+    },
+    toGeo: ({ x, y }) => {
+      const east = (e * (x - c) - b * (y - f)) / determinant
+      const north = (a * (y - f) - d * (x - c)) / determinant
+      return {
+        lat: origin.lat + north / METERS_PER_DEGREE_LAT,
+        lng: origin.lng + east / metersPerDegreeLng
+      }
+    },
+    // y 方向的百分比以图片高度为基准，换算到与 x 相同的尺度后再求角度
+    northAngle: (toDegrees(Math.atan2(b, -e / aspectRatio)) + 360) % 360,
+    percentPerMeter: Math.hypot(a, d / aspectRatio)
+  }
+}
+
+export const isInsideMap = (point: MapPoint) =>
+  point.x >= 0 && point.x <= 100 && point.y >= 0 && point.y <= 100
+
+// 球面距离（米）
+export const getDistance = (from: GeoPoint, to: GeoPoint) => {
+  const dLat = toRadians(to.lat - from.lat)
+  const dLng = toRadians(to.lng - from.lng)
+  const h = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.lat)) * Math.cos(toRadians(to.lat)) * Math.sin(dLng / 2) ** 2
+  return 2 * EARTH_RADIUS * Math.asin(Math.sqrt(h))
+}
+
+// 初始方位角：正北为 0，顺时针 0-360 度
+export const getBearing = (from: GeoPoint, to: GeoPoint) => {
+  const lat1 = toRadians(from.lat)
+  const lat2 = toRadians(to.lat)
+  const dLng = toRadians(to.lng - from.lng)
+  const y = Math.sin(dLng) * Math.cos(lat2)
+  const x = Math.cos(lat1) * Math.sin(lat2) - Math.sin(lat1) * Math.cos(lat2) * Math.cos(dLng)
+  return (toDegrees(Math.atan2(y, x)) + 360) % 360
+}
+
+const compassDirections = ['n', 'ne', 'e', 'se', 's', 'sw', 'w', 'nw'] as const
+
+export const formatBearing = (bearing: number, locale: Locale) => {
+  const direction = compassDirections[Math.round(bearing / 45) % compassDirections.length]
+  return translate(locale, `geo.directions.${direction}`)
+}
+
+export const formatDistance = (meters: number, locale: Locale) =>
+  meters < 1000
+    ? translate(locale, 'geo.meters', { value: meters < 100 ? Math.round(meters) : Math.round(meters / 10) * 10 })
+    : translate(locale, 'geo.kilometers', { value: (meters / 1000).toFixed(1) })
@@ -0,0 +1,144 @@
+// 多语言：界面文案来自 data/i18n/*.json，内容数据（岛屿、清单等）在各自的 translations 字段中提供译文
+// 中文为源语言，其他语言缺失的文案与字段一律回退到中文
+import zhMessages from '../data/i18n/zh.json'
+import jaMessages from '../data/i18n/ja.json'
+import enMessages from '../data/i18n/en.json'
+
+export type Locale = 'zh' | 'ja' | 'en'
+
+export interface LocaleOption {
+  id: Locale
+  label: string // 以该语言自身书写的名称
+  htmlLang: string
+}
+
+export const localeOptions: LocaleOption[] = [
+  { id: 'zh', label: '中文', htmlLang: 'zh-CN' },
+  { id: 'ja', label: '日本語', htmlLang: 'ja' },
+  { id: 'en', label: 'English', htmlLang: 'en' }
+]
+
+export const DEFAULT_LOCALE = 'zh' satisfies Locale
+export type TranslatedLocale = Exclude<Locale, typeof DEFAULT_LOCALE>
+
+// 内容数据的译文：只需填写与中文不同的字段
+export type Translations<T> = Partial<Record<TranslatedLocale, Partial<T>>>
+
+interface MessageTree {
+  [key: string]: string | MessageTree
+}
+
+const catalogs: Record<Locale, MessageTree> = {
+  zh: zhMessages,
+  ja: jaMessages,
+  en: enMessages
+}
+
+const STORAGE_KEY = 'sprb-locale'
+
+const isLocale = (value: unknown): value is Locale =>
+  localeOptions.some(option => option.id === value)
+
+// 按浏览器语言匹配，繁体中文与其他中文地区均使用中文
+export const detectLocale = (): Locale => {
+  const languages = typeof navigator === 'undefined' ? [] : navigator.languages ?? [navigator.language]
+  for (const language of languages) {
+    const base = language.toLowerCase().split('-')[0]
+    if (isLocale(base)) return base
+  }
+  return DEFAULT_LOCALE
+}
+
+export const loadLocale = (): Locale => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY)
+    if (isLocale(saved)) return saved
+  } catch (error) {
+    console.warn('读取语言设置失败:', error)
+  }
+  return detectLocale()
+}
+
+export const saveLocale = (locale: Locale) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, locale)
+  } catch (error) {
+    console.warn('保存语言设置失败:', error)
+  }
+}
+
+export const getHtmlLang = (locale: Locale) =>
+  localeOptions.find(option => option.id === locale)?.htmlLang ?? 'zh-CN'
+
+const lookup = (tree: MessageTree, key: string): string | undefined => {
+  let node: string | MessageTree | undefined = tree
+  for (const part of key.split('.')) {
+    if (typeof node !== 'object') return undefined
+    node = node[part]
+  }
+  return typeof node === 'string' ? node : undefined
+}
+
+export type MessageParams = Record<string, string | number>
+
+// 文案中的 {name} 占位符由 params 替换；找不到的键原样返回，便于发现遗漏
+export const translate = (locale: Locale, key: string, params?: MessageParams) => {
+  const template = lookup(catalogs[locale], key) ?? lookup(catalogs[DEFAULT_LOCALE], key)
+  if (template === undefined) {
+    console.warn('缺少翻译文案:', key)
+    return key
+  }
+  if (!params) return template
+  return template.replace(/\{(\w+)\}/g, (match, name: string) =>
+    params[name] !== undefined ? String(params[name]) : match)
+}
+
+// 用译文覆盖内容数据中的对应字段
+export const localizeFields = <T extends { translations?: Translations<T> }>(value: T, locale: Locale): T => {
+  if (locale === DEFAULT_LOCALE || !value.translations?.[locale]) return value
+  return { ...value, ...value.translations[locale] }
+}
+
+// 格式化
+
+const numberLocales: Record<Locale, string> = {
+  zh: 'zh-CN',
+  ja: 'ja-JP',
+  en: 'en-US'
+}
+
+// 当天分钟数 → 时刻；英文使用 12 小时制，中日文使用 24 小时制
+export const formatClock = (minutes: number, locale: Locale) => {
+  const date = new Date(2000, 0, 1, Math.floor(minutes / 60), minutes % 60)
+  return new Intl.DateTimeFormat(numberLocales[locale], {
+    hour: locale === 'en' ? 'numeric' : '2-digit',
+    minute: '2-digit',
+    hour12: locale === 'en'
+  }).format(date)
+}
+
+export const formatDate = (value: string | Date, locale: Locale, options: Intl.DateTimeFormatOptions = {}) =>
+  new Date(value).toLocaleDateString(numberLocales[locale], options)
+
+export const formatDateTime = (value: string | Date, locale: Locale) =>
+  new Date(value).toLocaleString(numberLocales[locale], {
+    month: 'numeric',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  })
+
+export type CurrencyCode = 'CNY' | 'JPY'
+
+// 中日文界面中日元写作「1,200円」，日文界面中人民币写作「12.00元」，避免与日元符号混淆
+export const formatCurrency = (value: number, currency: CurrencyCode, locale: Locale) => {
+  if (currency === 'JPY' && locale !== 'en') return `${Math.round(value).toLocaleString('ja-JP')}円`
+  if (currency === 'CNY' && locale === 'ja') {
+    return `${value.toLocaleString('ja-JP', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}元`
+  }
+  return new Intl.NumberFormat(numberLocales[locale], {
+    style: 'currency',
+    currency,
+    currencyDisplay: locale === 'zh' ? 'narrowSymbol' : 'symbol'
+  }).format(value)
+}
@@ -0,0 +1,177 @@
+// 统一的岛屿内容模型：地标、tooltip、详情地图与打卡CG均由 data/islands/*.json 驱动
+// 新增岛屿只需在 data/islands 下添加一个 JSON 文件
+import { DEFAULT_LOCALE, Locale, TranslatedLocale, Translations, localizeFields } from './i18n'
+import { GeoPoint, MapCalibration } from './geo'
+
+export type IslandIconType = 'emoji' | 'image'
+
+// CG 的时间段变体，无法归类的（有光/无光、下雨等）不填
+export type CgTimeOfDay = 'day' | 'noon' | 'dusk' | 'night' | 'midnight'
+
+export interface IslandIcon {
+  iconType: IslandIconType
+  emoji?: string
+  icon?: string
+  alt?: string
+}
+
+export interface IslandParagraph {
+  text: string
+  lines?: Array<{ text: string; indent?: number }> // indent 单位为 em，默认 2
+}
+
+export interface CgImage {
+  src: string
+  label: string
+  time?: CgTimeOfDay
+}
+
+// 打卡点的现场位置：进入 radius（米）范围内时提示已到达
+export interface SpotArrival extends GeoPoint {
+  radius: number
+}
+
+// 打卡点：一个游戏场景及其不同时间段的CG
+export interface CgSpot {
+  id: string
+  title: string
+  description: string
+  images: CgImage[]
+  arrival?: SpotArrival // 现场位置未确认的打卡点不填，不参与到达提示
+  translations?: Translations<Pick<CgSpot, 'title' | 'description'>>
+}
+
+export interface DetailMapIcon {
+  x: number
+  y: number
+  emoji?: string
+  icon?: string
+  size?: number
+}
+
+// 点击地标后打开的详情地图
+export interface IslandDetailMap {
+  mapImage: string
+  description: string
+  iconPositions: DetailMapIcon[]
+}
+
+// 地标的译文，tooltip、detail、gallery 分别对应提示文字、详情地图说明与图片集标题
+export interface LandmarkTranslation {
+  title?: string
+  tooltip?: string
+  detail?: string
+  gallery?: string
+}
+
+export interface IslandLandmark extends IslandIcon {
+  id: string
+  title: string
+  x: number // 百分比坐标 (0-100)
+  y: number // 百分比坐标 (0-100)
+  lat?: number // 实际经纬度，用于定位与导航
+  lng?: number
+  size: number
+  zIndex?: number
+  spotIds?: string[] // 该地标覆盖的打卡点，用于在地图上显示打卡状态
+  ferryPort?: string // 渡轮站地标对应的港口 id（见 data/ferry/timetable.json），点击时显示时刻表
+  tooltip?: {
+    image: string
+    desc: string
+  }
+  // 点击行为：优先打开详情地图，否则打开图片查看器
+  detail?: IslandDetailMap
+  gallery?: {
+    title: string
+    images: Array<{ src: string; label: string }>
+  }
+  translations?: Partial<Record<TranslatedLocale, LandmarkTranslation>>
+}
+
+// 岛屿的译文，description 对应打卡篇总览中的岛屿简介
+export interface IslandTranslation {
+  name?: string
+  subtitle?: string
+  description?: string
+  intro?: IslandParagraph[]
+  guide?: IslandParagraph[]
+}
+
+export interface IslandDefinition {
+  id: string // 同时作为路由路径
+  name: string
+  subtitle: string
+  order: number // 在打卡篇中的排列顺序
+  headerIcon: IslandIcon
+  // 打卡篇总览地图与岛屿卡片上的展示信息
+  overview: IslandIcon & {
+    iconSize?: number
+    description: string
+    position: { x: number; y: number }
+  }
+  intro: IslandParagraph[]
+  guide: IslandParagraph[]
+  map: {
+    image: string
+    alt: string
+    scale: number
+    // 以下用于行程规划估算步行时间
+    port?: { x: number; y: number } // 渡轮码头在地图上的百分比坐标
+    widthMeters?: number // 地图宽度对应的实际距离（米）
+    aspectRatio?: number // 地图图片宽高比
+    calibration?: MapCalibration // 地图与经纬度的对应关系，用于显示“我的位置”
+  }
+  landmarks: IslandLandmark[]
+  spots: CgSpot[]
+  translations?: Partial<Record<TranslatedLocale, IslandTranslation>>
+}
+
+const islandModules = import.meta.glob<IslandDefinition>('../data/islands/*.json', {
+  eager: true,
+  import: 'default'
+})
+
+export const islandDefinitions: IslandDefinition[] = Object.values(islandModules)
+  .sort((a, b) => a.order - b.order)
+
+export const getIslandDefinition = (id: string): IslandDefinition | undefined =>
+  islandDefinitions.find(island => island.id === id)
+
+export const getLandmarkLocation = (landmark: IslandLandmark): GeoPoint | undefined =>
+  landmark.lat !== undefined && landmark.lng !== undefined ? { lat: landmark.lat, lng: landmark.lng } : undefined
+
+// 优先使用打卡点自身的到达位置，否则使用覆盖它的地标的位置
+export const getSpotLocation = (island: IslandDefinition, spotId: string): GeoPoint | undefined => {
+  const arrival = island.spots.find(spot => spot.id === spotId)?.arrival
+  if (arrival) return { lat: arrival.lat, lng: arrival.lng }
+  const landmark = island.landmarks.find(item => item.spotIds?.includes(spotId) && getLandmarkLocation(item))
+  return landmark && getLandmarkLocation(landmark)
+}
+
+const localizeLandmark = (landmark: IslandLandmark, locale: TranslatedLocale): IslandLandmark => {
+  const translation = landmark.translations?.[locale]
+  if (!translation) return landmark
+  return {
+    ...landmark,
+    title: translation.title ?? landmark.title,
+    tooltip: landmark.tooltip && { ...landmark.tooltip, desc: translation.tooltip ?? landmark.tooltip.desc },
+    detail: landmark.detail && { ...landmark.detail, description: translation.detail ?? landmark.detail.description },
+    gallery: landmark.gallery && { ...landmark.gallery, title: translation.gallery ?? landmark.gallery.title }
+  }
+}
+
+// 将岛屿内容替换为指定语言的译文，缺失的字段保留中文；id 不变，路由与打卡记录不受影响
+export const localizeIsland = (island: IslandDefinition, locale: Locale): IslandDefinition => {
+  if (locale === DEFAULT_LOCALE) return island
+  const translation = island.translations?.[locale] ?? {}
+  return {
+    ...island,
+    name: translation.name ?? island.name,
+    subtitle: translation.subtitle ?? island.subtitle,
+    overview: { ...island.overview, description: translation.description ?? island.overview.description },
+    intro: translation.intro ?? island.intro,
+    guide: translation.guide ?? island.guide,
+    landmarks: island.landmarks.map(landmark => localizeLandmark(landmark, locale)),
+    spots: island.spots.map(spot => localizeFields(spot, locale))
+  }
+}
@@ -0,0 +1,80 @@
+// 岛屿页的视图状态与 URL 的对应关系，便于分享和前进/后退恢复：
+//   /ogijima                                  岛屿介绍
+//   /ogijima?tab=guide                        巡礼说明页签
+//   /ogijima/spot/lighthouse?img=2            打卡点 CG 查看器（打卡点可写 id 或标题，如 /ogijima/spot/紬的灯塔）
+//   /ogijima/landmark/lighthouse              地标详情地图或渡轮时刻表
+//   /ogijima/landmark/lighthouse/gallery?img=1  地标图片
+//   /ogijima?focus=lighthouse                 在地图上定位地标（搜索结果使用）
+import { CgSpot, IslandDefinition, IslandLandmark } from './islandData'
+
+export type IslandTab = 'intro' | 'guide'
+
+export type IslandView =
+  | { type: 'spot'; spot: CgSpot; imageIndex: number }
+  | { type: 'landmark'; landmark: IslandLandmark }
+  | { type: 'landmarkGallery'; landmark: IslandLandmark; imageIndex: number }
+
+export interface IslandPathOptions {
+  tab?: IslandTab
+  spot?: string
+  landmark?: string
+  gallery?: boolean
+  image?: number
+  focus?: string
+}
+
+const clampIndex = (value: string | null, length: number) => {
+  const index = Math.floor(Number(value))
+  return Number.isFinite(index) && index > 0 && index < length ? index : 0
+}
+
+export const getIslandTab = (searchParams: URLSearchParams): IslandTab =>
+  searchParams.get('tab') === 'guide' ? 'guide' : 'intro'
+
+// 路由键按 id 或原始（中文）标题匹配，也接受当前语言的标题，结果取当前语言的数据
+const findByKey = <T extends { id: string; title: string }>(items: T[], sourceItems: T[], key: string) => {
+  const id = (sourceItems.find(item => item.id === key || item.title === key) ?? items.find(item => item.title === key))?.id
+  return items.find(item => item.id === id)
+}
+
+// island 为当前语言的岛屿数据，sourceIsland 为未翻译的原始定义；splat 为路由 /岛屿id/* 中 * 匹配的部分
+export const parseIslandView = (
+  island: IslandDefinition,
+  sourceIsland: IslandDefinition,
+  splat: string,
+  searchParams: URLSearchParams
+): IslandView | null => {
+  const [type, key, extra] = splat.split('/').filter(Boolean)
+  if (!key) return null
+
+  if (type === 'spot') {
+    const spot = findByKey(island.spots, sourceIsland.spots, key)
+    return spot ? { type: 'spot', spot, imageIndex: clampIndex(searchParams.get('img'), spot.images.length) } : null
+  }
+
+  if (type === 'landmark') {
+    const landmark = findByKey(island.landmarks, sourceIsland.landmarks, key)
+    if (!landmark) return null
+    const images = landmark.gallery?.images ?? []
+    // 没有详情地图和时刻表的地标，点击时直接打开图片
+    if (images.length > 0 && (extra === 'gallery' || (!landmark.detail && !landmark.ferryPort))) {
+      return { type: 'landmarkGallery', landmark, imageIndex: clampIndex(searchParams.get('img'), images.length) }
+    }
+    return { type: 'landmark', landmark }
+  }
+
+  return null
+}
+
+export const getIslandPath = (islandId: string, options: IslandPathOptions = {}) => {
+  const segments = [islandId]
+  if (options.spot) segments.push('spot', options.spot)
+  else if (options.landmark) segments.push('landmark', options.landmark, ...(options.gallery ? ['gallery'] : []))
+
+  const search = new URLSearchParams()
+  if (options.tab === 'guide') search.set('tab', 'guide')
+  if (options.image) search.set('img', String(options.image))
+  if (options.focus) search.set('focus', options.focus)
+  const query = search.toString()
+  return `/${segments.map(encodeURIComponent).join('/')}${query ? `?${query}` : ''}`
+}
@@ -0,0 +1,228 @@
+// 多岛一日游行程规划：按地图坐标估算步行时间，并把各岛的打卡点安排进渡轮班次
+import { IslandDefinition, getIslandDefinition, localizeIsland } from './islandData'
+import { FerryDeparture, ferryPorts, formatTime, getLastDeparture, getNextDeparture, getPortName, parseTime } from './ferryTimetable'
+import { DEFAULT_LOCALE, Locale, MessageParams, translate } from './i18n'
+
+export const HOME_PORT = 'takamatsu'
+const WALK_METERS_PER_MINUTE = 67 // 约 4km/h
+const ROUTE_DETOUR_FACTOR = 1.4 // 直线距离换算为实际道路距离的系数
+const DEFAULT_WALK_MINUTES = 15 // 地图上未标注位置的打卡点按此估算
+const PORT_BUFFER_MINUTES = 10 // 提前到港时间
+const LAST_FERRY_MARGIN_MINUTES = 30 // 距末班船少于该时间时提醒
+
+export interface ItineraryIslandPlan {
+  islandId: string
+  spotIds: string[]
+}
+
+// 保存到本地的行程
+export interface ItineraryPlan {
+  name: string
+  date: string // YYYY-MM-DD
+  startTime: string // HH:MM，从高松港出发的最早时间
+  dwellMinutes: number // 每个打卡点停留时间
+  islands: ItineraryIslandPlan[]
+}
+
+export type ItineraryStepType = 'ferry' | 'walk' | 'visit' | 'wait'
+
+export interface ItineraryStep {
+  type: ItineraryStepType
+  start: number // 当天分钟数
+  end: number
+  title: string
+  detail?: string
+  islandId?: string
+  spotId?: string
+  estimated?: boolean // 步行时间为默认估算值
+  ferry?: FerryDeparture
+}
+
+export interface ItineraryResult {
+  steps: ItineraryStep[]
+  warnings: string[]
+  missedLastFerry: boolean
+  endTime: number | null
+}
+
+type Point = { x: number; y: number }
+
+export const getIslandPort = (islandId: string) =>
+  ferryPorts.find(port => port.islandId === islandId)?.id
+
+// 打卡点的位置取自覆盖它的地标
+export const getSpotPosition = (island: IslandDefinition, spotId: string): Point | undefined => {
+  const landmark = island.landmarks.find(item => item.spotIds?.includes(spotId))
+  return landmark ? { x: landmark.x, y: landmark.y } : undefined
+}
+
+// 估算两点间步行分钟数，任意一点未知时返回默认值
+export const estimateWalkMinutes = (island: IslandDefinition, from?: Point, to?: Point) => {
+  const { widthMeters, aspectRatio } = island.map
+  if (!from || !to || !widthMeters || !aspectRatio) {
+    return { minutes: DEFAULT_WALK_MINUTES, estimated: true }
+  }
+  const heightMeters = widthMeters / aspectRatio
+  const dx = ((to.x - from.x) / 100) * widthMeters
+  const dy = ((to.y - from.y) / 100) * heightMeters
+  const meters = Math.sqrt(dx * dx + dy * dy) * ROUTE_DETOUR_FACTOR
+  return { minutes: Math.ceil(meters / WALK_METERS_PER_MINUTE), estimated: false }
+}
+
+// 从码头出发按最近邻顺序排列打卡点，未标注位置的排在最后
+export const orderSpots = (island: IslandDefinition, spotIds: string[]): string[] => {
+  const located = spotIds.filter(id => getSpotPosition(island, id))
+  const unlocated = spotIds.filter(id => !getSpotPosition(island, id))
+  const ordered: string[] = []
+  let current: Point | undefined = island.map.port
+
+  while (located.length > 0) {
+    let bestIndex = 0
+    if (current) {
+      let bestDistance = Infinity
+      located.forEach((id, index) => {
+        const position = getSpotPosition(island, id)!
+        const distance = Math.hypot(position.x - current!.x, position.y - current!.y)
+        if (distance < bestDistance) {
+          bestDistance = distance
+          bestIndex = index
+        }
+      })
+    }
+    const [next] = located.splice(bestIndex, 1)
+    ordered.push(next)
+    current = getSpotPosition(island, next)
+  }
+
+  return [...ordered, ...unlocated]
+}
+
+// 查找 from → to 的下一班船，没有直达航线时经高松中转
+const findConnection = (from: string, to: string, date: Date, after: number, locale: Locale): FerryDeparture[] | null => {
+  const direct = getNextDeparture(from, to, date, after, locale)
+  if (direct) return [direct]
+  if (from === HOME_PORT || to === HOME_PORT) return null
+
+  const toHome = getNextDeparture(from, HOME_PORT, date, after, locale)
+  if (!toHome) return null
+  const fromHome = getNextDeparture(HOME_PORT, to, date, toHome.arrival + PORT_BUFFER_MINUTES, locale)
+  return fromHome ? [toHome, fromHome] : null
+}
+
+const fromDateString = (value: string) => {
+  const [year, month, day] = value.split('-').map(Number)
+  return new Date(year, month - 1, day)
+}
+
+// 步骤标题、提醒与岛屿/港口名称按 locale 输出
+export const buildItinerary = (plan: ItineraryPlan, locale: Locale = DEFAULT_LOCALE): ItineraryResult => {
+  const t = (key: string, params: MessageParams) => translate(locale, `itinerary.${key}`, params)
+  const portName = (id: string) => getPortName(id, locale)
+  const date = fromDateString(plan.date)
+  const steps: ItineraryStep[] = []
+  const warnings: string[] = []
+  let time = parseTime(plan.startTime)
+  let port = HOME_PORT
+
+  const pushFerries = (ferries: FerryDeparture[]) => {
+    ferries.forEach(ferry => {
+      if (ferry.departure > time) {
+        steps.push({ type: 'wait', start: time, end: ferry.departure, title: t('steps.wait', { port: portName(ferry.from) }) })
+      }
+      steps.push({
+        type: 'ferry',
+        start: ferry.departure,
+        end: ferry.arrival,
+        title: `${portName(ferry.from)} → ${portName(ferry.to)}`,
+        detail: ferry.routeName,
+        ferry
+      })
+      time = ferry.arrival
+      port = ferry.to
+    })
+  }
+
+  // 乘船前检查是否接近或错过末班船；离岛时需提前到港
+  const travelTo = (target: string): boolean => {
+    const earliest = steps.length === 0 ? time : time + PORT_BUFFER_MINUTES
+    const ferries = findConnection(port, target, date, earliest, locale)
+    if (!ferries) {
+      const last = getLastDeparture(port, target, date)
+      warnings.push(last
+        ? t('warnings.missedLast', { from: portName(port), to: portName(target), time: formatTime(last.departure) })
+        : t('warnings.noFerry', { from: portName(port), to: portName(target) }))
+      return false
+    }
+    // 每一段都检查：中转时从上一段到港算起
+    ferries.forEach((ferry, index) => {
+      const readyAt = index === 0 ? time : ferries[index - 1].arrival
+      if (ferry.isLast && ferry.departure - readyAt < LAST_FERRY_MARGIN_MINUTES) {
+        warnings.push(t('warnings.lastFerryMargin', { port: portName(ferry.from), minutes: ferry.departure - readyAt }))
+      }
+    })
+    pushFerries(ferries)
+    return true
+  }
+
+  for (const islandPlan of plan.islands) {
+    const source = getIslandDefinition(islandPlan.islandId)
+    const island = source && localizeIsland(source, locale)
+    const islandPort = getIslandPort(islandPlan.islandId)
+    if (!island || !islandPort || islandPlan.spotIds.length === 0) continue
+
+    if (!travelTo(islandPort)) {
+      return { steps, warnings, missedLastFerry: true, endTime: null }
+    }
+
+    let position: Point | undefined = island.map.port
+    orderSpots(island, islandPlan.spotIds).forEach(spotId => {
+      const spot = island.spots.find(item => item.id === spotId)
+      if (!spot) return
+      const target = getSpotPosition(island, spotId)
+      const walk = estimateWalkMinutes(island, position, target)
+      if (walk.minutes > 0) {
+        steps.push({
+          type: 'walk',
+          start: time,
+          end: time + walk.minutes,
+          title: t('steps.walkTo', { spot: spot.title }),
+          islandId: island.id,
+          spotId,
+          estimated: walk.estimated
+        })
+        time += walk.minutes
+      }
+      steps.push({
+        type: 'visit',
+        start: time,
+        end: time + plan.dwellMinutes,
+        title: spot.title,
+        detail: island.name,
+        islandId: island.id,
+        spotId
+      })
+      time += plan.dwellMinutes
+      position = target
+    })
+
+    // 返回码头
+    const walkBack = estimateWalkMinutes(island, position, island.map.port)
+    if (walkBack.minutes > 0) {
+      steps.push({
+        type: 'walk',
+        start: time,
+        end: time + walkBack.minutes,
+        title: t('steps.walkBack', { port: portName(islandPort) }),
+        islandId: island.id,
+        estimated: walkBack.estimated
+      })
+      time += walkBack.minutes
+    }
+  }
+
+  if (port !== HOME_PORT && !travelTo(HOME_PORT)) {
+    return { steps, warnings, missedLastFerry: true, endTime: null }
+  }
+
+  return { steps, warnings, missedLastFerry: false, endTime: time }
+}
@@ -0,0 +1,84 @@
+// LRC 歌词：解析带时间标签的歌词文件，并按播放时间定位当前行
+// 同一时间标签出现两次时，第二行视为中文翻译：
+//   [00:21.50]夏の日差しの中で
+//   [00:21.50]在夏日的阳光中
+export interface LyricLine {
+  time: number // 秒
+  text: string
+  translation?: string
+}
+
+const TIME_TAG = /\[(\d{1,3}):(\d{1,2})(?:[.:](\d{1,3}))?\]/g
+const OFFSET_TAG = /^\[offset:\s*([+-]?\d+)\s*\]/i
+
+const parseFraction = (fraction?: string) => (fraction ? Number(`0.${fraction}`) : 0)
+
+export const parseLrc = (content: string): LyricLine[] => {
+  let offset = 0 // 毫秒，正数表示歌词提前
+  const entries: Array<{ time: number; text: string; order: number }> = []
+
+  content.split(/\r?\n/).forEach((rawLine, order) => {
+    const line = rawLine.trim()
+    const offsetMatch = line.match(OFFSET_TAG)
+    if (offsetMatch) {
+      offset = Number(offsetMatch[1])
+      return
+    }
+
+    // 一行可以有多个时间标签（重复的副歌），ar/ti 等其他标签没有时间，直接忽略
+    const times = Array.from(line.matchAll(TIME_TAG), match =>
+      Number(match[1]) * 60 + Number(match[2]) + parseFraction(match[3]))
+    if (times.length === 0) return
+    const text = line.replace(TIME_TAG, '').trim()
+    times.forEach(time => entries.push({ time, text, order }))
+  })
+
+  // 按时间排序，同一时间按文件中的先后顺序
+  entries.sort((a, b) => a.time - b.time || a.order - b.order)
+
+  const lines: LyricLine[] = []
+  entries.forEach(entry => {
+    const time = Math.max(0, entry.time - offset / 1000)
+    const previous = lines[lines.length - 1]
+    if (previous && Math.abs(previous.time - time) < 0.001 && previous.translation === undefined) {
+      previous.translation = entry.text
+    } else {
+      lines.push({ time, text: entry.text })
+    }
+  })
+  return lines
+}
+
+// 当前时间对应的行（最后一个开始时间不晚于 time 的行），第一行之前返回 -1
+export const findLyricIndex = (lines: LyricLine[], time: number) => {
+  let low = 0
+  let high = lines.length - 1
+  let result = -1
+  while (low <= high) {
+    const middle = (low + high) >> 1
+    if (lines[middle].time <= time) {
+      result = middle
+      low = middle + 1
+    } else {
+      high = middle - 1
+    }
+  }
+  return result
+}
+
+const lyricsCache = new Map<string, Promise<LyricLine[]>>()
+
+// 同一首歌的歌词只请求一次；请求失败时不缓存，下次切回该歌曲时重试
+export const loadLyrics = (url: string) => {
+  const cached = lyricsCache.get(url)
+  if (cached) return cached
+  const request = fetch(url)
+    .then(response => {
+      if (!response.ok) throw new Error(`获取歌词失败: ${response.status}`)
+      return response.text()
+    })
+    .then(parseLrc)
+  request.catch(() => lyricsCache.delete(url))
+  lyricsCache.set(url, request)
+  return request
+}
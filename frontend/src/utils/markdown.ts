@@ -0,0 +1,188 @@
+// 卡片正文使用的 Markdown 子集：标题、有序/无序列表、粗体、链接、表格、行内图片和提示框
+// 只解析为结构化节点，由 MarkdownContent 渲染成 React 元素，不会插入原始 HTML
+// 兼容旧数据：以 • 开头的行视为无序列表项，普通换行保留为行内换行
+
+export type MarkdownInline =
+  | { type: 'text'; text: string }
+  | { type: 'strong'; children: MarkdownInline[] }
+  | { type: 'link'; href: string; children: MarkdownInline[] }
+  | { type: 'image'; src: string; alt: string }
+
+export type CalloutVariant = 'note' | 'tip' | 'warning'
+export type TableAlign = 'left' | 'center' | 'right' | null
+
+export type MarkdownBlock =
+  | { type: 'heading'; level: number; children: MarkdownInline[] }
+  | { type: 'paragraph'; lines: MarkdownInline[][] }
+  | { type: 'list'; ordered: boolean; start: number; items: MarkdownInline[][] }
+  | { type: 'table'; header: MarkdownInline[][]; align: TableAlign[]; rows: MarkdownInline[][][] }
+  | { type: 'callout'; variant: CalloutVariant; blocks: MarkdownBlock[] }
+
+const HEADING = /^(#{1,4})\s+(.*)$/
+const BULLET_ITEM = /^(?:[•\-*])\s+(.*)$/
+const ORDERED_ITEM = /^(\d+)(?:[.)]\s+|、\s*)(.+)$/
+const TABLE_ROW = /^\|.*\|$/
+const TABLE_DIVIDER = /^\|?\s*:?-{3,}:?\s*(\|\s*:?-{3,}:?\s*)*\|?$/
+const CALLOUT = /^>\s?(.*)$/
+const CALLOUT_MARKER = /^\[!(NOTE|TIP|WARNING)\]\s*(.*)$/i
+const INLINE = /!\[([^\]]*)\]\(([^)\s]+)\)|\[([^\]]+)\]\(([^)\s]+)\)|\*\*(.+?)\*\*/g
+
+// 只允许 http(s)、mailto、tel 和站内路径，其余链接按纯文本显示；
+// 浏览器会把 /\ 开头的地址当作 // 处理，站内路径的第二个字符不能是斜杠或反斜杠
+const SAFE_LINK = /^(https?:\/\/|mailto:|tel:|\/(?![\/\\])|#)/i
+const SAFE_IMAGE = /^(https?:\/\/|\/(?![\/\\]))/i
+
+export const isSafeLink = (href: string) => SAFE_LINK.test(href)
+export const isSafeImage = (src: string) => SAFE_IMAGE.test(src)
+
+export const parseInline = (text: string): MarkdownInline[] => {
+  const nodes: MarkdownInline[] = []
+  let lastIndex = 0
+  const pushText = (value: string) => {
+    if (value) nodes.push({ type: 'text', text: value })
+  }
+
+  for (const match of text.matchAll(INLINE)) {
+    const index = match.index ?? 0
+    pushText(text.slice(lastIndex, index))
+    lastIndex = index + match[0].length
+
+    const [raw, alt, src, label, href, bold] = match
+    if (src !== undefined) {
+      if (isSafeImage(src)) nodes.push({ type: 'image', src, alt })
+      else pushText(alt || raw)
+    } else if (href !== undefined) {
+      if (isSafeLink(href)) nodes.push({ type: 'link', href, children: parseInline(label) })
+      else nodes.push(...parseInline(label))
+    } else {
+      nodes.push({ type: 'strong', children: parseInline(bold) })
+    }
+  }
+  pushText(text.slice(lastIndex))
+  return nodes
+}
+
+const splitTableRow = (line: string) =>
+  line.trim().replace(/^\|/, '').replace(/\|$/, '').split('|').map(cell => cell.trim())
+
+const parseTableAlign = (cell: string): TableAlign => {
+  const left = cell.startsWith(':')
+  const right = cell.endsWith(':')
+  if (left && right) return 'center'
+  if (right) return 'right'
+  if (left) return 'left'
+  return null
+}
+
+export const parseMarkdown = (content: string): MarkdownBlock[] => {
+  const lines = content.replace(/\r\n?/g, '\n').split('\n')
+  const blocks: MarkdownBlock[] = []
+  let i = 0
+
+  while (i < lines.length) {
+    const line = lines[i].trim()
+
+    if (!line) {
+      i++
+      continue
+    }
+
+    const heading = line.match(HEADING)
+    if (heading) {
+      blocks.push({ type: 'heading', level: heading[1].length, children: parseInline(heading[2]) })
+      i++
+      continue
+    }
+
+    // 表格：表头行后紧跟分隔行
+    if (TABLE_ROW.test(line) && i + 1 < lines.length && TABLE_DIVIDER.test(lines[i + 1].trim())) {
+      const header = splitTableRow(line)
+      const align = splitTableRow(lines[i + 1]).map(parseTableAlign)
+      const rows: MarkdownInline[][][] = []
+      i += 2
+      while (i < lines.length && TABLE_ROW.test(lines[i].trim())) {
+        const cells = splitTableRow(lines[i])
+        rows.push(header.map((_, col) => parseInline(cells[col] ?? '')))
+        i++
+      }
+      blocks.push({ type: 'table', header: header.map(cell => parseInline(cell)), align, rows })
+      continue
+    }
+
+    // 提示框：连续的 > 行，首行可用 [!WARNING] / [!TIP] / [!NOTE] 指定类型
+    if (CALLOUT.test(line)) {
+      const inner: string[] = []
+      while (i < lines.length && CALLOUT.test(lines[i].trim())) {
+        inner.push(lines[i].trim().replace(CALLOUT, '$1'))
+        i++
+      }
+      let variant: CalloutVariant = 'note'
+      const marker = inner[0].match(CALLOUT_MARKER)
+      if (marker) {
+        variant = marker[1].toLowerCase() as CalloutVariant
+        inner[0] = marker[2]
+      }
+      blocks.push({ type: 'callout', variant, blocks: parseMarkdown(inner.join('\n')) })
+      continue
+    }
+
+    const bullet = line.match(BULLET_ITEM)
+    const ordered = line.match(ORDERED_ITEM)
+    if (bullet || ordered) {
+      const isOrdered = !bullet
+      const pattern = isOrdered ? ORDERED_ITEM : BULLET_ITEM
+      const items: MarkdownInline[][] = []
+      while (i < lines.length) {
+        const item = lines[i].trim().match(pattern)
+        if (!item) break
+        items.push(parseInline(isOrdered ? item[2] : item[1]))
+        i++
+      }
+      blocks.push({ type: 'list', ordered: isOrdered, start: isOrdered ? Number(ordered![1]) : 1, items })
+      continue
+    }
+
+    // 普通段落：连续的文本行，保留换行
+    const paragraph: MarkdownInline[][] = []
+    while (i < lines.length) {
+      const text = lines[i].trim()
+      if (!text || [HEADING, BULLET_ITEM, ORDERED_ITEM, CALLOUT, TABLE_ROW].some(pattern => pattern.test(text))) break
+      paragraph.push(parseInline(text))
+      i++
+    }
+    if (paragraph.length === 0) {
+      // 不成表格的单独 | 行
+      paragraph.push(parseInline(line))
+      i++
+    }
+    blocks.push({ type: 'paragraph', lines: paragraph })
+  }
+
+  return blocks
+}
+
+const inlineToText = (nodes: MarkdownInline[]): string =>
+  nodes.map(node => {
+    if (node.type === 'text') return node.text
+    if (node.type === 'image') return node.alt
+    return inlineToText(node.children)
+  }).join('')
+
+const blocksToText = (blocks: MarkdownBlock[]): string =>
+  blocks.map(block => {
+    switch (block.type) {
+      case 'heading':
+        return inlineToText(block.children)
+      case 'paragraph':
+        return block.lines.map(inlineToText).join('\n')
+      case 'list':
+        return block.items.map(inlineToText).join('\n')
+      case 'table':
+        return [block.header, ...block.rows].map(row => row.map(inlineToText).join(' ')).join('\n')
+      case 'callout':
+        return blocksToText(block.blocks)
+    }
+  }).join('\n')
+
+// 去掉 Markdown 标记后的纯文本，用于搜索索引和摘要
+export const markdownToPlainText = (content: string) => blocksToText(parseMarkdown(content))
@@ -0,0 +1,174 @@
+// 离线支持：注册 Service Worker（public/sw.js），并按岛屿下载离线包
+// 离线包写入 sprb-pack-<id> 缓存，Service Worker 读取图片时会在所有缓存中查找
+import { IslandDefinition, IslandIcon, islandDefinitions } from './islandData'
+
+const PACK_CACHE_PREFIX = 'sprb-pack-'
+const DOWNLOAD_CONCURRENCY = 4
+
+export interface OfflinePack {
+  id: string // 岛屿 id，公共资源为 common
+  icon: IslandIcon
+  urls: string[]
+}
+
+export interface OfflinePackStatus {
+  cachedCount: number
+  totalCount: number
+  bytes: number
+}
+
+export interface StorageEstimate {
+  usage: number
+  quota: number
+}
+
+export const isOfflineSupported = () =>
+  typeof window !== 'undefined' && 'serviceWorker' in navigator && 'caches' in window
+
+// 仅在生产构建中注册，避免开发时缓存干扰热更新
+export const registerServiceWorker = () => {
+  if (!import.meta.env.PROD || !isOfflineSupported()) return
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js').catch(error => {
+      console.warn('注册 Service Worker 失败:', error)
+    })
+  })
+}
+
+// 数据中的图片为相对路径，统一解析为绝对地址作为缓存键
+const toAbsoluteUrl = (path: string) => new URL(path, window.location.origin).href
+
+const getIconUrl = (icon: IslandIcon) =>
+  icon.iconType === 'image' && icon.icon ? [icon.icon] : []
+
+// 岛屿离线包：岛屿地图、地标图标与提示图、详情地图、图片集以及全部打卡 CG
+export const getIslandAssetUrls = (island: IslandDefinition): string[] => {
+  const urls = [
+    island.map.image,
+    ...getIconUrl(island.headerIcon),
+    ...getIconUrl(island.overview),
+    ...island.landmarks.flatMap(landmark => [
+      ...getIconUrl(landmark),
+      ...(landmark.tooltip ? [landmark.tooltip.image] : []),
+      ...(landmark.detail ? [
+        landmark.detail.mapImage,
+        ...landmark.detail.iconPositions.flatMap(position => position.icon ? [position.icon] : [])
+      ] : []),
+      ...(landmark.gallery?.images.map(image => image.src) ?? [])
+    ]),
+    ...island.spots.flatMap(spot => spot.images.map(image => image.src))
+  ]
+  return Array.from(new Set(urls.filter(Boolean).map(toAbsoluteUrl)))
+}
+
+// 各岛共用的资源：打卡篇总览、高松港时刻表原图与内置交通攻略数据
+const commonAssetUrls = [
+  '/trafficdata/InDeparture/traffic_cards.json',
+  '/images/webps/打卡篇地图-航线版.webp',
+  '/images/webps/高松发船时刻表.webp',
+  '/images/webps/鸟白岛总览.webp',
+  '/images/webps/七影蝶.webp'
+]
+
+export const getOfflinePacks = (): OfflinePack[] => [
+  {
+    id: 'common',
+    icon: { iconType: 'emoji', emoji: '🗺️' },
+    urls: Array.from(new Set(commonAssetUrls.map(toAbsoluteUrl)))
+  },
+  ...islandDefinitions.map(island => ({
+    id: island.id,
+    icon: island.headerIcon,
+    urls: getIslandAssetUrls(island)
+  }))
+]
+
+const getPackCacheName = (packId: string) => `${PACK_CACHE_PREFIX}${packId}`
+
+// 优先使用 Content-Length，缺失时读取响应体计算大小
+const getResponseSize = async (response: Response) => {
+  const length = Number(response.headers.get('Content-Length'))
+  if (Number.isFinite(length) && length > 0) return length
+  const blob = await response.clone().blob()
+  return blob.size
+}
+
+export const getPackStatus = async (pack: OfflinePack): Promise<OfflinePackStatus> => {
+  const status: OfflinePackStatus = { cachedCount: 0, totalCount: pack.urls.length, bytes: 0 }
+  if (!isOfflineSupported() || !(await caches.has(getPackCacheName(pack.id)))) return status
+
+  const cache = await caches.open(getPackCacheName(pack.id))
+  for (const url of pack.urls) {
+    const response = await cache.match(url)
+    if (!response) continue
+    status.cachedCount++
+    status.bytes += await getResponseSize(response)
+  }
+  return status
+}
+
+// 下载离线包，已缓存的文件会跳过；返回下载失败的文件数
+export const downloadPack = async (
+  pack: OfflinePack,
+  onProgress?: (done: number, total: number) => void
+): Promise<number> => {
+  if (!isOfflineSupported()) throw new Error('当前浏览器不支持离线缓存')
+
+  const cache = await caches.open(getPackCacheName(pack.id))
+  const queue = [...pack.urls]
+  let done = 0
+  let failed = 0
+
+  const worker = async () => {
+    while (queue.length > 0) {
+      const url = queue.shift()!
+      try {
+        if (!(await cache.match(url))) {
+          const response = await fetch(url, { cache: 'no-cache' })
+          if (!response.ok) throw new Error(`HTTP ${response.status}`)
+          await cache.put(url, response)
+        }
+      } catch (error) {
+        failed++
+        console.warn('下载离线文件失败:', url, error)
+      }
+      done++
+      onProgress?.(done, pack.urls.length)
+    }
+  }
+
+  await Promise.all(Array.from({ length: DOWNLOAD_CONCURRENCY }, worker))
+  return failed
+}
+
+export const deletePack = async (packId: string) => {
+  if (!isOfflineSupported()) return
+  await caches.delete(getPackCacheName(packId))
+}
+
+export const getStorageEstimate = async (): Promise<StorageEstimate | null> => {
+  if (typeof navigator === 'undefined' || !navigator.storage?.estimate) return null
+  try {
+    const { usage = 0, quota = 0 } = await navigator.storage.estimate()
+    return { usage, quota }
+  } catch (error) {
+    console.warn('读取存储用量失败:', error)
+    return null
+  }
+}
+
+// 清除离线包与浏览时缓存的图片、攻略数据；应用外壳保留，以便继续离线打开网站
+export const clearOfflineData = async () => {
+  if (!isOfflineSupported()) return
+  const keys = await caches.keys()
+  await Promise.all(keys
+    .filter(key => key.startsWith(PACK_CACHE_PREFIX) || key.startsWith('sprb-runtime-'))
+    .map(key => caches.delete(key)))
+}
+
+export const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`
+  return `${(bytes / 1024 / 1024 / 1024).toFixed(2)} GB`
+}
@@ -0,0 +1,455 @@
+// 播放引擎：两个交替使用的 <audio>（deck）接入 Web Audio，实现预加载、自动衔接、交叉淡入淡出与音量标准化
+// <audio> 无法按 AudioContext 时钟精确起播，衔接由定时器触发，不保证采样级无缝；需要无间隙过渡时请设置交叉淡入淡出
+// 当前歌曲在一个 deck 上播放，下一首提前在另一个 deck 上缓冲；切歌时两个 deck 的增益交叉变化
+// 浏览器不支持 Web Audio 时退回到直接调节 <audio> 的音量
+
+export interface EngineTrack {
+  id: string
+  src: string
+  replayGain?: number // dB，ReplayGain 曲目增益
+  peak?: number // 0-1，曲目采样峰值，避免增益后削波
+}
+
+export interface PlaybackEngineCallbacks {
+  onPlay: () => void
+  onPause: () => void
+  onTimeUpdate: (time: number) => void
+  onDurationChange: (duration: number) => void
+  onAdvance: (track: EngineTrack) => void // 自动衔接到下一首（新歌曲已开始播放）
+  onEnded: () => void // 没有下一首可以衔接时播放结束
+  onError: (error: unknown) => void
+}
+
+export interface LoadOptions {
+  autoplay?: boolean
+  startAt?: number // 秒；同一首歌不传时保持当前位置
+  fade?: number // 秒，正在播放时与当前歌曲交叉淡入淡出的时长
+}
+
+export interface PlaybackEngine {
+  load: (track: EngineTrack, options?: LoadOptions) => Promise<void>
+  setNext: (track: EngineTrack | null) => void // 下一首与当前歌曲相同时循环播放
+  play: () => Promise<void>
+  pause: () => void
+  seek: (time: number) => void
+  setVolume: (volume: number) => void
+  setCrossfade: (seconds: number) => void
+  getCurrentTime: () => number
+  destroy: () => void
+}
+
+interface Deck {
+  element: HTMLAudioElement
+  gain: GainNode | null
+  analyser: AnalyserNode | null
+  track: EngineTrack | null
+  normalization: number // 线性增益，加载歌曲时确定，播放中途不再变化
+  level: number // 交叉淡入淡出的电平 0-1
+  fadeTimer: number | null // 无 Web Audio 时的音量渐变
+  stopTimer: number | null // 淡出结束后暂停
+}
+
+const PRELOAD_AHEAD = 30 // 秒，剩余这么久时开始缓冲下一首，避免过早占用流量
+const SCHEDULE_AHEAD = 2 // 秒，剩余这么久时用定时器精确安排衔接
+const MIN_RAMP = 0.03 // 秒，瞬间切换时的最短渐变，避免爆音
+
+// 音量标准化：以播放列表中预先计算的 ReplayGain 为准；缺少该数据的歌曲才在第一次播放时用 analyser 粗测响度兜底，下次播放时生效
+const TARGET_LOUDNESS_DB = -18
+const MAX_BOOST_DB = 6
+const MEASURE_INTERVAL = 500 // 毫秒
+const MEASURE_SAMPLES = 40 // 有声采样数，约 20 秒
+const SILENCE_THRESHOLD = 1e-5 // 均方值，低于此视为静音，不计入响度
+const LOUDNESS_STORAGE_KEY = 'sprb-music-loudness'
+
+const dbToGain = (db: number) => Math.pow(10, db / 20)
+
+const loadLoudness = (): Record<string, number> => {
+  try {
+    const raw = localStorage.getItem(LOUDNESS_STORAGE_KEY)
+    return raw ? JSON.parse(raw) : {}
+  } catch (error) {
+    console.warn('读取音量标准化数据失败:', error)
+    return {}
+  }
+}
+
+const saveLoudness = (loudness: Record<string, number>) => {
+  try {
+    localStorage.setItem(LOUDNESS_STORAGE_KEY, JSON.stringify(loudness))
+  } catch (error) {
+    console.warn('保存音量标准化数据失败:', error)
+  }
+}
+
+type AudioContextConstructor = typeof AudioContext
+
+const getAudioContextClass = (): AudioContextConstructor | undefined =>
+  window.AudioContext ?? (window as unknown as { webkitAudioContext?: AudioContextConstructor }).webkitAudioContext
+
+export const createPlaybackEngine = (getCallbacks: () => PlaybackEngineCallbacks | null): PlaybackEngine => {
+  const AudioContextClass = getAudioContextClass()
+  const loudness = loadLoudness()
+  let context: AudioContext | null = null
+  let master: GainNode | null = null
+  let volume = 1
+  let crossfade = 0
+  let nextTrack: EngineTrack | null = null
+  let advanceTimer: number | null = null
+  let measureTimer: number | null = null
+  let measurement = { trackId: '', sum: 0, count: 0, peak: 0 }
+
+  const createDeck = (): Deck => {
+    const element = new Audio()
+    element.preload = 'metadata'
+    return { element, gain: null, analyser: null, track: null, normalization: 1, level: 1, fadeTimer: null, stopTimer: null }
+  }
+
+  const decks = [createDeck(), createDeck()]
+  let activeIndex = 0
+  const active = () => decks[activeIndex]
+  const idle = () => decks[1 - activeIndex]
+
+  // 优先使用数据中的 ReplayGain，其次是之前播放时测得的增益
+  const getNormalization = (track: EngineTrack) => {
+    const db = track.replayGain ?? loudness[track.id]
+    if (db === undefined) return 1
+    const gain = dbToGain(Math.min(db, MAX_BOOST_DB))
+    return track.peak ? Math.min(gain, 1 / track.peak) : gain
+  }
+
+  const getOutput = (deck: Deck) => deck.level * deck.normalization
+
+  // 调整 deck 电平；seconds 为 0 时立即生效
+  const rampDeck = (deck: Deck, level: number, seconds: number) => {
+    deck.level = level
+    const target = getOutput(deck)
+
+    if (deck.gain && context) {
+      const now = context.currentTime
+      const param = deck.gain.gain
+      param.cancelScheduledValues(now)
+      param.setValueAtTime(param.value, now)
+      param.linearRampToValueAtTime(target, now + Math.max(seconds, MIN_RAMP))
+      return
+    }
+
+    // 没有 Web Audio 时用定时器逐步调整 <audio> 的音量（最大为 1，无法放大）
+    if (deck.fadeTimer !== null) window.clearInterval(deck.fadeTimer)
+    deck.fadeTimer = null
+    const to = Math.min(1, target * volume)
+    if (seconds <= 0) {
+      deck.element.volume = to
+      return
+    }
+    const from = deck.element.volume
+    const startedAt = Date.now()
+    deck.fadeTimer = window.setInterval(() => {
+      const progress = Math.min(1, (Date.now() - startedAt) / (seconds * 1000))
+      deck.element.volume = from + (to - from) * progress
+      if (progress === 1 && deck.fadeTimer !== null) {
+        window.clearInterval(deck.fadeTimer)
+        deck.fadeTimer = null
+      }
+    }, 50)
+  }
+
+  // 第一次播放时（用户操作中）创建音频图：deck → 增益 → 主音量 → 输出，另接一路分析器测量响度
+  const ensureGraph = () => {
+    if (context || !AudioContextClass) return
+    try {
+      const audioContext = new AudioContextClass()
+      const masterGain = audioContext.createGain()
+      masterGain.gain.value = volume
+      masterGain.connect(audioContext.destination)
+      decks.forEach(deck => {
+        const source = audioContext.createMediaElementSource(deck.element)
+        deck.gain = audioContext.createGain()
+        deck.gain.gain.value = getOutput(deck)
+        deck.analyser = audioContext.createAnalyser()
+        deck.analyser.fftSize = 2048
+        source.connect(deck.gain)
+        source.connect(deck.analyser)
+        deck.gain.connect(masterGain)
+        deck.element.volume = 1
+      })
+      context = audioContext
+      master = masterGain
+    } catch (error) {
+      console.warn('初始化 Web Audio 失败，使用普通播放:', error)
+    }
+  }
+
+  const clearAdvanceTimer = () => {
+    if (advanceTimer !== null) window.clearTimeout(advanceTimer)
+    advanceTimer = null
+  }
+
+  const clearStopTimer = (deck: Deck) => {
+    if (deck.stopTimer !== null) window.clearTimeout(deck.stopTimer)
+    deck.stopTimer = null
+  }
+
+  const assignTrack = (deck: Deck, track: EngineTrack, preload: 'metadata' | 'auto') => {
+    clearStopTimer(deck)
+    deck.element.loop = false
+    deck.element.preload = preload
+    deck.normalization = getNormalization(track)
+    if (deck.track?.src === track.src) {
+      deck.track = track
+      return
+    }
+    deck.track = track
+    deck.element.src = track.src
+    deck.element.load()
+  }
+
+  const seekWhenReady = (element: HTMLAudioElement, time: number) => {
+    if (element.readyState >= HTMLMediaElement.HAVE_METADATA) {
+      element.currentTime = time
+      return
+    }
+    element.addEventListener('loadedmetadata', () => {
+      element.currentTime = time
+    }, { once: true })
+  }
+
+  const startDeck = async (deck: Deck) => {
+    ensureGraph()
+    if (context?.state === 'suspended') await context.resume()
+    await deck.element.play()
+  }
+
+  // 淡出后暂停，淡出期间该 deck 已不是当前 deck，不会触发回调
+  const fadeOutDeck = (deck: Deck, seconds: number) => {
+    clearStopTimer(deck)
+    rampDeck(deck, 0, seconds)
+    if (seconds <= 0) {
+      deck.element.pause()
+      return
+    }
+    deck.stopTimer = window.setTimeout(() => {
+      deck.stopTimer = null
+      deck.element.pause()
+    }, seconds * 1000 + 50)
+  }
+
+  const getFade = (deck: Deck, seconds: number) => {
+    const { duration } = deck.element
+    return Number.isFinite(duration) && duration > 0 ? Math.min(seconds, duration / 3) : seconds
+  }
+
+  const resetMeasurement = (track: EngineTrack) => {
+    measurement = { trackId: track.id, sum: 0, count: 0, peak: 0 }
+  }
+
+  // 把当前 deck 换成 incoming，并交叉淡入淡出
+  const switchTo = (incoming: Deck, fade: number, autoplay: boolean) => {
+    const outgoing = active()
+    activeIndex = decks.indexOf(incoming)
+    if (incoming.track) resetMeasurement(incoming.track)
+    getCallbacks()?.onDurationChange(incoming.element.duration || 0)
+
+    if (!autoplay) {
+      fadeOutDeck(outgoing, 0)
+      rampDeck(incoming, 1, 0)
+      return Promise.resolve()
+    }
+
+    const wasPlaying = !outgoing.element.paused
+    const seconds = wasPlaying ? fade : 0
+    rampDeck(incoming, seconds > 0 ? 0 : 1, 0)
+    const started = startDeck(incoming)
+    if (seconds > 0) rampDeck(incoming, 1, seconds)
+    if (wasPlaying) fadeOutDeck(outgoing, seconds)
+    return started
+  }
+
+  // 预加载的下一首开始播放，由定时器在当前歌曲剩余 crossfade 秒时触发
+  const advance = () => {
+    clearAdvanceTimer()
+    const track = nextTrack
+    const current = active()
+    if (!track || current.element.loop) return
+    const incoming = idle()
+    assignTrack(incoming, track, 'auto')
+    incoming.element.currentTime = 0
+    nextTrack = null
+    switchTo(incoming, getFade(current, crossfade), true).catch(error => getCallbacks()?.onError(error))
+    getCallbacks()?.onAdvance(track)
+  }
+
+  const preloadNext = () => {
+    const deck = idle()
+    if (!nextTrack || deck.track?.id === nextTrack.id) return
+    assignTrack(deck, nextTrack, 'auto')
+  }
+
+  const sampleLoudness = () => {
+    const deck = active()
+    const track = deck.track
+    if (!deck.analyser || !track || deck.element.paused) return
+    if (track.replayGain !== undefined || loudness[track.id] !== undefined) return
+    if (measurement.trackId !== track.id) resetMeasurement(track)
+
+    const data = new Float32Array(deck.analyser.fftSize)
+    deck.analyser.getFloatTimeDomainData(data)
+    let sum = 0
+    let peak = 0
+    data.forEach(value => {
+      sum += value * value
+      peak = Math.max(peak, Math.abs(value))
+    })
+    const meanSquare = sum / data.length
+    // 前奏、间奏的静音不计入响度
+    if (meanSquare < SILENCE_THRESHOLD) return
+
+    measurement.sum += meanSquare
+    measurement.count += 1
+    measurement.peak = Math.max(measurement.peak, peak)
+    if (measurement.count < MEASURE_SAMPLES) return
+
+    const measuredDb = 10 * Math.log10(measurement.sum / measurement.count)
+    const peakLimitDb = -20 * Math.log10(measurement.peak)
+    const gainDb = Math.min(TARGET_LOUDNESS_DB - measuredDb, MAX_BOOST_DB, peakLimitDb)
+    loudness[track.id] = Math.round(gainDb * 10) / 10
+    saveLoudness(loudness)
+  }
+
+  const startMeasuring = () => {
+    if (measureTimer === null && context) measureTimer = window.setInterval(sampleLoudness, MEASURE_INTERVAL)
+  }
+
+  const stopMeasuring = () => {
+    if (measureTimer !== null) window.clearInterval(measureTimer)
+    measureTimer = null
+  }
+
+  // 两个 deck 共用事件处理，只响应当前 deck 的事件
+  const listeners = decks.map(deck => {
+    const isActive = () => deck === active()
+    const handlers: Record<string, () => void> = {
+      play: () => {
+        if (!isActive()) return
+        startMeasuring()
+        getCallbacks()?.onPlay()
+      },
+      pause: () => {
+        if (!isActive()) return
+        stopMeasuring()
+        clearAdvanceTimer()
+        getCallbacks()?.onPause()
+      },
+      loadedmetadata: () => {
+        if (isActive()) getCallbacks()?.onDurationChange(deck.element.duration || 0)
+      },
+      timeupdate: () => {
+        if (!isActive()) return
+        const { currentTime, duration, paused, loop } = deck.element
+        getCallbacks()?.onTimeUpdate(currentTime)
+        if (!nextTrack || loop || !Number.isFinite(duration)) return
+
+        const remaining = duration - currentTime
+        if (remaining <= PRELOAD_AHEAD) preloadNext()
+        const fade = getFade(deck, crossfade)
+        if (advanceTimer === null && !paused && remaining <= fade + SCHEDULE_AHEAD) {
+          advanceTimer = window.setTimeout(advance, Math.max(0, (remaining - fade) * 1000))
+        }
+      },
+      // 页面在后台时定时器可能被延迟，播放结束时直接衔接
+      ended: () => {
+        if (!isActive()) return
+        if (nextTrack) advance()
+        else getCallbacks()?.onEnded()
+      },
+      error: () => {
+        if (isActive()) {
+          getCallbacks()?.onError(deck.element.error)
+        } else {
+          console.warn('预加载下一首失败:', deck.track?.src)
+          deck.track = null
+        }
+      }
+    }
+    Object.entries(handlers).forEach(([event, handler]) => deck.element.addEventListener(event, handler))
+    return handlers
+  })
+
+  const load = async (track: EngineTrack, { autoplay = false, startAt, fade = 0 }: LoadOptions = {}) => {
+    clearAdvanceTimer()
+    const current = active()
+
+    // 同一首歌只调整位置
+    if (current.track?.id === track.id) {
+      if (startAt !== undefined) seekWhenReady(current.element, startAt)
+      if (autoplay) await startDeck(current)
+      return
+    }
+
+    const incoming = idle()
+    assignTrack(incoming, track, autoplay ? 'auto' : 'metadata')
+    seekWhenReady(incoming.element, startAt ?? 0)
+    getCallbacks()?.onTimeUpdate(startAt ?? 0)
+    await switchTo(incoming, fade, autoplay)
+  }
+
+  const setNext = (track: EngineTrack | null) => {
+    const current = active()
+    current.element.loop = Boolean(track && current.track?.id === track.id)
+    nextTrack = current.element.loop ? null : track
+    clearAdvanceTimer()
+  }
+
+  const play = async () => {
+    const deck = active()
+    if (!deck.track) return
+    rampDeck(deck, 1, 0)
+    await startDeck(deck)
+  }
+
+  const pause = () => {
+    clearAdvanceTimer()
+    decks.forEach(deck => {
+      clearStopTimer(deck)
+      deck.element.pause()
+    })
+  }
+
+  const seek = (time: number) => {
+    clearAdvanceTimer()
+    active().element.currentTime = time
+  }
+
+  const setVolume = (value: number) => {
+    volume = value
+    if (master) {
+      master.gain.value = value
+    } else {
+      decks.forEach(deck => {
+        deck.element.volume = Math.min(1, getOutput(deck) * value)
+      })
+    }
+  }
+
+  const setCrossfade = (seconds: number) => {
+    crossfade = Math.max(0, seconds)
+    clearAdvanceTimer()
+  }
+
+  const getCurrentTime = () => active().element.currentTime
+
+  const destroy = () => {
+    clearAdvanceTimer()
+    stopMeasuring()
+    decks.forEach((deck, index) => {
+      clearStopTimer(deck)
+      if (deck.fadeTimer !== null) window.clearInterval(deck.fadeTimer)
+      Object.entries(listeners[index]).forEach(([event, handler]) => deck.element.removeEventListener(event, handler))
+      deck.element.pause()
+      deck.element.removeAttribute('src')
+      deck.element.load()
+    })
+    context?.close().catch(error => console.warn('关闭 Web Audio 失败:', error))
+  }
+
+  return { load, setNext, play, pause, seek, setVolume, setCrossfade, getCurrentTime, destroy }
+}
@@ -0,0 +1,131 @@
+// 到达提示：判断用户是否进入打卡点的到达范围，并按离打卡点的远近调整定位采样以节省电量
+import { GeoPoint, getDistance } from './geo'
+import { islandDefinitions } from './islandData'
+
+export interface ArrivalPoint {
+  islandId: string
+  spotId: string
+  location: GeoPoint
+  radius: number // 米
+}
+
+export interface NearbySpot extends ArrivalPoint {
+  distance: number // 米
+}
+
+// 定位采样档位：离打卡点越近，定位越精确、越频繁
+export type SamplingMode = 'far' | 'approaching' | 'near'
+
+interface SamplingProfile {
+  options: PositionOptions
+  interval: number // 两次处理定位结果的最短间隔（毫秒）
+}
+
+export const samplingProfiles: Record<SamplingMode, SamplingProfile> = {
+  // 不在任何岛屿附近：只用基站/Wi-Fi 粗定位，允许使用几分钟前的缓存结果
+  far: {
+    options: { enableHighAccuracy: false, maximumAge: 5 * 60 * 1000, timeout: 60 * 1000 },
+    interval: 60 * 1000
+  },
+  approaching: {
+    options: { enableHighAccuracy: false, maximumAge: 30 * 1000, timeout: 30 * 1000 },
+    interval: 15 * 1000
+  },
+  near: {
+    options: { enableHighAccuracy: true, maximumAge: 5 * 1000, timeout: 20 * 1000 },
+    interval: 3 * 1000
+  }
+}
+
+const APPROACHING_DISTANCE = 3000
+const NEAR_DISTANCE = 500
+
+// 离开到达范围的这个倍数后才会再次提示，避免在边界附近反复弹出
+export const REARM_FACTOR = 1.5
+
+// 精度比这更差的定位结果（米）只用于调整采样档位，不用于判断到达
+export const MAX_ARRIVAL_ACCURACY = 100
+
+export const arrivalPoints: ArrivalPoint[] = islandDefinitions.flatMap(island =>
+  island.spots.flatMap(spot => spot.arrival
+    ? [{
+        islandId: island.id,
+        spotId: spot.id,
+        location: { lat: spot.arrival.lat, lng: spot.arrival.lng },
+        radius: spot.arrival.radius
+      }]
+    : [])
+)
+
+export const getArrivalKey = (point: ArrivalPoint) => `${point.islandId}/${point.spotId}`
+
+// 按距离从近到远排列
+export const getNearbySpots = (position: GeoPoint, points: ArrivalPoint[] = arrivalPoints): NearbySpot[] =>
+  points
+    .map(point => ({ ...point, distance: getDistance(position, point.location) }))
+    .sort((a, b) => a.distance - b.distance)
+
+// 以到最近打卡点范围边缘的距离决定采样档位
+export const getSamplingMode = (nearest: NearbySpot | null): SamplingMode => {
+  if (!nearest) return 'far'
+  const distance = nearest.distance - nearest.radius
+  if (distance > APPROACHING_DISTANCE) return 'far'
+  return distance > NEAR_DISTANCE ? 'approaching' : 'near'
+}
+
+const ENABLED_STORAGE_KEY = 'sprb-proximity-enabled'
+// 模拟定位只在当前标签页有效，关闭页面后恢复真实定位
+const SIMULATION_STORAGE_KEY = 'sprb-simulated-location'
+const SIMULATOR_FLAG = 'simulate-location'
+
+export const loadProximityEnabled = () => {
+  try {
+    return localStorage.getItem(ENABLED_STORAGE_KEY) === 'true'
+  } catch (error) {
+    console.warn('读取到达提醒设置失败:', error)
+    return false
+  }
+}
+
+export const saveProximityEnabled = (enabled: boolean) => {
+  try {
+    localStorage.setItem(ENABLED_STORAGE_KEY, String(enabled))
+  } catch (error) {
+    console.warn('保存到达提醒设置失败:', error)
+  }
+}
+
+export const loadSimulatedLocation = (): GeoPoint | null => {
+  try {
+    const raw = sessionStorage.getItem(SIMULATION_STORAGE_KEY)
+    if (!raw) return null
+    const { lat, lng } = JSON.parse(raw) as GeoPoint
+    return Number.isFinite(lat) && Number.isFinite(lng) ? { lat, lng } : null
+  } catch (error) {
+    console.warn('读取模拟定位失败:', error)
+    return null
+  }
+}
+
+export const saveSimulatedLocation = (location: GeoPoint | null) => {
+  try {
+    if (location) sessionStorage.setItem(SIMULATION_STORAGE_KEY, JSON.stringify(location))
+    else sessionStorage.removeItem(SIMULATION_STORAGE_KEY)
+  } catch (error) {
+    console.warn('保存模拟定位失败:', error)
+  }
+}
+
+// 模拟定位面板：开发环境下始终显示；线上访问任意页面时带上 ?simulate-location 即可在本标签页中开启
+export const isLocationSimulatorEnabled = () => {
+  if (import.meta.env.DEV) return true
+  try {
+    if (new URLSearchParams(window.location.search).has(SIMULATOR_FLAG)) {
+      sessionStorage.setItem(SIMULATOR_FLAG, 'true')
+    }
+    return sessionStorage.getItem(SIMULATOR_FLAG) === 'true'
+  } catch (error) {
+    console.warn('读取模拟定位开关失败:', error)
+    return false
+  }
+}
@@ -0,0 +1,305 @@
+// 全站搜索：索引交通攻略卡片、路线、巡礼清单、岛屿介绍、地标和打卡点
+// 匹配时统一全半角、片假名/平假名与日文汉字写法，并支持拼音（全拼/首字母）和罗马字
+import { pinyin } from 'pinyin-pro'
+import readingData from '../data/search/readings.json'
+import { TrafficCard } from './trafficCards'
+import { getTrafficPath, trafficCategories, trafficRoutes } from './trafficRoutes'
+import { getTripSections, loadChecklistState } from './checklist'
+import { IslandParagraph, islandDefinitions, localizeIsland } from './islandData'
+import { getIslandPath } from './islandRoutes'
+import { markdownToPlainText } from './markdown'
+import { DEFAULT_LOCALE, Locale, translate } from './i18n'
+
+export type SearchEntryKind = 'card' | 'route' | 'checklist' | 'island' | 'guide' | 'landmark' | 'spot'
+
+export interface SearchEntry {
+  id: string
+  kind: SearchEntryKind
+  title: string
+  context: string // 所在位置，如「直岛 · 打卡点」
+  content: string // 纯文本正文，用于全文匹配与摘要
+  icon: string
+  path: string // 深链接，格式见 getTrafficPath / getIslandPath
+}
+
+export interface SearchResult {
+  entry: SearchEntry
+  score: number
+  snippet: string
+}
+
+interface IndexedEntry {
+  entry: SearchEntry
+  title: string
+  readings: string[] // 拼音全拼、假名与罗马字
+  initials: string // 拼音首字母
+  content: string
+}
+
+export type SearchIndex = IndexedEntry[]
+
+const kanaAliases: Record<string, string[]> = readingData.aliases
+const variantChars: Record<string, string> = readingData.variants
+
+const SNIPPET_RADIUS = 24
+const IGNORED_CHARS = /[\s・･\-_/|,.，。、：:;；()（）【】「」『』"'“”‘’!?！？→~〜]+/g
+
+const kanaRomaji: Record<string, string> = {
+  あ: 'a', い: 'i', う: 'u', え: 'e', お: 'o',
+  か: 'ka', き: 'ki', く: 'ku', け: 'ke', こ: 'ko',
+  が: 'ga', ぎ: 'gi', ぐ: 'gu', げ: 'ge', ご: 'go',
+  さ: 'sa', し: 'shi', す: 'su', せ: 'se', そ: 'so',
+  ざ: 'za', じ: 'ji', ず: 'zu', ぜ: 'ze', ぞ: 'zo',
+  た: 'ta', ち: 'chi', つ: 'tsu', て: 'te', と: 'to',
+  だ: 'da', ぢ: 'ji', づ: 'zu', で: 'de', ど: 'do',
+  な: 'na', に: 'ni', ぬ: 'nu', ね: 'ne', の: 'no',
+  は: 'ha', ひ: 'hi', ふ: 'fu', へ: 'he', ほ: 'ho',
+  ば: 'ba', び: 'bi', ぶ: 'bu', べ: 'be', ぼ: 'bo',
+  ぱ: 'pa', ぴ: 'pi', ぷ: 'pu', ぺ: 'pe', ぽ: 'po',
+  ま: 'ma', み: 'mi', む: 'mu', め: 'me', も: 'mo',
+  や: 'ya', ゆ: 'yu', よ: 'yo',
+  ら: 'ra', り: 'ri', る: 'ru', れ: 're', ろ: 'ro',
+  わ: 'wa', を: 'o', ん: 'n'
+}
+
+const smallKana: Record<string, string> = { ゃ: 'a', ゅ: 'u', ょ: 'o', ぁ: 'a', ぃ: 'i', ぅ: 'u', ぇ: 'e', ぉ: 'o' }
+
+// 平假名转罗马字（平文式），拗音与促音按常见写法处理
+export const kanaToRomaji = (kana: string) => {
+  let result = ''
+  let doubleNext = false
+  Array.from(kana).forEach(char => {
+    if (char === 'っ') {
+      doubleNext = true
+      return
+    }
+    if (char === 'ー') {
+      result += result.slice(-1)
+      return
+    }
+    let syllable = kanaRomaji[char]
+    if (!syllable && smallKana[char]) {
+      // きゃ → kya、しゃ → sha：替换前一个音节的元音
+      const previous = result.slice(-1) === 'i' ? result.slice(0, -1) : result
+      const yoon = /(sh|ch|j)$/.test(previous) ? smallKana[char] : `y${smallKana[char]}`
+      result = previous + yoon
+      return
+    }
+    syllable = syllable ?? char
+    if (doubleNext) {
+      syllable = (syllable.startsWith('ch') ? 't' : syllable[0]) + syllable
+      doubleNext = false
+    }
+    result += syllable
+  })
+  return result
+}
+
+// 统一全半角、大小写、日文汉字写法，片假名转平假名并去掉标点空格
+export const normalizeSearchText = (text: string) =>
+  Array.from(text.normalize('NFKC').toLowerCase())
+    .map(char => variantChars[char] ?? char)
+    .join('')
+    .replace(/[ァ-ヶ]/g, char => String.fromCharCode(char.charCodeAt(0) - 0x60))
+    .replace(IGNORED_CHARS, '')
+
+const hasKana = (text: string) => /[ぁ-ゖ]/.test(text)
+
+// 长音省略后的罗马字，如 おおさか → osaka
+const collapseLongVowels = (romaji: string) => romaji.replace(/([aeiou])\1/g, '$1').replace(/ou/g, 'o')
+
+// 拼音由 pinyin-pro 按词组给出（多音字依上下文），ü 写作 v；非汉字逐字保留
+const getPinyin = (text: string) => {
+  const syllables = pinyin(normalizeSearchText(text), { toneType: 'none', type: 'array', v: true })
+  return {
+    full: syllables.join(''),
+    initials: syllables.map(syllable => syllable[0]).join('')
+  }
+}
+
+// 标题中包含的别名对应的假名读音（及日文写法）与罗马字
+const getKanaReadings = (text: string) => {
+  const normalized = normalizeSearchText(text)
+  return Object.entries(kanaAliases)
+    .filter(([alias]) => normalized.includes(normalizeSearchText(alias)))
+    .flatMap(([, readings]) => readings.map(normalizeSearchText))
+    .flatMap(kana => {
+      const romaji = kanaToRomaji(kana)
+      return [kana, romaji, collapseLongVowels(romaji)]
+    })
+}
+
+const indexEntry = (entry: SearchEntry): IndexedEntry => {
+  const pinyin = getPinyin(entry.title)
+  return {
+    entry,
+    title: normalizeSearchText(entry.title),
+    readings: [pinyin.full, ...getKanaReadings(entry.title)],
+    initials: pinyin.initials,
+    content: normalizeSearchText(`${entry.context}\n${entry.content}`)
+  }
+}
+
+const paragraphsToText = (paragraphs: IslandParagraph[]) =>
+  paragraphs.map(paragraph => [paragraph.text, ...(paragraph.lines ?? []).map(line => line.text)].join('\n')).join('\n')
+
+const getCardEntries = (cards: TrafficCard[]): SearchEntry[] =>
+  cards.map(card => {
+    const route = trafficRoutes.find(item => item.category === card.category && item.id === card.subcategory)
+    const category = trafficCategories.find(item => item.id === card.category)
+    const legsText = (card.legs ?? []).map(leg => [leg.from, leg.to, leg.line, leg.platform, leg.ticketTip, leg.note].filter(Boolean).join(' '))
+    return {
+      id: `card-${card.id}`,
+      kind: 'card',
+      title: card.title,
+      context: [category?.label ?? card.category, route?.label ?? card.subcategory].filter(Boolean).join(' · '),
+      content: [markdownToPlainText(card.content), ...legsText].join('\n'),
+      icon: card.icon || '🚆',
+      path: getTrafficPath(card.category, card.subcategory, { card: card.id })
+    }
+  })
+
+const getRouteEntries = (): SearchEntry[] =>
+  trafficRoutes.map(route => ({
+    id: `route-${route.category}-${route.id}`,
+    kind: 'route',
+    title: route.label,
+    context: trafficCategories.find(item => item.id === route.category)?.label ?? route.category,
+    content: [route.origin, route.airport, route.carrier, ...route.legs.map(leg => `${leg.from} ${leg.to} ${leg.line ?? ''}`)].join('\n'),
+    icon: '🧭',
+    path: getTrafficPath(route.category, route.id)
+  }))
+
+const getChecklistEntries = (): SearchEntry[] => {
+  const state = loadChecklistState()
+  const trip = state.trips.find(item => item.id === state.activeTripId) ?? state.trips[0]
+  return getTripSections(trip).flatMap(section => section.items.map(item => ({
+    id: `checklist-${item.id}`,
+    kind: 'checklist' as const,
+    title: item.text,
+    context: `${trip.name} · ${section.title}`,
+    content: section.title,
+    icon: section.icon,
+    path: getTrafficPath('checklist', null, { item: item.id })
+  })))
+}
+
+const getIslandEntries = (locale: Locale): SearchEntry[] =>
+  islandDefinitions.map(island => localizeIsland(island, locale)).flatMap(island => [
+    {
+      id: `island-${island.id}`,
+      kind: 'island' as const,
+      title: island.name,
+      context: island.subtitle,
+      content: [island.overview.description, paragraphsToText(island.intro)].join('\n'),
+      icon: island.headerIcon.emoji ?? '🏝️',
+      path: getIslandPath(island.id)
+    },
+    {
+      id: `guide-${island.id}`,
+      kind: 'guide' as const,
+      title: translate(locale, 'search.guideTitle', { name: island.name }),
+      context: island.name,
+      content: paragraphsToText(island.guide),
+      icon: '📖',
+      path: getIslandPath(island.id, { tab: 'guide' })
+    },
+    ...island.landmarks.map(landmark => ({
+      id: `landmark-${island.id}-${landmark.id}`,
+      kind: 'landmark' as const,
+      title: landmark.title,
+      context: translate(locale, 'search.landmarkContext', { name: island.name }),
+      content: [landmark.tooltip?.desc, landmark.detail?.description, landmark.gallery?.title].filter(Boolean).join('\n'),
+      icon: landmark.emoji ?? '📍',
+      path: getIslandPath(island.id, { focus: landmark.id })
+    })),
+    ...island.spots.map(spot => ({
+      id: `spot-${island.id}-${spot.id}`,
+      kind: 'spot' as const,
+      title: spot.title,
+      context: translate(locale, 'search.spotContext', { name: island.name }),
+      content: [spot.description, ...spot.images.map(image => image.label)].join('\n'),
+      icon: '📸',
+      path: getIslandPath(island.id, { spot: spot.id })
+    }))
+  ])
+
+export const buildSearchIndex = (cards: TrafficCard[], locale: Locale = DEFAULT_LOCALE): SearchIndex =>
+  [
+    ...getIslandEntries(locale),
+    ...getCardEntries(cards),
+    ...getRouteEntries(),
+    ...getChecklistEntries()
+  ].map(indexEntry)
+
+// 单个关键词的得分，未匹配返回 0
+const scoreToken = (item: IndexedEntry, token: string, romaji: string[]): number => {
+  const candidates = [token, ...romaji]
+  if (item.title.startsWith(token)) return 100
+  if (item.title.includes(token)) return 80
+  if (item.readings.some(reading => candidates.some(candidate => reading.startsWith(candidate)))) return 70
+  if (item.readings.some(reading => candidates.some(candidate => reading.includes(candidate)))) return 60
+  if (/^[a-z]{2,}$/.test(token) && item.initials.startsWith(token)) return 50
+  if (item.content.includes(token)) return 20
+  return 0
+}
+
+const getSnippet = (content: string, query: string) => {
+  const text = content.replace(/\s+/g, ' ').trim()
+  const index = query ? text.toLowerCase().indexOf(query.toLowerCase()) : -1
+  if (index < 0) return text.length > SNIPPET_RADIUS * 2 ? `${text.slice(0, SNIPPET_RADIUS * 2)}…` : text
+  const start = Math.max(0, index - SNIPPET_RADIUS)
+  const end = Math.min(text.length, index + query.length + SNIPPET_RADIUS)
+  return `${start > 0 ? '…' : ''}${text.slice(start, end)}${end < text.length ? '…' : ''}`
+}
+
+// 空格分隔的多个关键词需全部命中
+export const searchIndex = (index: SearchIndex, query: string, limit = 30): SearchResult[] => {
+  const rawTokens = query.trim().split(/\s+/).filter(Boolean)
+  const tokens = rawTokens.map(normalizeSearchText).filter(Boolean)
+  if (tokens.length === 0) return []
+
+  const romajiTokens = tokens.map(token => {
+    if (!hasKana(token)) return []
+    const romaji = kanaToRomaji(token)
+    return [romaji, collapseLongVowels(romaji)]
+  })
+
+  return index
+    .map(item => {
+      const scores = tokens.map((token, i) => scoreToken(item, token, romajiTokens[i]))
+      return { item, score: scores.every(score => score > 0) ? scores.reduce((sum, score) => sum + score, 0) : 0 }
+    })
+    .filter(result => result.score > 0)
+    .sort((a, b) => b.score - a.score || a.item.entry.title.length - b.item.entry.title.length)
+    .slice(0, limit)
+    .map(({ item, score }) => ({
+      entry: item.entry,
+      score,
+      snippet: getSnippet(item.entry.content, rawTokens[0])
+    }))
+}
+
+const HIGHLIGHT_CLASS = 'search-highlight'
+const HIGHLIGHT_MS = 2400
+const FOCUS_RETRY_MS = 300
+const FOCUS_MAX_ATTEMPTS = 30 // 目标可能还在加载或播放入场动画
+
+// 搜索结果跳转后滚动到目标元素并短暂高亮，元素尚未渲染时定时重试；返回取消函数
+export const focusSearchTarget = (elementId: string, delay = FOCUS_RETRY_MS) => {
+  let attempts = 0
+  let timer = 0
+  const tryFocus = () => {
+    const element = document.getElementById(elementId)
+    if (!element) {
+      attempts++
+      if (attempts < FOCUS_MAX_ATTEMPTS) timer = window.setTimeout(tryFocus, FOCUS_RETRY_MS)
+      return
+    }
+    element.scrollIntoView({ behavior: 'smooth', block: 'center' })
+    element.classList.add(HIGHLIGHT_CLASS)
+    timer = window.setTimeout(() => element.classList.remove(HIGHLIGHT_CLASS), HIGHLIGHT_MS)
+  }
+  timer = window.setTimeout(tryFocus, delay)
+  return () => window.clearTimeout(timer)
+}
@@ -0,0 +1,173 @@
+// 交通攻略卡片：优先读取后端 /api/traffic-cards，连不上时依次使用本地缓存和随站点发布的 JSON
+import { getApiErrorMessage } from './apiError'
+
+const API_URL = '/api/traffic-cards'
+const BUNDLED_URL = '/trafficdata/InDeparture/traffic_cards.json'
+const CACHE_KEY = 'sprb-traffic-cards'
+const REQUEST_TIMEOUT_MS = 8000
+
+export type TransferMode = 'flight' | 'train' | 'bus' | 'ferry' | 'walk'
+
+// 换乘路线中的一段交通，卡片与路线目录共用
+export interface TransferLeg {
+  mode: TransferMode
+  from: string
+  to: string
+  line?: string // 线路/车次/航班名称
+  lineColor?: string // 线路代表色
+  platform?: string // 出发站台或登机口
+  durationMinutes?: number // 参考用时
+  fareJPY?: number // 参考票价（日元）
+  ticketTip?: string // 购票提示
+  note?: string
+}
+
+export interface TrafficCard {
+  id: number
+  title: string
+  icon: string
+  content: string
+  category: string
+  subcategory?: string | null
+  order_index: number
+  legs?: TransferLeg[] | null // 有结构化换乘信息的卡片以路线时间轴展示
+  created_at?: string
+  updated_at?: string
+}
+
+// api：刚从后端取得；cache：后端不可用，使用上次成功的结果；bundled：使用站点内置的静态数据
+export type TrafficCardSource = 'api' | 'cache' | 'bundled'
+
+export interface TrafficCardResult {
+  cards: TrafficCard[]
+  source: TrafficCardSource
+  fetchedAt: string | null // 数据从后端取得的时间，内置数据为 null
+}
+
+interface TrafficCardCache {
+  cards: TrafficCard[]
+  fetchedAt: string
+}
+
+const isTrafficCard = (value: unknown): value is TrafficCard => {
+  const card = value as TrafficCard
+  return typeof card === 'object' && card !== null &&
+    typeof card.id === 'number' &&
+    typeof card.title === 'string' &&
+    typeof card.content === 'string' &&
+    typeof card.category === 'string'
+}
+
+const parseCards = (data: unknown): TrafficCard[] => {
+  if (!Array.isArray(data) || !data.every(isTrafficCard)) {
+    throw new Error('交通卡片数据格式错误')
+  }
+  return data.map(card => ({
+    ...card,
+    icon: card.icon ?? '',
+    order_index: card.order_index ?? 0,
+    legs: Array.isArray(card.legs) && card.legs.length > 0 ? card.legs : null
+  }))
+}
+
+const fetchJson = async (url: string): Promise<unknown> => {
+  const controller = new AbortController()
+  const timer = window.setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS)
+  try {
+    const response = await fetch(url, { signal: controller.signal, cache: 'no-cache' })
+    if (!response.ok) {
+      throw new Error(`请求失败: ${response.status}`)
+    }
+    return await response.json()
+  } finally {
+    window.clearTimeout(timer)
+  }
+}
+
+export const hasTransferLegs = (card: TrafficCard) => !!card.legs && card.legs.length > 0
+
+export const sortTrafficCards = (cards: TrafficCard[]) =>
+  [...cards].sort((a, b) => a.order_index - b.order_index)
+
+export const readCachedTrafficCards = (): TrafficCardResult | null => {
+  try {
+    const raw = localStorage.getItem(CACHE_KEY)
+    if (!raw) return null
+    const cache = JSON.parse(raw) as TrafficCardCache
+    return { cards: parseCards(cache.cards), source: 'cache', fetchedAt: cache.fetchedAt }
+  } catch (error) {
+    console.warn('读取交通卡片缓存失败:', error)
+    return null
+  }
+}
+
+const writeCache = (cards: TrafficCard[], fetchedAt: string) => {
+  try {
+    localStorage.setItem(CACHE_KEY, JSON.stringify({ cards, fetchedAt }))
+  } catch (error) {
+    console.warn('保存交通卡片缓存失败:', error)
+  }
+}
+
+export const fetchTrafficCards = async (): Promise<TrafficCardResult> => {
+  try {
+    const cards = parseCards(await fetchJson(API_URL))
+    const fetchedAt = new Date().toISOString()
+    writeCache(cards, fetchedAt)
+    return { cards, source: 'api', fetchedAt }
+  } catch (error) {
+    console.warn('交通卡片接口不可用，改用备用数据:', error)
+  }
+
+  const cached = readCachedTrafficCards()
+  if (cached) return cached
+
+  const cards = parseCards(await fetchJson(BUNDLED_URL))
+  return { cards, source: 'bundled', fetchedAt: null }
+}
+
+// 以下为管理后台使用的写入接口，需要管理员令牌
+export type TrafficCardInput = Omit<TrafficCard, 'id' | 'created_at' | 'updated_at'>
+
+const sendCardRequest = async (url: string, method: string, token: string, body?: unknown) => {
+  const response = await fetch(url, {
+    method,
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${token}`
+    },
+    body: body ? JSON.stringify(body) : undefined
+  })
+  if (!response.ok) {
+    throw new Error(await getApiErrorMessage(response, `保存失败: ${response.status}`))
+  }
+  return response.json()
+}
+
+export const createTrafficCard = async (card: TrafficCardInput, token: string): Promise<number> => {
+  const result: { id: number } = await sendCardRequest(API_URL, 'POST', token, card)
+  return result.id
+}
+
+export const updateTrafficCard = async (id: number, card: TrafficCardInput, token: string) => {
+  await sendCardRequest(`${API_URL}/${id}`, 'PUT', token, card)
+}
+
+export const deleteTrafficCard = async (id: number, token: string) => {
+  await sendCardRequest(`${API_URL}/${id}`, 'DELETE', token)
+}
+
+// 一次提交整组卡片的新顺序，后端在同一事务中保存
+export const reorderTrafficCards = async (items: Array<{ id: number; order_index: number }>, token: string) => {
+  await sendCardRequest(`${API_URL}/order`, 'PUT', token, { items })
+}
+
+export const toTrafficCardInput = (card: TrafficCard): TrafficCardInput => ({
+  title: card.title,
+  icon: card.icon,
+  content: card.content,
+  category: card.category,
+  subcategory: card.subcategory ?? null,
+  order_index: card.order_index,
+  legs: card.legs ?? null
+})
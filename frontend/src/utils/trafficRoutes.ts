@@ -0,0 +1,91 @@
+// 出行路线目录：数据来自 data/traffic/routes.json，子标签按卡片数据中出现的 category/subcategory 自动生成
+import routeData from '../data/traffic/routes.json'
+import { TrafficCard, TransferLeg, sortTrafficCards } from './trafficCards'
+import { DEFAULT_LOCALE, Locale, Translations, localizeFields, translate } from './i18n'
+
+export interface TrafficRoute {
+  id: string // 与卡片的 subcategory 对应
+  category: string
+  label: string
+  origin: string // 出发城市
+  airport: string // 出发机场/车站
+  carrier: string
+  legs: TransferLeg[]
+  translations?: Translations<Pick<TrafficRoute, 'label' | 'origin' | 'airport' | 'carrier'>>
+}
+
+export interface TrafficCategory {
+  id: string
+  label: string
+  title?: string // 攻略标题，默认使用 label
+  translations?: Translations<Pick<TrafficCategory, 'label' | 'title'>>
+}
+
+// 一个子标签：目录中的路线，或只在卡片数据中出现、尚未编目的 subcategory
+export interface RouteTab {
+  id: string
+  label: string
+  route?: TrafficRoute
+  cards: TrafficCard[]
+}
+
+export const trafficCategories: TrafficCategory[] = routeData.categories
+export const trafficRoutes = routeData.routes as TrafficRoute[]
+
+export const getTrafficRoute = (category: string, id: string) =>
+  trafficRoutes.find(route => route.category === category && route.id === id)
+
+// 目录中的大类，加上卡片数据中出现但尚未编目的 category
+export const getTrafficCategories = (cards: TrafficCard[], locale: Locale = DEFAULT_LOCALE): TrafficCategory[] => {
+  const extra = Array.from(new Set(cards.map(card => card.category)))
+    .filter(id => !trafficCategories.some(category => category.id === id))
+    .map(id => ({ id, label: id }))
+  return [...trafficCategories.map(category => localizeFields(category, locale)), ...extra]
+}
+
+// 有卡片的路线排在前面（按目录顺序），没有卡片的目录路线放在最后作为“即将开放”
+export const getRouteTabs = (category: string, cards: TrafficCard[], locale: Locale = DEFAULT_LOCALE): RouteTab[] => {
+  const categoryCards = cards.filter(card => card.category === category && card.subcategory)
+  const subcategories = Array.from(new Set(categoryCards.map(card => card.subcategory as string)))
+  const catalogued = trafficRoutes.filter(route => route.category === category)
+
+  const toTab = (id: string): RouteTab => {
+    const catalogRoute = getTrafficRoute(category, id)
+    const route = catalogRoute && localizeFields(catalogRoute, locale)
+    return {
+      id,
+      label: route?.label ?? id,
+      route,
+      cards: sortTrafficCards(categoryCards.filter(card => card.subcategory === id))
+    }
+  }
+
+  const available = [
+    ...catalogued.filter(route => subcategories.includes(route.id)).map(route => route.id),
+    ...subcategories.filter(id => !catalogued.some(route => route.id === id))
+  ]
+  const upcoming = catalogued.filter(route => !subcategories.includes(route.id)).map(route => route.id)
+  return [...available, ...upcoming].map(toTab)
+}
+
+export const getLegsDuration = (legs: TransferLeg[]) =>
+  legs.reduce((total, leg) => total + (leg.durationMinutes ?? 0), 0)
+
+export const getLegsFare = (legs: TransferLeg[]) =>
+  legs.reduce((total, leg) => total + (leg.fareJPY ?? 0), 0)
+
+export const formatDuration = (minutes: number, locale: Locale = DEFAULT_LOCALE) => {
+  const params = { hours: Math.floor(minutes / 60), minutes: minutes % 60 }
+  if (params.hours === 0) return translate(locale, 'format.minutes', params)
+  return params.minutes === 0
+    ? translate(locale, 'format.hours', params)
+    : translate(locale, 'format.hoursMinutes', params)
+}
+
+// 交通攻略页的 URL：/traffic/大类/路线，旅行预算与巡礼清单为 /traffic/budget、/traffic/checklist
+// 查询参数 card / item 用于定位到具体卡片或清单项
+export const getTrafficPath = (tab?: string, route?: string | null, params: Record<string, string | number> = {}) => {
+  const segments = ['traffic', tab, tab && route].filter((segment): segment is string => !!segment)
+  const query = new URLSearchParams(Object.entries(params).map(([key, value]) => [key, String(value)])).toString()
+  return `/${segments.map(encodeURIComponent).join('/')}${query ? `?${query}` : ''}`
+}
@@ -45,7 +45,9 @@ export default defineConfig(({ command, mode }) => {
             vendor: ['react', 'react-dom'],
             router: ['react-router-dom'],
             ui: ['styled-components', 'framer-motion'],
-            icons: ['react-icons']
+            icons: ['react-icons'],
+            editor: ['react-quill'],
+            pinyin: ['pinyin-pro']
           },
           chunkFileNames: 'assets/js/[name]-[hash].js',
           entryFileNames: 'assets/js/[name]-[hash].js',